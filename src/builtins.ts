@@ -121,3 +121,25 @@ export const BUILTINS: Record<string, BuiltinSymbol> = {
         parameters: []
     }
 };
+
+/**
+ * The namespaces of common .NET Framework types, used to resolve types imported by
+ * `Imports` statements or project imports and for the "Import ..." quick fix.
+ */
+export const COMMON_IMPORTS: Record<string, string> = {
+    'List': 'System.Collections.Generic',
+    'Dictionary': 'System.Collections.Generic',
+    'HashSet': 'System.Collections.Generic',
+    'Queue': 'System.Collections.Generic',
+    'Stack': 'System.Collections.Generic',
+    'File': 'System.IO',
+    'Directory': 'System.IO',
+    'Path': 'System.IO',
+    'Stream': 'System.IO',
+    'StreamReader': 'System.IO',
+    'StreamWriter': 'System.IO',
+    'StringBuilder': 'System.Text',
+    'Regex': 'System.Text.RegularExpressions',
+    'Task': 'System.Threading.Tasks',
+    'Thread': 'System.Threading'
+};
@@ -0,0 +1,126 @@
+/**
+ * Helpers shared by the command-line tools.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { findFiles, globToRegExp, pathKey } from '../utils/paths';
+import { VbSettings, normalizeSettings } from '../utils/settings';
+import { isSourceFile } from '../utils/workspaceIndex';
+
+/** The configuration file read from the working directory when `--config` is not given. */
+export const DEFAULT_CONFIG_FILE = '.vblintrc.json';
+
+/**
+ * An invalid command line or configuration (exit code 2).
+ */
+export class UsageError extends Error {}
+
+/**
+ * Gets the value of an option.
+ * @param args The arguments.
+ * @param index The index of the option.
+ * @returns The argument after the option.
+ */
+export function takeValue(args: string[], index: number): string {
+    if (index + 1 >= args.length) throw new UsageError(`Missing value for ${args[index]}.`);
+    return args[index + 1];
+}
+
+/**
+ * Reads the settings file. It contains the `simpleVB` settings section, e.g.
+ * `{ "diagnostics": { "maxLineLength": 100 } }`.
+ * @param configPath The settings file; if undefined, `.vblintrc.json` is used if it exists.
+ * @param cwd The working directory.
+ * @returns The settings (the defaults if there is no file).
+ */
+export async function loadSettings(
+    configPath: string | undefined,
+    cwd: string
+): Promise<VbSettings> {
+    const filePath = path.resolve(cwd, configPath ?? DEFAULT_CONFIG_FILE);
+    let text: string;
+    try {
+        text = await fs.promises.readFile(filePath, 'utf8');
+    } catch {
+        if (configPath === undefined) return normalizeSettings(undefined);
+        throw new UsageError(`Cannot read the configuration file '${configPath}'.`);
+    }
+    try {
+        return normalizeSettings(JSON.parse(text));
+    } catch (error) {
+        throw new UsageError(`Invalid configuration file '${filePath}': ${error}`);
+    }
+}
+
+/**
+ * Resolves the command-line paths and globs to source files.
+ * @param patterns Files, folders and globs.
+ * @param cwd The working directory.
+ * @returns The files to lint and the folders that provide their cross-file context.
+ */
+export async function findSourceFiles(
+    patterns: string[],
+    cwd: string
+): Promise<{ files: string[]; folders: string[] }> {
+    const files = new Map<string, string>();
+    const folders: string[] = [];
+    const add = (filePath: string) => files.set(pathKey(filePath), filePath);
+
+    for (const pattern of patterns) {
+        const segments = pattern.replace(/\\/g, '/').split('/');
+        const globIndex = segments.findIndex((s) => /[*?]/.test(s));
+        if (globIndex >= 0) {
+            // Search below the part of the pattern that has no wildcards
+            const base = path.resolve(cwd, segments.slice(0, globIndex).join('/') || '.');
+            const regex = globToRegExp(segments.slice(globIndex).join('/'));
+            folders.push(base);
+            for (const filePath of await findFiles(base, isSourceFile)) {
+                if (regex.test(path.relative(base, filePath).replace(/\\/g, '/'))) add(filePath);
+            }
+            continue;
+        }
+
+        const resolved = path.resolve(cwd, pattern);
+        const stat = await fs.promises.stat(resolved).catch(() => null);
+        if (!stat) {
+            throw new UsageError(`No such file or folder: '${pattern}'.`);
+        } else if (stat.isDirectory()) {
+            folders.push(resolved);
+            (await findFiles(resolved, isSourceFile)).forEach(add);
+        } else {
+            folders.push(path.dirname(resolved));
+            add(resolved);
+        }
+    }
+    return { files: Array.from(files.values()).sort(), folders };
+}
+
+/**
+ * Gets a `/`-separated path relative to the root directory.
+ * @param filePath The absolute path.
+ * @param root The root directory.
+ * @returns The relative path (or the absolute path for files outside the root).
+ */
+export function relativePath(filePath: string, root: string): string {
+    const relative = path.relative(root, filePath);
+    return (relative.startsWith('..') || path.isAbsolute(relative) ? filePath : relative).replace(
+        /\\/g,
+        '/'
+    );
+}
+
+/**
+ * Prints an error of a command-line tool.
+ * @param tool The name of the tool.
+ * @param error The error.
+ * @returns The exit code for errors (2).
+ */
+export function reportError(tool: string, error: unknown): number {
+    if (error instanceof UsageError) {
+        process.stderr.write(`${tool}: ${error.message}\n`);
+        process.stderr.write(`Run ${tool} --help for usage.\n`);
+    } else {
+        process.stderr.write(`${tool}: ${error}\n`);
+    }
+    return 2;
+}
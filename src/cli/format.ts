@@ -0,0 +1,278 @@
+#!/usr/bin/env node
+/**
+ * `simple-vb-format`: formats files with the formatter of the language server, in place or as
+ * a unified diff; `--check` verifies that files are formatted without changing them.
+ *
+ * Usage: simple-vb-format [options] [path | glob]...
+ */
+import * as fs from 'fs';
+import { pathToFileURL } from 'url';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { formatDocument } from '../features/formatting';
+import { LogLevel, Logger } from '../utils/logger';
+import { KEYWORD_CASINGS, KeywordCasing } from '../utils/settings';
+import {
+    DEFAULT_CONFIG_FILE,
+    UsageError,
+    findSourceFiles,
+    loadSettings,
+    relativePath,
+    reportError,
+    takeValue
+} from './common';
+
+const USAGE = `Usage: simple-vb-format [options] [path | glob]...
+
+Formats Visual Basic files in place. Folders are searched recursively; globs such as
+"src/**/*.vb" are matched relative to the working directory. Defaults to the working directory.
+
+Options:
+  --check                    Do not write files; exit with code 1 if a file is not formatted
+  --diff                     Do not write files; print a unified diff of the changes
+  --tab-size <n>             Spaces per indentation level (default: 4)
+  --use-tabs                 Indent with tabs instead of spaces
+  --keyword-casing <casing>  Keyword casing: ${KEYWORD_CASINGS.join(', ')}
+                             (default: the format.keywordCasing setting, or pascal)
+  -c, --config <file>        Settings file (default: ${DEFAULT_CONFIG_FILE} if it exists)
+  --verbose                  Log progress messages
+  -h, --help                 Show this help
+`;
+
+/** The number of unchanged lines shown around each change of a diff. */
+const DIFF_CONTEXT = 3;
+
+/**
+ * The command-line options.
+ */
+export interface FormatOptions {
+    /** Files, folders and globs to format. */
+    patterns: string[];
+    check: boolean;
+    diff: boolean;
+    tabSize: number;
+    useTabs: boolean;
+    /** Overrides the keyword casing of the settings file. */
+    keywordCasing?: KeywordCasing;
+    config?: string;
+    verbose: boolean;
+    help: boolean;
+}
+
+/**
+ * The formatting of one file.
+ */
+export interface FormatFileResult {
+    /** The absolute path of the file. */
+    path: string;
+    original: string;
+    formatted: string;
+}
+
+/**
+ * The result of a format run.
+ */
+export interface FormatResult {
+    results: FormatFileResult[];
+    /** 1 if `--check` found unformatted files, 0 otherwise. */
+    exitCode: number;
+}
+
+/**
+ * Parses the command-line arguments.
+ * @param args The arguments (without the node executable and script).
+ * @returns The options.
+ */
+export function parseArguments(args: string[]): FormatOptions {
+    const options: FormatOptions = {
+        patterns: [],
+        check: false,
+        diff: false,
+        tabSize: 4,
+        useTabs: false,
+        verbose: false,
+        help: false
+    };
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = () => takeValue(args, i++);
+        switch (arg) {
+            case '--check':
+                options.check = true;
+                break;
+            case '--diff':
+                options.diff = true;
+                break;
+            case '--tab-size': {
+                const text = value();
+                const tabSize = Number(text);
+                if (!Number.isInteger(tabSize) || tabSize < 1) {
+                    throw new UsageError(`Invalid tab size '${text}'.`);
+                }
+                options.tabSize = tabSize;
+                break;
+            }
+            case '--use-tabs':
+                options.useTabs = true;
+                break;
+            case '--keyword-casing': {
+                const casing = value();
+                if (!KEYWORD_CASINGS.includes(casing as KeywordCasing)) {
+                    throw new UsageError(`Unknown keyword casing '${casing}'.`);
+                }
+                options.keywordCasing = casing as KeywordCasing;
+                break;
+            }
+            case '-c':
+            case '--config':
+                options.config = value();
+                break;
+            case '--verbose':
+                options.verbose = true;
+                break;
+            case '-h':
+            case '--help':
+                options.help = true;
+                break;
+            default:
+                if (arg.startsWith('-')) throw new UsageError(`Unknown option '${arg}'.`);
+                options.patterns.push(arg);
+        }
+    }
+    if (options.patterns.length === 0) options.patterns.push('.');
+    return options;
+}
+
+/**
+ * Formats files. Files are only written if neither `--check` nor `--diff` is given.
+ * @param options The options.
+ * @param cwd The working directory.
+ * @returns The original and formatted text per file and the exit code.
+ */
+export async function runFormat(options: FormatOptions, cwd: string): Promise<FormatResult> {
+    const settings = await loadSettings(options.config, cwd);
+    const formatSettings = {
+        ...settings.format,
+        keywordCasing: options.keywordCasing ?? settings.format.keywordCasing
+    };
+    const { files } = await findSourceFiles(options.patterns, cwd);
+    if (files.length === 0) {
+        throw new UsageError(`No Visual Basic files found in ${options.patterns.join(', ')}.`);
+    }
+
+    const results: FormatFileResult[] = [];
+    for (const filePath of files) {
+        const original = await fs.promises.readFile(filePath, 'utf8');
+        const document = TextDocument.create(pathToFileURL(filePath).href, 'vb', 1, original);
+        const edits = formatDocument(
+            document,
+            { tabSize: options.tabSize, insertSpaces: !options.useTabs },
+            formatSettings
+        );
+        const formatted = TextDocument.applyEdits(document, edits);
+        results.push({ path: filePath, original, formatted });
+        if (formatted !== original && !options.check && !options.diff) {
+            await fs.promises.writeFile(filePath, formatted);
+        }
+    }
+
+    const unformatted = results.some((r) => r.formatted !== r.original);
+    return { results, exitCode: options.check && unformatted ? 1 : 0 };
+}
+
+/**
+ * Creates a unified diff (as printed by `git diff`) between the original and formatted text
+ * of a file. The formatter only changes lines, never adds or removes them, so the lines of
+ * both versions correspond one to one.
+ * @param result The formatting of the file.
+ * @param root The directory the file path is shown relative to.
+ * @returns The diff, or an empty string if the file is unchanged.
+ */
+export function createUnifiedDiff(result: FormatFileResult, root: string): string {
+    const before = result.original.split(/\r?\n/);
+    const after = result.formatted.split(/\r?\n/);
+    const changed: number[] = [];
+    for (let i = 0; i < before.length; i++) {
+        if (before[i] !== after[i]) changed.push(i);
+    }
+    if (changed.length === 0) return '';
+
+    const file = relativePath(result.path, root);
+    const lines = [`--- a/${file}`, `+++ b/${file}`];
+    let index = 0;
+    while (index < changed.length) {
+        // Changes closer than twice the context share a hunk
+        let last = index;
+        while (last + 1 < changed.length && changed[last + 1] - changed[last] <= 2 * DIFF_CONTEXT) {
+            last++;
+        }
+        const start = Math.max(changed[index] - DIFF_CONTEXT, 0);
+        const end = Math.min(changed[last] + DIFF_CONTEXT, before.length - 1);
+        const count = end - start + 1;
+        lines.push(`@@ -${start + 1},${count} +${start + 1},${count} @@`);
+
+        const removed: string[] = [];
+        const added: string[] = [];
+        const flush = () => {
+            lines.push(...removed.map((l) => '-' + l), ...added.map((l) => '+' + l));
+            removed.length = 0;
+            added.length = 0;
+        };
+        for (let i = start; i <= end; i++) {
+            if (before[i] === after[i]) {
+                flush();
+                lines.push(' ' + before[i]);
+            } else {
+                removed.push(before[i]);
+                added.push(after[i]);
+            }
+        }
+        flush();
+        index = last + 1;
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Runs the command line.
+ * @param args The arguments (without the node executable and script).
+ * @param cwd The working directory.
+ * @returns The exit code: 0 on success, 1 if `--check` found unformatted files, 2 on usage or
+ *          configuration errors.
+ */
+export async function main(args: string[], cwd: string = process.cwd()): Promise<number> {
+    try {
+        const options = parseArguments(args);
+        if (options.help) {
+            process.stdout.write(USAGE);
+            return 0;
+        }
+        Logger.setLevel(options.verbose ? LogLevel.Debug : LogLevel.Warn);
+
+        const { results, exitCode } = await runFormat(options, cwd);
+        const changed = results.filter((r) => r.formatted !== r.original);
+        if (options.diff) {
+            process.stdout.write(changed.map((r) => createUnifiedDiff(r, cwd)).join(''));
+        } else {
+            for (const result of changed) {
+                process.stdout.write(`${relativePath(result.path, cwd)}\n`);
+            }
+        }
+        if (options.check) {
+            const files = `${changed.length} of ${results.length} file${results.length === 1 ? '' : 's'}`;
+            process.stderr.write(
+                changed.length > 0
+                    ? `${files} not formatted. Run simple-vb-format to fix.\n`
+                    : `All ${results.length} files formatted.\n`
+            );
+        }
+        return exitCode;
+    } catch (error) {
+        return reportError('simple-vb-format', error);
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then((code) => {
+        process.exitCode = code;
+    });
+}
@@ -0,0 +1,231 @@
+#!/usr/bin/env node
+/**
+ * `simple-vb-lint`: runs the validation rules of the language server over files and folders,
+ * so that CI enforces the same diagnostics developers see in the editor.
+ *
+ * Usage: simple-vb-lint [options] [path | glob]...
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { DiagnosticSeverity } from 'vscode-languageserver/node';
+import { validateTextDocument } from '../features/validation';
+import { LogLevel, Logger } from '../utils/logger';
+import { pathKey, uriToPath } from '../utils/paths';
+import { isProjectFile, isSolutionFile } from '../utils/project';
+import { WorkspaceIndex } from '../utils/workspaceIndex';
+import {
+    DEFAULT_CONFIG_FILE,
+    UsageError,
+    findSourceFiles,
+    loadSettings,
+    reportError,
+    takeValue
+} from './common';
+import { FileResult, REPORT_FORMATS, ReportFormat, formatReport } from './reporters';
+
+const USAGE = `Usage: simple-vb-lint [options] [path | glob]...
+
+Validates Visual Basic files. Folders are searched recursively; globs such as "src/**/*.vb"
+are matched relative to the working directory. Defaults to the working directory.
+
+Options:
+  -f, --format <format>   Output format: ${REPORT_FORMATS.join(', ')} (default: text)
+  -o, --output <file>     Write the report to a file instead of standard output
+  -c, --config <file>     Settings file (default: ${DEFAULT_CONFIG_FILE} if it exists)
+  --fail-on <severity>    Exit with code 1 if a diagnostic has this severity or a higher one:
+                          error, warning, info, hint or none (default: error)
+  --verbose               Log progress messages (use --output to keep them out of the report)
+  -h, --help              Show this help
+`;
+
+const SEVERITIES: Record<string, DiagnosticSeverity | null> = {
+    error: DiagnosticSeverity.Error,
+    warning: DiagnosticSeverity.Warning,
+    info: DiagnosticSeverity.Information,
+    hint: DiagnosticSeverity.Hint,
+    none: null
+};
+
+/**
+ * The command-line options.
+ */
+export interface LintOptions {
+    /** Files, folders and globs to lint. */
+    patterns: string[];
+    format: ReportFormat;
+    output?: string;
+    config?: string;
+    /** The lowest severity that fails the run; null never fails. */
+    failOn: DiagnosticSeverity | null;
+    verbose: boolean;
+    help: boolean;
+}
+
+/**
+ * The result of a lint run.
+ */
+export interface LintResult {
+    results: FileResult[];
+    /** 0 if no diagnostic reaches the `--fail-on` severity, 1 otherwise. */
+    exitCode: number;
+}
+
+/**
+ * Parses the command-line arguments.
+ * @param args The arguments (without the node executable and script).
+ * @returns The options.
+ */
+export function parseArguments(args: string[]): LintOptions {
+    const options: LintOptions = {
+        patterns: [],
+        format: 'text',
+        failOn: DiagnosticSeverity.Error,
+        verbose: false,
+        help: false
+    };
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = () => takeValue(args, i++);
+        switch (arg) {
+            case '-f':
+            case '--format': {
+                const format = value();
+                if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+                    throw new UsageError(`Unknown format '${format}'.`);
+                }
+                options.format = format as ReportFormat;
+                break;
+            }
+            case '-o':
+            case '--output':
+                options.output = value();
+                break;
+            case '-c':
+            case '--config':
+                options.config = value();
+                break;
+            case '--fail-on': {
+                const severity = value();
+                if (!(severity in SEVERITIES)) {
+                    throw new UsageError(`Unknown severity '${severity}'.`);
+                }
+                options.failOn = SEVERITIES[severity];
+                break;
+            }
+            case '--verbose':
+                options.verbose = true;
+                break;
+            case '-h':
+            case '--help':
+                options.help = true;
+                break;
+            default:
+                if (arg.startsWith('-')) throw new UsageError(`Unknown option '${arg}'.`);
+                options.patterns.push(arg);
+        }
+    }
+    if (options.patterns.length === 0) options.patterns.push('.');
+    return options;
+}
+
+/**
+ * Finds the folder that provides the cross-file context of a searched folder: the nearest
+ * folder (starting with the folder itself) that contains a project or solution file, or the
+ * folder itself if there is none.
+ * @param folder The searched folder.
+ * @returns The folder to index.
+ */
+async function getContextFolder(folder: string): Promise<string> {
+    for (let dir = folder; ; dir = path.dirname(dir)) {
+        const entries = await fs.promises.readdir(dir).catch(() => [] as string[]);
+        if (entries.some((name) => isProjectFile(name) || isSolutionFile(name))) return dir;
+        if (path.dirname(dir) === dir) return folder;
+    }
+}
+
+/**
+ * Lints files: indexes the searched folders, or the folders of their projects, so that
+ * cross-file rules see the whole project, then validates every matched file.
+ * @param options The options.
+ * @param cwd The working directory.
+ * @returns The diagnostics per file and the exit code.
+ */
+export async function runLint(options: LintOptions, cwd: string): Promise<LintResult> {
+    const settings = await loadSettings(options.config, cwd);
+    const { files, folders } = await findSourceFiles(options.patterns, cwd);
+    if (files.length === 0) {
+        throw new UsageError(`No Visual Basic files found in ${options.patterns.join(', ')}.`);
+    }
+
+    const index = new WorkspaceIndex();
+    const contexts: string[] = [];
+    for (const folder of folders) {
+        const context = await getContextFolder(folder);
+        if (contexts.some((c) => pathKey(context + path.sep).startsWith(pathKey(c + path.sep)))) {
+            continue;
+        }
+        contexts.push(context);
+        await index.indexFolder(pathToFileURL(context).href);
+    }
+    for (const filePath of files) {
+        if (!index.has(pathToFileURL(filePath).href)) {
+            await index.updateFile(pathToFileURL(filePath).href);
+        }
+    }
+
+    const documents = index.getDocuments([]);
+    const byPath = new Map(documents.map((d) => [pathKey(uriToPath(d.uri) ?? d.uri), d]));
+    const results: FileResult[] = [];
+    for (const filePath of files) {
+        const document = byPath.get(pathKey(filePath));
+        if (!document) continue;
+        results.push({
+            path: filePath,
+            diagnostics: validateTextDocument(document, documents, settings)
+        });
+    }
+
+    const failOn = options.failOn;
+    const failed =
+        failOn !== null &&
+        results.some((r) =>
+            r.diagnostics.some((d) => (d.severity ?? DiagnosticSeverity.Error) <= failOn)
+        );
+    return { results, exitCode: failed ? 1 : 0 };
+}
+
+/**
+ * Runs the command line.
+ * @param args The arguments (without the node executable and script).
+ * @param cwd The working directory.
+ * @returns The exit code: 0 on success, 1 if the `--fail-on` severity was reached, 2 on
+ *          usage or configuration errors.
+ */
+export async function main(args: string[], cwd: string = process.cwd()): Promise<number> {
+    try {
+        const options = parseArguments(args);
+        if (options.help) {
+            process.stdout.write(USAGE);
+            return 0;
+        }
+        Logger.setLevel(options.verbose ? LogLevel.Debug : LogLevel.Warn);
+
+        const { results, exitCode } = await runLint(options, cwd);
+        const report = formatReport(options.format, results, cwd);
+        if (options.output) {
+            await fs.promises.writeFile(path.resolve(cwd, options.output), report);
+        } else {
+            process.stdout.write(report);
+        }
+        return exitCode;
+    } catch (error) {
+        return reportError('simple-vb-lint', error);
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then((code) => {
+        process.exitCode = code;
+    });
+}
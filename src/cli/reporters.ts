@@ -0,0 +1,263 @@
+import { pathToFileURL } from 'url';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { ALL_RULES, Rule, getRule, getRuleDocumentationUri } from '../rules';
+import { relativePath } from './common';
+
+/**
+ * The diagnostics of one linted file.
+ */
+export interface FileResult {
+    /** The absolute path of the file. */
+    path: string;
+    diagnostics: Diagnostic[];
+}
+
+/** The output formats of `simple-vb-lint`. */
+export type ReportFormat = 'text' | 'json' | 'sarif' | 'junit';
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'sarif', 'junit'];
+
+const TOOL_NAME = 'simple-vb-lint';
+
+const SEVERITY_NAMES: Record<DiagnosticSeverity, string> = {
+    [DiagnosticSeverity.Error]: 'error',
+    [DiagnosticSeverity.Warning]: 'warning',
+    [DiagnosticSeverity.Information]: 'info',
+    [DiagnosticSeverity.Hint]: 'hint'
+};
+
+/**
+ * Formats lint results.
+ * @param format The output format.
+ * @param results The results, one per linted file.
+ * @param root The directory file paths are reported relative to.
+ * @returns The report.
+ */
+export function formatReport(format: ReportFormat, results: FileResult[], root: string): string {
+    switch (format) {
+        case 'json':
+            return formatJson(results, root);
+        case 'sarif':
+            return formatSarif(results, root);
+        case 'junit':
+            return formatJUnit(results, root);
+        default:
+            return formatText(results, root);
+    }
+}
+
+/**
+ * Formats results like the Visual Basic compiler does (`File.vb(line,column): severity code:
+ * message`), followed by a summary.
+ * @param results The lint results.
+ * @param root The directory file paths are reported relative to.
+ * @returns The report.
+ */
+export function formatText(results: FileResult[], root: string): string {
+    const lines: string[] = [];
+    const counts = new Map<string, number>();
+    for (const result of results) {
+        const file = relativePath(result.path, root);
+        for (const diagnostic of result.diagnostics) {
+            const severity = getSeverityName(diagnostic);
+            const rule = getDiagnosticRule(diagnostic);
+            const { line, character } = diagnostic.range.start;
+            lines.push(
+                `${file}(${line + 1},${character + 1}): ${severity} ${diagnostic.code}: ` +
+                    `${diagnostic.message}${rule ? ` [${rule.name}]` : ''}`
+            );
+            counts.set(severity, (counts.get(severity) ?? 0) + 1);
+        }
+    }
+
+    const files = `${results.length} file${results.length === 1 ? '' : 's'}`;
+    if (lines.length === 0) {
+        lines.push(`No problems found in ${files}.`);
+    } else {
+        const summary = Object.values(SEVERITY_NAMES)
+            .filter((name) => counts.has(name))
+            .map((name) => {
+                const count = counts.get(name)!;
+                return `${count} ${name}${count > 1 && name !== 'info' ? 's' : ''}`;
+            })
+            .join(', ');
+        const total = lines.length;
+        lines.push('', `${total} problem${total === 1 ? '' : 's'} (${summary}) in ${files}.`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Formats results as JSON: one entry per file with 1-based positions.
+ * @param results The lint results.
+ * @param root The directory file paths are reported relative to.
+ * @returns The report.
+ */
+export function formatJson(results: FileResult[], root: string): string {
+    const files = results.map((result) => ({
+        file: relativePath(result.path, root),
+        diagnostics: result.diagnostics.map((diagnostic) => ({
+            code: diagnostic.code,
+            rule: getDiagnosticRule(diagnostic)?.name,
+            severity: getSeverityName(diagnostic),
+            message: diagnostic.message,
+            line: diagnostic.range.start.line + 1,
+            column: diagnostic.range.start.character + 1,
+            endLine: diagnostic.range.end.line + 1,
+            endColumn: diagnostic.range.end.character + 1
+        }))
+    }));
+    return JSON.stringify(files, null, 2) + '\n';
+}
+
+/**
+ * Formats results as a SARIF 2.1.0 log with one run. File locations are relative to the
+ * `%SRCROOT%` base, which points to the root directory.
+ * @param results The lint results.
+ * @param root The directory file paths are reported relative to.
+ * @returns The report.
+ */
+export function formatSarif(results: FileResult[], root: string): string {
+    const ruleIndex = new Map(ALL_RULES.map((rule, index) => [rule.id, index]));
+    const sarifResults = [];
+    for (const result of results) {
+        const uri = relativePath(result.path, root);
+        for (const diagnostic of result.diagnostics) {
+            const { start, end } = diagnostic.range;
+            sarifResults.push({
+                ruleId: String(diagnostic.code),
+                ruleIndex: ruleIndex.get(String(diagnostic.code)),
+                level: getSarifLevel(diagnostic.severity),
+                message: { text: diagnostic.message },
+                locations: [
+                    {
+                        physicalLocation: {
+                            artifactLocation: { uri, uriBaseId: '%SRCROOT%' },
+                            region: {
+                                startLine: start.line + 1,
+                                startColumn: start.character + 1,
+                                endLine: end.line + 1,
+                                endColumn: end.character + 1
+                            }
+                        }
+                    }
+                ]
+            });
+        }
+    }
+
+    const log = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: TOOL_NAME,
+                        rules: ALL_RULES.map((rule) => ({
+                            id: rule.id,
+                            name: rule.name,
+                            shortDescription: { text: rule.description },
+                            helpUri: getRuleDocumentationUri(rule),
+                            defaultConfiguration: { level: getSarifLevel(rule.severity) }
+                        }))
+                    }
+                },
+                originalUriBaseIds: {
+                    '%SRCROOT%': { uri: pathToFileURL(root).href.replace(/\/?$/, '/') }
+                },
+                results: sarifResults
+            }
+        ]
+    };
+    return JSON.stringify(log, null, 2) + '\n';
+}
+
+/**
+ * Formats results as JUnit XML: one test suite per file and one failed test case per
+ * diagnostic. Files without diagnostics get a single passing test case.
+ * @param results The lint results.
+ * @param root The directory file paths are reported relative to.
+ * @returns The report.
+ */
+export function formatJUnit(results: FileResult[], root: string): string {
+    const failures = results.reduce((sum, result) => sum + result.diagnostics.length, 0);
+    const tests = results.reduce((sum, result) => sum + Math.max(result.diagnostics.length, 1), 0);
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${TOOL_NAME}" tests="${tests}" failures="${failures}">`
+    ];
+    for (const result of results) {
+        const file = escapeXml(relativePath(result.path, root));
+        const count = result.diagnostics.length;
+        lines.push(
+            `  <testsuite name="${file}" tests="${Math.max(count, 1)}" failures="${count}" errors="0">`
+        );
+        if (count === 0) {
+            lines.push(`    <testcase name="${file}" classname="${file}" />`);
+        }
+        for (const diagnostic of result.diagnostics) {
+            const { line, character } = diagnostic.range.start;
+            const position = `${line + 1}:${character + 1}`;
+            const message = escapeXml(diagnostic.message);
+            lines.push(
+                `    <testcase name="${file}:${position} ${diagnostic.code}" classname="${file}">`,
+                `      <failure message="${message}" type="${getSeverityName(diagnostic)}">` +
+                    `${file}(${line + 1},${character + 1}): ${diagnostic.code}: ${message}</failure>`,
+                '    </testcase>'
+            );
+        }
+        lines.push('  </testsuite>');
+    }
+    lines.push('</testsuites>');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Gets the name of the severity of a diagnostic.
+ * @param diagnostic The diagnostic.
+ * @returns `error`, `warning`, `info` or `hint`.
+ */
+export function getSeverityName(diagnostic: Diagnostic): string {
+    return SEVERITY_NAMES[diagnostic.severity ?? DiagnosticSeverity.Error];
+}
+
+/**
+ * Maps a diagnostic severity to a SARIF result level.
+ * @param severity The severity.
+ * @returns `error`, `warning` or `note`.
+ */
+function getSarifLevel(severity: DiagnosticSeverity | undefined): string {
+    switch (severity) {
+        case DiagnosticSeverity.Warning:
+            return 'warning';
+        case DiagnosticSeverity.Information:
+        case DiagnosticSeverity.Hint:
+            return 'note';
+        default:
+            return 'error';
+    }
+}
+
+/**
+ * Gets the rule of a diagnostic.
+ * @param diagnostic The diagnostic.
+ * @returns The rule, or undefined if the code is not a rule ID.
+ */
+function getDiagnosticRule(diagnostic: Diagnostic): Rule | undefined {
+    return typeof diagnostic.code === 'string' ? getRule(diagnostic.code) : undefined;
+}
+
+/**
+ * Escapes text for use in XML attributes and content.
+ * @param text The text.
+ * @returns The escaped text.
+ */
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
@@ -18,6 +18,7 @@ import {
     getSymbolContainingPosition,
     findGlobalSymbol
 } from '../utils/parser';
+import { RequestContext, throwIfCancelled, yieldAndCheckCancelled } from '../utils/progress';
 import { onReferences } from './references';
 
 /**
@@ -74,12 +75,14 @@ export function onPrepareCallHierarchy(
  * Handles incoming calls request (Find Usages / Callers).
  * @param params The incoming calls parameters.
  * @param allDocuments All open documents.
+ * @param context The cancellation token of the request.
  * @returns An array of CallHierarchyIncomingCall.
  */
-export function onIncomingCalls(
+export async function onIncomingCalls(
     params: CallHierarchyIncomingCallsParams,
-    allDocuments: TextDocument[]
-): CallHierarchyIncomingCall[] {
+    allDocuments: TextDocument[],
+    context: RequestContext = {}
+): Promise<CallHierarchyIncomingCall[]> {
     const item = params.item;
     Logger.log(`Call Hierarchy Incoming requested for ${item.name}`);
 
@@ -97,10 +100,13 @@ export function onIncomingCalls(
         context: { includeDeclaration: false }
     };
 
-    const locations = onReferences(refParams, itemDoc, allDocuments);
+    const locations = await onReferences(refParams, itemDoc, allDocuments, {
+        token: context.token
+    });
     const incomingCalls: CallHierarchyIncomingCall[] = [];
 
     for (const loc of locations) {
+        throwIfCancelled(context.token);
         // Find the document for this location
         const locDoc = allDocuments.find((d) => d.uri === loc.uri);
         if (!locDoc) continue;
@@ -160,12 +166,15 @@ export function onIncomingCalls(
  * Handles outgoing calls request (Find calls made by the symbol).
  * @param params The outgoing calls parameters.
  * @param allDocuments All open documents.
+ * @param context The cancellation token of the request, checked for every line (each line may
+ *                search all documents).
  * @returns An array of CallHierarchyOutgoingCall.
  */
-export function onOutgoingCalls(
+export async function onOutgoingCalls(
     params: CallHierarchyOutgoingCallsParams,
-    allDocuments: TextDocument[]
-): CallHierarchyOutgoingCall[] {
+    allDocuments: TextDocument[],
+    context: RequestContext = {}
+): Promise<CallHierarchyOutgoingCall[]> {
     const item = params.item;
     Logger.log(`Call Hierarchy Outgoing requested for ${item.name}`);
 
@@ -183,6 +192,7 @@ export function onOutgoingCalls(
 
     for (let i = startLine; i <= endLine; i++) {
         if (i >= lines.length) break;
+        await yieldAndCheckCancelled(context.token);
         const line = lines[i];
         const stripped = stripComment(line);
 
@@ -3,15 +3,95 @@ import {
     CodeActionKind,
     CodeActionParams,
     Command,
+    Diagnostic,
     TextEdit,
     WorkspaceEdit,
     SymbolKind,
-    DocumentSymbol
+    DocumentSymbol,
+    Position,
+    Range
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Logger } from '../utils/logger';
 import { parseDocumentSymbols, getSymbolContainingPosition } from '../utils/parser';
 import { stripComment } from '../utils/textUtils';
+import { getProjectImports } from '../utils/project';
+import { COMMON_IMPORTS } from '../builtins';
+import { parseSuppressions, Suppression } from '../utils/suppressions';
+import { Rule, Rules, getRule } from '../rules';
+import { getDocumentModel } from '../utils/documentModel';
+import { BlockKind, BlockSyntax, StatementKind } from '../utils/syntaxTree';
+import {
+    findUnusedParameters,
+    findUnusedPrivateMembers,
+    getImportClauses
+} from '../utils/deadCode';
+import { findCalls, getParameterIndex } from '../utils/signatures';
+import { isSameRange } from '../utils/typeInference';
+
+/**
+ * The `data` the validator attaches to diagnostics that have a quick fix.
+ */
+interface DiagnosticData {
+    /** The unknown type (unknown-type). */
+    typeName?: string;
+    /** The number literal (magic-number). */
+    value?: string;
+    /**
+     * The rule as written in a suppression comment (unused-suppression), or the variable
+     * (unused-variable, undeclared-identifier).
+     */
+    name?: string;
+    /** The type of the value assigned to an undeclared variable (undeclared-identifier). */
+    variableType?: string;
+    /** The type a value is implicitly converted to (narrowing-conversion). */
+    targetType?: string;
+    /** The block to close (unclosed-block, mismatched-block). */
+    blockType?: string;
+    /** The member to implement and its interface (missing-interface-member). */
+    missingMember?: string;
+    interfaceName?: string;
+    memberKind?: SymbolKind;
+    memberDetail?: string;
+}
+
+/** Conversion functions of the intrinsic types, by lowercase type name. */
+const CONVERSION_FUNCTIONS: Record<string, string> = {
+    boolean: 'CBool',
+    byte: 'CByte',
+    char: 'CChar',
+    date: 'CDate',
+    decimal: 'CDec',
+    double: 'CDbl',
+    integer: 'CInt',
+    long: 'CLng',
+    object: 'CObj',
+    sbyte: 'CSByte',
+    short: 'CShort',
+    single: 'CSng',
+    string: 'CStr',
+    uinteger: 'CUInt',
+    ulong: 'CULng',
+    ushort: 'CUShort'
+};
+
+/** Blocks that can declare fields. */
+const TYPE_BLOCKS = new Set<BlockKind>([BlockKind.Class, BlockKind.Structure, BlockKind.Module]);
+
+/** Blocks of members that can be `Shared`. */
+const MEMBER_BLOCKS = new Set<BlockKind>([
+    BlockKind.Sub,
+    BlockKind.Function,
+    BlockKind.Property,
+    BlockKind.Operator,
+    BlockKind.Event
+]);
+
+/** Statements that name the base types of a type, written before its fields. */
+const BASE_TYPE_STATEMENTS = new Set<StatementKind>([
+    StatementKind.Inherits,
+    StatementKind.Implements
+]);
 
 /**
  * Handles code action requests.
@@ -21,25 +101,6 @@ import { stripComment } from '../utils/textUtils';
  * @param document The text document.
  * @returns An array of CodeActions or Commands.
  */
-// Mapping of common types to their namespaces for "Add Imports"
-const COMMON_IMPORTS: Record<string, string> = {
-    'List': 'System.Collections.Generic',
-    'Dictionary': 'System.Collections.Generic',
-    'HashSet': 'System.Collections.Generic',
-    'Queue': 'System.Collections.Generic',
-    'Stack': 'System.Collections.Generic',
-    'File': 'System.IO',
-    'Directory': 'System.IO',
-    'Path': 'System.IO',
-    'Stream': 'System.IO',
-    'StreamReader': 'System.IO',
-    'StreamWriter': 'System.IO',
-    'StringBuilder': 'System.Text',
-    'Regex': 'System.Text.RegularExpressions',
-    'Task': 'System.Threading.Tasks',
-    'Thread': 'System.Threading'
-};
-
 export function onCodeAction(
     params: CodeActionParams,
     document: TextDocument
@@ -51,16 +112,20 @@ export function onCodeAction(
     Logger.debug(`CodeAction: Processing ${diagnostics.length} diagnostics.`);
 
     for (const diagnostic of diagnostics) {
-        if (diagnostic.message.includes("Type '") && diagnostic.message.includes("' is not defined")) {
+        // Fixes are matched by rule ID; details come from the diagnostic's data
+        const code = diagnostic.code;
+        const data = (diagnostic.data ?? {}) as DiagnosticData;
+        if (code === Rules.UnknownType.id) {
             // "Type 'List' is not defined."
-            const match = /Type '([^']+)' is not defined/.exec(diagnostic.message);
-            if (match) {
-                const typeName = match[1];
+            if (data.typeName) {
+                const typeName = data.typeName;
                 // Handle generics e.g. List(Of T) -> List
                 const baseType = typeName.split('(')[0].trim();
                 const importNamespace = COMMON_IMPORTS[baseType];
+                // A namespace imported by the project needs no Imports statement
+                const projectImports = getProjectImports(document.uri).map((i) => i.toLowerCase());
 
-                if (importNamespace) {
+                if (importNamespace && !projectImports.includes(importNamespace.toLowerCase())) {
                     const action: CodeAction = {
                         title: `Import '${importNamespace}'`,
                         kind: CodeActionKind.QuickFix,
@@ -79,7 +144,7 @@ export function onCodeAction(
             }
         }
 
-        if (diagnostic.message.includes("Missing 'Then' in If statement")) {
+        if (code === Rules.MissingThen.id) {
             const range = diagnostic.range;
             const lineText = document.getText(range);
             const commentIndex = lineText.indexOf("'");
@@ -127,7 +192,7 @@ export function onCodeAction(
             };
             actions.push(action);
             Logger.debug(`CodeAction: Proposed "Add 'Then'" at line ${range.start.line}`);
-        } else if (diagnostic.message.includes('Variable declaration without type')) {
+        } else if (code === Rules.UntypedVariable.id) {
             // Range is the line. regex was `Dim x`.
             // We want to append " As Object" (default safe type)
             const range = diagnostic.range;
@@ -168,10 +233,7 @@ export function onCodeAction(
             };
             actions.push(action);
             Logger.debug(`CodeAction: Proposed "Add 'As Object'" at line ${range.start.line}`);
-        } else if (
-            diagnostic.message.includes('missing a return type') ||
-            diagnostic.message.includes('missing type after')
-        ) {
+        } else if (code === Rules.MissingReturnType.id) {
             // "Function 'Foo' is missing a return type"
             // We want to append " As Object" after the function name/parens.
             // But validation logic checked the line.
@@ -215,11 +277,10 @@ export function onCodeAction(
             Logger.debug(
                 `CodeAction: Proposed "Add 'As Object' (Return Type)" at line ${range.start.line}`
             );
-        } else if (diagnostic.message.includes('Avoid magic numbers')) {
+        } else if (code === Rules.MagicNumber.id) {
             // "Avoid magic numbers (100). Use a Constant instead."
-            const match = /magic numbers \((\d+)\)/.exec(diagnostic.message);
-            if (match) {
-                const value = match[1];
+            if (data.value) {
+                const value = data.value;
                 const constName = `CONST_${value}`; // Simple generation strategy
 
                 // Find where to insert: Start of the containing method/block?
@@ -262,7 +323,7 @@ export function onCodeAction(
                 actions.push(action);
                 Logger.debug(`CodeAction: Proposed "Extract to Constant" for ${value}`);
             }
-        } else if (diagnostic.message.includes('Const declaration requires a value')) {
+        } else if (code === Rules.ConstWithoutValue.id) {
             // Range is line. regex `Const x`.
             // Append " = 0"
             const range = diagnostic.range;
@@ -290,10 +351,9 @@ export function onCodeAction(
             };
             actions.push(action);
             Logger.debug(`CodeAction: Proposed "Initialize with 0" at line ${range.start.line}`);
-        } else if (diagnostic.message.includes('Missing closing statement for')) {
-            const match = /Missing closing statement for '(\w+)'/.exec(diagnostic.message);
-            if (match) {
-                const blockType = match[1];
+        } else if (code === Rules.UnclosedBlock.id) {
+            if (data.blockType) {
+                const blockType = data.blockType;
                 const closeStmt = getClosingStatement(blockType);
 
                 // Insert at end of document
@@ -313,10 +373,9 @@ export function onCodeAction(
                 actions.push(action);
                 Logger.debug(`CodeAction: Proposed "Add '${closeStmt}'" at end of document`);
             }
-        } else if (diagnostic.message.includes('Mismatched block')) {
-            const match = /Expected closing for '(\w+)'/.exec(diagnostic.message);
-            if (match) {
-                const blockType = match[1];
+        } else if (code === Rules.MismatchedBlock.id) {
+            if (data.blockType) {
+                const blockType = data.blockType;
                 const closeStmt = getClosingStatement(blockType);
 
                 // Insert before the mismatch line
@@ -335,9 +394,8 @@ export function onCodeAction(
                 actions.push(action);
                 Logger.debug(`CodeAction: Proposed "Add '${closeStmt}'" at line ${insertPos.line}`);
             }
-        } else if (diagnostic.message.includes('must implement member')) {
-            const data = diagnostic.data as any;
-            if (data && data.missingMember && data.interfaceName) {
+        } else if (code === Rules.MissingInterfaceMember.id) {
+            if (data.missingMember && data.interfaceName) {
                 const memberName = data.missingMember;
                 const interfaceName = data.interfaceName;
                 const kind = data.memberKind;
@@ -421,7 +479,7 @@ export function onCodeAction(
                     }
                 }
             }
-        } else if (diagnostic.message.includes('is declared but never used')) {
+        } else if (code === Rules.UnusedVariable.id) {
             // Unused variable diagnostic
             // Range is the selectionRange (just the name)
             // But validation.ts reports it on `sym.selectionRange`.
@@ -542,6 +600,86 @@ export function onCodeAction(
                     }
                 }
             }
+        } else if (code === Rules.UnusedMember.id) {
+            const action = getRemoveMemberAction(document, diagnostic);
+            if (action) actions.push(action);
+        } else if (code === Rules.UnusedParameter.id) {
+            const action = getRemoveParameterAction(document, diagnostic);
+            if (action) actions.push(action);
+        } else if (code === Rules.UnusedImport.id) {
+            const action = getRemoveImportAction(document, diagnostic);
+            if (action) actions.push(action);
+        } else if (code === Rules.UndeclaredIdentifier.id) {
+            if (data.name) {
+                actions.push(
+                    ...getDeclareVariableActions(document, diagnostic, data.name, data.variableType)
+                );
+            }
+        } else if (code === Rules.NarrowingConversion.id) {
+            if (data.targetType) {
+                actions.push(...getConversionActions(document, diagnostic, data.targetType));
+            }
+        } else if (code === Rules.UnusedSuppression.id) {
+            const suppression = parseSuppressions(document).find(
+                (s) => s.line === diagnostic.range.start.line
+            );
+            if (suppression) {
+                actions.push({
+                    title: 'Remove unused suppression',
+                    kind: CodeActionKind.QuickFix,
+                    diagnostics: [diagnostic],
+                    isPreferred: true,
+                    edit: {
+                        changes: {
+                            [document.uri]: [
+                                getRemoveSuppressionEdit(document, suppression, data.name)
+                            ]
+                        }
+                    }
+                });
+            }
+        }
+
+        // Any other rule can be suppressed on its line or in the whole file
+        const rule = typeof code === 'string' ? getRule(code) : undefined;
+        if (rule && rule !== Rules.UnusedSuppression) {
+            const suppressions = parseSuppressions(document);
+            const line = diagnostic.range.start.line;
+            const lineText = document.getText(Range.create(line, 0, line + 1, 0));
+            const indent = lineText.match(/^[ \t]*/)![0];
+            const previous = suppressions.find(
+                (s) => s.kind === 'disable-next-line' && s.line === line - 1
+            );
+            const fileLevel = suppressions.find((s) => s.kind === 'disable-file');
+            const fixes = [
+                {
+                    title: `Suppress ${rule.id} on this line`,
+                    edit: getAddSuppressionEdit(
+                        rule,
+                        previous,
+                        Position.create(line, 0),
+                        `${indent}' vblint-disable-next-line ${rule.id}\n`
+                    )
+                },
+                {
+                    title: `Suppress ${rule.id} in this file`,
+                    edit: getAddSuppressionEdit(
+                        rule,
+                        fileLevel,
+                        Position.create(0, 0),
+                        `' vblint-disable-file ${rule.id}\n`
+                    )
+                }
+            ];
+            for (const fix of fixes) {
+                if (!fix.edit || actions.some((a) => a.title === fix.title)) continue;
+                actions.push({
+                    title: fix.title,
+                    kind: CodeActionKind.QuickFix,
+                    diagnostics: [diagnostic],
+                    edit: { changes: { [document.uri]: [fix.edit] } }
+                });
+            }
         }
     }
 
@@ -1130,6 +1268,334 @@ export function onCodeAction(
     return actions;
 }
 
+/**
+ * Creates the edit that removes a rule from a suppression comment, or the whole comment if it
+ * lists no other rule.
+ * @param document The text document.
+ * @param suppression The suppression comment.
+ * @param name The rule to remove as written; undefined to remove the whole comment.
+ * @returns The edit.
+ */
+function getRemoveSuppressionEdit(
+    document: TextDocument,
+    suppression: Suppression,
+    name?: string
+): TextEdit {
+    const rules = suppression.rules;
+    const index = rules.findIndex((r) => r.name === name);
+    if (index >= 0 && rules.length > 1) {
+        // Remove the rule and the separator before or after it
+        return index < rules.length - 1
+            ? TextEdit.del(Range.create(rules[index].range.start, rules[index + 1].range.start))
+            : TextEdit.del(Range.create(rules[index - 1].range.end, rules[index].range.end));
+    }
+
+    const line = suppression.line;
+    const before = document
+        .getText(Range.create(line, 0, line + 1, 0))
+        .substring(0, suppression.range.start.character);
+    if (before.trim() === '') {
+        // The comment is the whole line
+        return TextEdit.del(Range.create(line, 0, line + 1, 0));
+    }
+    return TextEdit.del(
+        Range.create(line, before.trimEnd().length, line, suppression.range.end.character)
+    );
+}
+
+/**
+ * Creates the quick fix that removes an unused Private member: the lines of its declaration
+ * with its `'''` documentation comment, or only its declarator if the field statement declares
+ * other fields too.
+ * @param document The text document.
+ * @param diagnostic The unused-member diagnostic.
+ * @returns The code action, or undefined if the member cannot be removed on its own.
+ */
+function getRemoveMemberAction(
+    document: TextDocument,
+    diagnostic: Diagnostic
+): CodeAction | undefined {
+    const member = findUnusedPrivateMembers(document).find((m) =>
+        isSameRange(m.name.range, diagnostic.range)
+    );
+    if (!member) return undefined;
+
+    let edit: TextEdit;
+    const declarators = member.statement.declarators ?? [];
+    if (declarators.length > 1) {
+        const index = declarators.findIndex((d) => d.name === member.name);
+        const type = declarators[index].type;
+        // `Private a, b As String`: `a` takes its type from `b`
+        const shared = declarators.some(
+            (d, i) => i !== index && d.type && type && isSameRange(d.type.range, type.range)
+        );
+        if (shared && index === declarators.length - 1) return undefined;
+        edit = getRemoveListItemEdit(
+            declarators.map((d) => d.range),
+            index
+        );
+    } else {
+        let startLine = member.range.start.line;
+        const isDocComment = (line: number) =>
+            document
+                .getText(Range.create(line, 0, line + 1, 0))
+                .trim()
+                .startsWith("'''");
+        while (startLine > 0 && isDocComment(startLine - 1)) {
+            startLine--;
+        }
+        edit = TextEdit.del(Range.create(startLine, 0, member.range.end.line + 1, 0));
+    }
+    return {
+        title: `Remove unused ${member.kind} '${member.name.text}'`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: true,
+        edit: { changes: { [document.uri]: [edit] } }
+    };
+}
+
+/**
+ * Creates the quick fix that removes an unused parameter from its procedure and the
+ * corresponding argument from the calls in the document.
+ * @param document The text document.
+ * @param diagnostic The unused-parameter diagnostic.
+ * @returns The code action, or undefined if the parameter is not found.
+ */
+function getRemoveParameterAction(
+    document: TextDocument,
+    diagnostic: Diagnostic
+): CodeAction | undefined {
+    const unused = findUnusedParameters(document).find((u) =>
+        isSameRange(u.parameter.name.range, diagnostic.range)
+    );
+    if (!unused) return undefined;
+    const parameters = unused.statement.parameters ?? [];
+    const index = parameters.indexOf(unused.parameter);
+    const edits = [
+        getRemoveListItemEdit(
+            parameters.map((p) => p.range),
+            index
+        )
+    ];
+
+    // Calls that resolve to this procedure (overloaded calls are left alone)
+    const name = unused.statement.name;
+    const removed: { start: number; end: number }[] = [];
+    for (const call of findCalls(document)) {
+        const declaration = call.signatures.length === 1 && call.signatures[0].declaration;
+        if (
+            !declaration ||
+            !name ||
+            declaration.document.uri !== document.uri ||
+            !isSameRange(declaration.symbol.selectionRange, name.range) ||
+            removed.some((r) => call.name.offset >= r.start && call.name.offset < r.end)
+        ) {
+            continue;
+        }
+        const args = call.args;
+        const argument = args.findIndex(
+            (_, i) => getParameterIndex(call.signatures[0], args, i) === index
+        );
+        if (argument < 0) continue;
+        removed.push({ start: args[argument].offset, end: args[argument].end });
+        edits.push(
+            getRemoveListItemEdit(
+                args.map((a) =>
+                    Range.create(document.positionAt(a.offset), document.positionAt(a.end))
+                ),
+                argument
+            )
+        );
+    }
+    return {
+        title: `Remove unused parameter '${unused.parameter.name.text}'`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: true,
+        edit: { changes: { [document.uri]: edits } }
+    };
+}
+
+/**
+ * Creates the quick fix that removes an unused `Imports` clause, or the whole statement if it
+ * has no other clause.
+ * @param document The text document.
+ * @param diagnostic The unused-import diagnostic.
+ * @returns The code action, or undefined if the clause is not found.
+ */
+function getRemoveImportAction(
+    document: TextDocument,
+    diagnostic: Diagnostic
+): CodeAction | undefined {
+    const statement = getDocumentModel(document).tree.statements.find(
+        (s) =>
+            s.kind === StatementKind.Imports && s.range.start.line === diagnostic.range.start.line
+    );
+    if (!statement) return undefined;
+    const clauses = getImportClauses(statement);
+    const index = clauses.findIndex((c) => isSameRange(c.range, diagnostic.range));
+    if (index < 0) return undefined;
+    const edit =
+        clauses.length === 1
+            ? TextEdit.del(
+                  Range.create(statement.range.start.line, 0, statement.range.end.line + 1, 0)
+              )
+            : getRemoveListItemEdit(
+                  clauses.map((c) => c.range),
+                  index
+              );
+    return {
+        title: `Remove unused Imports '${clauses[index].alias ?? clauses[index].namespace}'`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: true,
+        edit: { changes: { [document.uri]: [edit] } }
+    };
+}
+
+/**
+ * Creates the edit that removes an item of a comma-separated list with the separator before or
+ * after it.
+ * @param ranges The ranges of the items.
+ * @param index The index of the item to remove.
+ * @returns The edit.
+ */
+function getRemoveListItemEdit(ranges: Range[], index: number): TextEdit {
+    if (ranges.length === 1) return TextEdit.del(ranges[0]);
+    return index < ranges.length - 1
+        ? TextEdit.del(Range.create(ranges[index].start, ranges[index + 1].start))
+        : TextEdit.del(Range.create(ranges[index - 1].end, ranges[index].end));
+}
+
+/**
+ * Creates the edit that suppresses a rule: the rule is appended to an existing suppression
+ * comment, or a new comment is inserted.
+ * @param rule The rule to suppress.
+ * @param existing The suppression comment to extend, if there is one.
+ * @param position Where to insert a new comment.
+ * @param comment The new comment (including indentation and line break).
+ * @returns The edit, or undefined if the existing comment already covers the rule.
+ */
+function getAddSuppressionEdit(
+    rule: Rule,
+    existing: Suppression | undefined,
+    position: Position,
+    comment: string
+): TextEdit | undefined {
+    if (!existing) {
+        return TextEdit.insert(position, comment);
+    }
+    if (existing.rules.length === 0 || existing.rules.some((r) => r.rule === rule)) {
+        return undefined;
+    }
+    return TextEdit.insert(existing.rules[existing.rules.length - 1].range.end, `, ${rule.id}`);
+}
+
+/**
+ * Creates the quick fixes that declare an undeclared variable: as a local variable before the
+ * statement using it, and as a field of the containing class, structure or module (`Shared` if
+ * used in a shared member of a class or structure).
+ * @param document The text document.
+ * @param diagnostic The undeclared-identifier diagnostic.
+ * @param name The variable name.
+ * @param type The type of the value assigned to the variable, if known.
+ * @returns The code actions.
+ */
+function getDeclareVariableActions(
+    document: TextDocument,
+    diagnostic: Diagnostic,
+    name: string,
+    type: string | undefined
+): CodeAction[] {
+    const offset = document.offsetAt(diagnostic.range.start);
+    const statement = getDocumentModel(document).tree.statements.find((s) =>
+        s.tokens.some((t) => t.offset === offset)
+    );
+    if (!statement) return [];
+
+    // A type character (`s$`) declares the type itself
+    const declaration = /[%&@!#$]$/.test(name) ? name : `${name} As ${type ?? 'Object'}`;
+    const getIndent = (line: number) =>
+        document.getText(Range.create(line, 0, line + 1, 0)).match(/^[ \t]*/)![0];
+    const createAction = (title: string, line: number, text: string, isPreferred: boolean) => ({
+        title,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred,
+        edit: { changes: { [document.uri]: [TextEdit.insert(Position.create(line, 0), text)] } }
+    });
+
+    const line = statement.range.start.line;
+    const actions: CodeAction[] = [
+        createAction(
+            `Declare '${name}' as a local variable`,
+            line,
+            `${getIndent(line)}Dim ${declaration}\n`,
+            true
+        )
+    ];
+
+    let shared = false;
+    let container: BlockSyntax | undefined = statement.parent;
+    while (container && !TYPE_BLOCKS.has(container.kind)) {
+        if (container.begin && MEMBER_BLOCKS.has(container.kind)) {
+            shared ||= container.begin.modifiers.some((m) => m.value === 'shared');
+        }
+        container = container.parent;
+    }
+    if (container?.begin) {
+        // Fields go after the `Inherits` and `Implements` statements at the top of the type
+        let after = container.begin.range.end.line;
+        for (const member of container.members) {
+            if (member.nodeType !== 'statement' || !BASE_TYPE_STATEMENTS.has(member.kind)) break;
+            after = member.range.end.line;
+        }
+        const typeIndent = getIndent(container.begin.range.start.line);
+        const indent = typeIndent + (typeIndent.includes('\t') ? '\t' : '    ');
+        // Members of modules are shared anyway
+        const modifiers =
+            shared && container.kind !== BlockKind.Module ? 'Private Shared' : 'Private';
+        actions.push(
+            createAction(
+                `Declare '${name}' as a field`,
+                after + 1,
+                `${indent}${modifiers} ${declaration}\n`,
+                false
+            )
+        );
+    }
+    return actions;
+}
+
+/**
+ * Creates the quick fixes that make a narrowing conversion explicit: the conversion function of
+ * an intrinsic type (`CInt(x)`) or `DirectCast` for other types, and `CType`.
+ * @param document The text document.
+ * @param diagnostic The narrowing-conversion diagnostic, whose range is the converted value.
+ * @param type The target type.
+ * @returns The code actions, the first one preferred.
+ */
+function getConversionActions(
+    document: TextDocument,
+    diagnostic: Diagnostic,
+    type: string
+): CodeAction[] {
+    const value = document.getText(diagnostic.range);
+    const conversion = CONVERSION_FUNCTIONS[type.toLowerCase()];
+    const fixes = conversion
+        ? [{ title: `Convert with ${conversion}`, text: `${conversion}(${value})` }]
+        : [{ title: 'Cast with DirectCast', text: `DirectCast(${value}, ${type})` }];
+    fixes.push({ title: 'Convert with CType', text: `CType(${value}, ${type})` });
+    return fixes.map((fix, index) => ({
+        title: fix.title,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: index === 0,
+        edit: { changes: { [document.uri]: [TextEdit.replace(diagnostic.range, fix.text)] } }
+    }));
+}
+
 /**
  * Returns the correct closing statement for a given block type.
  *
@@ -1,6 +1,7 @@
 import { CodeLens, CodeLensParams, SymbolKind, DocumentSymbol } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Logger } from '../utils/logger';
+import { RequestContext } from '../utils/progress';
 import { parseDocumentSymbols } from '../utils/parser';
 import { onReferences } from './references';
 
@@ -46,13 +47,15 @@ export function onCodeLens(params: CodeLensParams, document: TextDocument): Code
  * @param codeLens The code lens to resolve.
  * @param document The text document.
  * @param allDocuments Optional list of all open documents.
+ * @param context The cancellation token of the request.
  * @returns The resolved CodeLens with a command.
  */
-export function onCodeLensResolve(
+export async function onCodeLensResolve(
     codeLens: CodeLens,
     document: TextDocument,
-    allDocuments: TextDocument[] = [document]
-): CodeLens {
+    allDocuments: TextDocument[] = [document],
+    context: RequestContext = {}
+): Promise<CodeLens> {
     const data = codeLens.data;
     if (!data) return codeLens;
 
@@ -62,14 +65,15 @@ export function onCodeLensResolve(
 
     // Calculate references
     // includeDeclaration: false so we only count usages
-    const locations = onReferences(
+    const locations = await onReferences(
         {
             textDocument: { uri: data.uri },
             position: data.position,
             context: { includeDeclaration: false }
         },
         document,
-        allDocuments
+        allDocuments,
+        { token: context.token }
     );
 
     const count = locations.length;
@@ -2,8 +2,7 @@ import {
     CompletionItem,
     CompletionItemKind,
     TextDocumentPositionParams,
-    SymbolKind,
-    DocumentSymbol
+    SymbolKind
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { KEYWORDS } from '../keywords';
@@ -11,24 +10,32 @@ import { BUILTINS } from '../builtins';
 import {
     parseDocumentSymbols,
     getVisibleSymbols,
-    findSymbolInScope,
     getSymbolContainingPosition
 } from '../utils/parser';
 import { SNIPPETS } from '../snippets';
 import { Logger } from '../utils/logger';
+import {
+    findTypeSymbol,
+    getExpressionBeforeDot,
+    getTypeMembers,
+    inferExpressionType
+} from '../utils/typeInference';
 
 /**
  * Handles completion requests.
  * Provides suggestions for keywords, snippets, and symbols (variables, classes, etc.).
  * Supports dot-access (member completion) and type context (after 'As').
+ * Members are looked up in the inferred type of the expression before the dot.
  *
  * @param params The completion parameters (position, document context).
  * @param document The text document.
+ * @param allDocuments Optional list of all documents (for types declared in other files).
  * @returns An array of completion items.
  */
 export function onCompletion(
     params: TextDocumentPositionParams,
-    document: TextDocument
+    document: TextDocument,
+    allDocuments: TextDocument[] = [document]
 ): CompletionItem[] {
     const items: CompletionItem[] = [];
     const text = document.getText();
@@ -58,127 +65,36 @@ export function onCompletion(
     if (isMemberAccess) {
         Logger.debug('Completion: Member access detected.');
         scanIndex--; // Move past the dot
-        const parts: string[] = [];
-
-        while (scanIndex >= 0) {
-            // a. Skip whitespace
-            while (scanIndex > 0 && /[ \t]/.test(text[scanIndex - 1])) {
-                scanIndex--;
-            }
-
-            // b. Read Word
-            const wordEnd = scanIndex;
-            while (scanIndex > 0 && /\w/.test(text[scanIndex - 1])) {
-                scanIndex--;
-            }
-            if (scanIndex === wordEnd) {
-                // No word found (e.g. ".." or ". " or start of line)
-                break;
-            }
-            const word = text.substring(scanIndex, wordEnd);
-            parts.unshift(word); // Add to front
-
-            // c. Skip whitespace again (before the word)
-            while (scanIndex > 0 && /[ \t]/.test(text[scanIndex - 1])) {
-                scanIndex--;
-            }
-
-            // d. Check for Dot
-            if (scanIndex > 0 && text[scanIndex - 1] === '.') {
-                scanIndex--; // Consume dot and continue loop
+        const expression = getExpressionBeforeDot(text, scanIndex);
+        if (expression) {
+            Logger.debug(`Completion: Resolving type of '${expression}'`);
+            const typeName = inferExpressionType(
+                expression,
+                document,
+                params.position,
+                allDocuments
+            );
+            const type = typeName
+                ? findTypeSymbol(typeName, document, params.position, allDocuments)
+                : null;
+            if (!type) {
+                Logger.debug(`Completion: Type of '${expression}' not found.`);
             } else {
-                // No dot, end of chain
-                break;
-            }
-        }
-
-        if (parts.length > 0) {
-            Logger.debug(`Completion: Resolving chain: ${parts.join('.')}`);
-            let currentSymbol: DocumentSymbol | null = null;
-
-            // Resolve the first part (variable or class)
-            currentSymbol = findSymbolInScope(symbols, parts[0].toLowerCase(), params.position);
-
-            // Resolve subsequent parts
-            for (let i = 0; i < parts.length; i++) {
-                // If this is the last part, we are looking for its type's members
-                // But wait, the chain is "p.Home". "p" is part[0], "Home" is part[1].
-                // We need to resolve "p" -> type Person.
-                // Then resolve "Home" inside Person -> type Address.
-                // Then return members of Address.
-
-                // If currentSymbol is a variable/property, we need its type.
-                if (!currentSymbol) {
-                    Logger.debug(`Completion: Symbol '${parts[i]}' not found.`);
-                    break;
-                }
-
-                // Get type of current symbol
-                let typeName: string | null = null;
-
-                if (currentSymbol.detail) {
-                    const asMatch = /\bAs\s+(\w+)/i.exec(currentSymbol.detail);
-                    if (asMatch) {
-                        typeName = asMatch[1].toLowerCase();
-                    }
-                }
-
-                if (!typeName) {
-                    Logger.debug(
-                        `Completion: Could not determine type of '${currentSymbol.name}'.`
-                    );
-                    currentSymbol = null;
-                    break;
-                }
-
-                // Find the Type definition (Class/Structure)
-                const typeSymbol = findSymbolInScope(symbols, typeName, params.position);
-                if (!typeSymbol) {
-                    Logger.debug(`Completion: Type definition '${typeName}' not found.`);
-                    currentSymbol = null;
-                    break;
-                }
-
-                // If we are at the last part of the chain (e.g. "p.Home" and we want members of Home),
-                // we just found "Home"'s type ("Address"). So we are done.
-                // UNLESS we are iterating.
-
-                // Let's re-evaluate loop.
-                // "p" -> currentSymbol = p (Variable). typeName = Person. typeSymbol = Class Person.
-                // i=0. parts[0]="p".
-                // If there are more parts (e.g. "Home"), we look for "Home" in "Class Person".
-
-                if (i < parts.length - 1) {
-                    const nextPart = parts[i + 1].toLowerCase();
-                    // Look for nextPart in typeSymbol's children
-                    if (typeSymbol.children) {
-                        currentSymbol =
-                            typeSymbol.children.find(
-                                (c: DocumentSymbol) => c.name.toLowerCase() === nextPart
-                            ) || null;
-                    } else {
-                        currentSymbol = null;
-                    }
-                } else {
-                    // We processed the last part of the chain.
-                    // The result is `typeSymbol` which is the type of the last property.
-                    // We want to return its children.
-                    if (typeSymbol.children) {
-                        Logger.debug(
-                            `Completion: Found ${typeSymbol.children.length} members in '${typeSymbol.name}'.`
-                        );
-                        for (const child of typeSymbol.children) {
-                            items.push({
-                                label: child.name,
-                                kind: mapSymbolKindToCompletionKind(child.kind),
-                                detail: child.detail,
-                                documentation: `Member of ${typeSymbol.name}`
-                            });
-                        }
-                    }
+                // Includes the members inherited from base classes and interfaces
+                const members = getTypeMembers(type, allDocuments);
+                Logger.debug(
+                    `Completion: Found ${members.length} members in '${type.symbol.name}'.`
+                );
+                for (const { symbol: member } of members) {
+                    items.push({
+                        label: member.name,
+                        kind: mapSymbolKindToCompletionKind(member.kind),
+                        detail: member.detail,
+                        documentation: `Member of ${type.symbol.name}`
+                    });
                 }
             }
-            return items;
+            return mergeOverloads(items);
         }
     }
 
@@ -325,7 +241,8 @@ export function onCompletion(
         // If 'As ...', we only want Classes/Enums/Modules?
         // Variables/Functions are not types.
 
-        let shouldAdd = true;
+        // Labels are only used after GoTo and Resume
+        let shouldAdd = sym.kind !== SymbolKind.Key;
         if (isTypeContext) {
             if (
                 sym.kind !== SymbolKind.Class &&
@@ -379,6 +296,47 @@ export function onCompletionResolve(item: CompletionItem): CompletionItem {
     return item;
 }
 
+/** Completion kinds of procedures, which may be overloaded. */
+const OVERLOADABLE_KINDS = new Set<CompletionItemKind | undefined>([
+    CompletionItemKind.Method,
+    CompletionItemKind.Function,
+    CompletionItemKind.Property,
+    CompletionItemKind.Operator
+]);
+
+/**
+ * Merges the items of the overloads of a procedure into the item of the first one, whose detail
+ * then counts the others (e.g. `Sub Add(a As Integer) (+1 overload)`).
+ *
+ * @param items The completion items of members.
+ * @returns The items with one item per procedure name.
+ */
+function mergeOverloads(items: CompletionItem[]): CompletionItem[] {
+    const merged: CompletionItem[] = [];
+    const overloads = new Map<string, { item: CompletionItem; count: number }>();
+    for (const item of items) {
+        if (!OVERLOADABLE_KINDS.has(item.kind)) {
+            merged.push(item);
+            continue;
+        }
+        // Subs and Functions of the same name overload each other
+        const key = item.label.toLowerCase();
+        const first = overloads.get(key);
+        if (first) {
+            first.count++;
+        } else {
+            overloads.set(key, { item, count: 0 });
+            merged.push(item);
+        }
+    }
+    for (const { item, count } of overloads.values()) {
+        if (count > 0) {
+            item.detail = `${item.detail ?? item.label} (+${count} overload${count > 1 ? 's' : ''})`;
+        }
+    }
+    return merged;
+}
+
 /**
  * Maps a SymbolKind to a CompletionItemKind.
  *
@@ -409,6 +367,12 @@ function mapSymbolKindToCompletionKind(kind: SymbolKind): CompletionItemKind {
             return CompletionItemKind.Interface;
         case SymbolKind.Enum:
             return CompletionItemKind.Enum;
+        case SymbolKind.EnumMember:
+            return CompletionItemKind.EnumMember;
+        case SymbolKind.Event:
+            return CompletionItemKind.Event;
+        case SymbolKind.Operator:
+            return CompletionItemKind.Operator;
         default:
             return CompletionItemKind.Text;
     }
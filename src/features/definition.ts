@@ -1,8 +1,10 @@
 import { Definition, DefinitionParams, Location } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import { findLabelOccurrences } from '../utils/labels';
 import { Logger } from '../utils/logger';
 import { parseDocumentSymbols, findSymbolAtPosition, findGlobalSymbol } from '../utils/parser';
 import { getWordAtPosition } from '../utils/textUtils';
+import { findInheritedMember, resolveMemberAtPosition } from '../utils/typeInference';
 
 /**
  * Handles Go to Definition requests.
@@ -19,6 +21,16 @@ export function onDefinition(
     allDocuments: TextDocument[] = [document]
 ): Definition | null {
     Logger.log(`Definition requested at ${params.position.line}:${params.position.character}`);
+
+    // Labels (including line numbers) are resolved within their procedure
+    const label = findLabelOccurrences(document, params.position);
+    if (label) {
+        Logger.debug(`Definition: Found label '${label.name}'`);
+        return label.declarations.length > 0
+            ? Location.create(document.uri, label.declarations[0])
+            : null;
+    }
+
     const word = getWordAtPosition(document, params.position);
     if (!word) {
         Logger.debug('Definition: No word found at position.');
@@ -30,8 +42,15 @@ export function onDefinition(
     const lowerWord = word.toLowerCase();
     const symbols = parseDocumentSymbols(document);
 
-    const matchedSymbol = findSymbolAtPosition(symbols, lowerWord, params.position);
+    // Qualified members (e.g. `Color.Red`, `MyBase.Save`) are looked up in the qualifier's type
+    // (and its base types) first
+    const member = resolveMemberAtPosition(document, params.position, allDocuments);
+    if (member) {
+        Logger.debug(`Definition: Found member '${member.symbol.name}' in ${member.document.uri}`);
+        return Location.create(member.document.uri, member.symbol.selectionRange);
+    }
 
+    const matchedSymbol = findSymbolAtPosition(symbols, lowerWord, params.position);
     if (matchedSymbol) {
         Logger.debug(
             `Definition: Found symbol '${matchedSymbol.name}' at line ${matchedSymbol.range.start.line}.`
@@ -39,6 +58,13 @@ export function onDefinition(
         return Location.create(document.uri, matchedSymbol.selectionRange);
     }
 
+    // Members inherited from a base class, used without qualifier
+    const inherited = findInheritedMember(lowerWord, document, params.position, allDocuments);
+    if (inherited) {
+        Logger.debug(`Definition: Found inherited member '${inherited.symbol.name}'`);
+        return Location.create(inherited.document.uri, inherited.symbol.selectionRange);
+    }
+
     // Search in other documents
     if (allDocuments.length > 0) {
         Logger.debug(
@@ -0,0 +1,84 @@
+import {
+    DocumentDiagnosticParams,
+    DocumentDiagnosticReport,
+    WorkspaceDiagnosticParams,
+    WorkspaceDiagnosticReport,
+    WorkspaceDocumentDiagnosticReport
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DiagnosticCache } from '../utils/diagnosticCache';
+import { Logger } from '../utils/logger';
+import { ProgressTracker, RequestContext } from '../utils/progress';
+import { VbSettings } from '../utils/settings';
+import { validateTextDocument } from './validation';
+
+/**
+ * Handles document diagnostic requests (`textDocument/diagnostic`).
+ * Validates the document unless the cached result is still current.
+ *
+ * @param params The document diagnostic parameters.
+ * @param document The text document.
+ * @param allDocuments All documents of the workspace, for cross-file checks.
+ * @param settings The settings of the document.
+ * @param cache The cache of the reported results.
+ * @returns A full report, or an unchanged report if the client's result ID is still current.
+ */
+export function onDocumentDiagnostic(
+    params: DocumentDiagnosticParams,
+    document: TextDocument,
+    allDocuments: TextDocument[],
+    settings: VbSettings,
+    cache: DiagnosticCache
+): DocumentDiagnosticReport {
+    Logger.log(`Document diagnostics requested for ${document.uri}`);
+    return cache.getReport(document, params.previousResultId, () =>
+        validateTextDocument(document, allDocuments, settings)
+    );
+}
+
+/**
+ * Handles workspace diagnostic requests (`workspace/diagnostic`).
+ * Reports every document of the workspace, including the files that are not open.
+ *
+ * @param params The workspace diagnostic parameters.
+ * @param allDocuments All documents of the workspace.
+ * @param getSettings Provides the settings of a document.
+ * @param cache The cache of the reported results.
+ * @param isOpen Checks if a document is open in the editor; open documents are reported with
+ *               their version.
+ * @param context The cancellation token and work-done progress of the request.
+ * @returns One full or unchanged report per document.
+ */
+export async function onWorkspaceDiagnostic(
+    params: WorkspaceDiagnosticParams,
+    allDocuments: TextDocument[],
+    getSettings: (uri: string) => Promise<VbSettings>,
+    cache: DiagnosticCache,
+    isOpen: (uri: string) => boolean,
+    context: RequestContext = {}
+): Promise<WorkspaceDiagnosticReport> {
+    Logger.log(`Workspace diagnostics requested for ${allDocuments.length} documents`);
+    const previousResultIds = new Map(params.previousResultIds.map((p) => [p.uri, p.value]));
+    const items: WorkspaceDocumentDiagnosticReport[] = [];
+    const progress = new ProgressTracker(context, 'Validating workspace', allDocuments.length);
+    try {
+        for (const document of allDocuments) {
+            await progress.next(document.uri.substring(document.uri.lastIndexOf('/') + 1));
+            const settings = await getSettings(document.uri);
+            const report = cache.getReport(document, previousResultIds.get(document.uri), () =>
+                validateTextDocument(document, allDocuments, settings)
+            );
+            items.push({
+                ...report,
+                uri: document.uri,
+                version: isOpen(document.uri) ? document.version : null
+            });
+        }
+    } finally {
+        progress.done();
+    }
+    Logger.debug(
+        `Workspace diagnostics: ${items.filter((i) => i.kind === 'full').length} of ${items.length} reports changed.`
+    );
+    return { items };
+}
@@ -22,10 +22,10 @@ import { stripComment } from '../utils/textUtils';
  * @param document The text document.
  * @returns An array of DocumentHighlight objects.
  */
-export function onDocumentHighlight(
+export async function onDocumentHighlight(
     params: DocumentHighlightParams,
     document: TextDocument
-): DocumentHighlight[] {
+): Promise<DocumentHighlight[]> {
     Logger.log(
         `Document Highlight requested at ${params.position.line}:${params.position.character}`
     );
@@ -34,7 +34,7 @@ export function onDocumentHighlight(
     // onReferences returns Location[] { uri, range }
     // We just need to map it to DocumentHighlight
 
-    const locations = onReferences(
+    const locations = await onReferences(
         {
             textDocument: params.textDocument,
             position: params.position,
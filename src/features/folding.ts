@@ -17,6 +17,8 @@ import {
     FOLD_IMPORTS_REGEX
 } from '../utils/regexes';
 import { stripComment } from '../utils/textUtils';
+import { getLogicalLines } from '../utils/lexer';
+import { getDocumentModel } from '../utils/documentModel';
 
 /**
  * Handles folding range requests.
@@ -41,6 +43,13 @@ export function onFoldingRanges(
     let commentBlockStart = -1;
     let importsBlockStart = -1;
 
+    // Blocks are detected on logical lines so that statements split with line continuations
+    // (e.g. a multi-line `If ... Then`) fold from their first line.
+    const model = getDocumentModel(document);
+    const logicalLines = new Map(
+        getLogicalLines(model.text, model.tokens).map((l) => [l.startLine, l])
+    );
+
     for (let i = 0; i < lines.length; i++) {
         const rawLine = lines[i];
         const trimmedRaw = rawLine.trim();
@@ -88,8 +97,12 @@ export function onFoldingRanges(
             }
         }
 
+        // Continuation lines are analyzed as part of their logical line
+        const logical = logicalLines.get(i);
+        if (!logical) continue;
+
         // Remove comments for analysis of code blocks
-        const line = stripComment(rawLine).trim();
+        const line = stripComment(logical.text).trim();
         if (!line) continue;
 
         // Check for block ends
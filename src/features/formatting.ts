@@ -1,6 +1,8 @@
 import { TextDocument, TextEdit, FormattingOptions, Range, DocumentOnTypeFormattingParams } from 'vscode-languageserver/node';
 import { Logger } from '../utils/logger';
 import { formatLine, formatKeywordCasing } from '../utils/textUtils';
+import { DEFAULT_SETTINGS, FormatSettings } from '../utils/settings';
+import { getLogicalLines } from '../utils/lexer';
 import {
     VAL_BLOCK_START_REGEX,
     VAL_FOR_START_REGEX,
@@ -23,23 +25,22 @@ interface LineState {
 
 /**
  * Computes the indentation level and trimmed content for each line.
- * @param lines The lines of the document.
- * @returns An array of LineState objects.
+ * Block structure is determined per logical line; continuation lines of a statement
+ * split with line continuations are indented one level deeper than its first line.
+ * @param text The document text.
+ * @param settings The formatter settings.
+ * @returns An array of LineState objects (one per physical line).
  */
-function computeLineStates(lines: string[]): LineState[] {
+function computeLineStates(text: string, settings: FormatSettings): LineState[] {
+    const lines = text.split(/\r?\n/);
     let indentLevel = 0;
     const selectStack: boolean[] = []; // true = case opened
     const states: LineState[] = [];
 
-    for (let i = 0; i < lines.length; i++) {
+    for (const logical of getLogicalLines(text)) {
+        const i = logical.startLine;
         const line = lines[i];
-        let trimmed = line.trim();
-
-        // Apply keyword casing formatting
-        trimmed = formatKeywordCasing(trimmed);
-
-        // Apply spacing formatting
-        trimmed = formatLine(trimmed);
+        const trimmed = formatPhysicalLine(line, settings);
 
         if (trimmed === '') {
              // For empty lines, we keep the current indentLevel as the "level" for this line.
@@ -48,10 +49,14 @@ function computeLineStates(lines: string[]): LineState[] {
              continue;
         }
 
+        // Block rules look at the whole statement
+        const statement =
+            logical.endLine > i ? formatPhysicalLine(logical.text, settings) : trimmed;
+
         let currentLevel = indentLevel;
         let isCase = false;
 
-        const blockEndMatch = VAL_BLOCK_END_REGEX.exec(trimmed);
+        const blockEndMatch = VAL_BLOCK_END_REGEX.exec(statement);
 
         // 1. DEDENT LOGIC
 
@@ -71,15 +76,15 @@ function computeLineStates(lines: string[]): LineState[] {
         // Other End Blocks
         else if (
             blockEndMatch ||
-            VAL_NEXT_REGEX.test(trimmed) ||
-            VAL_LOOP_REGEX.test(trimmed) ||
-            VAL_WEND_REGEX.test(trimmed)
+            VAL_NEXT_REGEX.test(statement) ||
+            VAL_LOOP_REGEX.test(statement) ||
+            VAL_WEND_REGEX.test(statement)
         ) {
             indentLevel--;
             currentLevel = indentLevel;
         }
         // Case
-        else if (FMT_CASE_REGEX.test(trimmed)) {
+        else if (FMT_CASE_REGEX.test(statement)) {
             isCase = true;
             if (selectStack.length > 0) {
                 if (selectStack[selectStack.length - 1]) {
@@ -90,7 +95,7 @@ function computeLineStates(lines: string[]): LineState[] {
             currentLevel = indentLevel;
         }
         // Else
-        else if (FMT_ELSE_REGEX.test(trimmed)) {
+        else if (FMT_ELSE_REGEX.test(statement)) {
             currentLevel = indentLevel - 1;
         }
 
@@ -99,10 +104,18 @@ function computeLineStates(lines: string[]): LineState[] {
 
         states.push({ level: currentLevel, trimmed });
 
+        // Continuation lines get a hanging indent
+        for (let j = i + 1; j <= logical.endLine; j++) {
+            states.push({
+                level: currentLevel + 1,
+                trimmed: formatPhysicalLine(lines[j], settings)
+            });
+        }
+
         // 2. INDENT NEXT LOGIC
 
         // Select Case
-        if (VAL_SELECT_CASE_START_REGEX.test(trimmed)) {
+        if (VAL_SELECT_CASE_START_REGEX.test(statement)) {
             indentLevel++;
             selectStack.push(false);
         }
@@ -111,29 +124,45 @@ function computeLineStates(lines: string[]): LineState[] {
             indentLevel++;
         }
         // Other Blocks
-        else if (shouldIndentNext(trimmed)) {
+        else if (shouldIndentNext(statement)) {
             indentLevel++;
         }
     }
     return states;
 }
 
+/**
+ * Trims a line and applies keyword casing and spacing formatting.
+ * @param line The line content.
+ * @param settings The formatter settings.
+ * @returns The formatted line without leading or trailing whitespace.
+ */
+function formatPhysicalLine(line: string, settings: FormatSettings): string {
+    // Apply keyword casing formatting, then spacing formatting
+    return formatLine(formatKeywordCasing(line.trim(), settings.keywordCasing)).trim();
+}
+
 /**
  * Handles document formatting requests.
  * Applies indentation rules and keyword casing/spacing.
  *
  * @param document The document to format.
  * @param options Formatting options (tab size, insert spaces).
+ * @param settings The formatter settings (keyword casing).
  * @returns An array of TextEdits to apply the formatting.
  */
-export function formatDocument(document: TextDocument, options: FormattingOptions): TextEdit[] {
+export function formatDocument(
+    document: TextDocument,
+    options: FormattingOptions,
+    settings: FormatSettings = DEFAULT_SETTINGS.format
+): TextEdit[] {
     Logger.log('Formatting requested for ' + document.uri);
     const text = document.getText();
     const lines = text.split(/\r?\n/);
     const edits: TextEdit[] = [];
     const indentString = options.insertSpaces ? ' '.repeat(options.tabSize) : '\t';
 
-    const states = computeLineStates(lines);
+    const states = computeLineStates(text, settings);
 
     for (let i = 0; i < lines.length; i++) {
         const line = lines[i];
@@ -170,17 +199,19 @@ export function formatDocument(document: TextDocument, options: FormattingOption
  * @param document The document to format.
  * @param range The range to format.
  * @param options Formatting options.
+ * @param settings The formatter settings.
  * @returns An array of TextEdits within the range.
  */
 export function formatRange(
     document: TextDocument,
     range: Range,
-    options: FormattingOptions
+    options: FormattingOptions,
+    settings: FormatSettings = DEFAULT_SETTINGS.format
 ): TextEdit[] {
     Logger.log(
         `Range formatting requested for ${document.uri} at ${range.start.line}-${range.end.line}`
     );
-    const allEdits = formatDocument(document, options);
+    const allEdits = formatDocument(document, options, settings);
 
     const rangeEdits = allEdits.filter((edit) => {
         const editLine = edit.range.start.line;
@@ -197,18 +228,20 @@ export function formatRange(
  *
  * @param document The document to format.
  * @param params The formatting parameters.
+ * @param settings The formatter settings.
  * @returns An array of TextEdits.
  */
 export function formatOnType(
     document: TextDocument,
-    params: DocumentOnTypeFormattingParams
+    params: DocumentOnTypeFormattingParams,
+    settings: FormatSettings = DEFAULT_SETTINGS.format
 ): TextEdit[] {
     Logger.log(`On Type Formatting requested at ${document.uri} for character '${params.ch}'`);
     const text = document.getText();
     const lines = text.split(/\r?\n/);
     const indentString = params.options.insertSpaces ? ' '.repeat(params.options.tabSize) : '\t';
 
-    const states = computeLineStates(lines);
+    const states = computeLineStates(text, settings);
     const lineIndex = params.position.line;
 
     // Safety check
@@ -5,6 +5,7 @@ import { KEYWORDS } from '../keywords';
 import { BUILTINS } from '../builtins';
 import { parseDocumentSymbols, findSymbolAtPosition, findGlobalSymbol } from '../utils/parser';
 import { getWordAtPosition } from '../utils/textUtils';
+import { ResolvedSymbol, getSymbolType, resolveMemberAtPosition } from '../utils/typeInference';
 
 /**
  * Handles hover requests.
@@ -54,29 +55,39 @@ export function onHover(
     }
 
     // 3. Check User Symbols (Local)
-    const symbols = parseDocumentSymbols(document);
-    let matchedSymbol = findSymbolAtPosition(symbols, lowerWord, params.position);
+    // Qualified members (e.g. `Color.Red`, `GetPerson().Name`) are looked up in the type of
+    // the expression before the dot first
+    let matched = resolveMemberAtPosition(document, params.position, allDocuments);
+    if (!matched) {
+        const symbol = findSymbolAtPosition(
+            parseDocumentSymbols(document),
+            lowerWord,
+            params.position
+        );
+        if (symbol) matched = { symbol, document };
+    }
 
     // 4. Check Global Symbols (Other Documents)
-    if (!matchedSymbol && allDocuments.length > 0) {
+    if (!matched && allDocuments.length > 0) {
         for (const doc of allDocuments) {
             if (doc.uri === document.uri) continue;
             const docSymbols = parseDocumentSymbols(doc);
             const found = findGlobalSymbol(docSymbols, lowerWord);
             if (found) {
-                matchedSymbol = found;
+                matched = { symbol: found, document: doc };
                 break;
             }
         }
     }
 
-    if (matchedSymbol) {
+    if (matched) {
+        const matchedSymbol = matched.symbol;
         Logger.debug(`Hover: Found user symbol '${matchedSymbol.name}'.`);
         const kindName = getKindName(matchedSymbol.kind);
         return {
             contents: {
                 kind: MarkupKind.Markdown,
-                value: `**${matchedSymbol.name}** (${kindName})\n\n${matchedSymbol.detail}`
+                value: `**${matchedSymbol.name}** (${kindName})\n\n${getDetail(matched, allDocuments)}`
             }
         };
     }
@@ -85,6 +96,21 @@ export function onHover(
     return null;
 }
 
+/**
+ * Gets the detail shown for a symbol. Variables and constants declared without `As` show their
+ * inferred type instead of `Object`.
+ *
+ * @param resolved The symbol and its document.
+ * @param allDocuments All documents of the workspace.
+ * @returns The detail of the symbol.
+ */
+function getDetail(resolved: ResolvedSymbol, allDocuments: TextDocument[]): string {
+    const detail = resolved.symbol.detail ?? '';
+    if (!/ As Object$/.test(detail)) return detail;
+    const type = getSymbolType(resolved, allDocuments);
+    return type ? detail.replace(/ As Object$/, ` As ${type}`) : detail;
+}
+
 /**
  * Converts a SymbolKind enum to a human-readable string.
  *
@@ -132,7 +158,7 @@ function getKindName(kind: SymbolKind): string {
         case SymbolKind.Object:
             return 'Object';
         case SymbolKind.Key:
-            return 'Key';
+            return 'Label';
         case SymbolKind.Null:
             return 'Null';
         case SymbolKind.EnumMember:
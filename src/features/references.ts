@@ -1,6 +1,8 @@
 import { Location, ReferenceParams, SymbolKind, Range } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import { findLabelOccurrences } from '../utils/labels';
 import { Logger } from '../utils/logger';
+import { ProgressTracker, RequestContext } from '../utils/progress';
 import { getWordAtPosition } from '../utils/textUtils';
 import { parseDocumentSymbols, findSymbolAtPosition, findSymbolParent } from '../utils/parser';
 
@@ -8,18 +10,34 @@ import { parseDocumentSymbols, findSymbolAtPosition, findSymbolParent } from '..
  * Handles Find References requests.
  * Finds all occurrences of the symbol under the cursor.
  * Supports multi-file references if `allDocuments` is provided.
+ * Yields to the event loop, checks for cancellation and reports progress between documents.
  *
  * @param params The reference parameters.
  * @param document The text document.
  * @param allDocuments Optional list of all open documents.
+ * @param context The cancellation token and work-done progress of the request.
  * @returns An array of locations where the symbol is found.
  */
-export function onReferences(
+export async function onReferences(
     params: ReferenceParams,
     document: TextDocument,
-    allDocuments: TextDocument[] = [document]
-): Location[] {
+    allDocuments: TextDocument[] = [document],
+    context: RequestContext = {}
+): Promise<Location[]> {
     Logger.log(`References requested at ${params.position.line}:${params.position.character}`);
+
+    // Labels are only visible in their procedure; the word search would also match variables
+    const label = findLabelOccurrences(document, params.position);
+    if (label) {
+        const includeDeclaration = !params.context || params.context.includeDeclaration;
+        const ranges = includeDeclaration
+            ? [...label.declarations, ...label.references]
+            : label.references;
+        return ranges
+            .sort((a, b) => a.start.line - b.start.line || a.start.character - b.start.character)
+            .map((range) => Location.create(document.uri, range));
+    }
+
     const word = getWordAtPosition(document, params.position);
     if (!word) {
         Logger.debug('References: No word found at position.');
@@ -55,43 +73,53 @@ export function onReferences(
     }
 
     const locations: Location[] = [];
+    const progress = new ProgressTracker(
+        context,
+        `Finding references to '${word}'`,
+        targetDocuments.length
+    );
 
-    for (const doc of targetDocuments) {
-        const text = doc.getText();
-        const lines = text.split(/\r?\n/);
-
-        let startLine = 0;
-        let endLine = lines.length;
+    try {
+        for (const doc of targetDocuments) {
+            await progress.next(doc.uri.substring(doc.uri.lastIndexOf('/') + 1));
+            const text = doc.getText();
+            const lines = text.split(/\r?\n/);
 
-        // Apply searchRange ONLY if we are in the definition document (and searchRange is set)
-        if (searchRange && doc.uri === document.uri) {
-            startLine = searchRange.start.line;
-            endLine = searchRange.end.line + 1;
-            if (endLine > lines.length) endLine = lines.length;
-        }
+            let startLine = 0;
+            let endLine = lines.length;
 
-        for (let i = startLine; i < endLine; i++) {
-            const line = lines[i];
-            let match;
-            // Search all occurrences in the line
-            const globalRegex = new RegExp(`\\b${word}\\b`, 'gi');
-
-            while ((match = globalRegex.exec(line)) !== null) {
-                // Check if it's inside a comment
-                const commentIndex = line.indexOf("'");
-                if (commentIndex !== -1 && match.index > commentIndex) {
-                    continue;
-                }
+            // Apply searchRange ONLY if we are in the definition document (and searchRange is set)
+            if (searchRange && doc.uri === document.uri) {
+                startLine = searchRange.start.line;
+                endLine = searchRange.end.line + 1;
+                if (endLine > lines.length) endLine = lines.length;
+            }
 
-                locations.push({
-                    uri: doc.uri,
-                    range: {
-                        start: { line: i, character: match.index },
-                        end: { line: i, character: match.index + word.length }
+            for (let i = startLine; i < endLine; i++) {
+                const line = lines[i];
+                let match;
+                // Search all occurrences in the line
+                const globalRegex = new RegExp(`\\b${word}\\b`, 'gi');
+
+                while ((match = globalRegex.exec(line)) !== null) {
+                    // Check if it's inside a comment
+                    const commentIndex = line.indexOf("'");
+                    if (commentIndex !== -1 && match.index > commentIndex) {
+                        continue;
                     }
-                });
+
+                    locations.push({
+                        uri: doc.uri,
+                        range: {
+                            start: { line: i, character: match.index },
+                            end: { line: i, character: match.index + word.length }
+                        }
+                    });
+                }
             }
         }
+    } finally {
+        progress.done();
     }
 
     Logger.debug(`References: Found ${locations.length} occurrences.`);
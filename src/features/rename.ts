@@ -1,6 +1,7 @@
 import { RenameParams, WorkspaceEdit, TextEdit } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Logger } from '../utils/logger';
+import { RequestContext } from '../utils/progress';
 import { onReferences } from './references';
 
 /**
@@ -11,13 +12,15 @@ import { onReferences } from './references';
  * @param params The rename parameters (position, new name).
  * @param document The text document.
  * @param allDocuments Optional list of all open documents.
+ * @param context The cancellation token and work-done progress of the request.
  * @returns A WorkspaceEdit describing the changes.
  */
-export function onRenameRequest(
+export async function onRenameRequest(
     params: RenameParams,
     document: TextDocument,
-    allDocuments: TextDocument[] = [document]
-): WorkspaceEdit | null {
+    allDocuments: TextDocument[] = [document],
+    context: RequestContext = {}
+): Promise<WorkspaceEdit | null> {
     Logger.log(
         `Rename requested at ${params.position.line}:${params.position.character} to '${params.newName}'`
     );
@@ -31,14 +34,15 @@ export function onRenameRequest(
         return null;
     }
 
-    const locations = onReferences(
+    const locations = await onReferences(
         {
             textDocument: params.textDocument,
             position: params.position,
             context: { includeDeclaration: true }
         },
         document,
-        allDocuments
+        allDocuments,
+        { ...context, title: `Renaming to '${newName}'` }
     );
 
     if (!locations || locations.length === 0) {
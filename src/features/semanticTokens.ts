@@ -35,7 +35,8 @@ export const tokenTypes = [
     'string',
     'number',
     'regexp',
-    'operator'
+    'operator',
+    'label'
 ];
 
 /**
@@ -169,7 +170,8 @@ function getTokenTypeIndex(kind: SymbolKind): number {
             type = 'variable';
             break;
         case SymbolKind.Key:
-            type = 'keyword';
+            // Labels
+            type = 'label';
             break;
         case SymbolKind.Null:
             type = 'keyword';
@@ -1,16 +1,28 @@
 import {
     SignatureHelp,
     SignatureHelpParams,
-    ParameterInformation
+    SignatureInformation
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Logger } from '../utils/logger';
-import { parseDocumentSymbols, findSymbolInScope, findGlobalSymbol } from '../utils/parser';
-import { BUILTINS } from '../builtins';
+import { isCodeToken, tokenize } from '../utils/lexer';
+import { joinTokens } from '../utils/syntaxTree';
+import { getExpressionBeforeDot, inferExpressionType } from '../utils/typeInference';
+import {
+    Signature,
+    findConstructorSignatures,
+    findMemberSignatures,
+    findSignatures,
+    getParameterIndex,
+    parseArguments,
+    selectSignature
+} from '../utils/signatures';
 
 /**
  * Handles signature help requests.
- * Provides parameter hints for function calls.
+ * Provides parameter hints for function calls. Calls of members (e.g. `p.Greet(`) are looked
+ * up in the inferred type of the expression before the dot. All overloads are listed; the
+ * active one is chosen by the number, names and inferred types of the arguments.
  *
  * @param params The signature help parameters.
  * @param document The text document.
@@ -61,110 +73,83 @@ export function onSignatureHelp(
                 if (functionName) {
                     Logger.debug(`SignatureHelp: Identified function call '${functionName}'.`);
 
-                    // Determine active parameter
-                    let activeParameter = 0;
-                    let innerLevel = 0;
-                    for (let j = nameEnd + 1; j < offset; j++) {
-                        const c = text[j];
-                        if (c === '(') innerLevel++;
-                        else if (c === ')') innerLevel--;
-                        else if (c === ',' && innerLevel === 0) activeParameter++;
-                    }
-
-                    // 1. Check Built-ins
-                    const builtin = BUILTINS[functionName.toLowerCase()];
-                    if (builtin) {
-                        Logger.debug(`SignatureHelp: Found builtin '${functionName}'.`);
-                        return {
-                            signatures: [
-                                {
-                                    label: builtin.detail,
-                                    documentation: builtin.documentation,
-                                    parameters: builtin.parameters || []
-                                }
-                            ],
-                            activeSignature: 0,
-                            activeParameter: activeParameter
-                        };
-                    }
-
-                    // 2. Check User Symbols
-                    const symbols = parseDocumentSymbols(document);
-                    let symbol = findSymbolInScope(
-                        symbols,
-                        functionName.toLowerCase(),
-                        params.position
+                    // Split the arguments typed so far; the last one is being edited
+                    const tokens = tokenize(text.substring(nameEnd + 1, offset)).filter(
+                        isCodeToken
                     );
+                    const args = parseArguments(tokens, -1);
 
-                    // 3. Check Global Symbols (Other Documents)
-                    if (!symbol && allDocuments.length > 0) {
-                        for (const doc of allDocuments) {
-                            if (doc.uri === document.uri) continue;
-                            const docSymbols = parseDocumentSymbols(doc);
-                            const found = findGlobalSymbol(docSymbols, functionName.toLowerCase());
-                            if (found) {
-                                symbol = found;
-                                break;
-                            }
-                        }
+                    // Members (e.g. `p.Greet(`) are not global functions
+                    let dotIndex = nameStart;
+                    while (dotIndex > 0 && /[ \t]/.test(text[dotIndex - 1])) {
+                        dotIndex--;
+                    }
+                    const isMemberCall = dotIndex > 0 && text[dotIndex - 1] === '.';
+                    const isConstructor =
+                        !isMemberCall && /\bNew\s+$/i.test(text.substring(0, nameStart));
+
+                    // Collect the overloads: constructors of the type, members of the (inferred)
+                    // type of the qualifier, or user symbols and built-ins
+                    let signatures: Signature[];
+                    if (isConstructor) {
+                        signatures = findConstructorSignatures(
+                            functionName,
+                            document,
+                            params.position,
+                            allDocuments
+                        );
+                    } else if (isMemberCall) {
+                        signatures = findMemberSignatures(
+                            getExpressionBeforeDot(text, dotIndex - 1),
+                            functionName,
+                            document,
+                            params.position,
+                            allDocuments
+                        );
+                    } else {
+                        signatures = findSignatures(
+                            functionName,
+                            document,
+                            params.position,
+                            allDocuments
+                        );
                     }
 
-                    if (
-                        symbol &&
-                        symbol.detail &&
-                        (symbol.detail.startsWith('Sub') || symbol.detail.startsWith('Function'))
-                    ) {
-                        Logger.debug('SignatureHelp: Found symbol definition.');
-
-                        // Use parsed children to get accurate parameters (including complex types)
-                        const parameters: ParameterInformation[] = [];
-                        if (symbol.children) {
-                            for (const child of symbol.children) {
-                                // Parser marks arguments with "Argument" prefix in detail
-                                if (child.detail && child.detail.startsWith('Argument')) {
-                                    // Extract "x As Integer" from "Argument x As Integer"
-                                    const paramLabel = child.detail.substring('Argument '.length);
-                                    parameters.push({
-                                        label: paramLabel,
-                                        documentation: child.detail
-                                    });
-                                }
-                            }
-                        }
-
-                        // Fallback to parsing string if children approach yielded nothing but signature implies args
-                        // (Legacy support or if parser behavior changes)
-                        if (parameters.length === 0 && symbol.detail.includes('(')) {
-                             const paramString = symbol.detail.substring(
-                                symbol.detail.indexOf('(') + 1,
-                                symbol.detail.lastIndexOf(')')
-                            );
-                            if (paramString.trim()) {
-                                const paramsList = paramString.split(',');
-                                for (const p of paramsList) {
-                                    parameters.push({
-                                        label: p.trim()
-                                    });
-                                }
-                            }
-                        }
-
-                        // Reconstruct label from parameters for consistent display
-                        const paramsLabel = parameters.map(p => p.label).join(', ');
-                        const label = `${symbol.name}(${paramsLabel})`;
-                        const documentation = `Signature for ${symbol.name}`;
-
-                        return {
-                            signatures: [
-                                {
-                                    label: label,
-                                    documentation: documentation,
-                                    parameters: parameters
-                                }
-                            ],
-                            activeSignature: 0,
-                            activeParameter: activeParameter
-                        };
+                    if (signatures.length > 0) {
+                        Logger.debug(
+                            `SignatureHelp: Found ${signatures.length} signatures for '${functionName}'.`
+                        );
+                        // The types of the completed arguments select the overload
+                        const argumentTypes = args.map((arg, index) =>
+                            index < args.length - 1 && arg.tokens.length > 0
+                                ? inferExpressionType(
+                                      joinTokens(arg.tokens),
+                                      document,
+                                      params.position,
+                                      allDocuments
+                                  )
+                                : undefined
+                        );
+                        const activeSignature = selectSignature(signatures, args, argumentTypes);
+                        const information: SignatureInformation[] = signatures.map((signature) => {
+                            const item: SignatureInformation = {
+                                label: signature.label,
+                                documentation: signature.documentation,
+                                parameters: signature.parameters.map((p) => ({
+                                    label: p.label,
+                                    documentation: p.documentation
+                                }))
+                            };
+                            // An extra or misnamed argument has no parameter to highlight
+                            const index = getParameterIndex(signature, args, args.length - 1);
+                            if (index >= 0) item.activeParameter = index;
+                            return item;
+                        });
+
+                        const help: SignatureHelp = { signatures: information, activeSignature };
+                        const activeParameter = information[activeSignature].activeParameter;
+                        if (activeParameter !== undefined) help.activeParameter = activeParameter;
+                        return help;
                     }
                 }
                 break; // Stop after finding the first open paren
@@ -1,56 +1,53 @@
 import { Definition, DefinitionParams, Location } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Logger } from '../utils/logger';
-import { parseDocumentSymbols, findSymbolAtPosition, findSymbolInScope } from '../utils/parser';
+import { parseDocumentSymbols, findSymbolAtPosition } from '../utils/parser';
 import { getWordAtPosition } from '../utils/textUtils';
+import { findTypeSymbol, getSymbolType, resolveMemberAtPosition } from '../utils/typeInference';
 
 /**
  * Handles Go to Type Definition requests.
- * Finds the definition of the *type* of the symbol under the cursor.
+ * Finds the definition of the *type* of the symbol under the cursor, using the declared type
+ * or, for variables declared without `As`, the type inferred from their initializer.
  *
  * @param params The definition parameters.
  * @param document The text document.
+ * @param allDocuments Optional list of all open documents.
  * @returns The location of the type definition, or null if not found.
  */
 export function onTypeDefinition(
     params: DefinitionParams,
-    document: TextDocument
+    document: TextDocument,
+    allDocuments: TextDocument[] = [document]
 ): Definition | null {
     Logger.log(`Type Definition requested at ${params.position.line}:${params.position.character}`);
     const word = getWordAtPosition(document, params.position);
     if (!word) return null;
 
-    const symbols = parseDocumentSymbols(document);
-
-    // 1. Find the symbol under cursor
-    const symbol = findSymbolAtPosition(symbols, word, params.position);
-    if (!symbol) {
+    // 1. Find the symbol under cursor (members are looked up in the type of their qualifier)
+    let resolved = resolveMemberAtPosition(document, params.position, allDocuments);
+    if (!resolved) {
+        const symbol = findSymbolAtPosition(parseDocumentSymbols(document), word, params.position);
+        if (symbol) resolved = { symbol, document };
+    }
+    if (!resolved) {
         Logger.debug(`TypeDefinition: Symbol '${word}' not found.`);
         return null;
     }
 
     // 2. Determine its type
-    // Parse 'detail' field: "Dim x As Person" -> "Person"
-    // Or "Argument p As Person"
-    // Or "Function f() As Person"
-
-    if (!symbol.detail) return null;
-
-    const asMatch = /\bAs\s+(\w+)/i.exec(symbol.detail);
-    if (!asMatch) {
-        Logger.debug(`TypeDefinition: Could not determine type from '${symbol.detail}'.`);
+    const typeName = getSymbolType(resolved, allDocuments);
+    if (!typeName) {
+        Logger.debug(`TypeDefinition: Could not determine type of '${word}'.`);
         return null;
     }
-
-    const typeName = asMatch[1];
     Logger.debug(`TypeDefinition: Looking for type '${typeName}'.`);
 
     // 3. Find definition of the type
-    const typeSymbol = findSymbolInScope(symbols, typeName, params.position);
-
+    const typeSymbol = findTypeSymbol(typeName, document, params.position, allDocuments);
     if (typeSymbol) {
-        Logger.debug(`TypeDefinition: Found type '${typeSymbol.name}'.`);
-        return Location.create(document.uri, typeSymbol.selectionRange);
+        Logger.debug(`TypeDefinition: Found type '${typeSymbol.symbol.name}'.`);
+        return Location.create(typeSymbol.document.uri, typeSymbol.symbol.selectionRange);
     }
 
     Logger.debug(`TypeDefinition: Type '${typeName}' not found.`);
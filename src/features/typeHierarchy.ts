@@ -0,0 +1,200 @@
+import {
+    DocumentSymbol,
+    SymbolKind,
+    TypeHierarchyItem,
+    TypeHierarchyPrepareParams,
+    TypeHierarchySubtypesParams,
+    TypeHierarchySupertypesParams
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Logger } from '../utils/logger';
+import { getWordAtPosition } from '../utils/textUtils';
+import { parseDocumentSymbols } from '../utils/parser';
+import { RequestContext, yieldAndCheckCancelled } from '../utils/progress';
+import { ResolvedSymbol, findTypeSymbol } from '../utils/typeInference';
+
+/** Symbol kinds that can take part in a type hierarchy. */
+const HIERARCHY_KINDS = new Set<SymbolKind>([
+    SymbolKind.Class,
+    SymbolKind.Struct,
+    SymbolKind.Interface
+]);
+
+/**
+ * Prepares a type hierarchy for the type named at the cursor, either at its declaration or
+ * where it is used (`As Animal`, `Inherits Animal`, `Implements IShape`).
+ * @param params The prepare parameters.
+ * @param document The text document.
+ * @param allDocuments All documents of the workspace.
+ * @returns The item of the type, or null if there is no class, structure or interface there.
+ */
+export function onPrepareTypeHierarchy(
+    params: TypeHierarchyPrepareParams,
+    document: TextDocument,
+    allDocuments: TextDocument[] = [document]
+): TypeHierarchyItem[] | null {
+    Logger.log(
+        `Type Hierarchy prepare requested at ${params.position.line}:${params.position.character}`
+    );
+    const word = getWordAtPosition(document, params.position);
+    if (!word) {
+        Logger.debug('Type Hierarchy: No word found at position.');
+        return null;
+    }
+
+    const type = findTypeSymbol(word, document, params.position, allDocuments);
+    if (!type || !HIERARCHY_KINDS.has(type.symbol.kind)) {
+        Logger.debug(`Type Hierarchy: '${word}' is not a class, structure or interface.`);
+        return null;
+    }
+    return [toItem(type)];
+}
+
+/**
+ * Handles supertypes requests: the base class and the interfaces a type inherits or implements.
+ * Base types declared outside the workspace (e.g. `IDisposable`) are not reported.
+ * @param params The supertypes parameters.
+ * @param allDocuments All documents of the workspace.
+ * @returns The items of the direct supertypes.
+ */
+export function onSupertypes(
+    params: TypeHierarchySupertypesParams,
+    allDocuments: TextDocument[]
+): TypeHierarchyItem[] {
+    Logger.log(`Type Hierarchy Supertypes requested for ${params.item.name}`);
+    const type = findItemSymbol(params.item, allDocuments);
+    if (!type) {
+        Logger.debug(`Type Hierarchy: Declaration of '${params.item.name}' not found.`);
+        return [];
+    }
+    return getSupertypes(type, allDocuments).map(toItem);
+}
+
+/**
+ * Handles subtypes requests: the types that inherit or implement the given type, in all
+ * documents of the workspace.
+ * @param params The subtypes parameters.
+ * @param allDocuments All documents of the workspace.
+ * @param context The cancellation token of the request, checked for every document.
+ * @returns The items of the direct subtypes.
+ */
+export async function onSubtypes(
+    params: TypeHierarchySubtypesParams,
+    allDocuments: TextDocument[],
+    context: RequestContext = {}
+): Promise<TypeHierarchyItem[]> {
+    const item = params.item;
+    Logger.log(`Type Hierarchy Subtypes requested for ${item.name}`);
+    const subtypes: TypeHierarchyItem[] = [];
+    for (const doc of allDocuments) {
+        await yieldAndCheckCancelled(context.token);
+        for (const symbol of getTypeDeclarations(parseDocumentSymbols(doc))) {
+            const isSubtype = getSupertypes({ symbol, document: doc }, allDocuments).some(
+                (supertype) => isItemSymbol(item, supertype)
+            );
+            if (isSubtype) subtypes.push(toItem({ symbol, document: doc }));
+        }
+    }
+    Logger.debug(`Type Hierarchy: Found ${subtypes.length} subtypes of '${item.name}'.`);
+    return subtypes;
+}
+
+/**
+ * Resolves the types named by the `Inherits` and `Implements` statements of a type.
+ * @param type The type and its document.
+ * @param allDocuments All documents of the workspace.
+ * @returns The declarations of the supertypes that were found.
+ */
+function getSupertypes(type: ResolvedSymbol, allDocuments: TextDocument[]): ResolvedSymbol[] {
+    const supertypes: ResolvedSymbol[] = [];
+    for (const child of type.symbol.children ?? []) {
+        const match = /^(?:Inherits|Implements)\s+(.+)$/.exec(child.name);
+        if (!match) continue;
+        const supertype = findTypeSymbol(match[1], type.document, child.range.start, allDocuments);
+        if (
+            supertype &&
+            supertype.symbol !== type.symbol &&
+            HIERARCHY_KINDS.has(supertype.symbol.kind)
+        ) {
+            supertypes.push(supertype);
+        }
+    }
+    return supertypes;
+}
+
+/**
+ * Collects the classes, structures and interfaces declared in a symbol tree, including nested
+ * types and types inside modules and namespaces.
+ * @param symbols The symbols of a document.
+ * @param types The array to add the types to.
+ * @returns The type declarations.
+ */
+function getTypeDeclarations(
+    symbols: DocumentSymbol[],
+    types: DocumentSymbol[] = []
+): DocumentSymbol[] {
+    for (const symbol of symbols) {
+        if (isTypeDeclaration(symbol)) types.push(symbol);
+        if (symbol.children) getTypeDeclarations(symbol.children, types);
+    }
+    return types;
+}
+
+/**
+ * Finds the declaration of a type hierarchy item.
+ * @param item The item.
+ * @param allDocuments All documents of the workspace.
+ * @returns The declaration and its document, or null if it no longer exists.
+ */
+function findItemSymbol(
+    item: TypeHierarchyItem,
+    allDocuments: TextDocument[]
+): ResolvedSymbol | null {
+    const document = allDocuments.find((d) => d.uri === item.uri);
+    if (!document) return null;
+    const symbol = getTypeDeclarations(parseDocumentSymbols(document)).find((s) =>
+        isItemSymbol(item, { symbol: s, document })
+    );
+    return symbol ? { symbol, document } : null;
+}
+
+/**
+ * Checks whether a declaration is the one a type hierarchy item was created from.
+ * @param item The item.
+ * @param type The declaration and its document.
+ * @returns True if the document and the position of the name match.
+ */
+function isItemSymbol(item: TypeHierarchyItem, type: ResolvedSymbol): boolean {
+    const start = type.symbol.selectionRange.start;
+    return (
+        type.document.uri === item.uri &&
+        start.line === item.selectionRange.start.line &&
+        start.character === item.selectionRange.start.character
+    );
+}
+
+/**
+ * Checks whether a symbol declares a type, as opposed to the `Inherits` and `Implements`
+ * symbols, which have the kind of the type they name.
+ * @param symbol The symbol.
+ * @returns True for classes, structures and interfaces.
+ */
+function isTypeDeclaration(symbol: DocumentSymbol): boolean {
+    return HIERARCHY_KINDS.has(symbol.kind) && !/^(?:Inherits|Implements)\s/.test(symbol.name);
+}
+
+/**
+ * Creates a type hierarchy item for a type declaration.
+ * @param type The declaration and its document.
+ * @returns The item.
+ */
+function toItem(type: ResolvedSymbol): TypeHierarchyItem {
+    return {
+        name: type.symbol.name,
+        kind: type.symbol.kind,
+        uri: type.document.uri,
+        range: type.symbol.range,
+        selectionRange: type.symbol.selectionRange,
+        detail: type.symbol.detail
+    };
+}
@@ -2,6 +2,7 @@ import {
     Diagnostic,
     DiagnosticSeverity,
     TextDocument,
+    DiagnosticTag,
     Range,
     DocumentSymbol,
     SymbolKind
@@ -18,19 +19,85 @@ import {
     VAL_LOOP_REGEX,
     VAL_WEND_REGEX,
     VAL_DIM_REGEX,
+    VAL_DIM_INFERRED_REGEX,
     VAL_CONST_REGEX,
     VAL_IF_LINE_REGEX,
     VAL_THEN_REGEX,
     VAL_RETURN_REGEX,
     VAL_EXIT_REGEX,
-    VAL_THROW_REGEX,
     VAL_ASSIGNMENT_REGEX,
     VAL_CATCH_REGEX,
     VAL_FINALLY_REGEX
 } from '../utils/regexes';
 import { stripComment } from '../utils/textUtils';
+import {
+    LogicalLine,
+    Token,
+    TokenKind,
+    getLogicalLines,
+    getLogicalLinePosition,
+    tokenRange
+} from '../utils/lexer';
 import { Logger } from '../utils/logger';
 import { parseDocumentSymbols, findSymbolInScope, findGlobalSymbol } from '../utils/parser';
+import { getDocumentModel } from '../utils/documentModel';
+import {
+    findInheritanceCycle,
+    findTypeSymbol,
+    getExpressionBeforeDot,
+    getParameterType,
+    getTypeMembers,
+    inferExpressionType,
+    isDerivedType,
+    isWideningConversion
+} from '../utils/typeInference';
+import {
+    checkArguments,
+    findByRefArguments,
+    findCalls,
+    getParameterIndex
+} from '../utils/signatures';
+import { findUndeclaredIdentifiers, getProcedureBody } from '../utils/identifiers';
+import {
+    buildControlFlowGraph,
+    findProcedureBodies,
+    findUnassignedReads,
+    getStatements,
+    findUnreachableRanges,
+    isReturnMissing
+} from '../utils/controlFlow';
+import { findEnteredBlock, getLabelKey, getProcedureLabels } from '../utils/labels';
+import {
+    findUnusedImports,
+    findUnusedParameters,
+    findUnusedPrivateMembers
+} from '../utils/deadCode';
+import {
+    BlockKind,
+    StatementKind,
+    StatementSyntax,
+    findDeclaration,
+    joinTokens
+} from '../utils/syntaxTree';
+import {
+    CompilerOptions,
+    getCompilerOptions,
+    getProjectDocuments,
+    getProjectForDocument,
+    getReferencedProjects
+} from '../utils/project';
+import { applySuppressions } from '../utils/suppressions';
+import { COMMON_IMPORTS } from '../builtins';
+import { Rule, Rules, createDiagnostic } from '../rules';
+import {
+    DEFAULT_SETTINGS,
+    DiagnosticSettings,
+    NamingSettings,
+    NamingStyle,
+    VbSettings,
+    applyRuleLevels,
+    matchesNamingStyle
+} from '../utils/settings';
 
 /**
  * List of built-in VB types to ignore during validation.
@@ -58,6 +125,18 @@ const BUILTIN_TYPES = new Set([
     'bool'
 ]);
 
+/** Integral types, to which constant integers convert when they fit. */
+const INTEGRAL_TYPES = new Set([
+    'byte',
+    'sbyte',
+    'short',
+    'ushort',
+    'integer',
+    'uinteger',
+    'long',
+    'ulong'
+]);
+
 /**
  * Represents a code block context on the stack.
  */
@@ -75,23 +154,27 @@ interface BlockContext {
  *
  * @param textDocument The document to validate.
  * @param allDocuments Optional list of all open documents for cross-file checks.
+ * @param settings The user settings (thresholds, rule levels and naming conventions).
  * @returns An array of diagnostics to be sent to the client.
  */
 export function validateTextDocument(
     textDocument: TextDocument,
-    allDocuments: TextDocument[] = [textDocument]
+    allDocuments: TextDocument[] = [textDocument],
+    settings: VbSettings = DEFAULT_SETTINGS
 ): Diagnostic[] {
     Logger.log(`Starting validation for ${textDocument.uri}`);
+    // Declarations of other projects are only visible through project references
+    allDocuments = getProjectDocuments(textDocument, allDocuments);
     if (allDocuments.length > 1) {
         Logger.debug(`Validation context includes ${allDocuments.length} documents.`);
     }
     // Check for duplicate declarations using parsed symbols
     const symbols = parseDocumentSymbols(textDocument);
 
-    const validator = new Validator(textDocument, symbols, allDocuments);
+    const validator = new Validator(textDocument, symbols, allDocuments, settings.diagnostics);
     const diagnostics = validator.validate();
 
-    const duplicateDiagnostics = checkDuplicates(symbols);
+    const duplicateDiagnostics = checkDuplicates(textDocument, symbols);
     diagnostics.push(...duplicateDiagnostics);
 
     // Check for duplicate declarations across files
@@ -103,14 +186,331 @@ export function validateTextDocument(
     // Check for unused variables
     const unusedDiagnostics = checkUnusedVariables(textDocument, symbols);
     diagnostics.push(...unusedDiagnostics);
+    diagnostics.push(...checkDeadCode(textDocument, allDocuments, settings.diagnostics));
+
+    diagnostics.push(...checkNaming(symbols, settings.diagnostics.naming));
 
     // Check for interface implementation
     const interfaceDiagnostics = checkInterfaces(textDocument, symbols, allDocuments);
     diagnostics.push(...interfaceDiagnostics);
+    diagnostics.push(...checkInheritanceCycles(textDocument, symbols, allDocuments));
+
+    diagnostics.push(...checkCallArguments(textDocument, allDocuments));
+    diagnostics.push(...checkUndeclaredIdentifiers(textDocument, allDocuments));
+    diagnostics.push(...checkConversions(textDocument, allDocuments));
+    diagnostics.push(...checkLateBinding(textDocument, allDocuments));
+    diagnostics.push(...checkControlFlow(textDocument, allDocuments));
+    diagnostics.push(...checkLabels(textDocument));
+
+    // Suppression comments see every diagnostic, so those of rules configured as `off` are used
+    const unsuppressed = applySuppressions(textDocument, diagnostics);
+    const result = applyRuleLevels(unsuppressed, settings.diagnostics);
+    Logger.log(`Validation finished for ${textDocument.uri}. Found ${result.length} diagnostics.`);
+    return result;
+}
+
+/**
+ * Checks the arguments of calls to procedures declared in the workspace. Overloaded procedures
+ * are reported only if no overload accepts the arguments.
+ * @param document The text document.
+ * @param allDocuments All documents of the project.
+ * @returns A list of diagnostics.
+ */
+function checkCallArguments(document: TextDocument, allDocuments: TextDocument[]): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    for (const call of findCalls(document, allDocuments)) {
+        // Built-in functions and unknown procedures are not checked
+        const signatures = call.signatures;
+        if (signatures.length === 0 || signatures.some((s) => !s.declaration)) continue;
+
+        const problems = signatures.map((s) => checkArguments(s, call.args));
+        if (problems.some((p) => p === null)) continue;
+        const problem = problems[0]!;
+        const end = call.close ?? call.name;
+        const callRange = Range.create(
+            document.positionAt(call.name.offset),
+            document.positionAt(end.offset + end.text.length)
+        );
+        if (signatures.length > 1) {
+            diagnostics.push(
+                createDiagnostic(
+                    Rules.ArgumentMismatch,
+                    callRange,
+                    `No overload of '${call.name.text}' accepts these arguments.`
+                )
+            );
+            continue;
+        }
+        const argument = problem.argument;
+        const range =
+            argument && argument.end > argument.offset
+                ? Range.create(
+                      document.positionAt(argument.offset),
+                      document.positionAt(argument.end)
+                  )
+                : callRange;
+        diagnostics.push(createDiagnostic(Rules.ArgumentMismatch, range, problem.message));
+    }
+    return diagnostics;
+}
+
+/**
+ * Checks for names used in procedure bodies without a declaration (unless the file has
+ * `Option Explicit Off`). The type of the value assigned to a name is passed on to the quick
+ * fixes that declare it.
+ * @param document The text document.
+ * @param allDocuments All documents of the project.
+ * @returns A list of diagnostics.
+ */
+function checkUndeclaredIdentifiers(
+    document: TextDocument,
+    allDocuments: TextDocument[]
+): Diagnostic[] {
+    return findUndeclaredIdentifiers(document, allDocuments).map(({ token, statement }) => {
+        const tokens = statement.tokens;
+        // `total = 0` gives `total` the type of the value
+        let variableType: string | undefined;
+        if (tokens[0] === token && tokens[1]?.text === '=' && tokens.length > 2) {
+            variableType = inferExpressionType(
+                joinTokens(tokens.slice(2)),
+                document,
+                tokenRange(tokens[2]).start,
+                allDocuments
+            );
+        }
+        return createDiagnostic(
+            Rules.UndeclaredIdentifier,
+            tokenRange(token),
+            `'${token.text}' is not declared.`,
+            { name: token.text, variableType }
+        );
+    });
+}
+
+/** Members of `Object`, which are not late-bound when called on an `Object` value. */
+const OBJECT_MEMBERS = new Set(['equals', 'gethashcode', 'gettype', 'tostring']);
+
+/**
+ * Checks the implicit conversions of assigned values, initializers, returned values and
+ * arguments when `Option Strict` is on. Conversions from `Object`, between intrinsic types that
+ * are not widening (e.g. `Double` to `Integer`, `Integer` to `String`) and from a class to a
+ * derived class are reported; integral literals may be assigned to any integral type.
+ * @param document The text document.
+ * @param allDocuments All documents of the project.
+ * @returns A list of diagnostics.
+ */
+function checkConversions(document: TextDocument, allDocuments: TextDocument[]): Diagnostic[] {
+    if (!getCompilerOptions(document).strict) return [];
+    const diagnostics: Diagnostic[] = [];
+    const check = (value: Token[], targetType: string | undefined) => {
+        if (!targetType || value.length === 0) return;
+        const position = tokenRange(value[0]).start;
+        const expression = joinTokens(value);
+        const valueType = inferExpressionType(expression, document, position, allDocuments);
+        if (!valueType) return;
+        if (!isNarrowingConversion(valueType, targetType, value, document, allDocuments)) return;
+        const last = value[value.length - 1];
+        const range = Range.create(position, document.positionAt(last.offset + last.text.length));
+        diagnostics.push(
+            createDiagnostic(
+                Rules.NarrowingConversion,
+                range,
+                `Option Strict On disallows implicit conversions from '${valueType}' to '${targetType}'.`,
+                { targetType }
+            )
+        );
+    };
+
+    for (const statement of getDocumentModel(document).tree.statements) {
+        const tokens = statement.tokens;
+        if (statement.kind === StatementKind.Variable) {
+            for (const declarator of statement.declarators ?? []) {
+                const type = declarator.type;
+                if (!type || type.isNew || declarator.initializer === undefined) continue;
+                if (declarator.arrayBounds !== undefined) continue;
+                const start = document.offsetAt(declarator.name.range.end);
+                const end = document.offsetAt(declarator.range.end);
+                const own = tokens.filter((t) => t.offset >= start && t.offset < end);
+                const equals = own.findIndex((t) => t.text === '=');
+                if (equals >= 0) check(own.slice(equals + 1), type.text);
+            }
+            continue;
+        }
+        if (!getProcedureBody(statement)) continue;
+        if (statement.kind === StatementKind.Return && tokens.length > 1) {
+            check(tokens.slice(1), getReturnType(statement));
+        } else if (statement.kind === StatementKind.Expression) {
+            // `target = value`; an `=` inside parentheses or after the first one is a comparison
+            let depth = 0;
+            const equals = tokens.findIndex((t) => {
+                if (t.text === '(') depth++;
+                else if (t.text === ')') depth--;
+                return t.text === '=' && depth === 0;
+            });
+            if (equals <= 0) continue;
+            const target = tokens.slice(0, equals);
+            const targetType = inferExpressionType(
+                joinTokens(target),
+                document,
+                tokenRange(tokens[0]).start,
+                allDocuments
+            );
+            check(tokens.slice(equals + 1), targetType);
+        }
+    }
+
+    for (const call of findCalls(document, allDocuments)) {
+        // Overloads are chosen by the argument types, so only single procedures are checked
+        const signature = call.signatures.length === 1 ? call.signatures[0] : undefined;
+        if (!signature?.declaration) continue;
+        call.args.forEach((arg, index) => {
+            const parameter = signature.parameters[getParameterIndex(signature, call.args, index)];
+            if (parameter && !parameter.paramArray) check(arg.tokens, parameter.type);
+        });
+    }
+    return diagnostics;
+}
+
+/**
+ * Checks whether an implicit conversion is narrowing.
+ * @param from The type of the value.
+ * @param to The target type.
+ * @param value The tokens of the value (integral literals fit any integral type).
+ * @param document The text document.
+ * @param allDocuments All documents of the project.
+ * @returns True for conversions from `Object`, narrowing conversions between intrinsic types and
+ *          conversions from a class to a derived class.
+ */
+function isNarrowingConversion(
+    from: string,
+    to: string,
+    value: Token[],
+    document: TextDocument,
+    allDocuments: TextDocument[]
+): boolean {
+    if (isWideningConversion(from, to)) return false;
+    if (from.endsWith(')') || to.endsWith(')')) return false;
+    const source = from.toLowerCase();
+    const target = to.toLowerCase();
+    if (source === 'object') return true;
+    if (BUILTIN_TYPES.has(source) && BUILTIN_TYPES.has(target)) {
+        // Constant integers convert to any integral type (`Dim b As Byte = 1`)
+        const literal = value.length === 1 ? value[0] : value.length === 2 ? value[1] : undefined;
+        const isConstant =
+            literal?.kind === TokenKind.NumericLiteral &&
+            (value.length === 1 || value[0].text === '-');
+        return !(isConstant && INTEGRAL_TYPES.has(source) && INTEGRAL_TYPES.has(target));
+    }
+    const position = tokenRange(value[0]).start;
+    const sourceType = findTypeSymbol(from, document, position, allDocuments);
+    const targetType = findTypeSymbol(to, document, position, allDocuments);
+    return !!sourceType && !!targetType && isDerivedType(targetType, sourceType, allDocuments);
+}
+
+/**
+ * Gets the type returned by the procedure containing a `Return` statement.
+ * @param statement The `Return` statement.
+ * @returns The type of the Function, Operator or property (for `Get` accessors), or undefined
+ *          for Subs, lambdas and procedures without `As` clause.
+ */
+function getReturnType(statement: StatementSyntax): string | undefined {
+    let block = statement.parent;
+    while (block) {
+        switch (block.kind) {
+            case BlockKind.Function:
+            case BlockKind.Operator:
+                return block.begin?.asClause?.text;
+            case BlockKind.Accessor:
+                return block.begin?.keyword?.value === 'get'
+                    ? block.parent?.begin?.asClause?.text
+                    : undefined;
+            case BlockKind.Sub:
+            case BlockKind.Lambda:
+                return undefined;
+        }
+        block = block.parent;
+    }
+    return undefined;
+}
+
+/**
+ * Checks for members accessed on values of type `Object` when `Option Strict` is on, which
+ * would be resolved at run time (late binding). The members of `Object` itself are allowed.
+ * @param document The text document.
+ * @param allDocuments All documents of the project.
+ * @returns A list of diagnostics.
+ */
+function checkLateBinding(document: TextDocument, allDocuments: TextDocument[]): Diagnostic[] {
+    if (!getCompilerOptions(document).strict) return [];
+    const diagnostics: Diagnostic[] = [];
+    const model = getDocumentModel(document);
+    for (const statement of model.tree.statements) {
+        if (!getProcedureBody(statement)) continue;
+        statement.tokens.forEach((token, i) => {
+            const previous = statement.tokens[i - 1];
+            const member = statement.tokens[i + 1];
+            if (token.text !== '.' || !previous || member?.kind !== TokenKind.Identifier) return;
+            if (previous.kind !== TokenKind.Identifier && previous.text !== ')') return;
+            if (OBJECT_MEMBERS.has(member.value)) return;
+            const expression = getExpressionBeforeDot(model.text, token.offset);
+            if (!expression) return;
+            const position = tokenRange(previous).start;
+            const type = inferExpressionType(expression, document, position, allDocuments);
+            if (type !== 'Object') return;
+            diagnostics.push(
+                createDiagnostic(
+                    Rules.LateBinding,
+                    tokenRange(member),
+                    `Option Strict On disallows late binding ('${member.text}' on a value of type 'Object').`
+                )
+            );
+        });
+    }
+    return diagnostics;
+}
 
-    Logger.log(
-        `Validation finished for ${textDocument.uri}. Found ${diagnostics.length} diagnostics.`
-    );
+/**
+ * Checks the control flow of every procedure: unreachable code, Functions that do not return a
+ * value on all paths, and variables of reference types that are read before being assigned.
+ * @param document The text document.
+ * @param allDocuments All documents of the project.
+ * @returns A list of diagnostics.
+ */
+function checkControlFlow(document: TextDocument, allDocuments: TextDocument[]): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const tree = getDocumentModel(document).tree;
+    let byRefArguments: Set<number> | undefined;
+    for (const body of findProcedureBodies(tree.root)) {
+        const graph = buildControlFlowGraph(body, document.getText());
+        for (const range of findUnreachableRanges(graph)) {
+            diagnostics.push(
+                createDiagnostic(Rules.UnreachableCode, range, 'Unreachable code detected.')
+            );
+        }
+        if (isReturnMissing(graph)) {
+            // A `Get` accessor is reported with the name of its property
+            const isAccessor = body.kind === BlockKind.Accessor;
+            const declaration = isAccessor ? body.parent?.begin : body.begin;
+            const kind = isAccessor ? 'Property' : body.kind;
+            diagnostics.push(
+                createDiagnostic(
+                    Rules.MissingReturn,
+                    (body.end as StatementSyntax).range,
+                    `${kind} '${declaration?.name?.text}' doesn't return a value on all code paths.`
+                )
+            );
+        }
+        byRefArguments ??= findByRefArguments(document, allDocuments);
+        for (const token of findUnassignedReads(graph, document, allDocuments, byRefArguments)) {
+            diagnostics.push(
+                createDiagnostic(
+                    Rules.UnassignedVariable,
+                    tokenRange(token),
+                    `Variable '${token.text}' is used before it has been assigned a value.`
+                )
+            );
+        }
+    }
     return diagnostics;
 }
 
@@ -142,6 +542,7 @@ function checkInterfaces(
 
                         // Resolve interface
                         let interfaceSym = findSymbolInScope(symbols, interfaceName, position);
+                        let interfaceDoc = document;
 
                         if (!interfaceSym) {
                             // Check other docs
@@ -149,48 +550,63 @@ function checkInterfaces(
                                 if (doc.uri === document.uri) continue;
                                 const globalSyms = parseDocumentSymbols(doc);
                                 interfaceSym = findGlobalSymbol(globalSyms, interfaceName);
-                                if (interfaceSym) break;
+                                if (interfaceSym) {
+                                    interfaceDoc = doc;
+                                    break;
+                                }
                             }
                         }
 
                         if (!interfaceSym) {
-                            diagnostics.push({
-                                severity: DiagnosticSeverity.Error,
-                                range: impl.selectionRange,
-                                message: `Interface '${interfaceName}' not defined.`,
-                                source: 'SimpleVB'
-                            });
+                            diagnostics.push(
+                                createDiagnostic(
+                                    Rules.UndefinedInterface,
+                                    impl.selectionRange,
+                                    `Interface '${interfaceName}' not defined.`,
+                                    { interfaceName }
+                                )
+                            );
                             continue;
                         }
 
-                        // Check members
-                        if (interfaceSym.children) {
+                        // Check members, including those of inherited interfaces. Members
+                        // inherited from a base class implement them as well.
+                        const interfaceMembers = getTypeMembers(
+                            { symbol: interfaceSym, document: interfaceDoc },
+                            allDocuments
+                        );
+                        const classMembers = getTypeMembers(
+                            { symbol: sym, document },
+                            allDocuments
+                        ).map((m) => m.symbol.name.toLowerCase());
+                        if (interfaceMembers.length > 0) {
                             Logger.debug(
-                                `Interface '${interfaceName}' has ${interfaceSym.children.length} members.`
+                                `Interface '${interfaceName}' has ${interfaceMembers.length} members.`
                             );
-                            for (const member of interfaceSym.children) {
+                            for (const { symbol: member } of interfaceMembers) {
                                 if (
                                     member.kind === SymbolKind.Method ||
                                     member.kind === SymbolKind.Property ||
                                     member.kind === SymbolKind.Function
                                 ) {
-                                    const classHasMember = sym.children?.some(
-                                        (c) => c.name.toLowerCase() === member.name.toLowerCase()
+                                    const classHasMember = classMembers.includes(
+                                        member.name.toLowerCase()
                                     );
 
                                     if (!classHasMember) {
-                                        diagnostics.push({
-                                            severity: DiagnosticSeverity.Error,
-                                            range: sym.selectionRange,
-                                            message: `Class '${sym.name}' must implement member '${member.name}' of interface '${interfaceName}'.`,
-                                            source: 'SimpleVB',
-                                            data: {
-                                                missingMember: member.name,
-                                                interfaceName: interfaceName,
-                                                memberKind: member.kind,
-                                                memberDetail: member.detail
-                                            }
-                                        });
+                                        diagnostics.push(
+                                            createDiagnostic(
+                                                Rules.MissingInterfaceMember,
+                                                sym.selectionRange,
+                                                `Class '${sym.name}' must implement member '${member.name}' of interface '${interfaceName}'.`,
+                                                {
+                                                    missingMember: member.name,
+                                                    interfaceName: interfaceName,
+                                                    memberKind: member.kind,
+                                                    memberDetail: member.detail
+                                                }
+                                            )
+                                        );
                                     }
                                 }
                             }
@@ -209,6 +625,50 @@ function checkInterfaces(
     return diagnostics;
 }
 
+/**
+ * Checks for classes and interfaces that inherit from themselves, like the compiler's BC30257.
+ * @param document The text document.
+ * @param symbols The document symbols.
+ * @param allDocuments All documents of the project.
+ * @returns A diagnostic on the `Inherits` statement of every type in a cycle.
+ */
+function checkInheritanceCycles(
+    document: TextDocument,
+    symbols: DocumentSymbol[],
+    allDocuments: TextDocument[]
+): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const traverse = (syms: DocumentSymbol[]) => {
+        for (const sym of syms) {
+            if (sym.kind === SymbolKind.Class || sym.kind === SymbolKind.Interface) {
+                const cycle = findInheritanceCycle({ symbol: sym, document }, allDocuments);
+                if (cycle.length > 0) {
+                    const kind = sym.kind === SymbolKind.Interface ? 'Interface' : 'Class';
+                    // `'A' inherits from 'B'`, with the names as written in each `Inherits`
+                    let owner = sym.name;
+                    const steps = cycle.map(({ symbol }) => {
+                        const base = symbol.name.replace(/^Inherits\s+/, '');
+                        const step = `'${owner}' inherits from '${base}'`;
+                        owner = base;
+                        return step;
+                    });
+                    const chain = cycle.length > 1 ? `: ${steps.join(', ')}` : '';
+                    diagnostics.push(
+                        createDiagnostic(
+                            Rules.InheritanceCycle,
+                            cycle[0].symbol.selectionRange,
+                            `${kind} '${sym.name}' cannot inherit from itself${chain}.`
+                        )
+                    );
+                }
+            }
+            if (sym.children) traverse(sym.children);
+        }
+    };
+    traverse(symbols);
+    return diagnostics;
+}
+
 /**
  * Checks for duplicate symbol declarations across files.
  * @param currentDocument The current document.
@@ -248,12 +708,14 @@ function checkCrossFileDuplicates(
                 );
 
                 if (duplicate) {
-                    diagnostics.push({
-                        severity: DiagnosticSeverity.Error,
-                        range: sym.selectionRange,
-                        message: `Symbol '${sym.name}' is already declared in '${doc.uri}'.`,
-                        source: 'SimpleVB'
-                    });
+                    diagnostics.push(
+                        createDiagnostic(
+                            Rules.DuplicateTypeAcrossFiles,
+                            sym.selectionRange,
+                            `Symbol '${sym.name}' is already declared in '${doc.uri}'.`,
+                            { name: sym.name, uri: doc.uri }
+                        )
+                    );
                     // Only report once per symbol per validation run to avoid noise
                     break;
                 }
@@ -264,31 +726,148 @@ function checkCrossFileDuplicates(
     return diagnostics;
 }
 
+/** Symbol kinds whose declarations may share a name as overloads with other parameter lists. */
+const OVERLOADABLE_KINDS = new Set<SymbolKind>([
+    SymbolKind.Method,
+    SymbolKind.Function,
+    SymbolKind.Constructor,
+    SymbolKind.Operator
+]);
+
 /**
  * Checks for duplicate symbol declarations within the same scope.
+ * Overloads (procedures of the same name) are duplicates only if their parameter types match.
+ * @param document The text document.
  * @param symbols The list of symbols to check.
  * @returns A list of diagnostics for duplicates.
  */
-function checkDuplicates(symbols: DocumentSymbol[]): Diagnostic[] {
+function checkDuplicates(document: TextDocument, symbols: DocumentSymbol[]): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
-    const seen = new Map<string, DocumentSymbol>();
+    // The signatures declared under each name (undefined for declarations that cannot overload)
+    const seen = new Map<string, (string | undefined)[]>();
 
     for (const sym of symbols) {
+        // Labels have their own declaration space (see checkLabels)
+        if (sym.kind === SymbolKind.Key) continue;
         const name = sym.name.toLowerCase();
-        if (seen.has(name)) {
+        const signature = getOverloadSignature(document, sym);
+        const previous = seen.get(name) ?? [];
+        const isDuplicate =
+            signature === undefined
+                ? previous.length > 0
+                : previous.includes(undefined) || previous.includes(signature);
+        if (isDuplicate) {
             // Report error on the current symbol
-            diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: sym.selectionRange,
-                message: `Symbol '${sym.name}' is already declared in this scope.`,
-                source: 'SimpleVB'
-            });
+            diagnostics.push(
+                createDiagnostic(
+                    Rules.DuplicateDeclaration,
+                    sym.selectionRange,
+                    `Symbol '${sym.name}' is already declared in this scope.`,
+                    { name: sym.name }
+                )
+            );
         } else {
-            seen.set(name, sym);
+            seen.set(name, [...previous, signature]);
         }
 
         if (sym.children) {
-            diagnostics.push(...checkDuplicates(sym.children));
+            diagnostics.push(...checkDuplicates(document, sym.children));
+        }
+    }
+    return diagnostics;
+}
+
+/**
+ * Gets the parameter types that distinguish an overload of a procedure. Modifiers, parameter
+ * names and return types do not.
+ * @param document The text document.
+ * @param symbol The declared symbol.
+ * @returns The lowercase parameter types, e.g. `(integer,string())`, or undefined if the symbol
+ *          cannot be overloaded.
+ */
+function getOverloadSignature(document: TextDocument, symbol: DocumentSymbol): string | undefined {
+    if (!OVERLOADABLE_KINDS.has(symbol.kind)) return undefined;
+    const statement = findDeclaration(
+        getDocumentModel(document).declarations,
+        symbol.selectionRange
+    )?.statement;
+    const types = (statement?.parameters ?? []).map((p) => getParameterType(p).toLowerCase());
+    return `(${types.join(',')})`;
+}
+
+/**
+ * Checks the labels of each procedure: duplicate labels, jumps (`GoTo`, `On Error GoTo`,
+ * `Resume`) to labels that do not exist or that are inside a block the jump is not in, and
+ * `On Error` or `Resume` in procedures that also use `Try`.
+ * @param document The text document.
+ * @returns A list of diagnostics.
+ */
+function checkLabels(document: TextDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const tree = getDocumentModel(document).tree;
+    for (const body of findProcedureBodies(tree.root)) {
+        const { declarations, references } = getProcedureLabels(body);
+        const labels = new Map<string, StatementSyntax>();
+        for (const label of declarations) {
+            const name = label.name?.text ?? '';
+            if (labels.has(getLabelKey(name))) {
+                diagnostics.push(
+                    createDiagnostic(
+                        Rules.DuplicateLabel,
+                        label.range,
+                        `Label '${name}' is already defined in this procedure.`,
+                        { name }
+                    )
+                );
+            } else {
+                labels.set(getLabelKey(name), label);
+            }
+        }
+
+        for (const { target, keyword, statement } of references) {
+            const label = labels.get(getLabelKey(target.text));
+            if (!label) {
+                diagnostics.push(
+                    createDiagnostic(
+                        Rules.UndefinedLabel,
+                        tokenRange(target),
+                        `Label '${target.text}' is not defined.`,
+                        { name: target.text }
+                    )
+                );
+                continue;
+            }
+            const entered = findEnteredBlock(label, statement);
+            if (entered) {
+                const block = entered.section?.keyword ?? entered.block.begin?.keyword;
+                diagnostics.push(
+                    createDiagnostic(
+                        Rules.JumpIntoBlock,
+                        tokenRange(target),
+                        `'${keyword.text} ${target.text}' is not valid because '${target.text}' is inside a '${block?.text}' block that does not contain this statement.`
+                    )
+                );
+            }
+        }
+
+        const statements = getStatements(body.members);
+        if (!statements.some((s) => s.kind === StatementKind.Try)) continue;
+        for (const statement of statements) {
+            const tokens = statement.tokens;
+            const onError = tokens.some(
+                (t, i) =>
+                    (t.value === 'on' && tokens[i + 1]?.value === 'error') ||
+                    (t.value === 'resume' && t.kind === TokenKind.Keyword)
+            );
+            if (onError) {
+                diagnostics.push(
+                    createDiagnostic(
+                        Rules.OnErrorWithTry,
+                        statement.range,
+                        "Method cannot contain both a 'Try' statement and an 'On Error' or 'Resume' statement."
+                    )
+                );
+            }
         }
     }
     return diagnostics;
@@ -303,12 +882,13 @@ function checkDuplicates(symbols: DocumentSymbol[]): Diagnostic[] {
 function checkUnusedVariables(document: TextDocument, symbols: DocumentSymbol[]): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
     const text = document.getText();
-    const lines = text.split(/\r?\n/);
+    const lines = text.split(/\r\n|\r|\n/);
     const wordIndex = buildWordIndex(lines);
 
     const traverse = (syms: DocumentSymbol[], parent: DocumentSymbol | null) => {
         for (const sym of syms) {
-            if (sym.kind === SymbolKind.Variable) {
+            // Parameters are checked by the unused-parameter rule
+            if (sym.kind === SymbolKind.Variable && !sym.detail?.startsWith('Argument ')) {
                 // Only check local variables (inside Method, Function, Property)
                 // We determine "local" if the parent is one of these types.
                 if (
@@ -334,24 +914,14 @@ function checkUnusedVariables(document: TextDocument, symbols: DocumentSymbol[])
                     // Note: If multiple variables on one line "Dim x, y", x appears once.
                     // If "Dim x = x + 1", x appears twice.
                     if (count <= 1) {
-                        diagnostics.push({
-                            severity: DiagnosticSeverity.Information,
-                            range: sym.selectionRange,
-                            message: `Variable '${sym.name}' is declared but never used.`,
-                            source: 'SimpleVB'
-                        });
-                    }
-
-                    // Check naming convention (Local variables should be camelCase)
-                    // Simple check: First letter is lowercase?
-                    // Exception: "_" prefix?
-                    if (/^[A-Z]/.test(sym.name)) {
-                        diagnostics.push({
-                            severity: DiagnosticSeverity.Information,
-                            range: sym.selectionRange,
-                            message: `Local variables should be camelCase (start with lowercase).`,
-                            source: 'SimpleVB'
-                        });
+                        diagnostics.push(
+                            createUnnecessaryDiagnostic(
+                                Rules.UnusedVariable,
+                                sym.selectionRange,
+                                `Variable '${sym.name}' is declared but never used.`,
+                                { name: sym.name }
+                            )
+                        );
                     }
                 }
             }
@@ -366,6 +936,157 @@ function checkUnusedVariables(document: TextDocument, symbols: DocumentSymbol[])
     return diagnostics;
 }
 
+/**
+ * Checks for Private members that are not used in their type, unused parameters and `Imports`
+ * statements whose namespace is not used in the file.
+ * @param document The text document.
+ * @param allDocuments All documents of the project.
+ * @param settings The diagnostic settings (which procedures are checked for unused parameters).
+ * @returns A list of diagnostics.
+ */
+function checkDeadCode(
+    document: TextDocument,
+    allDocuments: TextDocument[],
+    settings: DiagnosticSettings
+): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    for (const { name, kind } of findUnusedPrivateMembers(document)) {
+        diagnostics.push(
+            createUnnecessaryDiagnostic(
+                Rules.UnusedMember,
+                name.range,
+                `Private ${kind} '${name.text}' is never used.`,
+                { name: name.text }
+            )
+        );
+    }
+    for (const { parameter } of findUnusedParameters(document, settings.unusedParameters)) {
+        const name = parameter.name.text;
+        diagnostics.push(
+            createUnnecessaryDiagnostic(
+                Rules.UnusedParameter,
+                parameter.name.range,
+                `Parameter '${name}' is never used.`,
+                { name }
+            )
+        );
+    }
+    for (const clause of findUnusedImports(document, allDocuments)) {
+        const name = clause.alias ?? clause.namespace;
+        diagnostics.push(
+            createUnnecessaryDiagnostic(
+                Rules.UnusedImport,
+                clause.range,
+                `Imports '${name}' is not used in this file.`,
+                { name }
+            )
+        );
+    }
+    return diagnostics;
+}
+
+/**
+ * Creates a diagnostic for code that can be removed, tagged so that editors fade it out.
+ * @param rule The rule.
+ * @param range The range of the unnecessary code.
+ * @param message The message.
+ * @param data Data for code actions.
+ * @returns The diagnostic.
+ */
+function createUnnecessaryDiagnostic(
+    rule: Rule,
+    range: Range,
+    message: string,
+    data?: unknown
+): Diagnostic {
+    const diagnostic = createDiagnostic(rule, range, message, data);
+    diagnostic.tags = [DiagnosticTag.Unnecessary];
+    return diagnostic;
+}
+
+/** The symbol kinds checked by the naming-convention rule, as named in messages. */
+const NAMING_LABELS: Record<keyof NamingSettings, string> = {
+    localVariable: 'Local variables',
+    parameter: 'Parameters',
+    field: 'Fields',
+    constant: 'Constants',
+    method: 'Methods',
+    type: 'Types'
+};
+
+const NAMING_HINTS: Record<NamingStyle, string> = {
+    camelCase: 'start with lowercase',
+    PascalCase: 'start with uppercase',
+    UPPER_CASE: 'use uppercase letters',
+    any: ''
+};
+
+/**
+ * Checks that declared names follow the configured naming conventions.
+ * @param symbols The document symbols.
+ * @param naming The naming conventions per symbol kind.
+ * @returns A list of diagnostics for names that do not match.
+ */
+function checkNaming(symbols: DocumentSymbol[], naming: NamingSettings): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    const getNamingKind = (
+        sym: DocumentSymbol,
+        parent: DocumentSymbol | null
+    ): keyof NamingSettings | undefined => {
+        switch (sym.kind) {
+            case SymbolKind.Variable:
+            case SymbolKind.Field:
+                if (
+                    parent &&
+                    (parent.kind === SymbolKind.Method ||
+                        parent.kind === SymbolKind.Function ||
+                        parent.kind === SymbolKind.Property ||
+                        parent.kind === SymbolKind.Constructor)
+                ) {
+                    return sym.detail?.startsWith('Argument ') ? 'parameter' : 'localVariable';
+                }
+                return parent ? 'field' : undefined;
+            case SymbolKind.Constant:
+                return 'constant';
+            case SymbolKind.Method:
+            case SymbolKind.Function:
+                return 'method';
+            case SymbolKind.Class:
+            case SymbolKind.Module:
+            case SymbolKind.Struct:
+            case SymbolKind.Interface:
+            case SymbolKind.Enum:
+                return 'type';
+            default:
+                return undefined;
+        }
+    };
+
+    const traverse = (syms: DocumentSymbol[], parent: DocumentSymbol | null) => {
+        for (const sym of syms) {
+            const kind = getNamingKind(sym, parent);
+            const style = kind && naming[kind];
+            if (kind && style && !matchesNamingStyle(sym.name, style)) {
+                diagnostics.push(
+                    createDiagnostic(
+                        Rules.NamingConvention,
+                        sym.selectionRange,
+                        `${NAMING_LABELS[kind]} should be ${style} (${NAMING_HINTS[style]}).`,
+                        { name: sym.name, style }
+                    )
+                );
+            }
+            if (sym.children) {
+                traverse(sym.children, sym);
+            }
+        }
+    };
+
+    traverse(symbols, null);
+    return diagnostics;
+}
+
 /**
  * Builds a map of word occurrences in the document.
  * Maps lower-case word -> list of line numbers (one per occurrence).
@@ -400,16 +1121,32 @@ class Validator {
     private diagnostics: Diagnostic[] = [];
     private stack: BlockContext[] = [];
     private lines: string[];
-    private isUnreachable = false;
     private allDocuments: TextDocument[] = [];
+    private options: Required<CompilerOptions>;
+    /** Lower-cased namespaces imported by the file or its project. */
+    private imports: Set<string>;
+    /** Lower-cased root namespaces of the file's project and the projects it references. */
+    private rootNamespaces: string[] = [];
 
     constructor(
         private document: TextDocument,
         private symbols: DocumentSymbol[],
-        allDocuments: TextDocument[] = []
+        allDocuments: TextDocument[] = [],
+        private settings: DiagnosticSettings = DEFAULT_SETTINGS.diagnostics
     ) {
-        this.lines = document.getText().split(/\r?\n/);
+        this.lines = document.getText().split(/\r\n|\r|\n/);
         this.allDocuments = allDocuments;
+        this.options = getCompilerOptions(document);
+        const project = getProjectForDocument(document.uri);
+        for (const visible of project ? [project, ...getReferencedProjects(project)] : []) {
+            if (visible.rootNamespace) this.rootNamespaces.push(visible.rootNamespace.toLowerCase());
+        }
+        this.imports = new Set(
+            [
+                ...(project?.imports ?? []),
+                ...symbols.filter((s) => s.kind === SymbolKind.Package).map((s) => s.name)
+            ].map((namespace) => namespace.toLowerCase())
+        );
     }
 
     /**
@@ -418,20 +1155,27 @@ class Validator {
      */
     public validate(): Diagnostic[] {
         Logger.debug('Validator: Starting line-by-line validation.');
-        for (let i = 0; i < this.lines.length; i++) {
-            const rawLine = this.lines[i];
-            // Check for TODOs before checking for empty trimmed lines
-            this.checkTodos(rawLine.trim(), i);
-
-            // Check Max Line Length (includes comments)
-            if (rawLine.length > 120) {
-                this.addDiagnostic(
-                    i,
-                    `Line is too long (${rawLine.length} > 120 characters).`,
-                    DiagnosticSeverity.Warning
-                );
+        // Statements split with line continuations are validated as one logical line
+        const model = getDocumentModel(this.document);
+        for (const logical of getLogicalLines(model.text, model.tokens)) {
+            for (let line = logical.startLine; line <= logical.endLine; line++) {
+                const physicalLine = this.lines[line];
+                // Check for TODOs before checking for empty trimmed lines
+                this.checkTodos(physicalLine.trim(), line);
+
+                // Check Max Line Length (includes comments)
+                const maxLength = this.settings.maxLineLength;
+                if (maxLength > 0 && physicalLine.length > maxLength) {
+                    this.addDiagnostic(
+                        line,
+                        Rules.LineTooLong,
+                        `Line is too long (${physicalLine.length} > ${maxLength} characters).`
+                    );
+                }
             }
 
+            const i = logical.startLine;
+            const rawLine = logical.text;
             const trimmed = stripComment(rawLine).trim();
 
             if (!trimmed) continue;
@@ -444,10 +1188,9 @@ class Validator {
             }
 
             this.validateSyntax(trimmed, i, rawLine);
-            this.validateUnreachable(trimmed, i);
             this.checkMagicNumbers(trimmed, i);
-            this.checkConstAssignment(trimmed, i, rawLine);
-            this.checkUnknownTypes(trimmed, i, rawLine);
+            this.checkConstAssignment(trimmed, i, logical);
+            this.checkUnknownTypes(trimmed, i, logical);
         }
 
         this.checkUnclosedBlocks();
@@ -458,9 +1201,9 @@ class Validator {
      * Checks for unknown types in declarations (Dim, Const, Function, Property, Field).
      * @param trimmed The trimmed line.
      * @param lineIndex The line number.
-     * @param rawLine The original line.
+     * @param logical The logical line (used to map columns back to the document).
      */
-    private checkUnknownTypes(trimmed: string, lineIndex: number, rawLine: string) {
+    private checkUnknownTypes(trimmed: string, lineIndex: number, logical: LogicalLine) {
         Logger.debug(`Validator: Checking unknown types for line ${lineIndex}`);
         // Regex to match "As Type"
         // Need to handle "Dim x As Type", "Function f() As Type", "Property p As Type"
@@ -472,10 +1215,12 @@ class Validator {
         // Regex: \bAs\s+([\w.]+)(?:\(.*\))?
         // Matches "As Word", "As A.B", but stops at parens or whitespace.
 
-        const matches = Array.from(trimmed.matchAll(/\bAs\s+([\w.]+)/gi));
+        // `As New T` declares a variable of type T
+        const matches = Array.from(trimmed.matchAll(/\bAs\s+(?:New\s+)?([\w.]+)/gi));
 
         for (const match of matches) {
-            const typeName = match[1];
+            const writtenName = match[1];
+            let typeName = writtenName;
 
             // If typeName ends with dot (regex greediness?), trim it.
             // \w includes alphanumeric and _. dot is literal.
@@ -488,15 +1233,26 @@ class Validator {
             // Allow System.* and Microsoft.* namespaces
             if (typeName.startsWith('System.') || typeName.startsWith('Microsoft.')) continue;
 
+            // Framework types brought into scope by file or project imports
+            const namespace = COMMON_IMPORTS[typeName];
+            if (namespace && this.imports.has(namespace.toLowerCase())) continue;
+
+            // Types declared in a project may be qualified with its root namespace
+            const rootNamespace = this.rootNamespaces.find((ns) =>
+                typeName.toLowerCase().startsWith(ns + '.')
+            );
+            if (rootNamespace) {
+                typeName = typeName.substring(rootNamespace.length + 1);
+            }
+
             // 2. Check if type exists in scope (Classes, Enums, Interfaces, Structs)
             // Handle Qualified Names (e.g., MyLib.MyClass)
             const parts = typeName.split('.');
             const firstPart = parts[0];
 
             // Determine position for scope check
-            const asIndex = rawLine.toLowerCase().indexOf('as ' + typeName.toLowerCase());
-            const col = asIndex !== -1 ? asIndex : 0;
-            const position = { line: lineIndex, character: col };
+            const asIndex = logical.text.toLowerCase().indexOf('as ' + typeName.toLowerCase());
+            const position = getLogicalLinePosition(logical, asIndex !== -1 ? asIndex : 0);
 
             // Resolve the first part
             let currentSymbol = findSymbolInScope(this.symbols, firstPart, position);
@@ -558,10 +1314,12 @@ class Validator {
             // Be careful if multiple "As" on same line?
 
             // Simple fallback: if type is unknown, just report it.
+            // Warning by default, as we might miss imports or system libs
             this.addDiagnostic(
                 lineIndex,
-                `Type '${typeName}' is not defined.`,
-                DiagnosticSeverity.Warning // Warning for now, as we might miss imports or system libs
+                Rules.UnknownType,
+                `Type '${writtenName}' is not defined.`,
+                { typeName: writtenName }
             );
         }
     }
@@ -570,9 +1328,9 @@ class Validator {
      * Checks if a constant is being assigned a value.
      * @param trimmed The trimmed line.
      * @param lineIndex The line number.
-     * @param rawLine The original line.
+     * @param logical The logical line (used to map columns back to the document).
      */
-    private checkConstAssignment(trimmed: string, lineIndex: number, rawLine: string) {
+    private checkConstAssignment(trimmed: string, lineIndex: number, logical: LogicalLine) {
         // Check for assignment: x = 1
         const match = VAL_ASSIGNMENT_REGEX.exec(trimmed);
         if (match) {
@@ -585,17 +1343,17 @@ class Validator {
 
             // Find the symbol definition
             // We need the position of the variable usage
-            const col = rawLine.indexOf(varName);
             // findSymbolInScope expects position of usage
-            const position = { line: lineIndex, character: col };
+            const position = getLogicalLinePosition(logical, logical.text.indexOf(varName));
 
             const symbol = findSymbolInScope(this.symbols, varName, position);
 
             if (symbol && symbol.kind === SymbolKind.Constant) {
                 this.addDiagnostic(
                     lineIndex,
+                    Rules.ConstAssignment,
                     `Cannot assign to constant '${varName}'.`,
-                    DiagnosticSeverity.Error
+                    { name: varName }
                 );
             }
         }
@@ -615,14 +1373,19 @@ class Validator {
         if (/^Const\s/i.test(trimmed)) return;
         if (/^Dim\s/i.test(trimmed)) return; // Allow magic numbers in Dim for now to fix tests
 
+        // Line numbers (`10:`) and the targets of GoTo and Resume are labels, not values
+        const code = trimmed
+            .replace(/^\d+\s*:(?!=)/, '')
+            .replace(/\b(GoTo|Resume)\s+\d+\b/gi, '$1');
+
         // Find numbers
         const regex = /\b\d+\b/g;
         let match;
-        while ((match = regex.exec(trimmed)) !== null) {
+        while ((match = regex.exec(code)) !== null) {
             const numStr = match[0];
             const num = parseInt(numStr);
-            // Allow 0, 1, -1
-            if (num !== 0 && num !== 1 && num !== -1) {
+            // Allow 0, 1 and the other configured numbers
+            if (!this.settings.allowedNumbers.includes(num)) {
                 // Ignore if it's inside a string or comment?
                 // Strip comments handles comment.
                 // Strings are harder without parser.
@@ -635,8 +1398,9 @@ class Validator {
 
                 this.addDiagnostic(
                     lineIndex,
+                    Rules.MagicNumber,
                     `Avoid magic numbers (${num}). Use a Constant instead.`,
-                    DiagnosticSeverity.Information
+                    { value: String(num) }
                 );
             }
         }
@@ -653,85 +1417,52 @@ class Validator {
             if (/\bTODO:/i.test(comment)) {
                 this.addDiagnostic(
                     lineIndex,
-                    `TODO: ${comment.split(/todo:/i)[1].trim()}`,
-                    DiagnosticSeverity.Information
+                    Rules.TaskComment,
+                    `TODO: ${comment.split(/todo:/i)[1].trim()}`
                 );
             }
             if (/\bFIXME:/i.test(comment)) {
                 this.addDiagnostic(
                     lineIndex,
-                    `FIXME: ${comment.split(/fixme:/i)[1].trim()}`,
-                    DiagnosticSeverity.Information
+                    Rules.TaskComment,
+                    `FIXME: ${comment.split(/fixme:/i)[1].trim()}`
                 );
             }
         }
     }
 
-    /**
-     * Checks for unreachable code.
-     * @param trimmed The trimmed line.
-     * @param lineIndex The line number.
-     */
-    private validateUnreachable(trimmed: string, lineIndex: number) {
-        if (this.isUnreachable) {
-            // Check if this line resets reachability (block ends/starts, Else, Case)
-            // Note: Structure handling happens before this, so stack might have changed.
-            // But we need to check the TEXT of the line.
-
-            const isControlFlow =
-                VAL_BLOCK_START_REGEX.test(trimmed) ||
-                VAL_BLOCK_END_REGEX.test(trimmed) ||
-                VAL_NEXT_REGEX.test(trimmed) ||
-                VAL_LOOP_REGEX.test(trimmed) ||
-                VAL_WEND_REGEX.test(trimmed) ||
-                /^(Else|ElseIf|Case|Catch|Finally)\b/i.test(trimmed);
-
-            if (!isControlFlow) {
-                this.addDiagnostic(
-                    lineIndex,
-                    'Unreachable code detected.',
-                    DiagnosticSeverity.Warning
-                );
-            } else {
-                // If it is control flow (e.g. End If, Else), we assume code becomes reachable or flow merges.
-                this.isUnreachable = false;
-            }
-        }
-
-        // Check if this line makes subsequent code unreachable
-        if (
-            VAL_RETURN_REGEX.test(trimmed) ||
-            VAL_EXIT_REGEX.test(trimmed) ||
-            VAL_THROW_REGEX.test(trimmed)
-        ) {
-            this.isUnreachable = true;
-        }
-    }
-
     /**
      * Validates syntax on a single line (e.g., missing Then, type declarations).
      * @param trimmed The trimmed line content (no comments).
      * @param lineIndex The line number.
-     * @param rawLine The original line content.
+     * @param rawLine The logical line content (continued lines joined), including comments.
      */
     private validateSyntax(trimmed: string, lineIndex: number, rawLine: string) {
         // Check for "If ... " without "Then"
         if (VAL_IF_LINE_REGEX.test(rawLine)) {
-            if (!VAL_THEN_REGEX.test(rawLine) && !trimmed.endsWith('_')) {
-                this.addDiagnostic(
-                    lineIndex,
-                    "Missing 'Then' in If statement.",
-                    DiagnosticSeverity.Error
-                );
+            if (!VAL_THEN_REGEX.test(rawLine)) {
+                this.addDiagnostic(lineIndex, Rules.MissingThen, "Missing 'Then' in If statement.");
             }
         }
 
-        // Check for "Dim x" without "As"
+        // Check for "Dim x" without "As" (an error under Option Strict On)
         if (VAL_DIM_REGEX.test(trimmed)) {
+            const diagnostic = this.addDiagnostic(
+                lineIndex,
+                Rules.UntypedVariable,
+                'Variable declaration without type (As ...).'
+            );
+            if (this.options.strict) diagnostic.severity = DiagnosticSeverity.Error;
+        } else if (
+            this.options.strict &&
+            !this.options.infer &&
+            VAL_DIM_INFERRED_REGEX.test(trimmed)
+        ) {
+            // Without Option Infer the type of "Dim x = 1" would be Object
             this.addDiagnostic(
                 lineIndex,
-                'Variable declaration without type (As ...).',
-                DiagnosticSeverity.Warning
+                Rules.StrictImplicitType,
+                "Option Strict On requires all variable declarations to have an 'As' clause."
             );
         }
 
@@ -739,8 +1470,8 @@ class Validator {
         if (VAL_CONST_REGEX.test(rawLine) && !rawLine.includes('=')) {
             this.addDiagnostic(
                 lineIndex,
-                'Const declaration requires a value (e.g. Const x = 1).',
-                DiagnosticSeverity.Error
+                Rules.ConstWithoutValue,
+                'Const declaration requires a value (e.g. Const x = 1).'
             );
         }
 
@@ -778,8 +1509,8 @@ class Validator {
             if (/^End\s+(Function|Property)/i.test(trimmed)) return;
             if (/^(Exit|Declare)\s+/i.test(trimmed)) return; // Declare Function ...
 
-            // Ignore line continuations (multi-line definitions)
-            if (trimmed.endsWith('_')) return;
+            // A type character is a return type too (`Function Name$()`)
+            if (/^(?:Function|Property)\s+\w+[%&@!#$]/i.test(trimmed)) return;
 
             // Check for 'As' keyword
             if (!/\bAs\b/i.test(trimmed)) {
@@ -790,8 +1521,8 @@ class Validator {
 
                 this.addDiagnostic(
                     lineIndex,
-                    `${type} '${name}' is missing a return type (e.g. 'As Object').`,
-                    DiagnosticSeverity.Warning
+                    Rules.MissingReturnType,
+                    `${type} '${name}' is missing a return type (e.g. 'As Object').`
                 );
             } else {
                 // Has 'As', but maybe missing type? "Function Foo() As" -> handled by parser error usually?
@@ -800,8 +1531,8 @@ class Validator {
                     const type = /^Function/i.test(trimmed) ? 'Function' : 'Property';
                     this.addDiagnostic(
                         lineIndex,
-                        `${type} declaration is missing type after 'As'.`,
-                        DiagnosticSeverity.Warning
+                        Rules.MissingReturnType,
+                        `${type} declaration is missing type after 'As'.`
                     );
                 }
             }
@@ -818,8 +1549,8 @@ class Validator {
         if (!parent) {
             this.addDiagnostic(
                 lineIndex,
-                "'Return' statement must be inside a Function, Sub, or Property.",
-                DiagnosticSeverity.Error
+                Rules.ReturnOutsideMethod,
+                "'Return' statement must be inside a Function, Sub, or Property."
             );
             return;
         }
@@ -830,8 +1561,8 @@ class Validator {
             if (hasValue) {
                 this.addDiagnostic(
                     lineIndex,
-                    "'Return' in a Sub cannot return a value.",
-                    DiagnosticSeverity.Error
+                    Rules.ReturnValueInSub,
+                    "'Return' in a Sub cannot return a value."
                 );
             }
         } else if (
@@ -841,8 +1572,8 @@ class Validator {
             if (!hasValue) {
                 this.addDiagnostic(
                     lineIndex,
-                    "'Return' in a Function/Property must return a value.",
-                    DiagnosticSeverity.Error
+                    Rules.ReturnWithoutValue,
+                    "'Return' in a Function/Property must return a value."
                 );
             }
         }
@@ -863,8 +1594,9 @@ class Validator {
         if (!parent) {
             this.addDiagnostic(
                 lineIndex,
+                Rules.InvalidExit,
                 `'Exit ${type}' must be inside a '${type}' block.`,
-                DiagnosticSeverity.Error
+                { blockType: type }
             );
         }
     }
@@ -940,8 +1672,9 @@ class Validator {
                     // We report on the current line (Catch) saying previous was empty?
                     // Or we assume the diagnostic shows "Empty Catch block" at the end of the block.
                     // Let's report "Empty 'Try' block detected."
+                    Rules.EmptyTryBlock,
                     `Empty '${partName}' block detected.`,
-                    DiagnosticSeverity.Information // Info or Warning?
+                    { blockType: partName }
                 );
             }
             // Reset for new part
@@ -1092,8 +1825,8 @@ class Validator {
         if (this.stack.length === 0) {
             this.addDiagnostic(
                 line,
-                `Unexpected closing statement '${content.trim()}'.`,
-                DiagnosticSeverity.Error
+                Rules.UnexpectedClosing,
+                `Unexpected closing statement '${content.trim()}'.`
             );
             return;
         }
@@ -1109,28 +1842,25 @@ class Validator {
                     // Use part name if available (e.g. Catch, Finally)
                     const partName = last.part || last.type;
 
-                    let severity: DiagnosticSeverity = DiagnosticSeverity.Warning;
-                    if (
+                    const rule =
                         type === 'try' ||
                         partName.toLowerCase() === 'catch' ||
                         partName.toLowerCase() === 'finally'
-                    ) {
-                        severity = DiagnosticSeverity.Information;
-                    }
+                            ? Rules.EmptyTryBlock
+                            : Rules.EmptyBlock;
 
-                    this.addDiagnostic(
-                        last.line,
-                        `Empty '${partName}' block detected.`,
-                        severity
-                    );
+                    this.addDiagnostic(last.line, rule, `Empty '${partName}' block detected.`, {
+                        blockType: partName
+                    });
                 }
             }
         } else {
             const expectedClosing = this.getExpectedClosing(last.type);
             this.addDiagnostic(
                 line,
+                Rules.MismatchedBlock,
                 `Mismatched block: Expected '${expectedClosing}' (to close '${last.type}' at line ${last.line + 1}), but found '${content.trim()}'.`,
-                DiagnosticSeverity.Error
+                { blockType: last.type }
             );
         }
     }
@@ -1182,25 +1912,30 @@ class Validator {
         for (const item of this.stack) {
             this.addDiagnostic(
                 item.line,
+                Rules.UnclosedBlock,
                 `Missing closing statement for '${item.type}' block started at line ${item.line + 1}.`,
-                DiagnosticSeverity.Error
+                { blockType: item.type }
             );
         }
     }
 
     /**
-     * Adds a diagnostic to the list.
+     * Adds a diagnostic covering a whole line to the list.
      * @param line The line number.
+     * @param rule The rule that reports the diagnostic (determines code and severity).
      * @param message The error message.
-     * @param severity The severity.
+     * @param data Structured data for code actions.
+     * @returns The diagnostic.
      */
-    private addDiagnostic(line: number, message: string, severity: DiagnosticSeverity) {
-        Logger.debug(`Validator: Added diagnostic at line ${line}: ${message}`);
-        this.diagnostics.push({
-            severity,
-            range: Range.create(line, 0, line, this.lines[line].length),
+    private addDiagnostic(line: number, rule: Rule, message: string, data?: unknown): Diagnostic {
+        Logger.debug(`Validator: Added diagnostic ${rule.id} at line ${line}: ${message}`);
+        const diagnostic = createDiagnostic(
+            rule,
+            Range.create(line, 0, line, this.lines[line].length),
             message,
-            source: 'SimpleVB'
-        });
+            data
+        );
+        this.diagnostics.push(diagnostic);
+        return diagnostic;
     }
 }
@@ -6,6 +6,7 @@ import {
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Logger } from '../utils/logger';
+import { RequestContext, yieldAndCheckCancelled } from '../utils/progress';
 import { parseDocumentSymbols } from '../utils/parser';
 
 /**
@@ -14,17 +15,20 @@ import { parseDocumentSymbols } from '../utils/parser';
  *
  * @param params The workspace symbol parameters (query).
  * @param documents All open documents.
+ * @param context The cancellation token of the request, checked between documents.
  * @returns An array of SymbolInformation.
  */
-export function onWorkspaceSymbol(
+export async function onWorkspaceSymbol(
     params: WorkspaceSymbolParams,
-    documents: TextDocument[]
-): SymbolInformation[] {
+    documents: TextDocument[],
+    context: RequestContext = {}
+): Promise<SymbolInformation[]> {
     Logger.log(`Workspace Symbol requested with query '${params.query}'`);
     const query = params.query.toLowerCase();
     const result: SymbolInformation[] = [];
 
     for (const doc of documents) {
+        await yieldAndCheckCancelled(context.token);
         const symbols = parseDocumentSymbols(doc);
         const flattened = flattenSymbols(symbols, doc.uri);
 
@@ -0,0 +1,359 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver/node';
+
+/**
+ * A validation rule. Every diagnostic reported by the validator belongs to exactly one rule;
+ * the rule ID is sent as the diagnostic `code` and is what code actions dispatch on.
+ */
+export interface Rule {
+    /** Stable identifier, e.g. `VB0001`. IDs are never reused or renumbered. */
+    id: string;
+    /** Short kebab-case name, e.g. `missing-then`. */
+    name: string;
+    /** The severity used unless the rule is configured otherwise. */
+    severity: DiagnosticSeverity;
+    /** One-sentence description of what the rule reports. */
+    description: string;
+}
+
+/**
+ * Creates a rule.
+ * @param id The rule ID.
+ * @param name The rule name.
+ * @param severity The default severity.
+ * @param description The description.
+ * @returns The rule.
+ */
+function defineRule(
+    id: string,
+    name: string,
+    severity: DiagnosticSeverity,
+    description: string
+): Rule {
+    return { id, name, severity, description };
+}
+
+/**
+ * The registry of validation rules.
+ */
+export const Rules = {
+    // Syntax and types
+    MissingThen: defineRule(
+        'VB0001',
+        'missing-then',
+        DiagnosticSeverity.Error,
+        "An 'If' statement is missing the 'Then' keyword."
+    ),
+    UntypedVariable: defineRule(
+        'VB0002',
+        'untyped-variable',
+        DiagnosticSeverity.Warning,
+        "A 'Dim' declaration has neither an 'As' clause nor an initializer (an error under Option Strict On)."
+    ),
+    StrictImplicitType: defineRule(
+        'VB0003',
+        'strict-implicit-type',
+        DiagnosticSeverity.Error,
+        "With Option Strict On and Option Infer Off, a 'Dim' declaration needs an 'As' clause."
+    ),
+    ConstWithoutValue: defineRule(
+        'VB0004',
+        'const-without-value',
+        DiagnosticSeverity.Error,
+        "A 'Const' declaration has no value."
+    ),
+    MissingReturnType: defineRule(
+        'VB0005',
+        'missing-return-type',
+        DiagnosticSeverity.Warning,
+        "A 'Function' or 'Property' declaration has no return type."
+    ),
+    UnknownType: defineRule(
+        'VB0006',
+        'unknown-type',
+        DiagnosticSeverity.Warning,
+        "A type in an 'As' clause is neither declared in the project nor imported."
+    ),
+    ConstAssignment: defineRule(
+        'VB0007',
+        'const-assignment',
+        DiagnosticSeverity.Error,
+        'A value is assigned to a constant.'
+    ),
+    ArgumentMismatch: defineRule(
+        'VB0008',
+        'argument-mismatch',
+        DiagnosticSeverity.Error,
+        "A call passes too many or too few arguments, names an unknown parameter or misuses a 'ParamArray' parameter."
+    ),
+    NarrowingConversion: defineRule(
+        'VB0009',
+        'narrowing-conversion',
+        DiagnosticSeverity.Error,
+        'With Option Strict On, a value is implicitly converted to a type that cannot hold all its values.'
+    ),
+    LateBinding: defineRule(
+        'VB0010',
+        'late-binding',
+        DiagnosticSeverity.Error,
+        "With Option Strict On, a member of a value of type 'Object' is accessed (late binding)."
+    ),
+    // Flow control
+    ReturnOutsideMethod: defineRule(
+        'VB0101',
+        'return-outside-method',
+        DiagnosticSeverity.Error,
+        "A 'Return' statement is not inside a Sub, Function or Property."
+    ),
+    ReturnValueInSub: defineRule(
+        'VB0102',
+        'return-value-in-sub',
+        DiagnosticSeverity.Error,
+        "A 'Return' statement in a Sub returns a value."
+    ),
+    ReturnWithoutValue: defineRule(
+        'VB0103',
+        'return-without-value',
+        DiagnosticSeverity.Error,
+        "A 'Return' statement in a Function or Property does not return a value."
+    ),
+    InvalidExit: defineRule(
+        'VB0104',
+        'invalid-exit',
+        DiagnosticSeverity.Error,
+        "An 'Exit' statement is not inside a block of the kind it exits."
+    ),
+    UnreachableCode: defineRule(
+        'VB0105',
+        'unreachable-code',
+        DiagnosticSeverity.Warning,
+        "A statement can never be executed, e.g. after 'Return', 'Throw', 'GoTo' or an endless loop."
+    ),
+    MissingReturn: defineRule(
+        'VB0106',
+        'missing-return',
+        DiagnosticSeverity.Warning,
+        "A Function, Operator or 'Get' accessor does not return a value on all code paths."
+    ),
+    UnassignedVariable: defineRule(
+        'VB0107',
+        'unassigned-variable',
+        DiagnosticSeverity.Warning,
+        'A local variable of a reference type is used before it has been assigned a value.'
+    ),
+    UndefinedLabel: defineRule(
+        'VB0108',
+        'undefined-label',
+        DiagnosticSeverity.Error,
+        "A 'GoTo', 'On Error GoTo' or 'Resume' statement names a label that is not defined in the procedure."
+    ),
+    DuplicateLabel: defineRule(
+        'VB0109',
+        'duplicate-label',
+        DiagnosticSeverity.Error,
+        'A label is defined twice in the same procedure.'
+    ),
+    JumpIntoBlock: defineRule(
+        'VB0110',
+        'jump-into-block',
+        DiagnosticSeverity.Error,
+        "A 'GoTo' or 'Resume' jumps into a 'For', 'With', 'Using', 'SyncLock' or 'Try' block from outside."
+    ),
+    OnErrorWithTry: defineRule(
+        'VB0111',
+        'on-error-with-try',
+        DiagnosticSeverity.Error,
+        "A procedure contains both a 'Try' statement and an 'On Error' or 'Resume' statement."
+    ),
+    // Block structure
+    UnexpectedClosing: defineRule(
+        'VB0201',
+        'unexpected-closing',
+        DiagnosticSeverity.Error,
+        'A closing statement has no matching opening statement.'
+    ),
+    MismatchedBlock: defineRule(
+        'VB0202',
+        'mismatched-block',
+        DiagnosticSeverity.Error,
+        'A closing statement does not match the innermost open block.'
+    ),
+    UnclosedBlock: defineRule(
+        'VB0203',
+        'unclosed-block',
+        DiagnosticSeverity.Error,
+        'A block is not closed before the end of the document.'
+    ),
+    EmptyBlock: defineRule(
+        'VB0204',
+        'empty-block',
+        DiagnosticSeverity.Warning,
+        "An 'If', 'For', 'While', 'Do' or 'Select' block has no statements."
+    ),
+    EmptyTryBlock: defineRule(
+        'VB0205',
+        'empty-try-block',
+        DiagnosticSeverity.Information,
+        "A 'Try', 'Catch' or 'Finally' block has no statements."
+    ),
+    // Declarations
+    DuplicateDeclaration: defineRule(
+        'VB0301',
+        'duplicate-declaration',
+        DiagnosticSeverity.Error,
+        'A name is declared twice in the same scope.'
+    ),
+    DuplicateTypeAcrossFiles: defineRule(
+        'VB0302',
+        'duplicate-type-across-files',
+        DiagnosticSeverity.Error,
+        'A type of the same kind and name is declared in another file of the project.'
+    ),
+    UndefinedInterface: defineRule(
+        'VB0303',
+        'undefined-interface',
+        DiagnosticSeverity.Error,
+        "An 'Implements' statement names an interface that cannot be found."
+    ),
+    MissingInterfaceMember: defineRule(
+        'VB0304',
+        'missing-interface-member',
+        DiagnosticSeverity.Error,
+        'A class does not implement a member of one of its interfaces.'
+    ),
+    UnusedVariable: defineRule(
+        'VB0305',
+        'unused-variable',
+        DiagnosticSeverity.Information,
+        'A local variable is declared but never used.'
+    ),
+    UndeclaredIdentifier: defineRule(
+        'VB0306',
+        'undeclared-identifier',
+        DiagnosticSeverity.Error,
+        'A name used in a procedure is not declared (with Option Explicit On).'
+    ),
+    UnusedMember: defineRule(
+        'VB0307',
+        'unused-member',
+        DiagnosticSeverity.Information,
+        'A Private method, property, field or constant is never used in its type.'
+    ),
+    UnusedParameter: defineRule(
+        'VB0308',
+        'unused-parameter',
+        DiagnosticSeverity.Information,
+        'A parameter is never used in the body of its procedure.'
+    ),
+    UnusedImport: defineRule(
+        'VB0309',
+        'unused-import',
+        DiagnosticSeverity.Information,
+        "An 'Imports' statement names a namespace whose types are not used in the file."
+    ),
+    InheritanceCycle: defineRule(
+        'VB0310',
+        'inheritance-cycle',
+        DiagnosticSeverity.Error,
+        'A class or interface inherits from itself, directly or through its base types.'
+    ),
+    // Style
+    NamingConvention: defineRule(
+        'VB0401',
+        'naming-convention',
+        DiagnosticSeverity.Information,
+        'A name does not follow the naming convention configured for its kind (by default, local variables and parameters are camelCase).'
+    ),
+    MagicNumber: defineRule(
+        'VB0402',
+        'magic-number',
+        DiagnosticSeverity.Information,
+        'A number literal other than the allowed numbers (by default 0 and 1, also when negated) is used instead of a constant.'
+    ),
+    LineTooLong: defineRule(
+        'VB0403',
+        'line-too-long',
+        DiagnosticSeverity.Warning,
+        'A line is longer than the maximum line length.'
+    ),
+    TaskComment: defineRule(
+        'VB0404',
+        'task-comment',
+        DiagnosticSeverity.Information,
+        "A comment contains a 'TODO:' or 'FIXME:' marker."
+    ),
+    UnusedSuppression: defineRule(
+        'VB0405',
+        'unused-suppression',
+        DiagnosticSeverity.Warning,
+        'A suppression comment does not suppress any diagnostic, or lists an unknown rule.'
+    )
+};
+
+/** All rules, ordered by ID. */
+export const ALL_RULES: Rule[] = Object.values(Rules).sort((a, b) => a.id.localeCompare(b.id));
+
+/**
+ * Finds a rule by ID or name.
+ * @param idOrName The rule ID (e.g. `VB0001`) or name (e.g. `missing-then`), in any case.
+ * @returns The rule, or undefined if there is none.
+ */
+export function getRule(idOrName: string): Rule | undefined {
+    const key = idOrName.toLowerCase();
+    return ALL_RULES.find((rule) => rule.id.toLowerCase() === key || rule.name === key);
+}
+
+let documentationFile: string | null | undefined;
+
+/**
+ * Gets the URI of the documentation of a rule (an anchor in `guides/rules.md`).
+ * The guide is looked up in the package root (the nearest directory with a `package.json`),
+ * so that the link also works for compiled output.
+ * @param rule The rule.
+ * @returns The URI, or undefined if the guide is not available.
+ */
+export function getRuleDocumentationUri(rule: Rule): string | undefined {
+    if (documentationFile === undefined) {
+        documentationFile = null;
+        for (let dir = __dirname; ; dir = path.dirname(dir)) {
+            if (fs.existsSync(path.join(dir, 'package.json'))) {
+                const candidate = path.join(dir, 'guides', 'rules.md');
+                if (fs.existsSync(candidate)) documentationFile = candidate;
+                break;
+            }
+            if (path.dirname(dir) === dir) break;
+        }
+    }
+    return documentationFile
+        ? `${pathToFileURL(documentationFile).href}#${rule.id.toLowerCase()}`
+        : undefined;
+}
+
+/**
+ * Creates a diagnostic for a rule.
+ * @param rule The rule that reports the diagnostic.
+ * @param range The range of the diagnostic.
+ * @param message The message.
+ * @param data Structured data for code actions (e.g. the name of the unknown type).
+ * @returns The diagnostic.
+ */
+export function createDiagnostic(
+    rule: Rule,
+    range: Range,
+    message: string,
+    data?: unknown
+): Diagnostic {
+    const diagnostic: Diagnostic = {
+        severity: rule.severity,
+        range,
+        message,
+        source: 'SimpleVB',
+        code: rule.id
+    };
+    const href = getRuleDocumentationUri(rule);
+    if (href) diagnostic.codeDescription = { href };
+    if (data !== undefined) diagnostic.data = data;
+    return diagnostic;
+}
@@ -18,10 +18,13 @@ export const SERVER_CAPABILITIES: ServerCapabilities = {
     documentOnTypeFormattingProvider: {
         firstTriggerCharacter: '\n'
     },
-    referencesProvider: true,
+    referencesProvider: {
+        workDoneProgress: true
+    },
     documentHighlightProvider: true,
     renameProvider: {
-        prepareProvider: true
+        prepareProvider: true,
+        workDoneProgress: true
     },
     codeActionProvider: true,
     signatureHelpProvider: {
@@ -47,7 +50,14 @@ export const SERVER_CAPABILITIES: ServerCapabilities = {
     workspaceSymbolProvider: true,
     selectionRangeProvider: true,
     callHierarchyProvider: true,
+    typeHierarchyProvider: true,
     colorProvider: true,
+    diagnosticProvider: {
+        identifier: 'simpleVB',
+        interFileDependencies: true,
+        workspaceDiagnostics: true,
+        workDoneProgress: true
+    },
     workspace: {
         workspaceFolders: {
             supported: true
@@ -14,6 +14,9 @@ import {
 	ProposedFeatures,
 	InitializeParams,
 	DidChangeConfigurationNotification,
+    DidChangeWatchedFilesNotification,
+    DidChangeWatchedFilesParams,
+    FileChangeType,
 	CompletionItem,
 	TextDocumentPositionParams,
 	InitializeResult,
@@ -59,10 +62,19 @@ import {
     CallHierarchyItem,
     CallHierarchyIncomingCall,
     CallHierarchyOutgoingCall,
+    TypeHierarchyPrepareParams,
+    TypeHierarchySupertypesParams,
+    TypeHierarchySubtypesParams,
+    TypeHierarchyItem,
     ColorInformation,
     DocumentColorParams,
     ColorPresentation,
-    ColorPresentationParams
+    ColorPresentationParams,
+    DocumentDiagnosticParams,
+    DocumentDiagnosticReport,
+    DocumentDiagnosticReportKind,
+    WorkspaceDiagnosticParams,
+    WorkspaceDiagnosticReport
 } from 'vscode-languageserver/node';
 
 import {
@@ -71,6 +83,7 @@ import {
 
 import { onDocumentColor, onColorPresentation } from './features/colorProvider';
 import { onPrepareCallHierarchy, onIncomingCalls, onOutgoingCalls } from './features/callHierarchy';
+import { onPrepareTypeHierarchy, onSupertypes, onSubtypes } from './features/typeHierarchy';
 import { onCompletion, onCompletionResolve } from './features/completion';
 import { onHover } from './features/hover';
 import { onFoldingRanges } from './features/folding';
@@ -88,11 +101,18 @@ import { onInlayHints } from './features/inlayHints';
 import { onCodeLens, onCodeLensResolve } from './features/codeLens';
 import { onWorkspaceSymbol } from './features/workspaceSymbol';
 import { onSelectionRanges } from './features/selectionRange';
+import { onDocumentDiagnostic, onWorkspaceDiagnostic } from './features/diagnostics';
 import { parseDocumentSymbols } from './utils/parser';
+import { updateDocument, removeDocumentModel } from './utils/documentModel';
+import { WorkspaceIndex, isWorkspaceFile } from './utils/workspaceIndex';
 import { formatDocument, formatRange, formatOnType } from './features/formatting';
 import { Logger } from './utils/logger';
 import { ValidationScheduler } from './utils/scheduler';
+import { DiagnosticCache } from './utils/diagnosticCache';
+import { DependencyGraph } from './utils/dependencies';
+import { SettingsManager } from './utils/settings';
 import { safeHandler } from './utils/safeHandler';
+import { OperationCancelledError } from './utils/progress';
 import { SERVER_CAPABILITIES } from './server-capabilities';
 
 // Create a connection for the server, using Node's IPC as a transport.
@@ -100,14 +120,84 @@ import { SERVER_CAPABILITIES } from './server-capabilities';
 const connection = createConnection(ProposedFeatures.all);
 Logger.setConnection(connection);
 
-// Create a simple text document manager.
-const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
+// Create a text document manager. Incremental edits also update the cached document models
+// (tokens, syntax tree and symbols) shared by all feature handlers.
+const documents: TextDocuments<TextDocument> = new TextDocuments({
+    create: TextDocument.create,
+    update: updateDocument
+});
+
+// Index of the .vb files in the workspace folders (including files that are not open)
+const workspaceIndex = new WorkspaceIndex((uri) => documents.get(uri) !== undefined);
+let workspaceFolders: string[] = [];
+
+/**
+ * Gets the documents cross-file features resolve against: the open documents and the
+ * indexed files of the workspace.
+ * @returns All project documents.
+ */
+function getAllDocuments(): TextDocument[] {
+    return workspaceIndex.getDocuments(documents.all());
+}
+
+// User settings (`simpleVB.*`), read through `workspace/configuration`
+const settingsManager = new SettingsManager(connection);
+
+// Which documents use the declarations of which other documents
+const dependencyGraph = new DependencyGraph();
 
 // Validation Scheduler
-const validationScheduler = new ValidationScheduler(connection, documents);
+const validationScheduler = new ValidationScheduler(
+    connection,
+    getAllDocuments,
+    uri => settingsManager.getSettings(uri),
+    uri => documents.get(uri),
+    dependencyGraph
+);
+
+// Results of the pull model (`textDocument/diagnostic`, `workspace/diagnostic`)
+const diagnosticCache = new DiagnosticCache();
 
 let hasConfigurationCapability = false;
 let hasWorkspaceFolderCapability = false;
+let hasWatchedFilesCapability = false;
+let hasPullDiagnosticsCapability = false;
+let hasDiagnosticRefreshCapability = false;
+
+/**
+ * Re-runs validation for all open documents (e.g. after project files changed on disk).
+ * Clients that pull diagnostics are asked to pull them again instead.
+ */
+function revalidateOpenDocuments() {
+    diagnosticCache.invalidate();
+    if (hasPullDiagnosticsCapability) {
+        if (hasDiagnosticRefreshCapability) connection.languages.diagnostics.refresh();
+        return;
+    }
+    for (const document of documents.all()) {
+        validationScheduler.scheduleValidation(document);
+    }
+}
+
+/**
+ * Indexes workspace folders in the background and revalidates the open documents once the
+ * symbols of the whole project are known.
+ * @param folders The URIs of the folders to index.
+ */
+function indexWorkspaceFolders(folders: string[]) {
+    (async () => {
+        for (const folder of folders) {
+            const progress = await connection.window.createWorkDoneProgress();
+            try {
+                await workspaceIndex.indexFolder(folder, { token: progress.token, progress });
+            } catch (error) {
+                if (!(error instanceof OperationCancelledError)) throw error;
+                Logger.log(`Workspace indexing of ${folder} cancelled`);
+            }
+        }
+        revalidateOpenDocuments();
+    })().catch(error => Logger.error(`Workspace indexing failed: ${error}`));
+}
 
 connection.onInitialize(
     safeHandler((params: InitializeParams) => {
@@ -119,9 +209,22 @@ connection.onInitialize(
         hasConfigurationCapability = !!(
             capabilities.workspace && !!capabilities.workspace.configuration
         );
+        settingsManager.setConfigurationCapability(hasConfigurationCapability);
         hasWorkspaceFolderCapability = !!(
             capabilities.workspace && !!capabilities.workspace.workspaceFolders
         );
+        hasWatchedFilesCapability = !!(
+            capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration
+        );
+        // Clients that pull diagnostics do not need them pushed after every change
+        hasPullDiagnosticsCapability = !!capabilities.textDocument?.diagnostic;
+        hasDiagnosticRefreshCapability = !!capabilities.workspace?.diagnostics?.refreshSupport;
+
+        if (params.workspaceFolders) {
+            workspaceFolders = params.workspaceFolders.map(folder => folder.uri);
+        } else if (params.rootUri) {
+            workspaceFolders = [params.rootUri];
+        }
 
         const result: InitializeResult = {
             capabilities: SERVER_CAPABILITIES
@@ -140,11 +243,22 @@ connection.onInitialized(
             // Register for all configuration changes.
             connection.client.register(DidChangeConfigurationNotification.type, undefined);
         }
+        if (hasWatchedFilesCapability) {
+            // Keep the workspace index up to date with files changed outside the editor
+            connection.client.register(DidChangeWatchedFilesNotification.type, {
+                watchers: [{ globPattern: '**/*.{vb,vbproj,sln}' }]
+            });
+        }
         if (hasWorkspaceFolderCapability) {
-            connection.workspace.onDidChangeWorkspaceFolders(_event => {
+            connection.workspace.onDidChangeWorkspaceFolders(event => {
                 Logger.log('Workspace folder change event received.');
+                for (const removed of event.removed) {
+                    workspaceIndex.removeFolder(removed.uri);
+                }
+                indexWorkspaceFolders(event.added.map(folder => folder.uri));
             });
         }
+        indexWorkspaceFolders(workspaceFolders);
     }, undefined, 'Initialized')
 );
 
@@ -158,14 +272,59 @@ connection.onShutdown(
 // when the text document first opened or when its content has changed.
 documents.onDidChangeContent(
     safeHandler(change => {
-        validationScheduler.scheduleValidation(change.document);
+        if (hasPullDiagnosticsCapability) {
+            // The changed document has a new version; of the others, only the documents that
+            // use its declarations need to be validated again
+            diagnosticCache.invalidate(dependencyGraph.update(change.document, getAllDocuments()));
+        } else {
+            validationScheduler.scheduleValidation(change.document);
+        }
     }, undefined, 'DidChangeContent')
 );
 
+connection.onDidChangeConfiguration(
+    safeHandler(change => {
+        Logger.log('Configuration change event received.');
+        settingsManager.onConfigurationChanged(change.settings);
+        revalidateOpenDocuments();
+    }, undefined, 'DidChangeConfiguration')
+);
+
+documents.onDidClose(
+    safeHandler(event => {
+        validationScheduler.clear(event.document);
+        settingsManager.clear(event.document.uri);
+        removeDocumentModel(event.document.uri);
+        diagnosticCache.invalidate();
+        if (workspaceIndex.has(event.document.uri)) {
+            // Unsaved changes are discarded: resolve against the file on disk again
+            workspaceIndex
+                .updateFile(event.document.uri)
+                .catch(error => Logger.error(`Re-indexing failed: ${error}`));
+        } else {
+            diagnosticCache.remove(event.document.uri);
+        }
+    }, undefined, 'DidClose')
+);
+
 connection.onDidChangeWatchedFiles(
-    safeHandler(_change => {
-        // Monitored files have change in VSCode
-        Logger.log('We received a file change event');
+    safeHandler((change: DidChangeWatchedFilesParams) => {
+        // Monitored files have changed on disk (e.g. edited outside the editor, created or deleted)
+        Logger.log(`We received ${change.changes.length} file change events`);
+        const updates: Promise<void>[] = [];
+        for (const event of change.changes) {
+            if (!isWorkspaceFile(event.uri)) continue;
+            if (event.type === FileChangeType.Deleted) {
+                workspaceIndex.removeFile(event.uri);
+                diagnosticCache.remove(event.uri);
+                dependencyGraph.remove(event.uri, getAllDocuments());
+            } else {
+                updates.push(workspaceIndex.updateFile(event.uri));
+            }
+        }
+        Promise.all(updates)
+            .then(revalidateOpenDocuments)
+            .catch(error => Logger.error(`Re-indexing failed: ${error}`));
     }, undefined, 'DidChangeWatchedFiles')
 );
 
@@ -175,7 +334,7 @@ connection.onCompletion(
         const document = documents.get(params.textDocument.uri);
         if (!document) return [];
         Logger.log(`Completion requested at ${params.textDocument.uri}:${params.position.line}`);
-        return onCompletion(params, document);
+        return onCompletion(params, document, getAllDocuments());
     }, [], 'Completion')
 );
 
@@ -193,7 +352,7 @@ connection.onHover(
         const document = documents.get(params.textDocument.uri);
         if (!document) return null;
         Logger.log(`Hover requested at ${params.textDocument.uri}:${params.position.line}:${params.position.character}`);
-        return onHover(params, document, documents.all());
+        return onHover(params, document, getAllDocuments());
     }, null, 'Hover')
 );
 
@@ -223,7 +382,7 @@ connection.onDefinition(
         const document = documents.get(params.textDocument.uri);
         if (!document) return null;
         Logger.log(`Definition requested at ${params.textDocument.uri}:${params.position.line}:${params.position.character}`);
-        return onDefinition(params, document, documents.all());
+        return onDefinition(params, document, getAllDocuments());
     }, null, 'Definition')
 );
 
@@ -233,7 +392,7 @@ connection.onImplementation(
         const document = documents.get(params.textDocument.uri);
         if (!document) return null;
         Logger.log(`Implementation requested at ${params.textDocument.uri}:${params.position.line}:${params.position.character}`);
-        return onImplementation(params, document, documents.all());
+        return onImplementation(params, document, getAllDocuments());
     }, null, 'Implementation')
 );
 
@@ -247,15 +406,36 @@ connection.languages.callHierarchy.onPrepare(
 );
 
 connection.languages.callHierarchy.onIncomingCalls(
-    safeHandler((params: CallHierarchyIncomingCallsParams): CallHierarchyIncomingCall[] | null => {
-        return onIncomingCalls(params, documents.all());
-    }, null, 'CallHierarchyIncomingCalls')
+    safeHandler((params: CallHierarchyIncomingCallsParams, token): Promise<CallHierarchyIncomingCall[] | null> => {
+        return onIncomingCalls(params, getAllDocuments(), { token });
+    }, Promise.resolve(null), 'CallHierarchyIncomingCalls')
 );
 
 connection.languages.callHierarchy.onOutgoingCalls(
-    safeHandler((params: CallHierarchyOutgoingCallsParams): CallHierarchyOutgoingCall[] | null => {
-        return onOutgoingCalls(params, documents.all());
-    }, null, 'CallHierarchyOutgoingCalls')
+    safeHandler((params: CallHierarchyOutgoingCallsParams, token): Promise<CallHierarchyOutgoingCall[] | null> => {
+        return onOutgoingCalls(params, getAllDocuments(), { token });
+    }, Promise.resolve(null), 'CallHierarchyOutgoingCalls')
+);
+
+// Type Hierarchy
+connection.languages.typeHierarchy.onPrepare(
+    safeHandler((params: TypeHierarchyPrepareParams): TypeHierarchyItem[] | null => {
+        const document = documents.get(params.textDocument.uri);
+        if (!document) return null;
+        return onPrepareTypeHierarchy(params, document, getAllDocuments());
+    }, null, 'TypeHierarchyPrepare')
+);
+
+connection.languages.typeHierarchy.onSupertypes(
+    safeHandler((params: TypeHierarchySupertypesParams): TypeHierarchyItem[] | null => {
+        return onSupertypes(params, getAllDocuments());
+    }, null, 'TypeHierarchySupertypes')
+);
+
+connection.languages.typeHierarchy.onSubtypes(
+    safeHandler((params: TypeHierarchySubtypesParams, token): Promise<TypeHierarchyItem[] | null> => {
+        return onSubtypes(params, getAllDocuments(), { token });
+    }, Promise.resolve(null), 'TypeHierarchySubtypes')
 );
 
 // This handler provides type definition lookup
@@ -264,38 +444,38 @@ connection.onTypeDefinition(
         const document = documents.get(params.textDocument.uri);
         if (!document) return null;
         Logger.log(`Type Definition requested at ${params.textDocument.uri}:${params.position.line}:${params.position.character}`);
-        return onTypeDefinition(params, document);
+        return onTypeDefinition(params, document, getAllDocuments());
     }, null, 'TypeDefinition')
 );
 
 // This handler provides references lookup
 connection.onReferences(
-    safeHandler((params: ReferenceParams): Location[] => {
+    safeHandler((params: ReferenceParams, token, workDoneProgress): Promise<Location[]> => {
         const document = documents.get(params.textDocument.uri);
-        if (!document) return [];
+        if (!document) return Promise.resolve([]);
         Logger.log(`References requested at ${params.textDocument.uri}:${params.position.line}:${params.position.character}`);
-        return onReferences(params, document, documents.all());
-    }, [], 'References')
+        return onReferences(params, document, getAllDocuments(), { token, progress: workDoneProgress });
+    }, Promise.resolve([]), 'References')
 );
 
 // This handler provides document highlight
 connection.onDocumentHighlight(
-    safeHandler((params: DocumentHighlightParams): DocumentHighlight[] => {
+    safeHandler((params: DocumentHighlightParams): Promise<DocumentHighlight[]> => {
         const document = documents.get(params.textDocument.uri);
-        if (!document) return [];
+        if (!document) return Promise.resolve([]);
         Logger.log(`Document Highlight requested at ${params.textDocument.uri}:${params.position.line}:${params.position.character}`);
         return onDocumentHighlight(params, document);
-    }, [], 'DocumentHighlight')
+    }, Promise.resolve([]), 'DocumentHighlight')
 );
 
 // This handler provides rename support
 connection.onRenameRequest(
-    safeHandler((params: RenameParams): WorkspaceEdit | null => {
+    safeHandler((params: RenameParams, token, workDoneProgress): Promise<WorkspaceEdit | null> => {
         const document = documents.get(params.textDocument.uri);
-        if (!document) return null;
+        if (!document) return Promise.resolve(null);
         Logger.log(`Rename requested at ${params.textDocument.uri}:${params.position.line}:${params.position.character} to '${params.newName}'`);
-        return onRenameRequest(params, document, documents.all());
-    }, null, 'Rename')
+        return onRenameRequest(params, document, getAllDocuments(), { token, progress: workDoneProgress });
+    }, Promise.resolve(null), 'Rename')
 );
 
 // This handler provides prepare rename
@@ -323,7 +503,7 @@ connection.onSignatureHelp(
         const document = documents.get(params.textDocument.uri);
         if (!document) return null;
         Logger.log(`Signature Help requested at ${params.textDocument.uri}:${params.position.line}:${params.position.character}`);
-        return onSignatureHelp(params, document, documents.all());
+        return onSignatureHelp(params, document, getAllDocuments());
     }, null, 'SignatureHelp')
 );
 
@@ -343,7 +523,7 @@ connection.languages.inlayHint.on(
         const document = documents.get(params.textDocument.uri);
         if (!document) return [];
         Logger.log(`Inlay Hints requested for ${params.textDocument.uri}`);
-        return onInlayHints(params, document);
+        return onInlayHints(params, document, getAllDocuments());
     }, [], 'InlayHints')
 );
 
@@ -359,10 +539,10 @@ connection.onSelectionRanges(
 
 // This handler provides workspace symbols
 connection.onWorkspaceSymbol(
-    safeHandler((params: WorkspaceSymbolParams): SymbolInformation[] => {
+    safeHandler((params: WorkspaceSymbolParams, token): Promise<SymbolInformation[]> => {
         Logger.log(`Workspace Symbol requested for query '${params.query}'`);
-        return onWorkspaceSymbol(params, documents.all());
-    }, [], 'WorkspaceSymbol')
+        return onWorkspaceSymbol(params, getAllDocuments(), { token });
+    }, Promise.resolve([]), 'WorkspaceSymbol')
 );
 
 // This handler provides code lens
@@ -377,7 +557,7 @@ connection.onCodeLens(
 
 // This handler resolves code lens
 connection.onCodeLensResolve(
-    (codeLens: CodeLens): CodeLens => {
+    async (codeLens: CodeLens, token): Promise<CodeLens> => {
         const start = Date.now();
         Logger.debug(`[CodeLensResolve] Started`);
         try {
@@ -385,7 +565,7 @@ connection.onCodeLensResolve(
             if (data && data.uri) {
                 const document = documents.get(data.uri);
                 if (document) {
-                    const result = onCodeLensResolve(codeLens, document, documents.all());
+                    const result = await onCodeLensResolve(codeLens, document, getAllDocuments(), { token });
                     const duration = Date.now() - start;
                     Logger.debug(`[CodeLensResolve] Finished in ${duration}ms`);
                     return result;
@@ -393,7 +573,11 @@ connection.onCodeLensResolve(
             }
             return codeLens;
         } catch (error) {
-            Logger.error(`CodeLensResolve failed: ${error}`);
+            if (error instanceof OperationCancelledError) {
+                Logger.debug(`[CodeLensResolve] Cancelled`);
+            } else {
+                Logger.error(`CodeLensResolve failed: ${error}`);
+            }
             return codeLens;
         }
     }
@@ -401,31 +585,64 @@ connection.onCodeLensResolve(
 
 // This handler provides formatting
 connection.onDocumentFormatting(
-    safeHandler((params: DocumentFormattingParams): TextEdit[] => {
+    safeHandler((params: DocumentFormattingParams): Promise<TextEdit[]> => {
         const document = documents.get(params.textDocument.uri);
-        if (!document) return [];
+        if (!document) return Promise.resolve([]);
         Logger.log(`Formatting requested for ${params.textDocument.uri}`);
-        return formatDocument(document, params.options);
-    }, [], 'Formatting')
+        return settingsManager
+            .getSettings(document.uri)
+            .then(settings => formatDocument(document, params.options, settings.format));
+    }, Promise.resolve([]), 'Formatting')
 );
 
 // This handler provides range formatting
 connection.onDocumentRangeFormatting(
-    safeHandler((params: DocumentRangeFormattingParams): TextEdit[] => {
+    safeHandler((params: DocumentRangeFormattingParams): Promise<TextEdit[]> => {
         const document = documents.get(params.textDocument.uri);
-        if (!document) return [];
+        if (!document) return Promise.resolve([]);
         Logger.log(`Range Formatting requested for ${params.textDocument.uri}`);
-        return formatRange(document, params.range, params.options);
-    }, [], 'RangeFormatting')
+        return settingsManager
+            .getSettings(document.uri)
+            .then(settings => formatRange(document, params.range, params.options, settings.format));
+    }, Promise.resolve([]), 'RangeFormatting')
 );
 
 // This handler provides on type formatting
 connection.onDocumentOnTypeFormatting(
-    safeHandler((params: DocumentOnTypeFormattingParams): TextEdit[] => {
+    safeHandler((params: DocumentOnTypeFormattingParams): Promise<TextEdit[]> => {
         const document = documents.get(params.textDocument.uri);
-        if (!document) return [];
-        return formatOnType(document, params);
-    }, [], 'OnTypeFormatting')
+        if (!document) return Promise.resolve([]);
+        return settingsManager
+            .getSettings(document.uri)
+            .then(settings => formatOnType(document, params, settings.format));
+    }, Promise.resolve([]), 'OnTypeFormatting')
+);
+
+// This handler provides diagnostics for clients that pull them
+connection.languages.diagnostics.on(
+    safeHandler((params: DocumentDiagnosticParams): Promise<DocumentDiagnosticReport> => {
+        const document = documents.get(params.textDocument.uri);
+        if (!document) return Promise.resolve({ kind: DocumentDiagnosticReportKind.Full, items: [] });
+        return settingsManager
+            .getSettings(document.uri)
+            .then(settings =>
+                onDocumentDiagnostic(params, document, getAllDocuments(), settings, diagnosticCache)
+            );
+    }, Promise.resolve({ kind: DocumentDiagnosticReportKind.Full, items: [] }), 'DocumentDiagnostic')
+);
+
+// This handler provides the diagnostics of all workspace files, including closed ones
+connection.languages.diagnostics.onWorkspace(
+    safeHandler((params: WorkspaceDiagnosticParams, token, workDoneProgress): Promise<WorkspaceDiagnosticReport> => {
+        return onWorkspaceDiagnostic(
+            params,
+            getAllDocuments(),
+            uri => settingsManager.getSettings(uri),
+            diagnosticCache,
+            uri => documents.get(uri) !== undefined,
+            { token, progress: workDoneProgress }
+        );
+    }, Promise.resolve({ items: [] }), 'WorkspaceDiagnostic')
 );
 
 // This handler provides document colors
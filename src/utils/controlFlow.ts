@@ -0,0 +1,788 @@
+import { Range } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Token, TokenKind, tokenRange } from './lexer';
+import { Logger } from './logger';
+import { BlockKind, BlockSyntax, StatementKind, StatementSyntax, SyntaxNode } from './syntaxTree';
+import { isReferenceType } from './typeInference';
+
+/**
+ * A statement of a procedure body in its control-flow graph. A single-line `If` is split into
+ * one node for its condition and one node for each of its statements.
+ */
+export interface FlowNode {
+    statement: StatementSyntax;
+    /** The tokens executed by the node. */
+    tokens: Token[];
+    successors: FlowNode[];
+    predecessors: FlowNode[];
+}
+
+/**
+ * The control-flow graph of a Sub, Function, Operator or accessor.
+ */
+export interface ControlFlowGraph {
+    body: BlockSyntax;
+    /** The procedure statement, where execution starts. */
+    entry: FlowNode;
+    /** The `End` statement, reached by falling off the end of the body or by `Exit Sub` etc. */
+    end: FlowNode;
+    /** All nodes, in source order within each block. */
+    nodes: FlowNode[];
+}
+
+/** Blocks containing executable statements. */
+const BODY_BLOCKS = new Set<BlockKind>([
+    BlockKind.Sub,
+    BlockKind.Function,
+    BlockKind.Operator,
+    BlockKind.Accessor
+]);
+
+/** Statements that close a block, which are reachable if the block is. */
+const CLOSING_STATEMENTS = new Set<StatementKind>([
+    StatementKind.End,
+    StatementKind.Next,
+    StatementKind.Loop,
+    StatementKind.Wend
+]);
+
+/** Tokens after which a name is a member, a type or a label rather than a variable. */
+const MEMBER_PREFIXES = new Set(['.', '?.', '!', 'as', 'new', 'of', 'goto']);
+
+/** The blocks left by `Exit` and `Continue`, by keyword. */
+const JUMP_TARGETS: { [keyword: string]: BlockKind } = {
+    do: BlockKind.Do,
+    for: BlockKind.For,
+    while: BlockKind.While,
+    select: BlockKind.Select,
+    try: BlockKind.Try
+};
+
+/**
+ * A block that `Exit` or `Continue` statements can jump out of.
+ */
+interface JumpContext {
+    kind: BlockKind;
+    /** `Exit` statements, which continue after the block. */
+    exits: FlowNode[];
+    /** `Continue` statements, which continue with the next iteration. */
+    continues: FlowNode[];
+}
+
+/**
+ * Builds the control-flow graph of one procedure body.
+ */
+class GraphBuilder {
+    private nodes: FlowNode[] = [];
+    private labels = new Map<string, FlowNode>();
+    private gotos: { node: FlowNode; label: Token }[] = [];
+    private contexts: JumpContext[] = [];
+    private end!: FlowNode;
+
+    constructor(
+        private body: BlockSyntax,
+        private text: string
+    ) {}
+
+    /**
+     * Builds the graph.
+     * @returns The graph.
+     */
+    public build(): ControlFlowGraph {
+        const begin = this.body.begin as StatementSyntax;
+        const entry = this.addNode(begin, [], []);
+        this.end = {
+            statement: this.body.end ?? begin,
+            tokens: [],
+            successors: [],
+            predecessors: []
+        };
+        const exits = this.buildMembers(this.body.members, [entry]);
+        this.nodes.push(this.end);
+        this.link(exits, this.end);
+        for (const { node, label } of this.gotos) {
+            const target = this.labels.get(label.value);
+            if (target) this.link([node], target);
+        }
+        return { body: this.body, entry, end: this.end, nodes: this.nodes };
+    }
+
+    /**
+     * Adds a node.
+     * @param statement The statement of the node.
+     * @param tokens The tokens executed by the node.
+     * @param incoming The nodes continuing with the new node.
+     * @returns The node.
+     */
+    private addNode(statement: StatementSyntax, tokens: Token[], incoming: FlowNode[]): FlowNode {
+        const node: FlowNode = { statement, tokens, successors: [], predecessors: [] };
+        this.nodes.push(node);
+        this.link(incoming, node);
+        return node;
+    }
+
+    /**
+     * Adds edges from nodes to a node.
+     * @param from The source nodes.
+     * @param to The target node.
+     */
+    private link(from: FlowNode[], to: FlowNode) {
+        for (const node of from) {
+            if (node.successors.includes(to)) continue;
+            node.successors.push(to);
+            to.predecessors.push(node);
+        }
+    }
+
+    /**
+     * Builds the nodes of consecutive statements and blocks.
+     * @param members The statements and blocks.
+     * @param incoming The nodes continuing with the first member.
+     * @returns The nodes continuing after the last member.
+     */
+    private buildMembers(members: SyntaxNode[], incoming: FlowNode[]): FlowNode[] {
+        let current = incoming;
+        for (const member of members) {
+            current =
+                member.nodeType === 'block'
+                    ? this.buildBlock(member, current)
+                    : this.buildStatement(member, current);
+        }
+        return current;
+    }
+
+    /**
+     * Builds the nodes of a statement that does not open a block.
+     * @param statement The statement.
+     * @param incoming The nodes continuing with the statement.
+     * @returns The nodes continuing after the statement.
+     */
+    private buildStatement(statement: StatementSyntax, incoming: FlowNode[]): FlowNode[] {
+        if (statement.kind === StatementKind.Label && statement.name) {
+            const node = this.addNode(statement, [], incoming);
+            this.labels.set(statement.name.text.toLowerCase(), node);
+            return [node];
+        }
+        if (statement.kind !== StatementKind.SingleLineIf) {
+            return this.buildTokens(statement, statement.tokens, incoming);
+        }
+
+        // `If condition Then statements [Else statements]`
+        const tokens = statement.tokens;
+        const thenIndex = tokens.findIndex(
+            (t) => t.kind === TokenKind.Keyword && t.value === 'then'
+        );
+        const elseIndex = tokens.findIndex(
+            (t, i) => i > thenIndex && t.kind === TokenKind.Keyword && t.value === 'else'
+        );
+        const condition = this.addNode(statement, tokens.slice(0, thenIndex + 1), incoming);
+        const thenPart = tokens.slice(thenIndex + 1, elseIndex === -1 ? undefined : elseIndex);
+        const exits = this.buildParts(statement, thenPart, [condition]);
+        if (elseIndex === -1) return [...exits, condition];
+        return [...exits, ...this.buildParts(statement, tokens.slice(elseIndex + 1), [condition])];
+    }
+
+    /**
+     * Builds the nodes of the statements of one branch of a single-line `If`, which are
+     * separated by colons.
+     * @param statement The single-line `If` statement.
+     * @param tokens The tokens of the branch.
+     * @param incoming The nodes continuing with the branch.
+     * @returns The nodes continuing after the branch.
+     */
+    private buildParts(statement: StatementSyntax, tokens: Token[], incoming: FlowNode[]) {
+        let current = incoming;
+        let start = 0;
+        for (let i = 1; i <= tokens.length; i++) {
+            const previous = tokens[i - 1];
+            const gap =
+                i < tokens.length
+                    ? this.text.substring(previous.offset + previous.text.length, tokens[i].offset)
+                    : ':';
+            if (!gap.includes(':')) continue;
+            current = this.buildTokens(statement, tokens.slice(start, i), current);
+            start = i;
+        }
+        return current;
+    }
+
+    /**
+     * Builds the node of a simple statement, linking jumps (`Return`, `Exit`, `GoTo`, ...) to
+     * their targets.
+     * @param statement The statement.
+     * @param tokens The tokens of the statement (or of a part of a single-line `If`).
+     * @param incoming The nodes continuing with the statement.
+     * @returns The nodes continuing after the statement.
+     */
+    private buildTokens(
+        statement: StatementSyntax,
+        tokens: Token[],
+        incoming: FlowNode[]
+    ): FlowNode[] {
+        const node = this.addNode(statement, tokens, incoming);
+        const first = tokens[0]?.value;
+        const second = tokens[1];
+        switch (first) {
+            case 'return':
+            case 'throw':
+                return [];
+            case 'end':
+                // A bare `End` terminates the program
+                return tokens.length === 1 ? [] : [node];
+            case 'exit':
+            case 'continue': {
+                if (first === 'exit' && ['sub', 'function', 'property'].includes(second?.value)) {
+                    this.link([node], this.end);
+                    return [];
+                }
+                const kind = JUMP_TARGETS[second?.value ?? ''];
+                const context = [...this.contexts].reverse().find((c) => c.kind === kind);
+                if (!context) return [node];
+                (first === 'exit' ? context.exits : context.continues).push(node);
+                return [];
+            }
+            case 'goto':
+            case 'resume': {
+                // `Resume` and `Resume Next` return to the statement that failed
+                const [label] = findJumpTargets(tokens);
+                if (label) this.gotos.push({ node, label });
+                return [];
+            }
+            case 'on': {
+                // `On Error GoTo Handler` may jump to the handler from any later statement
+                const [label] = findJumpTargets(tokens);
+                if (label) this.gotos.push({ node, label });
+                return [node];
+            }
+        }
+        return [node];
+    }
+
+    /**
+     * Builds the nodes of a block.
+     * @param block The block.
+     * @param incoming The nodes continuing with the block.
+     * @returns The nodes continuing after the block.
+     */
+    private buildBlock(block: BlockSyntax, incoming: FlowNode[]): FlowNode[] {
+        const begin = block.begin as StatementSyntax;
+        switch (block.kind) {
+            case BlockKind.If:
+                return this.buildBranches(block, incoming, [
+                    StatementKind.ElseIf,
+                    StatementKind.Else
+                ]);
+            case BlockKind.Select:
+                return this.buildBranches(block, incoming, [StatementKind.Case]);
+            case BlockKind.For:
+            case BlockKind.While:
+            case BlockKind.Do:
+                return this.buildLoop(block, incoming);
+            case BlockKind.Try:
+                return this.buildTry(block, incoming);
+            case BlockKind.Lambda:
+                // The body of a lambda runs when the lambda is called
+                return [this.addNode(begin, begin.tokens, incoming)];
+            default:
+                return this.buildMembers(block.members, [
+                    this.addNode(begin, begin.tokens, incoming)
+                ]);
+        }
+    }
+
+    /**
+     * Builds an `If` or `Select Case` block, whose branches start with `ElseIf`, `Else` or `Case`.
+     * @param block The block.
+     * @param incoming The nodes continuing with the block.
+     * @param separators The statements starting a branch.
+     * @returns The nodes continuing after the block.
+     */
+    private buildBranches(
+        block: BlockSyntax,
+        incoming: FlowNode[],
+        separators: StatementKind[]
+    ): FlowNode[] {
+        const begin = block.begin as StatementSyntax;
+        const context: JumpContext = { kind: block.kind, exits: [], continues: [] };
+        this.contexts.push(context);
+        // The condition tested last, which continues with the next branch when it is false
+        let condition = this.addNode(begin, begin.tokens, incoming);
+        let current: FlowNode[] = block.kind === BlockKind.If ? [condition] : [];
+        let hasElse = false;
+        const exits: FlowNode[] = [];
+        for (const member of block.members) {
+            if (member.nodeType === 'statement' && separators.includes(member.kind)) {
+                exits.push(...current);
+                condition = this.addNode(member, member.tokens, [condition]);
+                current = [condition];
+                hasElse ||= isElseBranch(member);
+                continue;
+            }
+            current =
+                member.nodeType === 'block'
+                    ? this.buildBlock(member, current)
+                    : this.buildStatement(member, current);
+        }
+        exits.push(...current, ...context.exits);
+        this.contexts.pop();
+        return hasElse ? exits : [...exits, condition];
+    }
+
+    /**
+     * Builds a `For`, `While` or `Do` loop. Loops without a condition (or with a constant one,
+     * e.g. `Do While True`) are left only through `Exit`.
+     * @param block The block.
+     * @param incoming The nodes continuing with the block.
+     * @returns The nodes continuing after the block.
+     */
+    private buildLoop(block: BlockSyntax, incoming: FlowNode[]): FlowNode[] {
+        const begin = block.begin as StatementSyntax;
+        const context: JumpContext = { kind: block.kind, exits: [], continues: [] };
+        this.contexts.push(context);
+        const head = this.addNode(begin, begin.tokens, incoming);
+        const repeats = [...this.buildMembers(block.members, [head])];
+        this.contexts.pop();
+        repeats.push(...context.continues);
+
+        const bottom = block.end;
+        if (block.kind === BlockKind.Do && !hasLoopCondition(begin) && bottom) {
+            if (hasLoopCondition(bottom)) {
+                // `Do ... Loop While condition` tests the condition after the body
+                const condition = this.addNode(bottom, bottom.tokens, repeats);
+                this.link([condition], head);
+                return isConstantCondition(bottom) ? context.exits : [condition, ...context.exits];
+            }
+            // `Do ... Loop` without a condition
+            this.link(repeats, head);
+            return context.exits;
+        }
+        this.link(repeats, head);
+        return isConstantCondition(begin) ? context.exits : [head, ...context.exits];
+    }
+
+    /**
+     * Builds a `Try` block. Any statement of the `Try` part may continue with a `Catch` block;
+     * the `Finally` block runs after the `Try` and `Catch` parts.
+     * @param block The block.
+     * @param incoming The nodes continuing with the block.
+     * @returns The nodes continuing after the block.
+     */
+    private buildTry(block: BlockSyntax, incoming: FlowNode[]): FlowNode[] {
+        const begin = block.begin as StatementSyntax;
+        const context: JumpContext = { kind: block.kind, exits: [], continues: [] };
+        this.contexts.push(context);
+        const head = this.addNode(begin, begin.tokens, incoming);
+        const first = this.nodes.length;
+        let current = [head];
+        let guarded: FlowNode[] | undefined;
+        let finallyNode: FlowNode | undefined;
+        const exits: FlowNode[] = [];
+        for (const member of block.members) {
+            if (member.nodeType === 'statement' && member.kind === StatementKind.Catch) {
+                guarded ??= [head, ...this.nodes.slice(first)];
+                exits.push(...current);
+                current = [this.addNode(member, member.tokens, guarded)];
+                continue;
+            }
+            if (member.nodeType === 'statement' && member.kind === StatementKind.Finally) {
+                guarded ??= [head, ...this.nodes.slice(first)];
+                exits.push(...current, ...context.exits);
+                this.contexts.pop();
+                // A `Finally` block also runs when the other parts throw
+                finallyNode = this.addNode(
+                    member,
+                    member.tokens,
+                    exits.length > 0 ? exits : [head]
+                );
+                current = [finallyNode];
+                continue;
+            }
+            current =
+                member.nodeType === 'block'
+                    ? this.buildBlock(member, current)
+                    : this.buildStatement(member, current);
+        }
+        if (finallyNode) return exits.length > 0 ? current : [];
+        this.contexts.pop();
+        return [...exits, ...current, ...context.exits];
+    }
+}
+
+/**
+ * Builds the control-flow graph of a procedure body.
+ * @param body The Sub, Function, Operator or accessor block.
+ * @param text The document text (to find the colons between statements).
+ * @returns The graph.
+ */
+export function buildControlFlowGraph(body: BlockSyntax, text: string): ControlFlowGraph {
+    const graph = new GraphBuilder(body, text).build();
+    Logger.debug(`ControlFlow: Built ${graph.nodes.length} nodes for '${body.begin?.name?.text}'.`);
+    return graph;
+}
+
+/**
+ * Finds the blocks with executable statements (Subs, Functions, Operators and accessors).
+ * @param block The block to search, e.g. the root of a syntax tree.
+ * @returns The procedure bodies.
+ */
+export function findProcedureBodies(block: BlockSyntax): BlockSyntax[] {
+    const bodies: BlockSyntax[] = [];
+    for (const member of block.members) {
+        if (member.nodeType !== 'block') continue;
+        if (BODY_BLOCKS.has(member.kind)) {
+            if (member.begin) bodies.push(member);
+        } else {
+            bodies.push(...findProcedureBodies(member));
+        }
+    }
+    return bodies;
+}
+
+/**
+ * Finds the labels a statement jumps to: the targets of `GoTo`, `On Error GoTo` and `Resume`.
+ * `On Error GoTo 0`, `On Error GoTo -1` and `Resume Next` have no target.
+ * @param tokens The tokens of the statement.
+ * @returns The label tokens (names or line numbers).
+ */
+export function findJumpTargets(tokens: Token[]): Token[] {
+    const targets: Token[] = [];
+    tokens.forEach((token, i) => {
+        const target = tokens[i + 1];
+        if (token.kind !== TokenKind.Keyword || !target) return;
+        if (target.kind !== TokenKind.Identifier && target.kind !== TokenKind.NumericLiteral) {
+            return;
+        }
+        if (token.value === 'resume') targets.push(target);
+        if (token.value !== 'goto') return;
+        // `On Error GoTo 0` turns error handling off
+        if (tokens[i - 1]?.value !== 'error' || target.text !== '0') targets.push(target);
+    });
+    return targets;
+}
+
+/**
+ * Finds the nodes reachable from the start of the procedure.
+ * @param graph The control-flow graph.
+ * @returns The reachable nodes.
+ */
+export function getReachableNodes(graph: ControlFlowGraph): Set<FlowNode> {
+    const reachable = new Set<FlowNode>([graph.entry]);
+    const queue = [graph.entry];
+    while (queue.length > 0) {
+        for (const next of (queue.pop() as FlowNode).successors) {
+            if (reachable.has(next)) continue;
+            reachable.add(next);
+            queue.push(next);
+        }
+    }
+    return reachable;
+}
+
+/**
+ * Finds the statements that can never be executed. Consecutive unreachable statements (with
+ * the blocks they open and close) are reported as one range.
+ * @param graph The control-flow graph.
+ * @returns The ranges of unreachable code.
+ */
+export function findUnreachableRanges(graph: ControlFlowGraph): Range[] {
+    const reachable = getReachableNodes(graph);
+    const status = new Map<StatementSyntax, boolean>();
+    for (const node of graph.nodes) {
+        if (node === graph.end) continue;
+        status.set(node.statement, status.get(node.statement) || reachable.has(node));
+    }
+    // Statements without a node (e.g. `End If`) are reachable if the block they close is
+    const isReachable = (statement: StatementSyntax): boolean => {
+        let current: StatementSyntax | undefined = statement;
+        while (current && !status.has(current)) current = current.parent?.begin;
+        return current ? (status.get(current) as boolean) : true;
+    };
+
+    const ranges: Range[] = [];
+    let range: Range | undefined;
+    for (const statement of getStatements(graph.body.members)) {
+        if (isReachable(statement)) {
+            range = undefined;
+        } else if (range) {
+            range.end = statement.range.end;
+        } else if (!CLOSING_STATEMENTS.has(statement.kind)) {
+            range = Range.create(statement.range.start, statement.range.end);
+            ranges.push(range);
+        }
+    }
+    return ranges;
+}
+
+/**
+ * Checks whether a Function, Operator or `Get` accessor can end without a return value: the
+ * end of the body is reachable without a `Return` and without assigning the function name.
+ * @param graph The control-flow graph.
+ * @returns True if a return value is missing on some path.
+ */
+export function isReturnMissing(graph: ControlFlowGraph): boolean {
+    const begin = graph.body.begin as StatementSyntax;
+    let name: string | undefined;
+    switch (graph.body.kind) {
+        case BlockKind.Function:
+            // Iterators and `Async Function ... As Task` have no return value
+            if (begin.modifiers.some((m) => m.value === 'iterator')) return false;
+            if (
+                begin.modifiers.some((m) => m.value === 'async') &&
+                !/^(?:\w+\.)*Task\s*\(/i.test(begin.asClause?.text ?? '')
+            ) {
+                return false;
+            }
+            name = begin.name?.text;
+            break;
+        case BlockKind.Accessor:
+            if (begin.keyword?.value !== 'get') return false;
+            name = graph.body.parent?.begin?.name?.text;
+            break;
+        case BlockKind.Operator:
+            break;
+        default:
+            return false;
+    }
+    if (!graph.body.end) return false;
+    const key = name?.toLowerCase();
+    const assigned = solveAssignments(graph, 1, (node) =>
+        key && isAssignment(node.tokens, 0) && node.tokens[0].value === key ? [0] : []
+    );
+    const atEnd = assigned.get(graph.end);
+    return atEnd !== undefined && !atEnd.has(0);
+}
+
+/**
+ * Finds reads of local variables of reference types (see `isReferenceType`) declared without
+ * an initializer, on paths where no value has been assigned yet. Each variable is reported once.
+ * @param graph The control-flow graph.
+ * @param document The document.
+ * @param allDocuments All documents of the workspace.
+ * @param byRefArguments The offsets of arguments passed `ByRef` (see `findByRefArguments`),
+ *        which count as assignments.
+ * @returns The tokens of the reads.
+ */
+export function findUnassignedReads(
+    graph: ControlFlowGraph,
+    document: TextDocument,
+    allDocuments: TextDocument[] = [document],
+    byRefArguments: Set<number> = new Set()
+): Token[] {
+    const variables: { name: string; scope?: BlockSyntax }[] = [];
+    for (const node of graph.nodes) {
+        const statement = node.statement;
+        if (statement.kind !== StatementKind.Variable) continue;
+        if (statement.modifiers.some((m) => m.value === 'static')) continue;
+        for (const declarator of statement.declarators ?? []) {
+            if (declarator.initializer !== undefined || declarator.type?.isNew) continue;
+            const isArray = declarator.arrayBounds !== undefined;
+            if (isArray && declarator.arrayBounds?.trim()) continue;
+            const type = declarator.type?.text ?? 'Object';
+            const position = declarator.name.range.start;
+            if (!isArray && !isReferenceType(type, document, position, allDocuments)) continue;
+            variables.push({ name: declarator.name.text.toLowerCase(), scope: statement.parent });
+        }
+    }
+    if (variables.length === 0) return [];
+
+    // The accesses of a node: the index of the variable, and whether it is assigned (or read)
+    const accesses = new Map<FlowNode, { variable: number; token: Token; write: boolean }[]>();
+    for (const node of graph.nodes) {
+        const list: { variable: number; token: Token; write: boolean }[] = [];
+        node.tokens.forEach((token, i) => {
+            if (token.kind !== TokenKind.Identifier) return;
+            const previous = node.tokens[i - 1]?.text;
+            const next = node.tokens[i + 1]?.text;
+            if (previous && MEMBER_PREFIXES.has(previous.toLowerCase())) return;
+            if (next === ':=') return;
+            const variable = findVariable(variables, token.value, node.statement);
+            if (variable === -1) return;
+            if (isDeclaredName(node.statement, token)) return;
+            const write =
+                isAssignment(node.tokens, i) ||
+                isLoopVariable(node, i) ||
+                byRefArguments.has(token.offset) ||
+                previous?.toLowerCase() === 'redim' ||
+                previous?.toLowerCase() === 'preserve';
+            list.push({ variable, token, write });
+        });
+        if (list.length > 0) accesses.set(node, list);
+    }
+
+    const writes = (node: FlowNode) =>
+        (accesses.get(node) ?? []).filter((a) => a.write).map((a) => a.variable);
+    const assigned = solveAssignments(graph, variables.length, writes);
+    const reported = new Set<number>();
+    const reads: Token[] = [];
+    for (const node of graph.nodes) {
+        const state = assigned.get(node);
+        if (!state) continue;
+        const current = new Set(state);
+        for (const access of accesses.get(node) ?? []) {
+            if (access.write) {
+                current.add(access.variable);
+            } else if (!current.has(access.variable) && !reported.has(access.variable)) {
+                reported.add(access.variable);
+                reads.push(access.token);
+            }
+        }
+    }
+    return reads.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Computes which variables are definitely assigned at the start of each reachable node.
+ * @param graph The control-flow graph.
+ * @param count The number of variables.
+ * @param writes Gets the variables assigned by a node.
+ * @returns The assigned variables at the start of each reachable node.
+ */
+function solveAssignments(
+    graph: ControlFlowGraph,
+    count: number,
+    writes: (node: FlowNode) => number[]
+): Map<FlowNode, Set<number>> {
+    const reachable = getReachableNodes(graph);
+    const all = Array.from({ length: count }, (_, i) => i);
+    const output = new Map<FlowNode, Set<number>>();
+    const input = new Map<FlowNode, Set<number>>();
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const node of graph.nodes) {
+            if (!reachable.has(node)) continue;
+            let state: Set<number>;
+            if (node === graph.entry) {
+                state = new Set();
+            } else {
+                // Variables assigned on every path; nodes not computed yet assign everything
+                state = new Set(all);
+                for (const predecessor of node.predecessors) {
+                    if (!reachable.has(predecessor)) continue;
+                    const previous = output.get(predecessor);
+                    if (!previous) continue;
+                    for (const variable of state) {
+                        if (!previous.has(variable)) state.delete(variable);
+                    }
+                }
+            }
+            input.set(node, state);
+            const result = new Set([...state, ...writes(node)]);
+            const old = output.get(node);
+            if (!old || old.size !== result.size) {
+                output.set(node, result);
+                changed = true;
+            }
+        }
+    }
+    return input;
+}
+
+/**
+ * Finds the tracked variable a name refers to: the one declared in the innermost block
+ * containing the statement.
+ * @param variables The tracked variables.
+ * @param name The lower-cased name.
+ * @param statement The statement using the name.
+ * @returns The index of the variable, or -1.
+ */
+function findVariable(
+    variables: { name: string; scope?: BlockSyntax }[],
+    name: string,
+    statement: StatementSyntax
+): number {
+    for (let block = statement.parent; block; block = block.parent) {
+        const index = variables.findIndex((v) => v.name === name && v.scope === block);
+        if (index !== -1) return index;
+    }
+    return -1;
+}
+
+/**
+ * Checks whether a token is a name declared by its statement (`x` in `Dim x As String`).
+ * @param statement The statement.
+ * @param token The token.
+ * @returns True for declarator names.
+ */
+function isDeclaredName(statement: StatementSyntax, token: Token): boolean {
+    return (statement.declarators ?? []).some(
+        (d) =>
+            d.name.range.start.line === token.line &&
+            d.name.range.start.character === tokenRange(token).start.character
+    );
+}
+
+/**
+ * Checks whether the token at an index is the target of an assignment (`x = value`).
+ * @param tokens The tokens of the statement.
+ * @param index The index of the token.
+ * @returns True if the statement starts with the token followed by `=`.
+ */
+function isAssignment(tokens: Token[], index: number): boolean {
+    return index === 0 && tokens[1]?.text === '=';
+}
+
+/**
+ * Checks whether the token at an index is the variable of a `For` or `For Each` loop.
+ * @param node The node.
+ * @param index The index of the token.
+ * @returns True for the loop variable.
+ */
+function isLoopVariable(node: FlowNode, index: number): boolean {
+    if (node.statement.kind !== StatementKind.For) return false;
+    return index === (node.tokens[1]?.value === 'each' ? 2 : 1);
+}
+
+/**
+ * Checks whether a `Case` or `Else` statement starts the branch taken when nothing else matches.
+ * @param statement The `Case`, `ElseIf` or `Else` statement.
+ * @returns True for `Else` and `Case Else`.
+ */
+function isElseBranch(statement: StatementSyntax): boolean {
+    if (statement.kind === StatementKind.Else) return true;
+    return statement.kind === StatementKind.Case && statement.tokens[1]?.value === 'else';
+}
+
+/**
+ * Checks whether a `Do` or `Loop` statement has a `While` or `Until` condition.
+ * @param statement The statement.
+ * @returns True if a condition follows the keyword.
+ */
+function hasLoopCondition(statement: StatementSyntax): boolean {
+    const keyword = statement.tokens[1]?.value;
+    return keyword === 'while' || keyword === 'until';
+}
+
+/**
+ * Checks whether a loop statement has a condition that never ends the loop, e.g. `While True`
+ * or `Do Until False`.
+ * @param statement The `While`, `Do` or `Loop` statement.
+ * @returns True for constant conditions.
+ */
+function isConstantCondition(statement: StatementSyntax): boolean {
+    const tokens = statement.tokens;
+    const offset = statement.kind === StatementKind.While ? 0 : 1;
+    const keyword = tokens[offset]?.value;
+    if (tokens.length !== offset + 2) return false;
+    const value = tokens[offset + 1].value;
+    return (keyword === 'while' && value === 'true') || (keyword === 'until' && value === 'false');
+}
+
+/**
+ * Lists the statements of a body in source order, including those opening and closing blocks.
+ * @param members The members of the body.
+ * @returns The statements.
+ */
+export function getStatements(members: SyntaxNode[]): StatementSyntax[] {
+    const statements: StatementSyntax[] = [];
+    for (const member of members) {
+        if (member.nodeType === 'statement') {
+            statements.push(member);
+            continue;
+        }
+        if (member.begin) statements.push(member.begin);
+        statements.push(...getStatements(member.members));
+        if (member.end) statements.push(member.end);
+    }
+    return statements;
+}
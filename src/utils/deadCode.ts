@@ -0,0 +1,475 @@
+import { Range } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { BUILTINS, COMMON_IMPORTS } from '../builtins';
+import { getDocumentModel } from './documentModel';
+import { Token, TokenKind, tokenRange } from './lexer';
+import { findGlobalSymbol, findSymbolAtPosition, parseDocumentSymbols } from './parser';
+import { getProjectForDocument } from './project';
+import { UnusedParameterScope } from './settings';
+import { findTypeSymbol } from './typeInference';
+import {
+    BlockKind,
+    BlockSyntax,
+    NameSyntax,
+    ParameterSyntax,
+    StatementKind,
+    StatementSyntax,
+    SyntaxNode,
+    joinTokens
+} from './syntaxTree';
+
+/**
+ * A `Private` member that is not used in its type.
+ */
+export interface UnusedMember {
+    name: NameSyntax;
+    /** `method`, `property`, `field` or `constant`. */
+    kind: string;
+    statement: StatementSyntax;
+    /** The whole declaration: the block of a method or property, or the field statement. */
+    range: Range;
+}
+
+/**
+ * A parameter that is not used in the body of its procedure.
+ */
+export interface UnusedParameter {
+    parameter: ParameterSyntax;
+    /** The Sub, Function, Operator or Property statement. */
+    statement: StatementSyntax;
+}
+
+/**
+ * One namespace (or alias) of an `Imports` statement, e.g. `IO = System.IO`.
+ */
+export interface ImportClause {
+    /** The alias of `Imports Alias = Namespace`. */
+    alias?: string;
+    /** The imported namespace or type as written. */
+    namespace: string;
+    /** The tokens of the clause (without the separating comma). */
+    tokens: Token[];
+    range: Range;
+}
+
+/** Types with members, whose `Private` members are checked. */
+const MEMBER_CONTAINERS = new Set<BlockKind>([
+    BlockKind.Class,
+    BlockKind.Structure,
+    BlockKind.Module
+]);
+
+/** Blocks declaring a type, by which a namespace makes its types available. */
+const TYPE_BLOCKS = new Set<BlockKind>([
+    BlockKind.Class,
+    BlockKind.Structure,
+    BlockKind.Interface,
+    BlockKind.Enum,
+    BlockKind.Module
+]);
+
+/** Members that implement, override or handle something, whose signature is given. */
+const FIXED_SIGNATURE_MODIFIERS = new Set(['overrides', 'overridable', 'mustoverride', 'partial']);
+
+/** Modifiers of members that are not visible outside their project or type. */
+const NON_PUBLIC_MODIFIERS = new Set(['private', 'friend', 'protected']);
+
+/**
+ * Types of the `System` namespace (imported by every project) used with their members, e.g.
+ * `Console.WriteLine`, which do not need an `Imports` statement.
+ */
+const SYSTEM_TYPES = new Set([
+    'system',
+    'microsoft',
+    'my',
+    'console',
+    'math',
+    'convert',
+    'environment',
+    'datetime',
+    'timespan',
+    'guid',
+    'array',
+    'enum',
+    'gc',
+    'activator',
+    'type',
+    'nullable',
+    'tuple',
+    'random',
+    'int16',
+    'int32',
+    'int64',
+    'uint16',
+    'uint32',
+    'uint64',
+    'double',
+    'single',
+    'decimal',
+    'boolean',
+    'byte',
+    'char',
+    'string',
+    'object'
+]);
+
+/** Keywords after which a name is a type. */
+const TYPE_KEYWORDS = new Set(['as', 'new', 'of', 'inherits', 'implements', 'gettype']);
+
+/**
+ * Finds the `Private` Subs, Functions, properties, fields and constants that are not used in
+ * their type. Constructors, members with `Handles` or `Implements` clauses, partial methods,
+ * `Main` and the members of `Partial` types (which may be used in other files) are skipped.
+ * @param document The text document.
+ * @returns The unused members.
+ */
+export function findUnusedPrivateMembers(document: TextDocument): UnusedMember[] {
+    const model = getDocumentModel(document);
+    const identifiers = getIdentifiers(model.tokens);
+    const unused: UnusedMember[] = [];
+    for (const type of findBlocks(model.tree.root, MEMBER_CONTAINERS)) {
+        if (type.begin?.modifiers.some((m) => m.value === 'partial')) continue;
+        const start = document.offsetAt(type.range.start);
+        const end = document.offsetAt(type.range.end);
+        for (const member of type.members) {
+            const statement = member.nodeType === 'block' ? member.begin : member;
+            if (!statement || !statement.modifiers.some((m) => m.value === 'private')) continue;
+            if (statement.modifiers.some((m) => FIXED_SIGNATURE_MODIFIERS.has(m.value))) continue;
+            if (hasKeyword(statement, 'handles') || hasKeyword(statement, 'implements')) continue;
+
+            const names: { name: NameSyntax; kind: string }[] = [];
+            switch (statement.kind) {
+                case StatementKind.Sub:
+                case StatementKind.Function:
+                    if (
+                        statement.name &&
+                        !['new', 'main'].includes(statement.name.text.toLowerCase())
+                    ) {
+                        names.push({ name: statement.name, kind: 'method' });
+                    }
+                    break;
+                case StatementKind.Property:
+                    if (statement.name) names.push({ name: statement.name, kind: 'property' });
+                    break;
+                case StatementKind.Variable:
+                case StatementKind.Const:
+                    for (const declarator of statement.declarators ?? []) {
+                        const kind = statement.kind === StatementKind.Const ? 'constant' : 'field';
+                        names.push({ name: declarator.name, kind });
+                    }
+                    break;
+            }
+            for (const { name, kind } of names) {
+                const declaration = document.offsetAt(name.range.start);
+                const used = identifiers.some(
+                    (t) =>
+                        t.offset >= start &&
+                        t.offset < end &&
+                        t.offset !== declaration &&
+                        t.value === name.text.toLowerCase()
+                );
+                if (!used) unused.push({ name, kind, statement, range: member.range });
+            }
+        }
+    }
+    return unused;
+}
+
+/**
+ * Finds the parameters of Subs, Functions, operators and properties that are not used in the
+ * body. Procedures whose signature is given by something else (`Handles`, `Implements`,
+ * `Overrides`, `Overridable`, event handlers taking `EventArgs`) and procedures without
+ * statements or that only throw are skipped.
+ * @param document The text document.
+ * @param scope Whether all procedures are checked or only the non-public ones.
+ * @returns The unused parameters.
+ */
+export function findUnusedParameters(
+    document: TextDocument,
+    scope: UnusedParameterScope = 'all'
+): UnusedParameter[] {
+    const model = getDocumentModel(document);
+    const identifiers = getIdentifiers(model.tokens);
+    const procedures = findBlocks(
+        model.tree.root,
+        new Set([BlockKind.Sub, BlockKind.Function, BlockKind.Operator, BlockKind.Property])
+    );
+    const unused: UnusedParameter[] = [];
+    for (const procedure of procedures) {
+        const statement = procedure.begin as StatementSyntax;
+        const parameters = statement.parameters ?? [];
+        if (parameters.length === 0 || isStub(procedure)) continue;
+        if (statement.modifiers.some((m) => FIXED_SIGNATURE_MODIFIERS.has(m.value))) continue;
+        if (hasKeyword(statement, 'handles') || hasKeyword(statement, 'implements')) continue;
+        if (/EventArgs$/i.test(parameters[parameters.length - 1].type?.text ?? '')) continue;
+        if (
+            scope === 'nonPublic' &&
+            !statement.modifiers.some((m) => NON_PUBLIC_MODIFIERS.has(m.value))
+        ) {
+            continue;
+        }
+
+        const start = document.offsetAt(statement.range.end);
+        const end = document.offsetAt(procedure.range.end);
+        for (const parameter of parameters) {
+            const name = parameter.name.text.toLowerCase();
+            // `name:=` names a parameter of the called procedure
+            const used = identifiers.some(
+                (t) =>
+                    t.offset >= start &&
+                    t.offset < end &&
+                    t.value === name &&
+                    model.tokens[model.tokens.indexOf(t) + 1]?.text !== ':='
+            );
+            if (!used) unused.push({ parameter, statement });
+        }
+    }
+    return unused;
+}
+
+/**
+ * Finds the namespaces of `Imports` statements whose types are not used in the file. Only
+ * namespaces whose types are known are checked: those declared in the workspace, and the
+ * framework namespaces of `COMMON_IMPORTS` if every type the file uses is known. Aliases are
+ * unused if the file does not mention them.
+ * @param document The text document.
+ * @param allDocuments All documents of the project.
+ * @returns The clauses of the unused imports.
+ */
+export function findUnusedImports(
+    document: TextDocument,
+    allDocuments: TextDocument[] = [document]
+): ImportClause[] {
+    const model = getDocumentModel(document);
+    const imports = model.tree.statements.filter((s) => s.kind === StatementKind.Imports);
+    if (imports.length === 0) return [];
+
+    // The names used outside the Imports statements, not qualified by another name
+    const importEnd = Math.max(...imports.map((s) => document.offsetAt(s.range.end)));
+    const used = new Set(
+        getIdentifiers(model.tokens)
+            .filter((t) => t.offset > importEnd)
+            .map((t) => t.value)
+    );
+    const namespaces = getWorkspaceNamespaces(document, allDocuments);
+    let externalTypesKnown: boolean | undefined;
+
+    const unused: ImportClause[] = [];
+    for (const statement of imports) {
+        for (const clause of getImportClauses(statement)) {
+            if (clause.alias) {
+                if (!used.has(clause.alias.toLowerCase())) unused.push(clause);
+                continue;
+            }
+            const namespace = clause.namespace.toLowerCase();
+            const declared = namespaces.get(namespace);
+            if (declared) {
+                if (![...declared].some((name) => used.has(name))) unused.push(clause);
+                continue;
+            }
+            const common = Object.keys(COMMON_IMPORTS).filter(
+                (type) => COMMON_IMPORTS[type].toLowerCase() === namespace
+            );
+            if (common.length === 0) continue;
+            externalTypesKnown ??= !hasUnknownTypes(document, allDocuments);
+            if (externalTypesKnown && !common.some((type) => used.has(type.toLowerCase()))) {
+                unused.push(clause);
+            }
+        }
+    }
+    return unused;
+}
+
+/**
+ * Splits an `Imports` statement into its clauses. XML namespace imports are left out.
+ * @param statement The `Imports` statement.
+ * @returns The clauses, in source order.
+ */
+export function getImportClauses(statement: StatementSyntax): ImportClause[] {
+    const clauses: ImportClause[] = [];
+    let current: Token[] = [];
+    let depth = 0;
+    const push = () => {
+        if (current.length === 0 || current[0].text === '<') return;
+        const alias = current[1]?.text === '=' ? current[0].text : undefined;
+        const namespace = joinTokens(alias ? current.slice(2) : current);
+        const range = Range.create(
+            tokenRange(current[0]).start,
+            tokenRange(current[current.length - 1]).end
+        );
+        clauses.push({ alias, namespace, tokens: current, range });
+    };
+    for (const token of statement.tokens.slice(1)) {
+        if (token.text === '(') depth++;
+        if (token.text === ')') depth--;
+        if (token.text === ',' && depth === 0) {
+            push();
+            current = [];
+        } else {
+            current.push(token);
+        }
+    }
+    push();
+    return clauses;
+}
+
+/**
+ * Collects the names each namespace declared in the workspace makes available: its types, the
+ * members of its modules and its nested namespaces. Namespaces are keyed by their lower-cased
+ * full name, with and without the root namespace of their project.
+ * @param document The document whose imports are checked.
+ * @param allDocuments All documents of the project.
+ * @returns The lower-cased names, by namespace.
+ */
+function getWorkspaceNamespaces(
+    document: TextDocument,
+    allDocuments: TextDocument[]
+): Map<string, Set<string>> {
+    const namespaces = new Map<string, Set<string>>();
+    const add = (namespace: string, name: string) => {
+        const key = namespace.toLowerCase();
+        if (!namespaces.has(key)) namespaces.set(key, new Set());
+        namespaces.get(key)?.add(name.toLowerCase());
+    };
+    const documents = allDocuments.includes(document) ? allDocuments : [document, ...allDocuments];
+    for (const other of documents) {
+        const root = getProjectForDocument(other.uri)?.rootNamespace;
+        const visit = (block: BlockSyntax, prefixes: string[]) => {
+            for (const member of block.members) {
+                if (member.nodeType !== 'block' || !member.begin?.name) continue;
+                const name = member.begin.name.text;
+                if (member.kind === BlockKind.Namespace) {
+                    // `Namespace A.B` declares `B` in `A`
+                    const parts = name.split('.');
+                    let current = prefixes;
+                    for (const part of parts) {
+                        for (const prefix of current) {
+                            if (prefix) add(prefix, part);
+                        }
+                        current = current.map((prefix) => (prefix ? `${prefix}.${part}` : part));
+                    }
+                    visit(member, current);
+                } else if (TYPE_BLOCKS.has(member.kind)) {
+                    for (const prefix of prefixes) {
+                        if (!prefix) continue;
+                        add(prefix, name);
+                        if (member.kind === BlockKind.Module) {
+                            for (const moduleMember of getMemberNames(member)) {
+                                add(prefix, moduleMember);
+                            }
+                        }
+                    }
+                }
+            }
+        };
+        visit(getDocumentModel(other).tree.root, root ? ['', root] : ['']);
+    }
+    return namespaces;
+}
+
+/**
+ * Gets the names of the members declared in a block (procedures, properties, fields, ...).
+ * @param block The type block.
+ * @returns The names.
+ */
+function getMemberNames(block: BlockSyntax): string[] {
+    const names: string[] = [];
+    for (const member of block.members) {
+        const statement = member.nodeType === 'block' ? member.begin : member;
+        if (statement?.name) names.push(statement.name.text);
+        for (const declarator of statement?.declarators ?? []) names.push(declarator.name.text);
+    }
+    return names;
+}
+
+/**
+ * Checks whether the file uses a type that is neither built in nor declared in the workspace
+ * nor a known framework type, which an `Imports` statement might make available.
+ * @param document The text document.
+ * @param allDocuments All documents of the project.
+ * @returns True if a type name cannot be resolved.
+ */
+function hasUnknownTypes(document: TextDocument, allDocuments: TextDocument[]): boolean {
+    const model = getDocumentModel(document);
+    const symbols = parseDocumentSymbols(document);
+    const known = new Set(Object.keys(COMMON_IMPORTS).map((type) => type.toLowerCase()));
+    return model.tree.statements.some((statement) => {
+        if (statement.kind === StatementKind.Imports) return false;
+        return statement.tokens.some((token, i) => {
+            const previous = statement.tokens[i - 1];
+            if (token.kind !== TokenKind.Identifier || ['.', '?.', '!'].includes(previous?.text)) {
+                return false;
+            }
+            const next = statement.tokens[i + 1];
+            const isType =
+                TYPE_KEYWORDS.has(previous?.value ?? '') ||
+                (previous?.text === '(' && statement.tokens[i - 2]?.value === 'gettype');
+            if (!isType && next?.text !== '.') return false;
+            const name = token.value;
+            if (known.has(name) || SYSTEM_TYPES.has(name) || BUILTINS[name]) return false;
+            if (/(?:exception|eventargs|attribute)$/.test(name)) return false;
+            const position = tokenRange(token).start;
+            if (isType) return !findTypeSymbol(token.text, document, position, allDocuments);
+            if (findSymbolAtPosition(symbols, token.text, position)) return false;
+            return !allDocuments.some((other) =>
+                findGlobalSymbol(parseDocumentSymbols(other), token.text)
+            );
+        });
+    });
+}
+
+/**
+ * Finds the blocks of the given kinds, at any depth (not inside each other's bodies).
+ * @param block The block to search.
+ * @param kinds The kinds to find.
+ * @returns The blocks, in source order.
+ */
+function findBlocks(block: BlockSyntax, kinds: Set<BlockKind>): BlockSyntax[] {
+    const found: BlockSyntax[] = [];
+    const visit = (members: SyntaxNode[]) => {
+        for (const member of members) {
+            if (member.nodeType !== 'block') continue;
+            if (kinds.has(member.kind) && member.begin) found.push(member);
+            visit(member.members);
+        }
+    };
+    visit(block.members);
+    return found;
+}
+
+/**
+ * Checks whether a procedure has no statements or only throws (e.g. a stub throwing
+ * `NotImplementedException`).
+ * @param procedure The procedure block.
+ * @returns True for stubs.
+ */
+function isStub(procedure: BlockSyntax): boolean {
+    const members = procedure.members;
+    if (members.length === 0) return true;
+    return (
+        members.length === 1 &&
+        members[0].nodeType === 'statement' &&
+        members[0].kind === StatementKind.Throw
+    );
+}
+
+/**
+ * Checks whether a statement contains a keyword.
+ * @param statement The statement.
+ * @param keyword The lower-cased keyword.
+ * @returns True if the keyword occurs.
+ */
+function hasKeyword(statement: StatementSyntax, keyword: string): boolean {
+    return statement.tokens.some((t) => t.kind === TokenKind.Keyword && t.value === keyword);
+}
+
+/**
+ * Gets the identifiers of a document that are not member names (after `.`, `?.` or `!`).
+ * @param tokens The tokens of the document.
+ * @returns The identifier tokens.
+ */
+function getIdentifiers(tokens: Token[]): Token[] {
+    return tokens.filter(
+        (t, i) => t.kind === TokenKind.Identifier && !['.', '?.', '!'].includes(tokens[i - 1]?.text)
+    );
+}
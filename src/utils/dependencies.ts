@@ -0,0 +1,146 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DocumentSymbol, SymbolKind } from 'vscode-languageserver/node';
+import { DocumentModel, getDocumentModel } from './documentModel';
+import { TokenKind } from './lexer';
+import { Logger } from './logger';
+import { parseDocumentSymbols } from './parser';
+
+/**
+ * What one version of a document declares for, and uses from, other documents.
+ */
+export interface DocumentDependencies {
+    /** The lowercase names of the types and members other documents can refer to. */
+    declared: Set<string>;
+    /** The lowercase names the document refers to (interfaces, types, globals, ...). */
+    consumed: Set<string>;
+    /**
+     * The declarations visible to other documents (names, kinds and details, without
+     * positions and without the locals of methods). Edits that keep it the same do not affect
+     * other documents.
+     */
+    signature: string;
+}
+
+/** Symbols whose children are visible to other documents (see `findGlobalSymbol`). */
+const CONTAINER_KINDS = new Set<SymbolKind>([
+    SymbolKind.Class,
+    SymbolKind.Module,
+    SymbolKind.Namespace,
+    SymbolKind.Package,
+    SymbolKind.Struct,
+    SymbolKind.Interface,
+    SymbolKind.Enum
+]);
+
+const cache = new WeakMap<DocumentModel, DocumentDependencies>();
+
+/**
+ * Gets the dependencies of a document, cached with its document model.
+ * @param document The text document.
+ * @returns The declared and consumed names of the document.
+ */
+export function getDocumentDependencies(document: TextDocument): DocumentDependencies {
+    const model = getDocumentModel(document);
+    let dependencies = cache.get(model);
+    if (!dependencies) {
+        const declared = new Set<string>();
+        const signature = describeDeclarations(parseDocumentSymbols(document), declared);
+        const consumed = new Set<string>();
+        for (const token of model.tokens) {
+            if (token.kind === TokenKind.Identifier) consumed.add(token.text.toLowerCase());
+        }
+        dependencies = { declared, consumed, signature };
+        cache.set(model, dependencies);
+    }
+    return dependencies;
+}
+
+/**
+ * Describes the declarations of a document that other documents can see.
+ * @param symbols The symbols to describe.
+ * @param declared Receives the lowercase names of the symbols.
+ * @returns The signature of the symbols.
+ */
+function describeDeclarations(symbols: DocumentSymbol[], declared: Set<string>): string {
+    return symbols
+        .map((symbol) => {
+            declared.add(symbol.name.toLowerCase());
+            const children =
+                symbol.children && CONTAINER_KINDS.has(symbol.kind)
+                    ? describeDeclarations(symbol.children, declared)
+                    : '';
+            return `${symbol.kind}:${symbol.name}:${symbol.detail ?? ''}{${children}}`;
+        })
+        .join(';');
+}
+
+/**
+ * Tracks which documents depend on the declarations of which other documents, so that a
+ * change to a document can revalidate the documents whose cross-file diagnostics (interface
+ * members, unknown types, duplicate declarations) it affects.
+ *
+ * A document depends on another one if it refers to a name the other one declares. The graph
+ * remembers the last recorded version of each document, so that declarations removed by a
+ * change still reach the documents that used them.
+ */
+export class DependencyGraph {
+    private recorded: Map<string, DocumentDependencies> = new Map();
+
+    /**
+     * Records the current version of a document and finds the documents affected by the change
+     * since the last recorded version.
+     * @param document The changed document.
+     * @param allDocuments All documents of the workspace.
+     * @returns The URIs of the affected documents; empty if the declarations did not change.
+     */
+    public update(document: TextDocument, allDocuments: TextDocument[]): string[] {
+        const previous = this.recorded.get(document.uri);
+        const current = getDocumentDependencies(document);
+        this.recorded.set(document.uri, current);
+        if (previous?.signature === current.signature) return [];
+
+        const names = new Set([...(previous?.declared ?? []), ...current.declared]);
+        return this.findDependents(document.uri, names, allDocuments);
+    }
+
+    /**
+     * Forgets a document (e.g. after its file was deleted) and finds the documents that used its
+     * declarations.
+     * @param uri The URI of the removed document.
+     * @param allDocuments All remaining documents of the workspace.
+     * @returns The URIs of the affected documents.
+     */
+    public remove(uri: string, allDocuments: TextDocument[]): string[] {
+        const previous = this.recorded.get(uri);
+        this.recorded.delete(uri);
+        return previous ? this.findDependents(uri, previous.declared, allDocuments) : [];
+    }
+
+    /**
+     * Finds the documents that refer to any of the given names.
+     * @param uri The URI of the document declaring the names.
+     * @param names The lowercase names.
+     * @param allDocuments All documents of the workspace.
+     * @returns The URIs of the dependent documents.
+     */
+    private findDependents(
+        uri: string,
+        names: Set<string>,
+        allDocuments: TextDocument[]
+    ): string[] {
+        if (names.size === 0) return [];
+        const dependents: string[] = [];
+        for (const document of allDocuments) {
+            if (document.uri === uri) continue;
+            const consumed = getDocumentDependencies(document).consumed;
+            for (const name of names) {
+                if (consumed.has(name)) {
+                    dependents.push(document.uri);
+                    break;
+                }
+            }
+        }
+        Logger.debug(`Dependencies: ${dependents.length} documents depend on ${uri}`);
+        return dependents;
+    }
+}
@@ -0,0 +1,98 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+    Diagnostic,
+    DocumentDiagnosticReportKind,
+    FullDocumentDiagnosticReport,
+    UnchangedDocumentDiagnosticReport
+} from 'vscode-languageserver/node';
+import { Logger } from './logger';
+
+/**
+ * The last diagnostics computed for a document.
+ */
+interface CachedResult {
+    resultId: string;
+    /** The document version and cache generation the diagnostics were computed for. */
+    state: string;
+    diagnostics: Diagnostic[];
+}
+
+/**
+ * Caches the diagnostics reported through the pull model (`textDocument/diagnostic` and
+ * `workspace/diagnostic`), so that unchanged documents are answered with an `unchanged` report
+ * instead of the full list.
+ *
+ * A cached result is reused without validating again as long as the document version and the
+ * cache generation are the same. Since diagnostics depend on other documents and on the
+ * settings, changes call `invalidate`: with the documents that depend on the changed
+ * declarations, or without arguments after changes with unknown effects (settings, project
+ * files). A document whose diagnostics come out identical after validating again keeps its
+ * result ID.
+ */
+export class DiagnosticCache {
+    private results: Map<string, CachedResult> = new Map();
+    private generation = 0;
+    private nextResultId = 1;
+    // Result IDs of an earlier server process must not match the IDs of this one
+    private readonly session = Date.now().toString(36);
+
+    /**
+     * Marks cached results as outdated.
+     * @param uris The documents whose results are outdated; all documents if undefined.
+     */
+    public invalidate(uris?: string[]): void {
+        if (!uris) {
+            this.generation++;
+            return;
+        }
+        for (const uri of uris) {
+            const cached = this.results.get(uri);
+            if (cached) cached.state = '';
+        }
+    }
+
+    /**
+     * Forgets the result of a document (e.g. after the file was deleted).
+     * @param uri The URI of the document.
+     */
+    public remove(uri: string): void {
+        this.results.delete(uri);
+    }
+
+    /**
+     * Gets the diagnostic report of a document, validating it only if the cached result is
+     * outdated.
+     * @param document The document.
+     * @param previousResultId The result ID the client already has, if any.
+     * @param validate Computes the diagnostics of the document.
+     * @returns An `unchanged` report if the client's result is still current, a `full` report
+     *          otherwise.
+     */
+    public getReport(
+        document: TextDocument,
+        previousResultId: string | undefined,
+        validate: () => Diagnostic[]
+    ): FullDocumentDiagnosticReport | UnchangedDocumentDiagnosticReport {
+        const state = `${this.generation}:${document.version}`;
+        let cached = this.results.get(document.uri);
+        if (cached?.state !== state) {
+            const diagnostics = validate();
+            if (cached && JSON.stringify(cached.diagnostics) === JSON.stringify(diagnostics)) {
+                cached.state = state;
+            } else {
+                cached = { resultId: `${this.session}-${this.nextResultId++}`, state, diagnostics };
+                this.results.set(document.uri, cached);
+            }
+        }
+
+        if (previousResultId === cached.resultId) {
+            Logger.debug(`DiagnosticCache: ${document.uri} unchanged (${cached.resultId})`);
+            return { kind: DocumentDiagnosticReportKind.Unchanged, resultId: cached.resultId };
+        }
+        return {
+            kind: DocumentDiagnosticReportKind.Full,
+            resultId: cached.resultId,
+            items: cached.diagnostics
+        };
+    }
+}
@@ -0,0 +1,179 @@
+import { TextDocument, TextDocumentContentChangeEvent } from 'vscode-languageserver-textdocument';
+import { DocumentSymbol } from 'vscode-languageserver/node';
+import { Logger } from './logger';
+import { Token, tokenize, retokenize } from './lexer';
+import {
+    DeclarationIndex,
+    LineEdit,
+    SyntaxTree,
+    indexDeclarations,
+    parseSyntaxTree,
+    reparseSyntaxTree
+} from './syntaxTree';
+
+/**
+ * The parsed state of one version of a document.
+ * Tokens are kept up to date incrementally. The syntax tree is built on first use; after an edit,
+ * only the statements around the edited lines are parsed again and the others are taken from the
+ * tree of the previous version. The tree, its declaration index and the symbols are shared by all
+ * handlers until the next change. Consumers must not modify them.
+ */
+export class DocumentModel {
+    public readonly uri: string;
+    public readonly version: number;
+    public readonly text: string;
+    public readonly tokens: Token[];
+    /** Document symbols derived from the tree (filled in by `parseDocumentSymbols`). */
+    public symbols?: DocumentSymbol[];
+    private syntaxTree?: SyntaxTree;
+    private declarationIndex?: DeclarationIndex;
+    /** The latest parsed tree of a previous version and the lines edited since then. */
+    private base?: { tree: SyntaxTree; edit: LineEdit };
+
+    /**
+     * @param uri The document URI.
+     * @param version The document version.
+     * @param text The document text.
+     * @param tokens The tokens of the text.
+     * @param previous The model of the previous version and the lines edited since then, if the
+     * syntax tree can be reparsed from its tree.
+     */
+    constructor(
+        uri: string,
+        version: number,
+        text: string,
+        tokens: Token[] = tokenize(text),
+        previous?: { model: DocumentModel; edit: LineEdit }
+    ) {
+        this.uri = uri;
+        this.version = version;
+        this.text = text;
+        this.tokens = tokens;
+        if (previous?.model.syntaxTree) {
+            this.base = { tree: previous.model.syntaxTree, edit: previous.edit };
+        } else if (previous?.model.base) {
+            const { tree, edit } = previous.model.base;
+            this.base = { tree, edit: combineEdits(edit, previous.edit) };
+        }
+    }
+
+    /** The syntax tree of the document, parsed (or reparsed after an edit) on first access. */
+    public get tree(): SyntaxTree {
+        if (!this.syntaxTree && this.base) {
+            Logger.debug(`DocumentModel: Reparsing ${this.uri} (version ${this.version})`);
+            const { tree, edit } = this.base;
+            this.syntaxTree = reparseSyntaxTree(tree, this.text, this.tokens, edit);
+            this.base = undefined;
+        } else if (!this.syntaxTree) {
+            Logger.debug(`DocumentModel: Parsing ${this.uri} (version ${this.version})`);
+            this.syntaxTree = parseSyntaxTree(this.text, this.tokens);
+        }
+        return this.syntaxTree;
+    }
+
+    /** The declared names and `Option` statements of the syntax tree, indexed on first access. */
+    public get declarations(): DeclarationIndex {
+        if (!this.declarationIndex) this.declarationIndex = indexDeclarations(this.tree);
+        return this.declarationIndex;
+    }
+}
+
+const models: Map<string, DocumentModel> = new Map();
+
+/**
+ * Gets the model of a document, reusing the cached one if it matches the document's version
+ * and content.
+ * @param document The text document.
+ * @returns The document model.
+ */
+export function getDocumentModel(document: TextDocument): DocumentModel {
+    const text = document.getText();
+    const cached = models.get(document.uri);
+    if (cached && cached.version === document.version && cached.text === text) {
+        return cached;
+    }
+    const model = new DocumentModel(document.uri, document.version, text);
+    models.set(document.uri, model);
+    return model;
+}
+
+/**
+ * Combines two consecutive edits into one edit of the lines changed by either.
+ * @param first The first edit.
+ * @param second The edit of the text after the first edit.
+ * @returns The combined edit.
+ */
+function combineEdits(first: LineEdit, second: LineEdit): LineEdit {
+    const firstDelta = first.newEndLine - first.oldEndLine;
+    const secondDelta = second.newEndLine - second.oldEndLine;
+    return {
+        startLine: Math.min(first.startLine, second.startLine),
+        oldEndLine: Math.max(first.oldEndLine, second.oldEndLine - firstDelta),
+        newEndLine: Math.max(first.newEndLine, second.oldEndLine) + secondDelta
+    };
+}
+
+/**
+ * Applies content changes to a document and updates its model incrementally.
+ * Only the lines touched by each ranged change are tokenized again, and the syntax tree is
+ * reparsed around them. Intended as the `update` function of the server's `TextDocuments`
+ * manager.
+ * @param document The document to update (updated in place).
+ * @param changes The content changes, in the order sent by the client.
+ * @param version The new version of the document.
+ * @returns The updated document.
+ */
+export function updateDocument(
+    document: TextDocument,
+    changes: TextDocumentContentChangeEvent[],
+    version: number
+): TextDocument {
+    const cached = models.get(document.uri);
+    if (!cached || cached.text !== document.getText()) {
+        // No model for the previous content: parse the result from scratch when needed
+        return TextDocument.update(document, changes, version);
+    }
+
+    let tokens = cached.tokens;
+    let edit: LineEdit | undefined; // the lines edited by all changes
+    let reparse = true; // whether the syntax tree can be reparsed from the cached one
+    for (const change of changes) {
+        TextDocument.update(document, [change], version);
+        const text = document.getText();
+        if (!('range' in change)) {
+            tokens = tokenize(text);
+            reparse = false;
+            continue;
+        }
+        const startLine = change.range.start.line;
+        const lineBreaks = change.text.match(/\r\n|\r|\n/g)?.length ?? 0;
+        const changed = {
+            startLine,
+            oldEndLine: change.range.end.line,
+            newEndLine: startLine + lineBreaks
+        };
+        tokens = retokenize(tokens, text, startLine, changed.oldEndLine, changed.newEndLine);
+        if (tokens[tokens.length - 1].line !== document.lineCount - 1) {
+            // e.g. an edit splitting a \r\n pair; fall back to a full pass
+            Logger.debug(`DocumentModel: Re-tokenizing ${document.uri} from scratch.`);
+            tokens = tokenize(text);
+            reparse = false;
+        }
+        edit = edit ? combineEdits(edit, changed) : changed;
+    }
+
+    const previous = reparse && edit ? { model: cached, edit } : undefined;
+    models.set(
+        document.uri,
+        new DocumentModel(document.uri, version, document.getText(), tokens, previous)
+    );
+    return document;
+}
+
+/**
+ * Drops the model of a document (e.g. when it is closed).
+ * @param uri The document URI.
+ */
+export function removeDocumentModel(uri: string): void {
+    models.delete(uri);
+}
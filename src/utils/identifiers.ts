@@ -0,0 +1,442 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { BUILTINS } from '../builtins';
+import { KEYWORDS } from '../keywords';
+import { getDocumentModel } from './documentModel';
+import { Token, TokenKind, tokenRange } from './lexer';
+import { Logger } from './logger';
+import { findGlobalSymbol, findSymbolAtPosition, parseDocumentSymbols } from './parser';
+import { getCompilerOptions } from './project';
+import { BlockKind, BlockSyntax, StatementKind, StatementSyntax } from './syntaxTree';
+import { findInheritedMember, inheritsExternalType } from './typeInference';
+
+/**
+ * A name used in a procedure body without a declaration.
+ */
+export interface UndeclaredIdentifier {
+    token: Token;
+    /** The statement using the name. */
+    statement: StatementSyntax;
+    /** The Sub, Function, Operator or accessor containing the statement. */
+    body: BlockSyntax;
+}
+
+/** Blocks whose statements are executed, as opposed to declarations of types and members. */
+const BODY_BLOCKS = new Set<BlockKind>([
+    BlockKind.Sub,
+    BlockKind.Function,
+    BlockKind.Operator,
+    BlockKind.Accessor
+]);
+
+/** Statements inside bodies that use no names, or only names checked elsewhere. */
+const SKIPPED_STATEMENTS = new Set<StatementKind>([
+    StatementKind.End,
+    StatementKind.Exit,
+    StatementKind.Next,
+    StatementKind.Region,
+    StatementKind.EndRegion,
+    StatementKind.Directive
+]);
+
+/** Keywords followed by a type, a label or another name that is not a variable. */
+const NAME_KEYWORDS = new Set(['as', 'new', 'of', 'goto', 'resume', 'inherits', 'implements']);
+
+/** Conversions whose second argument is a type. */
+const CAST_KEYWORDS = new Set(['ctype', 'directcast', 'trycast']);
+
+/** Contextual keywords that are lexed as identifiers. */
+const CONTEXTUAL_KEYWORDS = new Set(['await', 'yield', 'preserve']);
+
+/** Contextual keywords and aggregate functions of query expressions. */
+const QUERY_KEYWORDS = new Set([
+    'from',
+    'where',
+    'order',
+    'by',
+    'ascending',
+    'descending',
+    'group',
+    'into',
+    'join',
+    'equals',
+    'distinct',
+    'skip',
+    'take',
+    'aggregate',
+    'count',
+    'longcount',
+    'sum',
+    'min',
+    'max',
+    'average',
+    'any',
+    'all'
+]);
+
+/**
+ * A parenthesized list being scanned.
+ */
+interface ParenthesisFrame {
+    /** True if the list contains types (`(Of T)`, `GetType(T)`, the type of `CType(x, T)`). */
+    types: boolean;
+    /** True for the arguments of `CType`, `DirectCast` and `TryCast`. */
+    cast: boolean;
+}
+
+/**
+ * Finds the names used in procedure bodies that are neither declared (as locals, parameters,
+ * members, inherited members or globals of the workspace) nor built-in functions or keywords.
+ * Names that may be types or namespaces of referenced libraries (`Console` in
+ * `Console.WriteLine`) are not reported, nor are the names used in types that inherit a class
+ * declared outside the workspace. Nothing is reported for files with `Option Explicit Off`.
+ * @param document The document.
+ * @param allDocuments All documents of the workspace.
+ * @returns The undeclared names, in document order.
+ */
+export function findUndeclaredIdentifiers(
+    document: TextDocument,
+    allDocuments: TextDocument[] = [document]
+): UndeclaredIdentifier[] {
+    const options = getCompilerOptions(document);
+    if (!options.explicit) return [];
+
+    const model = getDocumentModel(document);
+    const symbols = parseDocumentSymbols(document);
+    const bodies = new Map<BlockSyntax, StatementSyntax[]>();
+    for (const statement of model.tree.statements) {
+        const body = getProcedureBody(statement);
+        if (!body || SKIPPED_STATEMENTS.has(statement.kind)) continue;
+        if (!bodies.has(body)) bodies.set(body, []);
+        bodies.get(body)!.push(statement);
+    }
+    const implicitNames = new Map<BlockSyntax, Set<string>>();
+    for (const [body, statements] of bodies) {
+        implicitNames.set(body, getImplicitNames(body, statements, options.infer));
+    }
+    const external = new Map<BlockSyntax, boolean>();
+    const globals = new Map<string, boolean>();
+
+    const isGlobal = (name: string): boolean => {
+        let found = globals.get(name);
+        if (found === undefined) {
+            found = allDocuments.some(
+                (doc) => findGlobalSymbol(parseDocumentSymbols(doc), name) !== null
+            );
+            globals.set(name, found);
+        }
+        return found;
+    };
+    const isDeclared = (name: string, token: Token, body: BlockSyntax): boolean => {
+        const lowerName = name.toLowerCase();
+        if (implicitNames.get(body)!.has(lowerName)) return true;
+        if (BUILTINS[lowerName] || KEYWORDS[lowerName]) return true;
+        const position = tokenRange(token).start;
+        return (
+            findSymbolAtPosition(symbols, name, position) !== null ||
+            isGlobal(lowerName) ||
+            findInheritedMember(name, document, position, allDocuments) !== null
+        );
+    };
+
+    const undeclared: UndeclaredIdentifier[] = [];
+    for (const [body, statements] of bodies) {
+        for (const statement of statements) {
+            for (const token of getVariableNames(statement, document)) {
+                const name = token.value;
+                // Token values and declared names omit type characters (`s$` is `s`)
+                if (isDeclared(name, token, body)) continue;
+                if (!external.has(body)) {
+                    external.set(
+                        body,
+                        inheritsExternalType(document, body.range.start, allDocuments)
+                    );
+                }
+                if (external.get(body)) continue;
+                undeclared.push({ token, statement, body });
+            }
+        }
+    }
+    Logger.debug(`Identifiers: Found ${undeclared.length} undeclared names in ${document.uri}`);
+    return undeclared;
+}
+
+/**
+ * Finds the innermost Sub, Function, Operator or accessor containing a statement.
+ * @param statement The statement.
+ * @returns The block, or undefined for statements outside bodies (declarations, headers).
+ */
+export function getProcedureBody(statement: StatementSyntax): BlockSyntax | undefined {
+    let block = statement.parent;
+    while (block && !BODY_BLOCKS.has(block.kind)) block = block.parent;
+    return block;
+}
+
+/**
+ * Collects the names a body declares without `Dim`: the parameters of the procedure (and of its
+ * property or event), the implicit `value` of a `Set` accessor, `For` and `For Each` control
+ * variables, `Catch` and `Using` variables, lambda parameters and query range variables.
+ * @param body The body.
+ * @param statements The statements of the body, including those of nested blocks.
+ * @param infer Whether `Option Infer` is on (control variables without `As` are then declared).
+ * @returns The lower-case names.
+ */
+function getImplicitNames(
+    body: BlockSyntax,
+    statements: StatementSyntax[],
+    infer: boolean
+): Set<string> {
+    const names = new Set<string>();
+    for (const owner of [body.begin, body.parent?.begin]) {
+        owner?.parameters?.forEach((p) => names.add(p.name.text.toLowerCase()));
+    }
+    if (body.begin?.keyword?.value === 'set' && !body.begin.parameters?.length) {
+        names.add('value');
+    }
+
+    for (const statement of statements) {
+        const tokens = statement.tokens;
+        const declares = (index: number) => {
+            const token = tokens[index];
+            const next = tokens[index + 1];
+            if (token?.kind !== TokenKind.Identifier) return;
+            if (next?.value === 'as' || (infer && (next?.value === '=' || next?.value === 'in'))) {
+                names.add(token.value);
+            }
+        };
+        if (statement.kind === StatementKind.For) {
+            declares(tokens[1]?.value === 'each' ? 2 : 1);
+        } else if (statement.kind === StatementKind.Catch) {
+            declares(1);
+        } else if (statement.kind === StatementKind.Using) {
+            tokens.forEach((t, i) => {
+                if (i === 0 || (t.text === ',' && getDepth(tokens, i) === 0)) declares(i + 1);
+            });
+        }
+
+        const isQuery = tokens.some((t, i) => isQueryStart(tokens, i));
+        tokens.forEach((token, i) => {
+            const previous = tokens[i - 1];
+            const next = tokens[i + 1];
+            if ((token.value === 'sub' || token.value === 'function') && next?.text === '(') {
+                getLambdaParameters(tokens, i + 1).forEach((p) => names.add(p.value));
+            } else if (isQuery && token.kind === TokenKind.Identifier) {
+                // `From c In`, `From c As Customer In`, `Select total = ...`, `Into g = Group`
+                const isRangeVariable = next?.value === 'in' || next?.value === 'as';
+                const isAlias =
+                    next?.text === '=' &&
+                    (previous?.text === ',' ||
+                        ['select', 'into', 'let', 'by'].includes(previous?.value ?? ''));
+                if (isRangeVariable || isAlias) names.add(token.value);
+            }
+        });
+    }
+    return names;
+}
+
+/**
+ * Gets the parameter names of a lambda expression.
+ * @param tokens The tokens of the statement.
+ * @param open The index of the opening parenthesis of the parameter list.
+ * @returns The name tokens.
+ */
+function getLambdaParameters(tokens: Token[], open: number): Token[] {
+    const parameters: Token[] = [];
+    let depth = 0;
+    let expectName = true;
+    for (let i = open; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.text === '(') depth++;
+        else if (token.text === ')' && --depth === 0) break;
+        else if (depth === 1 && token.text === ',') expectName = true;
+        else if (depth === 1 && expectName && token.kind === TokenKind.Identifier) {
+            parameters.push(token);
+            expectName = false;
+        }
+    }
+    return parameters;
+}
+
+/**
+ * Gets the identifiers of a statement that name variables, members or procedures, leaving out
+ * declared names, types, labels, named arguments and names after a dot.
+ * @param statement The statement.
+ * @param document The document.
+ * @returns The identifier tokens.
+ */
+function getVariableNames(statement: StatementSyntax, document: TextDocument): Token[] {
+    const tokens = statement.tokens;
+    if (statement.kind === StatementKind.Label) return [];
+
+    const declared = new Set(
+        (statement.declarators ?? []).map((d) => document.offsetAt(d.name.range.start))
+    );
+    const isQuery = tokens.some((t, i) => isQueryStart(tokens, i));
+    const xml = findXmlLiteralTokens(tokens);
+    const frames: ParenthesisFrame[] = [{ types: false, cast: false }];
+    let typeOf = false;
+    const names: Token[] = [];
+    tokens.forEach((token, i) => {
+        if (xml.has(i)) return;
+        const previous = tokens[i - 1];
+        const next = tokens[i + 1];
+        const frame = frames[frames.length - 1];
+        if (token.text === '(') {
+            frames.push({
+                types: frame.types || next?.value === 'of' || previous?.value === 'gettype',
+                cast: CAST_KEYWORDS.has(previous?.value ?? '')
+            });
+            return;
+        }
+        if (token.text === ')') {
+            if (frames.length > 1) frames.pop();
+            return;
+        }
+        if (token.text === ',' && frame.cast) frame.types = true;
+        if (token.value === 'typeof') typeOf = true;
+        if (token.kind !== TokenKind.Identifier || frame.types) return;
+
+        const previousValue = previous?.value ?? '';
+        if (['.', '?.', '!'].includes(previousValue) || NAME_KEYWORDS.has(previousValue)) return;
+        // `TypeOf x Is T`
+        if (typeOf && (previousValue === 'is' || previousValue === 'isnot')) return;
+        if (next?.text === ':=' || declared.has(token.offset)) return;
+        if (CONTEXTUAL_KEYWORDS.has(token.value)) return;
+        // `New List(Of Integer) From {1, 2}`
+        if (token.value === 'from' && next?.text === '{') return;
+        if (isQuery && QUERY_KEYWORDS.has(token.value)) return;
+        // Qualifiers may name namespaces and types of referenced libraries (`Console.WriteLine`)
+        if (next?.text === '.' || next?.text === '?.') return;
+        names.push(token);
+    });
+    return names;
+}
+
+/**
+ * Finds the tokens of XML literals (`<root><item>1</item></root>`): element and attribute names,
+ * attribute values and text content, as well as the names of XML axis properties (`doc.<item>`). Embedded expressions (`<%= name %>`) are code and are left
+ * out, except for their delimiters.
+ * @param tokens The tokens of the statement.
+ * @returns The indexes of the tokens.
+ */
+function findXmlLiteralTokens(tokens: Token[]): Set<number> {
+    const xml = new Set<number>();
+    // The number of open elements, and whether a start or end tag is being scanned
+    let depth = 0;
+    let tag: 'start' | 'end' | undefined;
+    let embedded = false;
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (embedded) {
+            const close = tokens[i + 1]?.text;
+            if (token.text === '%' && (close === '>' || close === '>>')) {
+                xml.add(i).add(++i);
+                embedded = false;
+                // `<item id=<%= id %>>` closes the embedded expression and the start tag at once
+                if (close === '>>' && tag === 'start') {
+                    depth++;
+                    tag = undefined;
+                }
+            }
+            continue;
+        }
+        if (depth === 0 && !tag) {
+            const axisEnd = findXmlAxisEnd(tokens, i);
+            if (axisEnd >= 0) {
+                for (let j = i; j <= axisEnd; j++) xml.add(j);
+                i = axisEnd;
+            } else if (isXmlLiteralStart(tokens, i)) {
+                xml.add(i);
+                tag = 'start';
+            }
+            continue;
+        }
+        xml.add(i);
+        if (token.text === '<' && tokens[i + 1]?.text === '%' && tokens[i + 2]?.text === '=') {
+            xml.add(++i).add(++i);
+            embedded = true;
+        } else if (!tag && token.text === '<') {
+            tag = tokens[i + 1]?.text === '/' ? 'end' : 'start';
+        } else if (tag && token.text === '>') {
+            // `<empty/>` opens and closes an element
+            if (tag === 'end') depth--;
+            else if (tokens[i - 1].text !== '/') depth++;
+            tag = undefined;
+        }
+    }
+    return xml;
+}
+
+/**
+ * Finds the name of an XML axis property: the element of `doc.<child>` or `doc...<child>`, or
+ * the attribute of `item.@name` or `item.@<name>`. These names are not variables.
+ * @param tokens The tokens of the statement.
+ * @param index The index of the token after the dot.
+ * @returns The index of the last token of the name, or -1 if the token does not start one.
+ */
+function findXmlAxisEnd(tokens: Token[], index: number): number {
+    if (tokens[index - 1]?.text !== '.') return -1;
+    let start = index;
+    if (tokens[index].text === '@') {
+        if (tokens[index + 1]?.text !== '<') {
+            return tokens[index + 1]?.kind === TokenKind.Identifier ? index + 1 : -1;
+        }
+        start = index + 1;
+    } else if (tokens[index].text !== '<' || tokens[index + 1]?.kind !== TokenKind.Identifier) {
+        return -1;
+    }
+    return tokens.findIndex((t, i) => i > start && t.text === '>');
+}
+
+/**
+ * Checks whether a token starts an XML literal: a `<` directly followed by an element name where
+ * an expression is expected (after an operator, a keyword or an opening parenthesis), as opposed
+ * to a comparison (`a < b`).
+ * @param tokens The tokens of the statement.
+ * @param index The index of the token.
+ * @returns True for the `<` of the root element.
+ */
+function isXmlLiteralStart(tokens: Token[], index: number): boolean {
+    const token = tokens[index];
+    const previous = tokens[index - 1];
+    const name = tokens[index + 1];
+    if (token.text !== '<' || name?.kind !== TokenKind.Identifier) return false;
+    if (name.offset !== token.offset + 1 || !previous) return false;
+    return (
+        previous.kind === TokenKind.Operator ||
+        previous.kind === TokenKind.Keyword ||
+        previous.text === '(' ||
+        previous.text === ','
+    );
+}
+
+/**
+ * Checks whether a token starts a query expression (`From x In`, `Aggregate x In`).
+ * @param tokens The tokens of the statement.
+ * @param index The index of the token.
+ * @returns True for `From` or `Aggregate` followed by a range variable.
+ */
+function isQueryStart(tokens: Token[], index: number): boolean {
+    const value = tokens[index].value;
+    const variable = tokens[index + 1];
+    const next = tokens[index + 2]?.value;
+    return (
+        (value === 'from' || value === 'aggregate') &&
+        variable?.kind === TokenKind.Identifier &&
+        (next === 'in' || next === 'as')
+    );
+}
+
+/**
+ * Gets the parenthesis depth before a token.
+ * @param tokens The tokens of the statement.
+ * @param index The index of the token.
+ * @returns The number of open parentheses.
+ */
+function getDepth(tokens: Token[], index: number): number {
+    let depth = 0;
+    for (let i = 0; i < index; i++) {
+        if (tokens[i].text === '(') depth++;
+        else if (tokens[i].text === ')') depth--;
+    }
+    return depth;
+}
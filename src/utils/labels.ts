@@ -0,0 +1,189 @@
+import { Position, Range } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { findJumpTargets, findProcedureBodies, getStatements } from './controlFlow';
+import { getDocumentModel } from './documentModel';
+import { Token, tokenRange } from './lexer';
+import { BlockKind, BlockSyntax, StatementKind, StatementSyntax } from './syntaxTree';
+
+/**
+ * A jump to a label: the target of `GoTo`, `On Error GoTo` or `Resume`.
+ */
+export interface LabelReference {
+    /** The label name or line number after the keyword. */
+    target: Token;
+    /** The keyword before the target (`GoTo` or `Resume`). */
+    keyword: Token;
+    statement: StatementSyntax;
+}
+
+/**
+ * The labels declared in a procedure and the jumps to them. Labels are visible in the whole
+ * procedure, whatever block they are declared in.
+ */
+export interface ProcedureLabels {
+    body: BlockSyntax;
+    /** The label statements, in source order. */
+    declarations: StatementSyntax[];
+    references: LabelReference[];
+}
+
+/**
+ * The occurrences of one label in its procedure.
+ */
+export interface LabelOccurrences {
+    name: string;
+    declarations: Range[];
+    references: Range[];
+}
+
+/**
+ * A block that cannot be entered by a jump from outside, or one part of a `Try` block.
+ */
+interface ProtectedRegion {
+    block: BlockSyntax;
+    /** The `Catch` or `Finally` statement starting the part, undefined for the `Try` part. */
+    section?: StatementSyntax;
+}
+
+/** Blocks that a `GoTo` outside them may not jump into. */
+const PROTECTED_BLOCKS = new Set<BlockKind>([
+    BlockKind.For,
+    BlockKind.With,
+    BlockKind.Using,
+    BlockKind.SyncLock,
+    BlockKind.Try
+]);
+
+/**
+ * Collects the labels of a procedure and the statements jumping to them.
+ * @param body The Sub, Function, Operator or accessor block.
+ * @returns The label declarations and references.
+ */
+export function getProcedureLabels(body: BlockSyntax): ProcedureLabels {
+    const statements = getStatements(body.members);
+    const references: LabelReference[] = [];
+    for (const statement of statements) {
+        for (const target of findJumpTargets(statement.tokens)) {
+            const keyword = statement.tokens[statement.tokens.indexOf(target) - 1];
+            references.push({ target, keyword, statement });
+        }
+    }
+    return {
+        body,
+        declarations: statements.filter((s) => s.kind === StatementKind.Label),
+        references
+    };
+}
+
+/**
+ * Finds the label at a position (its declaration or a jump to it) and its occurrences in the
+ * procedure.
+ * @param document The text document.
+ * @param position The position.
+ * @returns The occurrences, or undefined if there is no label at the position.
+ */
+export function findLabelOccurrences(
+    document: TextDocument,
+    position: Position
+): LabelOccurrences | undefined {
+    const tree = getDocumentModel(document).tree;
+    const body = findProcedureBodies(tree.root).find((b) => containsPosition(b.range, position));
+    if (!body) return undefined;
+
+    const labels = getProcedureLabels(body);
+    const declaration = labels.declarations.find(
+        (s) => s.name && containsPosition(s.name.range, position)
+    );
+    const reference = labels.references.find((r) =>
+        containsPosition(tokenRange(r.target), position)
+    );
+    const name = declaration?.name?.text ?? reference?.target.text;
+    if (name === undefined) return undefined;
+    const key = getLabelKey(name);
+    return {
+        name,
+        declarations: labels.declarations
+            .filter((s) => s.name && getLabelKey(s.name.text) === key)
+            .map((s) => s.name!.range),
+        references: labels.references
+            .filter((r) => getLabelKey(r.target.text) === key)
+            .map((r) => tokenRange(r.target))
+    };
+}
+
+/**
+ * Finds the block a jump may not enter: the outermost `For`, `With`, `Using`, `SyncLock` or
+ * `Try` part that contains the label but not the jump.
+ * @param label The label statement.
+ * @param jump The statement jumping to the label.
+ * @returns The block (or `Try` part), or undefined if the jump is allowed.
+ */
+export function findEnteredBlock(
+    label: StatementSyntax,
+    jump: StatementSyntax
+): { block: BlockSyntax; section?: StatementSyntax } | undefined {
+    const jumpRegions = getProtectedRegions(jump);
+    return getProtectedRegions(label).find(
+        (region) =>
+            !jumpRegions.some((r) => r.block === region.block && r.section === region.section)
+    );
+}
+
+/**
+ * Gets the name by which labels are matched: case-insensitive, without `[]` escapes.
+ * @param name The label as written.
+ * @returns The key.
+ */
+export function getLabelKey(name: string): string {
+    return name.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+}
+
+/**
+ * Lists the protected blocks containing a statement, outermost first.
+ * @param statement The statement.
+ * @returns The regions.
+ */
+function getProtectedRegions(statement: StatementSyntax): ProtectedRegion[] {
+    const regions: ProtectedRegion[] = [];
+    let child: StatementSyntax | BlockSyntax = statement;
+    let block = statement.parent;
+    // The statements opening and closing a block belong to the enclosing one
+    if (block && (block.begin === statement || block.end === statement)) {
+        child = block;
+        block = block.parent;
+    }
+    while (block) {
+        if (PROTECTED_BLOCKS.has(block.kind)) {
+            let section: StatementSyntax | undefined;
+            if (block.kind === BlockKind.Try) {
+                const index = block.members.indexOf(child);
+                section = block.members
+                    .slice(0, index + 1)
+                    .filter(
+                        (m): m is StatementSyntax =>
+                            m.nodeType === 'statement' &&
+                            (m.kind === StatementKind.Catch || m.kind === StatementKind.Finally)
+                    )
+                    .pop();
+            }
+            regions.unshift({ block, section });
+        }
+        child = block;
+        block = block.parent;
+    }
+    return regions;
+}
+
+/**
+ * Checks whether a range contains a position (including its end).
+ * @param range The range.
+ * @param position The position.
+ * @returns True if the position is inside the range.
+ */
+function containsPosition(range: Range, position: Position): boolean {
+    if (position.line < range.start.line || position.line > range.end.line) return false;
+    if (position.line === range.start.line && position.character < range.start.character) {
+        return false;
+    }
+    return position.line !== range.end.line || position.character <= range.end.character;
+}
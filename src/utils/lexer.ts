@@ -0,0 +1,951 @@
+import { Position, Range } from 'vscode-languageserver/node';
+
+/**
+ * Classification of the tokens produced by the lexer.
+ */
+export enum TokenKind {
+    Identifier = 'Identifier',
+    Keyword = 'Keyword',
+    StringLiteral = 'StringLiteral',
+    DateLiteral = 'DateLiteral',
+    NumericLiteral = 'NumericLiteral',
+    Operator = 'Operator',
+    Punctuation = 'Punctuation',
+    Comment = 'Comment',
+    /** A preprocessor directive such as `#Region "Name"`. The token spans the whole directive. */
+    Directive = 'Directive',
+    /** An explicit line continuation (` _`). */
+    LineContinuation = 'LineContinuation',
+    /** A `:` separating two statements on the same line. */
+    StatementSeparator = 'StatementSeparator',
+    LineTerminator = 'LineTerminator',
+    EndOfFile = 'EndOfFile'
+}
+
+/**
+ * A single lexical token with its position in the source text.
+ */
+export interface Token {
+    kind: TokenKind;
+    /** The exact source text of the token. */
+    text: string;
+    /** Lower-cased text (without `[]` escapes for identifiers), used for case-insensitive comparisons. */
+    value: string;
+    /** Offset of the first character of the token in the source text. */
+    offset: number;
+    line: number;
+    character: number;
+}
+
+/**
+ * A logical line: one or more physical lines joined by line continuations.
+ */
+export interface LogicalLine {
+    startLine: number;
+    endLine: number;
+    /**
+     * The joined text. It starts with the first physical line as written (including indentation);
+     * continuation lines are appended after a single space. Continuation markers (` _`) and
+     * comments of all but the last physical line are removed.
+     */
+    text: string;
+    /** Maps offsets in `text` back to document positions (one entry per physical line). */
+    segments: { offset: number; line: number; character: number }[];
+}
+
+/**
+ * Reserved Visual Basic keywords.
+ * Contextual keywords (e.g. `Region`, `Strict`, `Custom`, `Async`) are lexed as identifiers.
+ */
+export const RESERVED_KEYWORDS = new Set([
+    'addhandler',
+    'addressof',
+    'alias',
+    'and',
+    'andalso',
+    'as',
+    'boolean',
+    'byref',
+    'byte',
+    'byval',
+    'call',
+    'case',
+    'catch',
+    'cbool',
+    'cbyte',
+    'cchar',
+    'cdate',
+    'cdbl',
+    'cdec',
+    'char',
+    'cint',
+    'class',
+    'clng',
+    'cobj',
+    'const',
+    'continue',
+    'csbyte',
+    'cshort',
+    'csng',
+    'cstr',
+    'ctype',
+    'cuint',
+    'culng',
+    'cushort',
+    'date',
+    'decimal',
+    'declare',
+    'default',
+    'delegate',
+    'dim',
+    'directcast',
+    'do',
+    'double',
+    'each',
+    'else',
+    'elseif',
+    'end',
+    'endif',
+    'enum',
+    'erase',
+    'error',
+    'event',
+    'exit',
+    'false',
+    'finally',
+    'for',
+    'friend',
+    'function',
+    'get',
+    'gettype',
+    'global',
+    'gosub',
+    'goto',
+    'handles',
+    'if',
+    'implements',
+    'imports',
+    'in',
+    'inherits',
+    'integer',
+    'interface',
+    'is',
+    'isnot',
+    'let',
+    'lib',
+    'like',
+    'long',
+    'loop',
+    'me',
+    'mod',
+    'module',
+    'mustinherit',
+    'mustoverride',
+    'mybase',
+    'myclass',
+    'nameof',
+    'namespace',
+    'narrowing',
+    'new',
+    'next',
+    'not',
+    'nothing',
+    'notinheritable',
+    'notoverridable',
+    'object',
+    'of',
+    'on',
+    'operator',
+    'option',
+    'optional',
+    'or',
+    'orelse',
+    'overloads',
+    'overridable',
+    'overrides',
+    'paramarray',
+    'partial',
+    'private',
+    'property',
+    'protected',
+    'public',
+    'raiseevent',
+    'readonly',
+    'redim',
+    'removehandler',
+    'resume',
+    'return',
+    'sbyte',
+    'select',
+    'set',
+    'shadows',
+    'shared',
+    'short',
+    'single',
+    'static',
+    'step',
+    'stop',
+    'string',
+    'structure',
+    'sub',
+    'synclock',
+    'then',
+    'throw',
+    'to',
+    'true',
+    'try',
+    'trycast',
+    'typeof',
+    'uinteger',
+    'ulong',
+    'ushort',
+    'using',
+    'variant',
+    'wend',
+    'when',
+    'while',
+    'widening',
+    'with',
+    'withevents',
+    'writeonly',
+    'xor'
+]);
+
+/** Multi-character operators, longest first so that greedy matching works. */
+const OPERATORS = [
+    '<<=',
+    '>>=',
+    '<>',
+    '<=',
+    '>=',
+    ':=',
+    '+=',
+    '-=',
+    '*=',
+    '/=',
+    '\\=',
+    '^=',
+    '&=',
+    '<<',
+    '>>',
+    '?.',
+    '+',
+    '-',
+    '*',
+    '/',
+    '\\',
+    '^',
+    '&',
+    '=',
+    '<',
+    '>'
+];
+
+/** Tokens after which a statement implicitly continues on the next line. */
+const IMPLICIT_CONTINUATION_AFTER = new Set([
+    ',',
+    '(',
+    '{',
+    '.',
+    '=',
+    ':=',
+    '&',
+    '+',
+    '-',
+    '*',
+    '/',
+    '\\',
+    '^',
+    '<',
+    '>',
+    '<=',
+    '>=',
+    '<>',
+    '<<',
+    '>>',
+    '+=',
+    '-=',
+    '*=',
+    '/=',
+    '\\=',
+    '^=',
+    '&=',
+    '<<=',
+    '>>=',
+    'and',
+    'andalso',
+    'or',
+    'orelse',
+    'xor',
+    'mod',
+    'is',
+    'isnot',
+    'like'
+]);
+
+/**
+ * Words that start or join the clauses of a query expression. Inside a query, a statement
+ * implicitly continues before and after them (`From x In items` / `Where x > 0` / `Select x`).
+ */
+const QUERY_CLAUSE_WORDS = new Set([
+    'aggregate',
+    'distinct',
+    'equals',
+    'from',
+    'group',
+    'in',
+    'into',
+    'join',
+    'let',
+    'on',
+    'order',
+    'select',
+    'skip',
+    'take',
+    'where'
+]);
+
+/**
+ * Keywords that always start a new statement. A line starting with one of them is never
+ * treated as an implicit continuation, so that incomplete code being typed (e.g. `x =`)
+ * does not swallow the next statement.
+ */
+const STATEMENT_KEYWORDS = new Set([
+    'addhandler',
+    'call',
+    'case',
+    'catch',
+    'class',
+    'const',
+    'declare',
+    'delegate',
+    'dim',
+    'do',
+    'else',
+    'elseif',
+    'end',
+    'enum',
+    'erase',
+    'event',
+    'exit',
+    'finally',
+    'for',
+    'friend',
+    'goto',
+    'if',
+    'implements',
+    'imports',
+    'inherits',
+    'interface',
+    'loop',
+    'module',
+    'mustoverride',
+    'namespace',
+    'next',
+    'operator',
+    'option',
+    'overridable',
+    'overrides',
+    'private',
+    'property',
+    'protected',
+    'public',
+    'raiseevent',
+    'readonly',
+    'redim',
+    'removehandler',
+    'resume',
+    'return',
+    'select',
+    'shared',
+    'static',
+    'structure',
+    'synclock',
+    'throw',
+    'try',
+    'using',
+    'wend',
+    'while',
+    'with'
+]);
+
+const TYPE_CHARACTERS = new Set(['%', '&', '@', '!', '#', '$']);
+
+const DATE_LITERAL_CONTENT = /^[\d\s/:.,-]*(?:[AaPp][Mm])?[\d\s/:.,-]*$/;
+
+/**
+ * Checks if a character can start an identifier.
+ * @param ch The character.
+ * @returns True for letters and underscore.
+ */
+function isIdentifierStart(ch: string): boolean {
+    return /[A-Za-z_]/.test(ch) || (ch > '\u007f' && ch.toLowerCase() !== ch.toUpperCase());
+}
+
+/**
+ * Checks if a character can continue an identifier.
+ * @param ch The character.
+ * @returns True for letters, digits and underscore.
+ */
+function isIdentifierPart(ch: string): boolean {
+    return isIdentifierStart(ch) || /[0-9]/.test(ch);
+}
+
+/**
+ * Converts Visual Basic source text into a flat list of tokens.
+ *
+ * The lexer never fails: unknown characters are emitted as punctuation so that
+ * downstream consumers can still recover. Whitespace is skipped, but line terminators,
+ * statement separators (`:`), comments and line continuations are kept as tokens.
+ * The list always ends with an `EndOfFile` token.
+ *
+ * @param text The source text.
+ * @returns The tokens in source order.
+ */
+export function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let pos = 0;
+    let line = 0;
+    let lineStart = 0;
+    // True until the first token of the current physical line has been emitted
+    let atLineStart = true;
+
+    const push = (kind: TokenKind, start: number, end: number, value?: string) => {
+        const tokenText = text.substring(start, end);
+        tokens.push({
+            kind,
+            text: tokenText,
+            value: value ?? tokenText.toLowerCase(),
+            offset: start,
+            line,
+            character: start - lineStart
+        });
+        atLineStart = false;
+    };
+
+    const restOfLineEnd = (from: number): number => {
+        let end = from;
+        while (end < text.length && text[end] !== '\n' && text[end] !== '\r') end++;
+        return end;
+    };
+
+    const previousSignificant = (): Token | undefined => tokens[tokens.length - 1];
+
+    while (pos < text.length) {
+        const ch = text[pos];
+
+        // Line terminators
+        if (ch === '\r' || ch === '\n') {
+            const end = ch === '\r' && text[pos + 1] === '\n' ? pos + 2 : pos + 1;
+            push(TokenKind.LineTerminator, pos, end);
+            pos = end;
+            line++;
+            lineStart = pos;
+            atLineStart = true;
+            continue;
+        }
+
+        // Whitespace
+        if (ch === ' ' || ch === '\t' || ch === '\u00a0' || ch === '\f' || ch === '\v') {
+            pos++;
+            continue;
+        }
+
+        // Comments
+        if (ch === "'" || ch === '\u2018' || ch === '\u2019') {
+            const end = restOfLineEnd(pos);
+            push(TokenKind.Comment, pos, end);
+            pos = end;
+            continue;
+        }
+
+        // Preprocessor directives (#Region, #End Region, #If ...) at the start of a line
+        if (ch === '#' && atLineStart && /^#\s*[A-Za-z]/.test(text.substr(pos, 3))) {
+            let end = pos;
+            let inString = false;
+            while (end < text.length && text[end] !== '\n' && text[end] !== '\r') {
+                if (text[end] === '"') inString = !inString;
+                else if (text[end] === "'" && !inString) break;
+                end++;
+            }
+            // Trim trailing whitespace from the directive text
+            while (end > pos && /\s/.test(text[end - 1])) end--;
+            push(TokenKind.Directive, pos, end);
+            pos = end;
+            continue;
+        }
+
+        // Date literals: #1/1/2000#, #12:00 PM#
+        if (ch === '#') {
+            const close = text.indexOf('#', pos + 1);
+            const eol = restOfLineEnd(pos);
+            if (close !== -1 && close < eol) {
+                const content = text.substring(pos + 1, close);
+                if (content.trim() && DATE_LITERAL_CONTENT.test(content)) {
+                    push(TokenKind.DateLiteral, pos, close + 1);
+                    pos = close + 1;
+                    continue;
+                }
+            }
+        }
+
+        // String literals (with "" escapes and optional c suffix for Char)
+        if (ch === '"' || ch === '\u201c' || ch === '\u201d') {
+            let end = pos + 1;
+            while (end < text.length) {
+                const c = text[end];
+                if (c === '\n' || c === '\r') break;
+                if (c === '"' || c === '\u201c' || c === '\u201d') {
+                    if (text[end + 1] === '"') {
+                        end += 2;
+                        continue;
+                    }
+                    end++;
+                    break;
+                }
+                end++;
+            }
+            if (/[cC]/.test(text[end] || '') && !isIdentifierPart(text[end + 1] || '')) {
+                end++;
+            }
+            push(TokenKind.StringLiteral, pos, end);
+            pos = end;
+            continue;
+        }
+
+        // Numeric literals: 123, 1.5, 1E10, .5, &HFF, &O17, &B101, with type suffixes
+        if (
+            /[0-9]/.test(ch) ||
+            (ch === '.' && /[0-9]/.test(text[pos + 1] || '')) ||
+            (ch === '&' &&
+                /[HhOoBb]/.test(text[pos + 1] || '') &&
+                /[0-9A-Fa-f]/.test(text[pos + 2] || ''))
+        ) {
+            let end = pos;
+            if (ch === '&') {
+                end += 2;
+                while (end < text.length && /[0-9A-Fa-f_]/.test(text[end])) end++;
+            } else {
+                while (end < text.length && /[0-9_]/.test(text[end])) end++;
+                if (text[end] === '.' && /[0-9]/.test(text[end + 1] || '')) {
+                    end++;
+                    while (end < text.length && /[0-9_]/.test(text[end])) end++;
+                }
+                if (/[eE]/.test(text[end] || '') && /[-+0-9]/.test(text[end + 1] || '')) {
+                    end += 2;
+                    while (end < text.length && /[0-9]/.test(text[end])) end++;
+                }
+            }
+            // Type suffixes (%, &, @, !, #, R, D, F, S, I, L, US, UI, UL)
+            const suffix = /^(?:U[SIL]|[SILDFR%&@!#])(?![A-Za-z0-9_])/i.exec(text.substr(end, 3));
+            if (suffix) {
+                end += suffix[0].length;
+            }
+            push(TokenKind.NumericLiteral, pos, end);
+            pos = end;
+            continue;
+        }
+
+        // Identifiers and keywords (including [escaped] identifiers)
+        if (ch === '[') {
+            const close = text.indexOf(']', pos);
+            const eol = restOfLineEnd(pos);
+            if (close !== -1 && close < eol && /^\[\w+\]$/.test(text.substring(pos, close + 1))) {
+                push(
+                    TokenKind.Identifier,
+                    pos,
+                    close + 1,
+                    text.substring(pos + 1, close).toLowerCase()
+                );
+                pos = close + 1;
+                continue;
+            }
+        }
+
+        if (isIdentifierStart(ch)) {
+            let end = pos + 1;
+            while (end < text.length && isIdentifierPart(text[end])) end++;
+            const word = text.substring(pos, end);
+            const lower = word.toLowerCase();
+
+            // A lone underscore followed only by whitespace/comment is a line continuation
+            if (word === '_') {
+                let look = end;
+                while (look < text.length && (text[look] === ' ' || text[look] === '\t')) look++;
+                if (look >= text.length || /[\r\n']/.test(text[look])) {
+                    push(TokenKind.LineContinuation, pos, end);
+                    pos = end;
+                    continue;
+                }
+            }
+
+            // REM comments
+            if (lower === 'rem' && (end >= text.length || /[\s]/.test(text[end]))) {
+                const commentEnd = restOfLineEnd(pos);
+                push(TokenKind.Comment, pos, commentEnd);
+                pos = commentEnd;
+                continue;
+            }
+
+            // Identifier type characters (Dim s$, Dim n%(10), Left$(s)); `a&(b)` is a concatenation
+            const next = text[end] || '';
+            const after = text[end + 1] || '';
+            if (
+                TYPE_CHARACTERS.has(next) &&
+                !/[\w"#&!]/.test(after) &&
+                !(next === '&' && after === '(')
+            ) {
+                end++;
+            }
+
+            // Keywords used as member names after a dot are identifiers (e.g. obj.Date)
+            const prev = previousSignificant();
+            const afterDot =
+                prev !== undefined &&
+                (prev.text === '.' || prev.text === '?.') &&
+                prev.offset + prev.text.length === pos;
+            const isKeyword =
+                RESERVED_KEYWORDS.has(lower) && !afterDot && end === pos + word.length;
+            push(isKeyword ? TokenKind.Keyword : TokenKind.Identifier, pos, end, lower);
+            pos = end;
+            continue;
+        }
+
+        // Statement separator
+        if (ch === ':' && text[pos + 1] !== '=') {
+            push(TokenKind.StatementSeparator, pos, pos + 1);
+            pos++;
+            continue;
+        }
+
+        // Operators
+        const op = OPERATORS.find((o) => text.startsWith(o, pos));
+        if (op) {
+            push(TokenKind.Operator, pos, pos + op.length);
+            pos += op.length;
+            continue;
+        }
+
+        // Punctuation; unknown characters are treated as opaque punctuation as well
+        push(TokenKind.Punctuation, pos, pos + 1);
+        pos++;
+    }
+
+    tokens.push({
+        kind: TokenKind.EndOfFile,
+        text: '',
+        value: '',
+        offset: text.length,
+        line,
+        character: text.length - lineStart
+    });
+
+    return tokens;
+}
+
+/**
+ * Re-tokenizes the lines affected by an edit, reusing the tokens of all other lines.
+ * Tokens never span lines, so only the edited lines are lexed again; the tokens after them are
+ * moved to their new lines and offsets.
+ * @param tokens The tokens of the text before the edit.
+ * @param text The text after the edit.
+ * @param startLine The first edited line.
+ * @param oldEndLine The last edited line before the edit.
+ * @param newEndLine The last edited line after the edit.
+ * @returns The tokens of the new text (equal to `tokenize(text)`).
+ */
+export function retokenize(
+    tokens: Token[],
+    text: string,
+    startLine: number,
+    oldEndLine: number,
+    newEndLine: number
+): Token[] {
+    const result: Token[] = [];
+    let k = 0;
+    while (k < tokens.length && tokens[k].line < startLine) {
+        result.push(tokens[k++]);
+    }
+
+    // The edited lines start after the terminator of the last unchanged line
+    const previous = result[result.length - 1];
+    const start = previous ? previous.offset + previous.text.length : 0;
+    let end = start;
+    let breaks = newEndLine - startLine + 1;
+    while (end < text.length && breaks > 0) {
+        if (text[end] === '\r' || text[end] === '\n') {
+            end += text[end] === '\r' && text[end + 1] === '\n' ? 2 : 1;
+            breaks--;
+        } else {
+            end++;
+        }
+    }
+
+    for (const token of tokenize(text.substring(start, end))) {
+        if (token.kind === TokenKind.EndOfFile) break;
+        result.push({ ...token, offset: token.offset + start, line: token.line + startLine });
+    }
+
+    while (k < tokens.length && tokens[k].line <= oldEndLine) k++;
+    if (k < tokens.length && tokens[k].kind !== TokenKind.EndOfFile) {
+        const lineDelta = newEndLine - oldEndLine;
+        const offsetDelta = end - (tokens[k].offset - tokens[k].character);
+        for (; k < tokens.length && tokens[k].kind !== TokenKind.EndOfFile; k++) {
+            const token = tokens[k];
+            result.push({
+                ...token,
+                offset: token.offset + offsetDelta,
+                line: token.line + lineDelta
+            });
+        }
+    }
+
+    const last = result[result.length - 1];
+    const lastLineStart = Math.max(text.lastIndexOf('\n'), text.lastIndexOf('\r')) + 1;
+    result.push({
+        kind: TokenKind.EndOfFile,
+        text: '',
+        value: '',
+        offset: text.length,
+        line: !last ? 0 : last.kind === TokenKind.LineTerminator ? last.line + 1 : last.line,
+        character: text.length - lastLineStart
+    });
+    return result;
+}
+
+/**
+ * Checks if a token carries code (i.e. it is not trivia or a terminator).
+ * @param token The token.
+ * @returns True for identifiers, keywords, literals, operators and punctuation.
+ */
+export function isCodeToken(token: Token): boolean {
+    return (
+        token.kind !== TokenKind.Comment &&
+        token.kind !== TokenKind.LineContinuation &&
+        token.kind !== TokenKind.LineTerminator &&
+        token.kind !== TokenKind.StatementSeparator &&
+        token.kind !== TokenKind.EndOfFile
+    );
+}
+
+/**
+ * Gets the source range covered by a token.
+ * @param token The token.
+ * @returns The range of the token (tokens never span lines).
+ */
+export function tokenRange(token: Token): Range {
+    return Range.create(
+        token.line,
+        token.character,
+        token.line,
+        token.character + token.text.length
+    );
+}
+
+/**
+ * Determines which physical lines continue on the next line, either explicitly (` _`) or
+ * implicitly (after a comma, an opening parenthesis, an operator, before a closing parenthesis,
+ * after an attribute, or before and after the clauses of a query).
+ * @param tokens The tokens of the document (see `tokenize`).
+ * @returns The numbers of the lines whose line terminator does not end the statement.
+ */
+export function getContinuedLines(tokens: Token[]): Set<number> {
+    const continued = new Set<number>();
+    let first: Token | undefined; // first code token of the current statement
+    let last: Token | undefined; // last code token or continuation on the current line
+    let depth = 0;
+    let inQuery = false; // the current statement contains a query expression
+
+    for (let k = 0; k < tokens.length; k++) {
+        const token = tokens[k];
+        if (token.kind === TokenKind.Comment) continue;
+        if (token.kind === TokenKind.StatementSeparator) {
+            first = undefined;
+            last = undefined;
+            depth = 0;
+            inQuery = false;
+            continue;
+        }
+        if (token.kind === TokenKind.LineContinuation) {
+            last = token;
+            continue;
+        }
+        if (token.kind === TokenKind.EndOfFile) break;
+        if (token.kind !== TokenKind.LineTerminator) {
+            if (!first) first = token;
+            if (token.text === '(' || token.text === '{') depth++;
+            else if (token.text === ')' || token.text === '}') depth--;
+            if (!inQuery && isQueryStart(tokens, k)) inQuery = true;
+            last = token;
+            continue;
+        }
+
+        // Line terminator: does the statement go on?
+        const endLine = continuationEndLine(tokens, k, first, last, depth, inQuery);
+        if (endLine === undefined) {
+            first = undefined;
+            depth = 0;
+            inQuery = false;
+        } else {
+            for (let line = token.line; line < endLine; line++) continued.add(line);
+        }
+        last = undefined;
+    }
+    return continued;
+}
+
+/**
+ * Checks whether the statement continues after the line terminator at index `k`.
+ * @param tokens The tokens of the document.
+ * @param k The index of the line terminator.
+ * @param first The first code token of the current statement.
+ * @param last The last code token (or continuation) before the terminator.
+ * @param depth The parenthesis depth of the current statement.
+ * @param inQuery Whether the statement contains a query expression.
+ * @returns The line on which the statement continues, or undefined if it ends here.
+ */
+function continuationEndLine(
+    tokens: Token[],
+    k: number,
+    first: Token | undefined,
+    last: Token | undefined,
+    depth: number,
+    inQuery: boolean
+): number | undefined {
+    const line = tokens[k].line;
+    if (!last || !first || first.kind === TokenKind.Directive) return undefined;
+    if (last.kind === TokenKind.LineContinuation) return line + 1;
+
+    // Find the next code token; only comment lines may appear in between
+    let next: Token | undefined;
+    let afterNext: Token | undefined;
+    const commentLines = new Set<number>();
+    for (let j = k + 1; j < tokens.length; j++) {
+        const candidate = tokens[j];
+        if (candidate.kind === TokenKind.Comment) commentLines.add(candidate.line);
+        else if (isCodeToken(candidate)) {
+            next = candidate;
+            afterNext = tokens[j + 1];
+            break;
+        } else if (candidate.kind === TokenKind.EndOfFile) break;
+    }
+    if (!next || next.kind === TokenKind.Directive) return undefined;
+    for (let between = line + 1; between < next.line; between++) {
+        if (!commentLines.has(between)) return undefined;
+    }
+
+    // <Attribute> on its own line applies to the declaration on the next line
+    if (first.text === '<' && last.text === '>') return next.line;
+    if (depth > 0 && (next.text === ')' || next.text === '}')) return next.line;
+    if (
+        inQuery &&
+        ((isQueryClauseWord(last) && tokens[tokens.lastIndexOf(last, k) - 1]?.text !== '.') ||
+            (isQueryClauseWord(next) &&
+                !(next.value === 'select' && afterNext?.value === 'case') &&
+                !(next.value === 'on' && afterNext?.value === 'error')))
+    ) {
+        return next.line;
+    }
+    if (
+        last.kind !== TokenKind.Identifier &&
+        last.kind !== TokenKind.StringLiteral &&
+        IMPLICIT_CONTINUATION_AFTER.has(last.value) &&
+        !(next.kind === TokenKind.Keyword && STATEMENT_KEYWORDS.has(next.value))
+    ) {
+        return next.line;
+    }
+    return undefined;
+}
+
+/**
+ * Checks whether a token starts a query expression: `From` or `Aggregate` followed by a range
+ * variable and `In` or `As` (unlike the `From` of a collection initializer).
+ * @param tokens The tokens of the document.
+ * @param k The index of the token.
+ * @returns True if a query starts at the token.
+ */
+function isQueryStart(tokens: Token[], k: number): boolean {
+    const token = tokens[k];
+    return (
+        token.kind === TokenKind.Identifier &&
+        (token.value === 'from' || token.value === 'aggregate') &&
+        tokens[k + 1]?.kind === TokenKind.Identifier &&
+        (tokens[k + 2]?.value === 'in' || tokens[k + 2]?.value === 'as')
+    );
+}
+
+/**
+ * Checks whether a token is a word of a query clause.
+ * @param token The token.
+ * @returns True if the statement may continue before or after the token.
+ */
+function isQueryClauseWord(token: Token): boolean {
+    return (
+        (token.kind === TokenKind.Identifier || token.kind === TokenKind.Keyword) &&
+        QUERY_CLAUSE_WORDS.has(token.value)
+    );
+}
+
+/**
+ * Splits source text into logical lines, joining physical lines connected by line continuations.
+ * Every physical line belongs to exactly one logical line.
+ * @param text The source text.
+ * @param tokens The tokens of the text, if already computed.
+ * @returns The logical lines in document order.
+ */
+export function getLogicalLines(text: string, tokens: Token[] = tokenize(text)): LogicalLine[] {
+    const lines = text.split(/\r\n|\r|\n/);
+    const continued = getContinuedLines(tokens);
+
+    // Where each physical line's code ends (start of a comment or continuation marker)
+    const codeEnd = new Map<number, number>();
+    for (const token of tokens) {
+        if (
+            (token.kind === TokenKind.Comment || token.kind === TokenKind.LineContinuation) &&
+            !codeEnd.has(token.line)
+        ) {
+            codeEnd.set(token.line, token.character);
+        }
+    }
+
+    const result: LogicalLine[] = [];
+    for (let start = 0; start < lines.length; start++) {
+        let end = start;
+        while (continued.has(end) && end < lines.length - 1) end++;
+
+        const logical: LogicalLine = { startLine: start, endLine: end, text: '', segments: [] };
+        for (let line = start; line <= end; line++) {
+            let content = lines[line];
+            if (line < end) {
+                content = content.substring(0, codeEnd.get(line) ?? content.length).trimEnd();
+            }
+            let character = 0;
+            if (line > start) {
+                const trimmed = content.trimStart();
+                character = content.length - trimmed.length;
+                content = trimmed;
+                if (!content) continue;
+                if (logical.text) logical.text += ' ';
+            }
+            logical.segments.push({ offset: logical.text.length, line, character });
+            logical.text += content;
+        }
+        result.push(logical);
+        start = end;
+    }
+    return result;
+}
+
+/**
+ * Maps an offset in a logical line's text back to a document position.
+ * @param logical The logical line.
+ * @param offset The offset in `logical.text`.
+ * @returns The position in the document.
+ */
+export function getLogicalLinePosition(logical: LogicalLine, offset: number): Position {
+    let segment = logical.segments[0];
+    for (const candidate of logical.segments) {
+        if (candidate.offset <= offset) segment = candidate;
+    }
+    return Position.create(segment.line, segment.character + offset - segment.offset);
+}
@@ -1,11 +1,22 @@
 import { Connection } from 'vscode-languageserver/node';
 
+/**
+ * The severity of a log message.
+ */
+export enum LogLevel {
+    Debug,
+    Info,
+    Warn,
+    Error
+}
+
 /**
  * A simple logging utility for the Language Server.
  * Sends log messages to the client via the LSP connection.
  */
 export class Logger {
     private static connection: Connection | null = null;
+    private static level: LogLevel = LogLevel.Debug;
 
     /**
      * Sets the LSP connection to be used for logging.
@@ -15,11 +26,20 @@ export class Logger {
         Logger.connection = connection;
     }
 
+    /**
+     * Sets the lowest level that is logged (e.g. to keep the output of command-line tools clean).
+     * @param level The minimum level.
+     */
+    static setLevel(level: LogLevel) {
+        Logger.level = level;
+    }
+
     /**
      * Logs an informational message.
      * @param message The message to log.
      */
     static log(message: string) {
+        if (Logger.level > LogLevel.Info) return;
         if (Logger.connection) {
             Logger.connection.console.log(`[Info] ${message}`);
         } else {
@@ -32,6 +52,7 @@ export class Logger {
      * @param message The message to log.
      */
     static debug(message: string) {
+        if (Logger.level > LogLevel.Debug) return;
         if (Logger.connection) {
             Logger.connection.console.log(`[Debug] ${message}`);
         } else {
@@ -56,6 +77,7 @@ export class Logger {
      * @param message The message to log.
      */
     static warn(message: string) {
+        if (Logger.level > LogLevel.Warn) return;
         if (Logger.connection) {
             // console.warn might not exist on connection, using log with [Warn]
             Logger.connection.console.log(`[Warn] ${message}`);
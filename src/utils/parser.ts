@@ -1,445 +1,391 @@
 import { DocumentSymbol, SymbolKind, Position, Range } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Logger } from './logger';
+import { Token } from './lexer';
 import {
-    PARSER_BLOCK_REGEX,
-    PARSER_DIM_REGEX,
-    PARSER_CONST_REGEX,
-    PARSER_FIELD_REGEX,
-    PARSER_IMPORTS_REGEX,
-    PARSER_IMPLEMENTS_REGEX,
-    PARSER_REGION_START_REGEX,
-    PARSER_REGION_END_REGEX,
-    VAL_BLOCK_END_REGEX,
-    VAL_IF_START_REGEX,
-    VAL_THEN_REGEX,
-    VAL_NEXT_REGEX,
-    VAL_LOOP_REGEX,
-    VAL_WEND_REGEX,
-    VAL_FOR_START_REGEX,
-    VAL_SELECT_CASE_START_REGEX,
-    VAL_DO_START_REGEX,
-    VAL_WHILE_START_REGEX
-} from '../utils/regexes';
-import { stripComment } from './textUtils';
+    BlockKind,
+    BlockSyntax,
+    StatementKind,
+    StatementSyntax,
+    SyntaxTree,
+    joinTokens
+} from './syntaxTree';
+import { getDocumentModel } from './documentModel';
+
+/** Symbol kinds of declaration blocks and statements. */
+const DECLARATION_KINDS: { [kind: string]: SymbolKind } = {
+    [StatementKind.Sub]: SymbolKind.Method,
+    [StatementKind.Function]: SymbolKind.Function,
+    [StatementKind.Class]: SymbolKind.Class,
+    [StatementKind.Module]: SymbolKind.Module,
+    [StatementKind.Property]: SymbolKind.Property,
+    [StatementKind.Operator]: SymbolKind.Operator,
+    [StatementKind.Event]: SymbolKind.Event,
+    [StatementKind.Delegate]: SymbolKind.Function,
+    [StatementKind.Structure]: SymbolKind.Struct,
+    [StatementKind.Interface]: SymbolKind.Interface,
+    [StatementKind.Enum]: SymbolKind.Enum,
+    [StatementKind.Namespace]: SymbolKind.Namespace
+};
+
+/** Declarations whose symbol detail includes the `As` clause. */
+const SIGNATURE_KINDS = new Set([
+    StatementKind.Event,
+    StatementKind.Delegate,
+    StatementKind.Declare
+]);
+
+/** Control flow blocks that are reported as scope symbols (named after their keyword). */
+const SCOPE_BLOCKS: { [kind: string]: string } = {
+    [BlockKind.If]: 'If',
+    [BlockKind.For]: 'For',
+    [BlockKind.Select]: 'Select',
+    [BlockKind.Do]: 'Do',
+    [BlockKind.While]: 'While'
+};
+
+/** Blocks whose members belong to the enclosing symbol. */
+const TRANSPARENT_BLOCKS = new Set([
+    BlockKind.Accessor,
+    BlockKind.Try,
+    BlockKind.With,
+    BlockKind.Using,
+    BlockKind.SyncLock,
+    BlockKind.Lambda
+]);
 
 /**
  * Parses a text document and extracts a hierarchy of symbols.
  *
- * This parser uses regex pattern matching to identify blocks (Sub, Function, Class, etc.),
- * variables (Dim), constants (Const), and other constructs. It handles nested structures
- * by maintaining a stack of open symbols.
+ * The document is parsed into a syntax tree (see `parseSyntaxTree`) and symbols are derived
+ * from its declarations: blocks (Sub, Function, Class, etc.) become containers, variables (Dim),
+ * constants (Const), fields, enum members, events, delegates, Declare statements, Imports,
+ * Implements, Inherits and labels become leaf symbols, and control flow blocks (If, For, Select, Do,
+ * While) become scope symbols so that locals can be resolved per block.
+ *
+ * The tree and symbols are cached in the document's model (see `getDocumentModel`), so repeated
+ * calls for the same version return the same (read-only) symbols.
  *
  * @param document The text document to parse.
  * @returns An array of top-level DocumentSymbols, each containing their children.
  */
 export function parseDocumentSymbols(document: TextDocument): DocumentSymbol[] {
+    const model = getDocumentModel(document);
+    if (model.symbols) {
+        return model.symbols;
+    }
     Logger.debug(`Parser: Parsing symbols for ${document.uri}`);
-    const text = document.getText();
-    const lines = text.split(/\r?\n/);
+    const tree = model.tree;
     const rootSymbols: DocumentSymbol[] = [];
-    const stack: DocumentSymbol[] = [];
-
-    // Helper to add symbol to current parent or root
-    const addSymbol = (symbol: DocumentSymbol) => {
-        if (stack.length > 0) {
-            const parent = stack[stack.length - 1];
-            if (!parent.children) {
-                parent.children = [];
-            }
-            parent.children.push(symbol);
-            Logger.debug(`Parser: Added '${symbol.name}' to '${parent.name}'`);
-        } else {
-            rootSymbols.push(symbol);
-            Logger.debug(`Parser: Added '${symbol.name}' to root`);
-        }
-    };
-
-    for (let i = 0; i < lines.length; i++) {
-        const rawLine = lines[i];
-        // Strip comments for analysis
-        const line = stripComment(rawLine);
-        const trimmed = line.trim();
-        if (!trimmed) continue;
+    collectSymbols(tree, tree.root, rootSymbols);
+    Logger.debug(`Parser: Found ${rootSymbols.length} top-level symbols.`);
+    model.symbols = rootSymbols;
+    return rootSymbols;
+}
 
-        // 1. Check for Block End (End Sub, End Class, etc.)
-        const endMatch = VAL_BLOCK_END_REGEX.exec(trimmed);
-        if (
-            endMatch ||
-            VAL_NEXT_REGEX.test(trimmed) ||
-            VAL_LOOP_REGEX.test(trimmed) ||
-            VAL_WEND_REGEX.test(trimmed) ||
-            PARSER_REGION_END_REGEX.test(trimmed)
-        ) {
-            if (stack.length > 0) {
-                // Should check if the closing matches the opening?
-                // For simplicity, we assume valid nesting and just pop.
-                const finishedSymbol = stack.pop();
-                if (finishedSymbol) {
-                    // Update range end to include this line
-                    finishedSymbol.range.end = { line: i, character: rawLine.length };
-                    // Logger.debug(`Parser: Closed symbol '${finishedSymbol.name}' at line ${i}`);
-                }
-            }
+/**
+ * Adds the symbols declared by the members of a block to a container.
+ * @param tree The syntax tree.
+ * @param block The block whose members are visited.
+ * @param container The list receiving the symbols.
+ */
+function collectSymbols(tree: SyntaxTree, block: BlockSyntax, container: DocumentSymbol[]): void {
+    for (const member of block.members) {
+        if (member.nodeType === 'statement') {
+            container.push(...createStatementSymbols(tree, member));
             continue;
         }
 
-        // 2. Check for Block Start (Sub, Function, Class, Module)
-        // Groups: 1=Modifier, 2=Type, 3=Name, 4=Args (optional)
-
-        // Modified regex to ONLY capture Modifier, Type, Name. We manually parse args.
-        // We still use the original regex source but ignore group 4 (args) from it if possible,
-        // or just re-implement matching.
-        // PARSER_BLOCK_REGEX comes from regexes.ts, it captures args in group 4.
-        // We will continue to use it for detection, but we will ignore group 4 and manually parse args
-        // to handle nested parentheses (generics, arrays).
-
-        const blockMatch = new RegExp(PARSER_BLOCK_REGEX.source, 'i').exec(trimmed);
-
-        if (blockMatch) {
-            const type = blockMatch[2]; // Sub, Function...
-            const name = blockMatch[3];
-
-            // Manually parse signature to handle nested parens
-            let fullSignature = `${type} ${name}`;
-            let argsContent = '';
-
-            const startParenIndex = rawLine.indexOf('(');
-            if (startParenIndex !== -1) {
-                // Check if paren is after the name
-                const nameIndex = rawLine.indexOf(name);
-                if (startParenIndex > nameIndex) {
-                    // Start scanning for balanced parens
-                    let depth = 0;
-                    let endIndex = -1;
-                    for (let j = startParenIndex; j < rawLine.length; j++) {
-                        if (rawLine[j] === '(') depth++;
-                        else if (rawLine[j] === ')') {
-                            depth--;
-                            if (depth === 0) {
-                                endIndex = j;
-                                break;
-                            }
-                        }
-                    }
-                    if (endIndex !== -1) {
-                        argsContent = rawLine.substring(startParenIndex + 1, endIndex);
-                        fullSignature = `${type} ${name}(${argsContent})`;
-                    }
-                }
+        const begin = member.begin as StatementSyntax;
+        const symbol = createBlockSymbol(tree, member);
+        if (symbol) {
+            container.push(symbol);
+            Logger.debug(`Parser: Added block '${symbol.name}'`);
+            collectSymbols(tree, member, symbol.children as DocumentSymbol[]);
+        } else if (TRANSPARENT_BLOCKS.has(member.kind)) {
+            // e.g. `Dim f = Sub()` declares f before the lambda body
+            if (member.kind === BlockKind.Lambda) {
+                container.push(...createStatementSymbols(tree, begin));
             }
+            collectSymbols(tree, member, container);
+        }
+    }
+}
 
-            let kind: SymbolKind = SymbolKind.Function;
-
-            if (/Sub/i.test(type)) kind = SymbolKind.Method;
-            else if (/Class/i.test(type)) kind = SymbolKind.Class;
-            else if (/Module/i.test(type)) kind = SymbolKind.Module;
-            else if (/Property/i.test(type)) kind = SymbolKind.Property;
-            else if (/Structure/i.test(type)) kind = SymbolKind.Struct;
-            else if (/Interface/i.test(type)) kind = SymbolKind.Interface;
-            else if (/Enum/i.test(type)) kind = SymbolKind.Enum;
-            else if (/Namespace/i.test(type)) kind = SymbolKind.Namespace;
-
-            const symbol: DocumentSymbol = {
-                name: name,
-                kind: kind,
-                detail: fullSignature,
-                range: {
-                    start: { line: i, character: 0 },
-                    end: { line: i, character: rawLine.length } // Will be updated on close
-                },
-                selectionRange: {
-                    start: { line: i, character: rawLine.indexOf(name) },
-                    end: { line: i, character: rawLine.indexOf(name) + name.length }
-                },
-                children: []
-            };
-
-            if (argsContent) {
-                const argsStart = rawLine.indexOf(argsContent);
-                let currentOffset = argsStart;
-
-                // Split args by comma, respecting parentheses
-                const argParts: string[] = [];
-                let currentPart = '';
-                let depth = 0;
-
-                for (let k = 0; k < argsContent.length; k++) {
-                    const char = argsContent[k];
-                    if (char === '(') depth++;
-                    else if (char === ')') depth--;
-
-                    if (char === ',' && depth === 0) {
-                        argParts.push(currentPart);
-                        currentPart = '';
-                    } else {
-                        currentPart += char;
-                    }
-                }
-                argParts.push(currentPart); // Push last part
-
-                for (const part of argParts) {
-                    const partTrimmed = part.trim();
-                    if (!partTrimmed) continue; // Skip empty parts (e.g. trailing comma or empty args)
-
-                    const partIndex = rawLine.indexOf(partTrimmed, currentOffset);
-
-                    const argRegex =
-                        /(?:ByVal|ByRef|Optional|ParamArray)?\s*(\w+)(?:\(.*\))?(?:\s+As\s+(.+))?/i;
-                    // Modified regex to handle As Type(Of T)
-                    // Group 1: Name
-                    // Group 2: Type (greedy)
-
-                    const match = argRegex.exec(partTrimmed);
-
-                    if (match) {
-                        const argName = match[1];
-                        const argType = match[2] || 'Object';
-                        const nameIndex =
-                            partIndex !== -1 ? partIndex + partTrimmed.indexOf(argName) : 0;
-
-                        symbol.children?.push({
-                            name: argName,
-                            kind: SymbolKind.Variable,
-                            detail: `Argument ${argName} As ${argType}`,
-                            range: {
-                                start: { line: i, character: nameIndex },
-                                end: { line: i, character: nameIndex + argName.length }
-                            },
-                            selectionRange: {
-                                start: { line: i, character: nameIndex },
-                                end: { line: i, character: nameIndex + argName.length }
-                            },
-                            children: []
-                        });
-                    }
-
-                    if (partIndex !== -1) {
-                        currentOffset = partIndex + partTrimmed.length;
-                    }
-                }
-            }
+/**
+ * Creates the symbol for a block (declaration, region or control flow scope).
+ * @param tree The syntax tree.
+ * @param block The block.
+ * @returns The symbol, or null if the block does not produce one.
+ */
+function createBlockSymbol(tree: SyntaxTree, block: BlockSyntax): DocumentSymbol | null {
+    const begin = block.begin as StatementSyntax;
+    const endLine = block.range.end.line;
+    const range = fullLineRange(tree, begin.range.start.line, endLine);
+
+    if (block.kind === BlockKind.Region) {
+        const directive = begin.keyword as Token;
+        const match = /^#\s*Region\s+(.*)$/i.exec(directive.text);
+        return {
+            name: match ? match[1].trim() : '#Region',
+            kind: SymbolKind.Namespace, // Visual grouping
+            detail: '#Region',
+            range,
+            selectionRange: Range.create(
+                begin.range.start.line,
+                directive.character,
+                begin.range.start.line,
+                directive.character + directive.text.length
+            ),
+            children: []
+        };
+    }
+
+    const scopeName = SCOPE_BLOCKS[block.kind];
+    if (scopeName) {
+        const keyword = begin.keyword ?? begin.tokens[0];
+        return {
+            name: scopeName,
+            kind: SymbolKind.Namespace, // Use Namespace as placeholder for Scope/Block
+            detail: statementText(tree, begin),
+            range,
+            selectionRange: Range.create(
+                keyword.line,
+                keyword.character,
+                keyword.line,
+                keyword.character + keyword.text.length
+            ),
+            children: []
+        };
+    }
 
-            addSymbol(symbol);
+    const symbol = createDeclarationSymbol(tree, begin);
+    if (symbol) {
+        symbol.range = range;
+    }
+    return symbol;
+}
 
-            // Special handling for Interface members (they don't have bodies/End statements)
-            const parent = stack.length > 0 ? stack[stack.length - 1] : null;
-            if (parent && parent.kind === SymbolKind.Interface) {
-                if (/^(Sub|Function|Property|Event)$/i.test(type)) {
-                    // Do not push to stack (it's a declaration only)
-                    symbol.range.end = { line: i, character: rawLine.length };
-                    continue;
+/**
+ * Creates the symbols declared by a single statement.
+ * @param tree The syntax tree.
+ * @param statement The statement.
+ * @returns The declared symbols (possibly empty).
+ */
+function createStatementSymbols(tree: SyntaxTree, statement: StatementSyntax): DocumentSymbol[] {
+    const range = fullLineRange(tree, statement.range.start.line, statement.range.end.line);
+
+    switch (statement.kind) {
+        case StatementKind.Sub:
+        case StatementKind.Function:
+        case StatementKind.Property:
+        case StatementKind.Operator:
+        case StatementKind.Event:
+        case StatementKind.Delegate:
+        case StatementKind.Declare: {
+            // Declarations without a body (interface members, MustOverride, auto-properties)
+            const symbol = createDeclarationSymbol(tree, statement);
+            return symbol ? [symbol] : [];
+        }
+        case StatementKind.Variable:
+        case StatementKind.Const: {
+            let kind: SymbolKind = SymbolKind.Variable;
+            let prefix = 'Dim';
+            if (statement.kind === StatementKind.Const) {
+                kind = SymbolKind.Constant;
+                prefix = 'Const';
+            } else if (statement.keyword === undefined) {
+                prefix = statement.modifiers[statement.modifiers.length - 1].text;
+                // `Static x` declares a local; other modifiers declare fields
+                if (statement.modifiers.some((m) => m.value !== 'static')) {
+                    kind = SymbolKind.Field;
                 }
             }
-
-            stack.push(symbol);
-            Logger.debug(`Parser: Opened block '${name}' at line ${i}`);
-            continue;
+            return (statement.declarators || []).map((declarator) => {
+                const name = declarator.name.text;
+                const bounds =
+                    declarator.arrayBounds !== undefined ? `(${declarator.arrayBounds})` : '';
+                const type = declarator.type?.text || 'Object';
+                return {
+                    name,
+                    kind,
+                    detail: `${prefix} ${name}${bounds} As ${type}`,
+                    range,
+                    selectionRange: declarator.name.range,
+                    children: []
+                };
+            });
         }
-
-        // 3. Check for Dim (Variables)
-        // Groups: 1=Name, 2=Type (optional)
-        const dimMatch = new RegExp(PARSER_DIM_REGEX.source, 'i').exec(trimmed);
-        if (dimMatch) {
-            const name = dimMatch[1];
-            const type = dimMatch[2] || 'Object';
-
-            const symbol: DocumentSymbol = {
-                name: name,
-                kind: SymbolKind.Variable,
-                detail: `Dim ${name} As ${type}`,
-                range: {
-                    start: { line: i, character: 0 },
-                    end: { line: i, character: rawLine.length }
-                },
-                selectionRange: {
-                    start: { line: i, character: rawLine.indexOf(name) },
-                    end: { line: i, character: rawLine.indexOf(name) + name.length }
-                },
-                children: []
-            };
-            addSymbol(symbol);
-            continue;
+        case StatementKind.EnumMember: {
+            const name = statement.name;
+            if (!name) return [];
+            const value = getEnumMemberValue(statement);
+            return [
+                {
+                    name: name.text,
+                    kind: SymbolKind.EnumMember,
+                    detail: value !== undefined ? `${name.text} = ${value}` : name.text,
+                    range,
+                    selectionRange: name.range,
+                    children: []
+                }
+            ];
         }
-
-        // 4. Check for Const
-        const constMatch = new RegExp(PARSER_CONST_REGEX.source, 'i').exec(trimmed);
-        if (constMatch) {
-            const name = constMatch[2]; // Group 2 is name in CONST_PATTERN (1 is modifier)
-            const type = constMatch[3] || 'Object';
-
-            const symbol: DocumentSymbol = {
-                name: name,
-                kind: SymbolKind.Constant,
-                detail: `Const ${name} As ${type}`,
-                range: {
-                    start: { line: i, character: 0 },
-                    end: { line: i, character: rawLine.length }
-                },
-                selectionRange: {
-                    start: { line: i, character: rawLine.indexOf(name) },
-                    end: { line: i, character: rawLine.indexOf(name) + name.length }
-                },
-                children: []
-            };
-            addSymbol(symbol);
-            continue;
+        case StatementKind.Imports:
+        case StatementKind.Implements: {
+            const target = statement.types?.[0];
+            if (!target) return [];
+            const isImports = statement.kind === StatementKind.Imports;
+            return [
+                {
+                    // Implements is prefixed to avoid shadowing the actual Interface definition
+                    name: isImports ? target.text : `Implements ${target.text}`,
+                    kind: isImports ? SymbolKind.Package : SymbolKind.Interface,
+                    detail: `${isImports ? 'Imports' : 'Implements'} ${target.text}`,
+                    range,
+                    selectionRange: target.range,
+                    children: []
+                }
+            ];
         }
-
-        // 5. Fields (Module/Class level variables without Dim, usually with modifier)
-        // But excluding Sub/Function/Const/Property which are handled above.
-        const fieldMatch = new RegExp(PARSER_FIELD_REGEX.source, 'i').exec(trimmed);
-        if (fieldMatch) {
-            const name = fieldMatch[2];
-            // Safety check: ensure it's not a block start or const
-            if (/^(Sub|Function|Class|Module|Property|Structure|Interface|Enum|Const)$/i.test(name))
-                continue;
-
-            const modifier = fieldMatch[1];
-            const type = fieldMatch[3] || 'Object';
-            const symbol: DocumentSymbol = {
-                name: name,
-                kind: SymbolKind.Field,
-                detail: `${modifier} ${name} As ${type}`,
-                range: {
-                    start: { line: i, character: 0 },
-                    end: { line: i, character: rawLine.length }
-                },
-                selectionRange: {
-                    start: { line: i, character: rawLine.indexOf(name) },
-                    end: { line: i, character: rawLine.indexOf(name) + name.length }
-                },
-                children: []
-            };
-            addSymbol(symbol);
-            continue;
+        case StatementKind.Label: {
+            // Labels are procedure-scoped; lookups go through the syntax tree (see `labels.ts`)
+            const name = statement.name;
+            if (!name) return [];
+            return [
+                {
+                    name: name.text,
+                    kind: SymbolKind.Key,
+                    detail: `${name.text}:`,
+                    range,
+                    selectionRange: name.range,
+                    children: []
+                }
+            ];
         }
-
-        // 6. Check for Imports
-        const importsMatch = PARSER_IMPORTS_REGEX.exec(trimmed);
-        if (importsMatch) {
-            const name = importsMatch[1];
-            const symbol: DocumentSymbol = {
-                name: name,
-                kind: SymbolKind.Package,
-                detail: `Imports ${name}`,
-                range: {
-                    start: { line: i, character: 0 },
-                    end: { line: i, character: rawLine.length }
-                },
-                selectionRange: {
-                    start: { line: i, character: rawLine.indexOf(name) },
-                    end: { line: i, character: rawLine.indexOf(name) + name.length }
-                },
+        case StatementKind.Inherits: {
+            // Interfaces may inherit several interfaces; classes inherit one class
+            const kind =
+                statement.parent?.kind === BlockKind.Interface
+                    ? SymbolKind.Interface
+                    : SymbolKind.Class;
+            return (statement.types || []).map((target) => ({
+                // Prefixed like Implements, so that it does not shadow the base type
+                name: `Inherits ${target.text}`,
+                kind,
+                detail: `Inherits ${target.text}`,
+                range,
+                selectionRange: target.range,
                 children: []
-            };
-            addSymbol(symbol);
-            continue;
+            }));
         }
+        default:
+            return [];
+    }
+}
 
-        // 7. Check for Implements
-        const implementsMatch = PARSER_IMPLEMENTS_REGEX.exec(trimmed);
-        if (implementsMatch) {
-            const name = implementsMatch[1];
-            const symbol: DocumentSymbol = {
-                name: `Implements ${name}`, // Prefix to avoid shadowing the actual Interface definition
-                kind: SymbolKind.Interface,
-                detail: `Implements ${name}`,
-                range: {
-                    start: { line: i, character: 0 },
-                    end: { line: i, character: rawLine.length }
-                },
-                selectionRange: {
-                    start: { line: i, character: rawLine.indexOf(name) },
-                    end: { line: i, character: rawLine.indexOf(name) + name.length }
-                },
-                children: []
-            };
-            addSymbol(symbol);
-            continue;
+/**
+ * Creates the symbol of a type or member declaration, including its parameters as children.
+ * The range covers the declaration statement only; blocks extend it to their closing statement.
+ * @param tree The syntax tree.
+ * @param statement The declaration statement.
+ * @returns The symbol, or null if the statement is not a supported declaration.
+ */
+function createDeclarationSymbol(
+    tree: SyntaxTree,
+    statement: StatementSyntax
+): DocumentSymbol | null {
+    if (!statement.name || !statement.keyword) return null;
+    let kind = DECLARATION_KINDS[statement.kind];
+    let keyword = statement.keyword.text;
+    if (statement.kind === StatementKind.Declare || statement.kind === StatementKind.Delegate) {
+        if (!statement.methodKeyword) return null;
+        keyword += ` ${statement.methodKeyword.text}`;
+        if (statement.kind === StatementKind.Declare) {
+            // External methods are reported like the Sub/Function they declare
+            kind =
+                statement.methodKeyword.value === 'sub' ? SymbolKind.Method : SymbolKind.Function;
         }
+    }
+    if (kind === undefined) return null;
+
+    const name = statement.name.text;
+    let detail = `${keyword} ${name}`;
+    if (statement.typeParameters) detail += `(${statement.typeParameters.text})`;
+    if (statement.library) detail += ` ${statement.library} `;
+    if (statement.parameterList) detail += `(${statement.parameterList.text})`;
+    // Signatures without a body include their type (e.g. `Event Changed As EventHandler`)
+    if (statement.asClause && SIGNATURE_KINDS.has(statement.kind)) {
+        detail += ` As ${statement.asClause.text}`;
+    }
 
-        // 8. Check for Regions
-        const regionMatch = PARSER_REGION_START_REGEX.exec(trimmed);
-        if (regionMatch) {
-            const name = regionMatch[1].trim(); // Can be string literal
-            const symbol: DocumentSymbol = {
-                name: name,
-                kind: SymbolKind.Namespace, // Visual grouping
-                detail: '#Region',
-                range: {
-                    start: { line: i, character: 0 },
-                    end: { line: i, character: rawLine.length }
-                },
-                selectionRange: {
-                    start: { line: i, character: 0 },
-                    end: { line: i, character: trimmed.length }
-                },
-                children: []
-            };
-            addSymbol(symbol);
-            stack.push(symbol);
-            Logger.debug(`Parser: Opened region '${name}' at line ${i}`);
-            continue;
-        }
+    const children: DocumentSymbol[] = (statement.parameters || []).map((parameter) => ({
+        name: parameter.name.text,
+        kind: SymbolKind.Variable,
+        detail: `Argument ${parameter.name.text} As ${parameter.type?.text || 'Object'}`,
+        range: parameter.name.range,
+        selectionRange: parameter.name.range,
+        children: []
+    }));
+
+    return {
+        name,
+        kind,
+        detail,
+        range: fullLineRange(tree, statement.range.start.line, statement.range.end.line),
+        selectionRange: statement.name.range,
+        children
+    };
+}
 
-        // 9. Check for inner blocks (If, For, Select, Do, While)
-        let innerBlockName = '';
-        if (VAL_IF_START_REGEX.test(trimmed)) {
-            // Check if it's a block If
-            const hasThen = VAL_THEN_REGEX.test(trimmed);
-            if (!hasThen || trimmed.endsWith('Then') || trimmed.endsWith("Then '")) {
-                // If ... Then [EOL]
-                innerBlockName = 'If';
-            }
-            // If ... Then x -> Single line, ignore
-        } else if (VAL_FOR_START_REGEX.test(trimmed)) {
-            innerBlockName = 'For';
-        } else if (VAL_SELECT_CASE_START_REGEX.test(trimmed)) {
-            innerBlockName = 'Select';
-        } else if (VAL_DO_START_REGEX.test(trimmed)) {
-            innerBlockName = 'Do';
-        } else if (VAL_WHILE_START_REGEX.test(trimmed)) {
-            innerBlockName = 'While';
+/**
+ * Gets the value of an enum member: its initializer, or the value implied by the previous
+ * member (0 for the first member, otherwise the previous numeric value plus one).
+ * @param statement The enum member statement.
+ * @returns The value as written or computed, or undefined if it cannot be determined.
+ */
+function getEnumMemberValue(statement: StatementSyntax): string | undefined {
+    let previous: number | undefined = -1;
+    for (const member of statement.parent?.members || []) {
+        if (member.nodeType !== 'statement' || member.kind !== StatementKind.EnumMember) continue;
+        const initializer = member.declarators?.[0]?.initializer;
+        if (member === statement) {
+            return initializer ?? (previous !== undefined ? String(previous + 1) : undefined);
         }
-
-        if (innerBlockName) {
-            const symbol: DocumentSymbol = {
-                name: innerBlockName,
-                kind: SymbolKind.Namespace, // Use Namespace as placeholder for Scope/Block
-                detail: trimmed,
-                range: {
-                    start: { line: i, character: 0 },
-                    end: { line: i, character: rawLine.length }
-                },
-                selectionRange: {
-                    start: { line: i, character: 0 },
-                    end: { line: i, character: innerBlockName.length }
-                },
-                children: []
-            };
-            addSymbol(symbol);
-            stack.push(symbol);
-            Logger.debug(`Parser: Opened inner block '${innerBlockName}' at line ${i}`);
-            continue;
+        if (initializer !== undefined) {
+            previous = /^-?\d+$/.test(initializer) ? Number(initializer) : undefined;
+        } else if (previous !== undefined) {
+            previous++;
         }
     }
+    return undefined;
+}
 
-    // Close any remaining symbols on the stack (unclosed blocks)
-    // Set their end range to the end of the document
-    if (stack.length > 0) {
-        const lastLine = lines.length - 1;
-        const lastChar = lines[lastLine].length;
-        while (stack.length > 0) {
-            const sym = stack.pop();
-            if (sym) {
-                sym.range.end = { line: lastLine, character: lastChar };
-            }
-        }
+/**
+ * Gets the source text of a statement, without comments.
+ * Statements spanning several lines (line continuations) are joined into one line.
+ * @param tree The syntax tree.
+ * @param statement The statement.
+ * @returns The text from the first to the last token of the statement.
+ */
+function statementText(tree: SyntaxTree, statement: StatementSyntax): string {
+    const first = statement.tokens[0];
+    const last = statement.tokens[statement.tokens.length - 1];
+    if (first.line === last.line) {
+        return tree.lines[first.line].substring(first.character, last.character + last.text.length);
     }
+    return joinTokens(statement.tokens);
+}
 
-    Logger.debug(`Parser: Found ${rootSymbols.length} top-level symbols.`);
-    return rootSymbols;
+/**
+ * Creates a range spanning whole lines.
+ * @param tree The syntax tree.
+ * @param startLine The first line.
+ * @param endLine The last line.
+ * @returns The range from the start of `startLine` to the end of `endLine`.
+ */
+function fullLineRange(tree: SyntaxTree, startLine: number, endLine: number): Range {
+    return Range.create(startLine, 0, endLine, tree.lines[endLine].length);
 }
 
 /**
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Logger } from './logger';
+
+/** Directories that never contain project sources (dependencies, build output, VCS data). */
+const EXCLUDED_DIRECTORIES = new Set(['node_modules', '.git', '.vs', 'bin', 'obj']);
+
+/**
+ * Converts a `file:` URI to a file system path.
+ * @param uri The URI.
+ * @returns The path, or null for other schemes and malformed URIs.
+ */
+export function uriToPath(uri: string): string | null {
+    if (!uri.startsWith('file:')) return null;
+    try {
+        return path.normalize(fileURLToPath(uri));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Normalizes a path for use as a map key. Clients may encode URIs differently
+ * (e.g. `c%3A` vs `C:`), so files are keyed by path; Windows paths are case-insensitive.
+ * @param filePath The file system path.
+ * @returns The key.
+ */
+export function pathKey(filePath: string): string {
+    return process.platform === 'win32' ? filePath.toLowerCase() : filePath;
+}
+
+/**
+ * Recursively finds the files below a directory, skipping excluded directories.
+ * @param directory The directory to search.
+ * @param predicate Selects the files to return (by file name).
+ * @returns The absolute paths of the matching files.
+ */
+export async function findFiles(
+    directory: string,
+    predicate: (name: string) => boolean
+): Promise<string[]> {
+    const result: string[] = [];
+    let entries: fs.Dirent[];
+    try {
+        entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+        Logger.debug(`Paths: Could not read directory ${directory}: ${error}`);
+        return result;
+    }
+    for (const entry of entries) {
+        const fullPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            if (!EXCLUDED_DIRECTORIES.has(entry.name.toLowerCase())) {
+                result.push(...(await findFiles(fullPath, predicate)));
+            }
+        } else if (entry.isFile() && predicate(entry.name)) {
+            result.push(fullPath);
+        }
+    }
+    return result;
+}
+
+/**
+ * Converts a glob (or MSBuild item pattern) to a regular expression. `**` matches any number of
+ * directories, `*` and `?` match within one path segment. Matching ignores case like MSBuild
+ * does on Windows.
+ * @param pattern The relative, `/`-separated pattern.
+ * @returns The regular expression matching relative paths.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (c === '*' && pattern[i + 1] === '*') {
+            // `**/` also matches no directory at all
+            source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += pattern[i + 2] === '/' ? 2 : 1;
+        } else if (c === '*') {
+            source += '[^/]*';
+        } else if (c === '?') {
+            source += '[^/]';
+        } else {
+            source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, 'i');
+}
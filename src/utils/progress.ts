@@ -0,0 +1,96 @@
+import { CancellationToken, WorkDoneProgressReporter } from 'vscode-languageserver/node';
+import { Logger } from './logger';
+
+/**
+ * The cancellation token and work-done progress of a request (or of a server-initiated
+ * operation such as workspace indexing). Both are optional, so features can be called without
+ * them (e.g. from tests or other features).
+ */
+export interface RequestContext {
+    token?: CancellationToken;
+    progress?: WorkDoneProgressReporter;
+    /** Replaces the default progress title of the operation (e.g. "Renaming" for references). */
+    title?: string;
+}
+
+/**
+ * Thrown when the client cancelled the request an operation runs for.
+ * `safeHandler` answers cancelled requests with the handler's default value.
+ */
+export class OperationCancelledError extends Error {
+    constructor() {
+        super('Operation cancelled');
+    }
+}
+
+/**
+ * Aborts an operation if its request was cancelled.
+ * @param token The cancellation token of the request, if any.
+ */
+export function throwIfCancelled(token: CancellationToken | undefined): void {
+    if (token?.isCancellationRequested) {
+        throw new OperationCancelledError();
+    }
+}
+
+/**
+ * Lets the event loop run before the next step of an operation, then aborts the operation if
+ * its request was cancelled. The connection only reads the client's `$/cancelRequest` between
+ * event loop turns, so a loop that never yields cannot see that it was cancelled.
+ * @param token The cancellation token of the request, if any.
+ */
+export async function yieldAndCheckCancelled(token: CancellationToken | undefined): Promise<void> {
+    await new Promise<void>((resolve) => setImmediate(resolve));
+    throwIfCancelled(token);
+}
+
+/**
+ * Reports the progress of an operation over a known number of items (usually documents) and
+ * yields to the event loop and checks for cancellation before each item.
+ */
+export class ProgressTracker {
+    private context: RequestContext;
+    private total: number;
+    private completed = 0;
+    private lastPercentage = 0;
+
+    /**
+     * Begins the progress.
+     * @param context The request context.
+     * @param title The title shown by the client, unless the context overrides it.
+     * @param total The number of items.
+     */
+    constructor(context: RequestContext, title: string, total: number) {
+        this.context = context;
+        this.total = total;
+        context.progress?.begin(context.title ?? title, 0, undefined, context.token !== undefined);
+    }
+
+    /**
+     * Marks the start of the next item: yields to the event loop and aborts if the request was
+     * cancelled, otherwise reports the share of completed items when it grew by at least one
+     * percent.
+     * @param message The message shown with the progress (e.g. the file being processed).
+     */
+    public async next(message?: string): Promise<void> {
+        await yieldAndCheckCancelled(this.context.token);
+        const percentage = Math.floor((this.completed * 100) / Math.max(this.total, 1));
+        if (percentage > this.lastPercentage) {
+            if (message !== undefined) {
+                this.context.progress?.report(percentage, message);
+            } else {
+                this.context.progress?.report(percentage);
+            }
+            this.lastPercentage = percentage;
+        }
+        this.completed++;
+    }
+
+    /**
+     * Ends the progress (also after errors and cancellation).
+     */
+    public done(): void {
+        Logger.debug(`Progress: ${this.completed} of ${this.total} items processed.`);
+        this.context.progress?.done();
+    }
+}
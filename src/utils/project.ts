@@ -0,0 +1,366 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Logger } from './logger';
+import { uriToPath, pathKey, globToRegExp } from './paths';
+import { getDocumentModel } from './documentModel';
+
+/**
+ * Compiler options set by `<OptionX>` project properties or `Option X` statements.
+ * Options that are not set keep their Visual Basic default.
+ */
+export interface CompilerOptions {
+    explicit?: boolean;
+    strict?: boolean;
+    infer?: boolean;
+    /** True for `Option Compare Text`, false for `Option Compare Binary`. */
+    compareText?: boolean;
+}
+
+/**
+ * A `.vbproj` project file.
+ */
+export interface VbProject {
+    /** The path of the project file. */
+    path: string;
+    name: string;
+    /** The directory of the project file; compile items are relative to it. */
+    directory: string;
+    /** The `<RootNamespace>`, prefixed to every type declared in the project. */
+    rootNamespace?: string;
+    /** Namespaces imported into every file of the project (`<Import Include>`). */
+    imports: string[];
+    /** The `<Compile Include>` patterns (relative, `/`-separated, may contain wildcards). */
+    compileItems: string[];
+    /** The `<Compile Remove>` patterns. */
+    removedItems: string[];
+    /** True if all `.vb` files below the project directory are compiled (SDK-style projects). */
+    defaultCompileItems: boolean;
+    /** Paths of the referenced projects (`<ProjectReference Include>`). */
+    references: string[];
+    options: CompilerOptions;
+}
+
+/**
+ * The namespaces imported implicitly by SDK-style Visual Basic projects.
+ */
+const SDK_IMPORTS = [
+    'Microsoft.VisualBasic',
+    'System',
+    'System.Collections',
+    'System.Collections.Generic',
+    'System.Diagnostics',
+    'System.Linq',
+    'System.Xml.Linq',
+    'System.Threading.Tasks'
+];
+
+/** The defaults used by the compiler when neither the project nor the file sets an option. */
+const DEFAULT_OPTIONS: Required<CompilerOptions> = {
+    explicit: true,
+    strict: false,
+    infer: true,
+    compareText: false
+};
+
+const projects: Map<string, VbProject> = new Map();
+/** The project of each source file looked up so far (cleared whenever a project changes). */
+const projectOfFile: Map<string, VbProject | undefined> = new Map();
+
+/**
+ * Checks if a file name or URI refers to a Visual Basic project file.
+ * @param name The file name, path or URI.
+ * @returns True for `.vbproj` files.
+ */
+export function isProjectFile(name: string): boolean {
+    return name.toLowerCase().endsWith('.vbproj');
+}
+
+/**
+ * Checks if a file name or URI refers to a solution file.
+ * @param name The file name, path or URI.
+ * @returns True for `.sln` files.
+ */
+export function isSolutionFile(name: string): boolean {
+    return name.toLowerCase().endsWith('.sln');
+}
+
+/**
+ * Parses the text of a `.vbproj` file. MSBuild conditions, property functions and imported
+ * `.props`/`.targets` files are not evaluated.
+ * @param text The XML text of the project file.
+ * @param projectPath The path of the project file.
+ * @returns The project.
+ */
+export function parseProjectFile(text: string, projectPath: string): VbProject {
+    // Comments may contain disabled items
+    const xml = text.replace(/<!--[\s\S]*?-->/g, '');
+    const directory = path.dirname(projectPath);
+    const property = (name: string): string | undefined => {
+        const match = new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`, 'i').exec(xml);
+        return match && match[1] ? match[1] : undefined;
+    };
+    const items = (element: string, attribute: string): string[] => {
+        const result: string[] = [];
+        const regex = new RegExp(`<${element}\\s[^>]*?\\b${attribute}\\s*=\\s*"([^"]*)"`, 'gi');
+        for (const match of xml.matchAll(regex)) {
+            result.push(...splitItems(match[1]));
+        }
+        return result;
+    };
+    const onOff = (name: string): boolean | undefined => {
+        const value = property(name)?.toLowerCase();
+        return value === 'on' ? true : value === 'off' ? false : undefined;
+    };
+
+    const isSdk = /<Project\s[^>]*\bSdk\s*=/i.test(xml);
+    const compare = property('OptionCompare')?.toLowerCase();
+    const imports = items('Import', 'Include');
+    const removedImports = new Set(items('Import', 'Remove').map((i) => i.toLowerCase()));
+    return {
+        path: projectPath,
+        name: path.basename(projectPath, path.extname(projectPath)),
+        directory,
+        rootNamespace: property('RootNamespace'),
+        imports: [...(isSdk ? SDK_IMPORTS : []), ...imports].filter(
+            (namespace, index, all) =>
+                !removedImports.has(namespace.toLowerCase()) && all.indexOf(namespace) === index
+        ),
+        compileItems: items('Compile', 'Include').map(normalizeItem),
+        removedItems: items('Compile', 'Remove').map(normalizeItem),
+        defaultCompileItems:
+            isSdk &&
+            property('EnableDefaultCompileItems')?.toLowerCase() !== 'false' &&
+            property('EnableDefaultItems')?.toLowerCase() !== 'false',
+        references: items('ProjectReference', 'Include').map((reference) =>
+            path.resolve(directory, normalizeItem(reference))
+        ),
+        options: {
+            explicit: onOff('OptionExplicit'),
+            strict: onOff('OptionStrict'),
+            infer: onOff('OptionInfer'),
+            compareText: compare === 'text' ? true : compare === 'binary' ? false : undefined
+        }
+    };
+}
+
+/**
+ * Parses the text of a `.sln` file.
+ * @param text The text of the solution file.
+ * @param solutionPath The path of the solution file.
+ * @returns The absolute paths of the Visual Basic projects in the solution.
+ */
+export function parseSolutionFile(text: string, solutionPath: string): string[] {
+    // Project("{type GUID}") = "Name", "Relative\Path.vbproj", "{project GUID}"
+    const regex = /^\s*Project\("[^"]*"\)\s*=\s*"[^"]*"\s*,\s*"([^"]+)"/gim;
+    const result: string[] = [];
+    for (const match of text.matchAll(regex)) {
+        if (isProjectFile(match[1])) {
+            result.push(path.resolve(path.dirname(solutionPath), normalizeItem(match[1])));
+        }
+    }
+    return result;
+}
+
+/**
+ * Reads a project file from disk and registers it, replacing a previous version.
+ * Projects that cannot be read are unregistered.
+ * @param projectPath The path of the `.vbproj` file.
+ * @returns The project, or null if the file could not be read.
+ */
+export async function loadProjectFile(projectPath: string): Promise<VbProject | null> {
+    let text: string;
+    try {
+        text = await fs.promises.readFile(projectPath, 'utf8');
+    } catch (error) {
+        Logger.debug(`Project: Could not read ${projectPath}: ${error}`);
+        removeProject(projectPath);
+        return null;
+    }
+    const project = parseProjectFile(text, path.normalize(projectPath));
+    projects.set(pathKey(project.path), project);
+    projectOfFile.clear();
+    Logger.log(
+        `Project: Loaded ${project.name} (${project.imports.length} imports, root namespace '${project.rootNamespace ?? ''}')`
+    );
+    return project;
+}
+
+/**
+ * Reads a solution file and loads the Visual Basic projects it lists, including projects outside
+ * the workspace folders (their source files are not indexed).
+ * @param solutionPath The path of the `.sln` file.
+ * @returns The projects that could be loaded.
+ */
+export async function loadSolutionFile(solutionPath: string): Promise<VbProject[]> {
+    let text: string;
+    try {
+        text = await fs.promises.readFile(solutionPath, 'utf8');
+    } catch (error) {
+        Logger.debug(`Project: Could not read ${solutionPath}: ${error}`);
+        return [];
+    }
+    const result: VbProject[] = [];
+    for (const projectPath of parseSolutionFile(text, solutionPath)) {
+        const project = projects.get(pathKey(projectPath)) ?? (await loadProjectFile(projectPath));
+        if (project) result.push(project);
+    }
+    return result;
+}
+
+/**
+ * Unregisters a project.
+ * @param projectPath The path of the `.vbproj` file.
+ */
+export function removeProject(projectPath: string): void {
+    projects.delete(pathKey(path.normalize(projectPath)));
+    projectOfFile.clear();
+}
+
+/**
+ * Unregisters all projects.
+ */
+export function clearProjects(): void {
+    projects.clear();
+    projectOfFile.clear();
+}
+
+/**
+ * Gets the registered projects.
+ * @returns The projects.
+ */
+export function getProjects(): VbProject[] {
+    return [...projects.values()];
+}
+
+/**
+ * Checks if a file is compiled as part of a project.
+ * @param project The project.
+ * @param filePath The path of the source file.
+ * @returns True if the file is a compile item of the project.
+ */
+export function isCompileItem(project: VbProject, filePath: string): boolean {
+    const relative = path.relative(project.directory, filePath).replace(/\\/g, '/');
+    if (path.isAbsolute(relative)) return false;
+    const matches = (pattern: string) => globToRegExp(pattern).test(relative);
+    if (project.removedItems.some(matches)) return false;
+    if (project.defaultCompileItems && !relative.startsWith('../')) {
+        // Build output is excluded from the default items
+        return !/^(?:bin|obj)\//i.test(relative);
+    }
+    return project.compileItems.some(matches);
+}
+
+/**
+ * Finds the project a document is compiled in. A file listed by several projects is assigned to
+ * the project with the innermost directory.
+ * @param uri The document URI.
+ * @returns The project, or undefined if the document belongs to no registered project.
+ */
+export function getProjectForDocument(uri: string): VbProject | undefined {
+    const filePath = uriToPath(uri);
+    if (!filePath || projects.size === 0) return undefined;
+    const key = pathKey(filePath);
+    if (projectOfFile.has(key)) return projectOfFile.get(key);
+    let result: VbProject | undefined;
+    for (const project of projects.values()) {
+        if (!isCompileItem(project, filePath)) continue;
+        if (!result || project.directory.length > result.directory.length) {
+            result = project;
+        }
+    }
+    projectOfFile.set(key, result);
+    return result;
+}
+
+/**
+ * Gets the namespaces that the project of a document imports into every file.
+ * @param uri The document URI.
+ * @returns The project-level imports (empty if the document belongs to no project).
+ */
+export function getProjectImports(uri: string): string[] {
+    return getProjectForDocument(uri)?.imports ?? [];
+}
+
+/**
+ * Gets the registered projects that a project references directly.
+ * @param project The project.
+ * @returns The referenced projects (references to projects that are not loaded are skipped).
+ */
+export function getReferencedProjects(project: VbProject): VbProject[] {
+    const result: VbProject[] = [];
+    for (const reference of project.references) {
+        const referenced = projects.get(pathKey(reference));
+        if (referenced) result.push(referenced);
+    }
+    return result;
+}
+
+/**
+ * Filters a list of documents down to those whose declarations a document can see: the files of
+ * its own project and of the projects it references. Documents outside any project only see
+ * other such documents. Without registered projects all documents are returned.
+ * @param document The document.
+ * @param allDocuments The candidate documents.
+ * @returns The visible documents.
+ */
+export function getProjectDocuments(
+    document: TextDocument,
+    allDocuments: TextDocument[]
+): TextDocument[] {
+    if (projects.size === 0) return allDocuments;
+    const project = getProjectForDocument(document.uri);
+    const visible = new Set<string | undefined>([project?.path]);
+    for (const reference of project ? getReferencedProjects(project) : []) {
+        visible.add(reference.path);
+    }
+    return allDocuments.filter(
+        (d) => d.uri === document.uri || visible.has(getProjectForDocument(d.uri)?.path)
+    );
+}
+
+/**
+ * Gets the effective compiler options of a document: `Option` statements in the file override
+ * the project properties, which override the compiler defaults.
+ * @param document The text document.
+ * @returns The options.
+ */
+export function getCompilerOptions(document: TextDocument): Required<CompilerOptions> {
+    const options = { ...DEFAULT_OPTIONS };
+    const projectOptions = getProjectForDocument(document.uri)?.options ?? {};
+    for (const key of Object.keys(options) as (keyof CompilerOptions)[]) {
+        if (projectOptions[key] !== undefined) options[key] = projectOptions[key]!;
+    }
+
+    for (const statement of getDocumentModel(document).declarations.options) {
+        // Option Strict [On|Off] / Option Compare Binary|Text; a missing value means On
+        const [, name, value] = statement.tokens.map((t) => t.value);
+        const on = value !== 'off';
+        if (name === 'explicit') options.explicit = on;
+        else if (name === 'strict') options.strict = on;
+        else if (name === 'infer') options.infer = on;
+        else if (name === 'compare') options.compareText = value === 'text';
+    }
+    return options;
+}
+
+/**
+ * Splits a `;`-separated item list.
+ * @param value The attribute value.
+ * @returns The non-empty items.
+ */
+function splitItems(value: string): string[] {
+    return value
+        .split(';')
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+}
+
+/**
+ * Normalizes an item path written in MSBuild (Windows) syntax.
+ * @param item The item path.
+ * @returns The path with `/` separators and no leading `./`.
+ */
+function normalizeItem(item: string): string {
+    return item.replace(/\\/g, '/').replace(/^(?:\.\/)+/, '');
+}
@@ -1,39 +1,13 @@
 /**
- * Centralized regular expression definitions for parsing, validation, and formatting.
+ * Centralized regular expression definitions for validation, formatting, and folding.
  * Keeping regexes here ensures consistency across different features.
+ * Document symbols are derived from the syntax tree (see `syntaxTree.ts`) instead.
  */
 
 /** Pattern for matching access modifiers (Public, Private, Friend, Protected, etc.). */
 export const MODIFIER_PATTERN =
     '(?:Public|Private|Friend|Protected|Shared|Static|Overridable|Overrides|MustOverride|NotOverridable|MustInherit|NotInheritable|Partial|ReadOnly|WriteOnly|Shadows|Widening|Narrowing|Custom|Async|Iterator)';
 
-// Patterns
-// Updated BLOCK_START_PATTERN to optionally capture arguments in parens.
-// Groups: 1=Modifier (last one), 2=Type, 3=Name, 4=Args
-const BLOCK_START_PATTERN = `^\\s*(?:(${MODIFIER_PATTERN})\\s+)*(Sub|Function|Class|Module|Property|Structure|Interface|Enum|Namespace)\\s+(\\w+)(?:\\s*\\(([^)]*)\\))?`;
-const DIM_PATTERN = `^\\s*Dim\\s+(\\w+)(?:\\s+As\\s+(\\w+))?`;
-const CONST_PATTERN = `^\\s*(?:(${MODIFIER_PATTERN})\\s+)*Const\\s+(\\w+)(?:\\s+As\\s+(\\w+))?`;
-const FIELD_PATTERN = `^\\s*(?:(${MODIFIER_PATTERN})\\s+)+(\\w+)(?:\\s+As\\s+(\\w+))?`;
-
-// For Parser (Global + Multiline + Case Insensitive)
-
-/** Regex for parsing block starts (Sub, Function, Class, Module, Property, Structure, Interface, Enum, Namespace). */
-export const PARSER_BLOCK_REGEX = new RegExp(BLOCK_START_PATTERN, 'i');
-/** Regex for parsing Dim statements. */
-export const PARSER_DIM_REGEX = new RegExp(DIM_PATTERN, 'i');
-/** Regex for parsing Const statements. */
-export const PARSER_CONST_REGEX = new RegExp(CONST_PATTERN, 'i');
-/** Regex for parsing fields (module-level variables). */
-export const PARSER_FIELD_REGEX = new RegExp(FIELD_PATTERN, 'i');
-/** Regex for parsing Imports statements. Group 1: Namespace */
-export const PARSER_IMPORTS_REGEX = /^\s*Imports\s+([\w.]+)/i;
-/** Regex for parsing Region start. Group 1: Name */
-export const PARSER_REGION_START_REGEX = /^\s*#Region\s+(.*)$/i;
-/** Regex for parsing Region end. */
-export const PARSER_REGION_END_REGEX = /^\s*#End\s+Region\b/i;
-/** Regex for parsing Implements statements. Group 1: Interface Name */
-export const PARSER_IMPLEMENTS_REGEX = /^\s*Implements\s+([\w.]+)/i;
-
 // For Validation (Line by Line)
 
 /** Regex for validating the start of a block. */
@@ -63,7 +37,9 @@ export const VAL_LOOP_REGEX = /^\s*Loop\b/i;
 export const VAL_WEND_REGEX = /^\s*Wend\b/i;
 
 /** Regex for detecting Dim statements without an 'As' clause. */
-export const VAL_DIM_REGEX = /^\s*Dim\s+\w+\s*$/i; // Detect Dim x (without As)
+export const VAL_DIM_REGEX = /^\s*Dim\s+\w+(?:\s*,\s*\w+)*\s*$/i; // Detect Dim x / Dim x, y (without As)
+/** Regex for detecting Dim statements whose type is inferred from the initializer (Dim x = 1). */
+export const VAL_DIM_INFERRED_REGEX = /^\s*Dim\s+\w+\s*=/i;
 /** Regex for detecting Const statements, optionally checking for value assignment. */
 export const VAL_CONST_REGEX = new RegExp(
     `^\\s*(?:(${MODIFIER_PATTERN})\\s+)*Const\\s+(\\w+)(?:\\s+As\\s+(\\w+))?\\s*(?:'.*)?$`,
@@ -73,8 +49,6 @@ export const VAL_CONST_REGEX = new RegExp(
 export const VAL_RETURN_REGEX = /^\s*Return\b/i;
 /** Regex for detecting Exit statements. Group 1: Sub|Function|... */
 export const VAL_EXIT_REGEX = /^\s*Exit\s+(Sub|Function|Property|Do|For|Select|While)\b/i;
-/** Regex for detecting Throw statements. */
-export const VAL_THROW_REGEX = /^\s*Throw\b/i;
 /** Regex for detecting variable assignment (e.g. x = 1). Group 1: Variable Name */
 export const VAL_ASSIGNMENT_REGEX = /^\s*(\w+)\s*=/i;
 
@@ -1,31 +1,56 @@
+import { CancellationToken, WorkDoneProgressReporter } from 'vscode-languageserver/node';
 import { Logger } from './logger';
+import { OperationCancelledError } from './progress';
 
 /**
  * Wraps an LSP request handler with try-catch logic for safe execution.
  * Logs any errors that occur during execution and returns a default value.
  * Also logs the start and end of the operation for debugging.
+ * Requests cancelled by the client (before the handler starts, or by an
+ * `OperationCancelledError` while it runs) are answered with the default value as well.
+ * Errors of handlers returning a promise are handled the same way.
  *
- * @param handler The handler function to wrap.
+ * @param handler The handler function to wrap. It receives the cancellation token and the
+ *                work-done progress reporter of the request.
  * @param defaultValue The value to return if the handler throws an error.
  * @param operationName The name of the operation (for logging purposes).
  * @returns A safe version of the handler.
  */
 export function safeHandler<T, R>(
-    handler: (params: T) => R,
+    handler: (
+        params: T,
+        token?: CancellationToken,
+        workDoneProgress?: WorkDoneProgressReporter
+    ) => R,
     defaultValue: R,
     operationName: string
-): (params: T) => R {
-    return (params: T) => {
+): (params: T, token?: CancellationToken, workDoneProgress?: WorkDoneProgressReporter) => R {
+    const handleError = (error: unknown): R => {
+        if (error instanceof OperationCancelledError) {
+            Logger.debug(`[${operationName}] Cancelled`);
+        } else {
+            Logger.error(`${operationName} failed: ${error}`);
+        }
+        return defaultValue;
+    };
+
+    return (params: T, token?: CancellationToken, workDoneProgress?: WorkDoneProgressReporter) => {
+        if (token?.isCancellationRequested) {
+            Logger.debug(`[${operationName}] Cancelled before start`);
+            return defaultValue;
+        }
         Logger.debug(`[${operationName}] Started`);
         const start = Date.now();
         try {
-            const result = handler(params);
+            const result = handler(params, token, workDoneProgress);
             const duration = Date.now() - start;
             Logger.debug(`[${operationName}] Finished in ${duration}ms`);
+            if (result instanceof Promise) {
+                return result.catch(handleError) as R;
+            }
             return result;
         } catch (error) {
-            Logger.error(`${operationName} failed: ${error}`);
-            return defaultValue;
+            return handleError(error);
         }
     };
 }
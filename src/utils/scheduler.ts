@@ -1,20 +1,45 @@
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { Connection, TextDocuments } from 'vscode-languageserver/node';
+import { Connection } from 'vscode-languageserver/node';
 import { validateTextDocument } from '../features/validation';
+import { DependencyGraph } from './dependencies';
 import { Logger } from './logger';
+import { VbSettings } from './settings';
 
 /**
  * Manages the scheduling of document validation to prevent excessive processing.
  * Implements a debounce mechanism (200ms) so validation only runs after the user stops typing.
+ * After validating a document whose declarations changed, the open documents that depend on
+ * them are scheduled as well.
  */
 export class ValidationScheduler {
     private validationTimers: Map<string, NodeJS.Timeout> = new Map();
     private connection: Connection;
-    private documents: TextDocuments<TextDocument>;
+    private getDocuments: () => TextDocument[];
+    private getSettings: (uri: string) => Promise<VbSettings>;
+    private getOpenDocument: (uri: string) => TextDocument | undefined;
+    private dependencies: DependencyGraph;
 
-    constructor(connection: Connection, documents: TextDocuments<TextDocument>) {
+    /**
+     * @param connection The connection used to publish diagnostics.
+     * @param getDocuments Provides the project documents used for cross-file checks.
+     * @param getSettings Provides the settings of a document.
+     * @param getOpenDocument Gets an open document. Diagnostics are only published for documents
+     *                        that are still open at the validated version, and only open
+     *                        documents are revalidated when a document they depend on changes.
+     * @param dependencies The dependencies between documents.
+     */
+    constructor(
+        connection: Connection,
+        getDocuments: () => TextDocument[],
+        getSettings: (uri: string) => Promise<VbSettings>,
+        getOpenDocument: (uri: string) => TextDocument | undefined,
+        dependencies: DependencyGraph = new DependencyGraph()
+    ) {
         this.connection = connection;
-        this.documents = documents;
+        this.getDocuments = getDocuments;
+        this.getSettings = getSettings;
+        this.getOpenDocument = getOpenDocument;
+        this.dependencies = dependencies;
     }
 
     /**
@@ -29,21 +54,46 @@ export class ValidationScheduler {
             clearTimeout(this.validationTimers.get(uri)!);
         }
 
-        const timer = setTimeout(() => {
+        const timer = setTimeout(async () => {
             try {
                 Logger.debug(`Scheduler: Running validation for ${uri}`);
-                const diagnostics = validateTextDocument(document, this.documents.all());
+                const settings = await this.getSettings(uri);
+                const allDocuments = this.getDocuments();
+                const diagnostics = validateTextDocument(document, allDocuments, settings);
+                // The document may have been closed or edited while the settings were fetched
+                if (this.getOpenDocument(uri)?.version !== document.version) {
+                    Logger.debug(`Scheduler: Discarding diagnostics of ${uri}, which changed.`);
+                    return;
+                }
                 this.connection.sendDiagnostics({ uri: document.uri, diagnostics });
+                this.scheduleDependents(document, allDocuments);
             } catch (error) {
                 Logger.error(`Validation failed: ${error}`);
             } finally {
-                this.validationTimers.delete(uri);
+                // A newer validation may have been scheduled in the meantime
+                if (this.validationTimers.get(uri) === timer) this.validationTimers.delete(uri);
             }
         }, 200); // 200ms delay
 
         this.validationTimers.set(uri, timer);
     }
 
+    /**
+     * Schedules the open documents affected by the declarations of a document, unless their own
+     * validation is already pending.
+     * @param document The validated document.
+     * @param allDocuments All documents of the workspace.
+     */
+    private scheduleDependents(document: TextDocument, allDocuments: TextDocument[]) {
+        for (const uri of this.dependencies.update(document, allDocuments)) {
+            const dependent = this.getOpenDocument(uri);
+            if (dependent && !this.validationTimers.has(uri)) {
+                Logger.debug(`Scheduler: ${uri} depends on ${document.uri}`);
+                this.scheduleValidation(dependent);
+            }
+        }
+    }
+
     /**
      * Clears any pending validation for the given document.
      * @param document The text document.
@@ -0,0 +1,304 @@
+import { Connection, Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { Logger } from './logger';
+import { getRule } from '../rules';
+
+/** The configuration section read from the client. */
+export const SETTINGS_SECTION = 'simpleVB';
+
+/** The level of a rule: `off` disables it, the others set the severity of its diagnostics. */
+export type RuleLevel = 'off' | 'hint' | 'info' | 'warning' | 'error';
+
+/** A naming convention; `any` disables the check for the symbol kind. */
+export type NamingStyle = 'camelCase' | 'PascalCase' | 'UPPER_CASE' | 'any';
+
+/** The procedures checked by the `unused-parameter` rule. */
+export type UnusedParameterScope = 'all' | 'nonPublic';
+
+/**
+ * The naming conventions checked by the `naming-convention` rule, per symbol kind.
+ */
+export interface NamingSettings {
+    /** Variables declared in a Sub, Function, Property or constructor. */
+    localVariable: NamingStyle;
+    parameter: NamingStyle;
+    /** Variables declared in a Class, Module or Structure. */
+    field: NamingStyle;
+    constant: NamingStyle;
+    /** Subs and Functions. */
+    method: NamingStyle;
+    /** Classes, Modules, Structures, Interfaces and Enums. */
+    type: NamingStyle;
+}
+
+/**
+ * Settings of the validator (`simpleVB.diagnostics.*`).
+ */
+export interface DiagnosticSettings {
+    /** The maximum line length; 0 disables the `line-too-long` rule. */
+    maxLineLength: number;
+    /** Number literals that are not reported as magic numbers. */
+    allowedNumbers: number[];
+    /** Levels of individual rules, keyed by rule ID or name. */
+    rules: Record<string, RuleLevel>;
+    naming: NamingSettings;
+    /** Which procedures `unused-parameter` checks: all of them or only the non-public ones. */
+    unusedParameters: UnusedParameterScope;
+}
+
+/** The casing the formatter applies to keywords; `preserve` leaves them as written. */
+export type KeywordCasing = 'pascal' | 'lower' | 'upper' | 'preserve';
+
+/**
+ * Settings of the formatter (`simpleVB.format.*`). The indentation comes from the formatting
+ * options of the request.
+ */
+export interface FormatSettings {
+    keywordCasing: KeywordCasing;
+}
+
+/**
+ * The server settings (the `simpleVB` configuration section).
+ */
+export interface VbSettings {
+    diagnostics: DiagnosticSettings;
+    format: FormatSettings;
+}
+
+/** The settings used when the client does not provide any. */
+export const DEFAULT_SETTINGS: VbSettings = {
+    diagnostics: {
+        maxLineLength: 120,
+        allowedNumbers: [0, 1],
+        rules: {},
+        naming: {
+            localVariable: 'camelCase',
+            parameter: 'camelCase',
+            field: 'any',
+            constant: 'any',
+            method: 'any',
+            type: 'any'
+        },
+        unusedParameters: 'all'
+    },
+    format: {
+        keywordCasing: 'pascal'
+    }
+};
+
+const RULE_LEVELS: Record<Exclude<RuleLevel, 'off'>, DiagnosticSeverity> = {
+    hint: DiagnosticSeverity.Hint,
+    info: DiagnosticSeverity.Information,
+    warning: DiagnosticSeverity.Warning,
+    error: DiagnosticSeverity.Error
+};
+
+const NAMING_STYLES: NamingStyle[] = ['camelCase', 'PascalCase', 'UPPER_CASE', 'any'];
+
+const UNUSED_PARAMETER_SCOPES: UnusedParameterScope[] = ['all', 'nonPublic'];
+
+export const KEYWORD_CASINGS: KeywordCasing[] = ['pascal', 'lower', 'upper', 'preserve'];
+
+/**
+ * Validates raw settings sent by the client and fills in the defaults. Invalid values are
+ * logged and replaced by their default, so a typo in one setting does not disable the others.
+ * @param raw The value of the `simpleVB` configuration section.
+ * @returns The complete settings.
+ */
+export function normalizeSettings(raw: unknown): VbSettings {
+    const defaults = DEFAULT_SETTINGS.diagnostics;
+    const section = isObject(raw) && isObject(raw.diagnostics) ? raw.diagnostics : {};
+
+    let maxLineLength = defaults.maxLineLength;
+    if (section.maxLineLength !== undefined) {
+        if (typeof section.maxLineLength === 'number' && section.maxLineLength >= 0) {
+            maxLineLength = section.maxLineLength;
+        } else {
+            Logger.warn(`Settings: Invalid maxLineLength '${section.maxLineLength}'.`);
+        }
+    }
+
+    let allowedNumbers = defaults.allowedNumbers;
+    if (section.allowedNumbers !== undefined) {
+        if (
+            Array.isArray(section.allowedNumbers) &&
+            section.allowedNumbers.every((n) => typeof n === 'number')
+        ) {
+            allowedNumbers = section.allowedNumbers;
+        } else {
+            Logger.warn('Settings: allowedNumbers must be an array of numbers.');
+        }
+    }
+
+    const rules: Record<string, RuleLevel> = {};
+    if (isObject(section.rules)) {
+        for (const [key, level] of Object.entries(section.rules)) {
+            const rule = getRule(key);
+            if (!rule) {
+                Logger.warn(`Settings: Unknown rule '${key}'.`);
+            } else if (level !== 'off' && !(typeof level === 'string' && level in RULE_LEVELS)) {
+                Logger.warn(`Settings: Invalid level '${level}' for rule '${key}'.`);
+            } else {
+                rules[rule.id] = level as RuleLevel;
+            }
+        }
+    }
+
+    const naming = { ...defaults.naming };
+    if (isObject(section.naming)) {
+        for (const kind of Object.keys(naming) as (keyof NamingSettings)[]) {
+            const style = section.naming[kind];
+            if (style === undefined) continue;
+            if (NAMING_STYLES.includes(style as NamingStyle)) {
+                naming[kind] = style as NamingStyle;
+            } else {
+                Logger.warn(`Settings: Invalid naming style '${style}' for '${kind}'.`);
+            }
+        }
+    }
+
+    let unusedParameters = defaults.unusedParameters;
+    if (section.unusedParameters !== undefined) {
+        if (UNUSED_PARAMETER_SCOPES.includes(section.unusedParameters as UnusedParameterScope)) {
+            unusedParameters = section.unusedParameters as UnusedParameterScope;
+        } else {
+            Logger.warn(`Settings: Invalid unusedParameters '${section.unusedParameters}'.`);
+        }
+    }
+
+    const format = { ...DEFAULT_SETTINGS.format };
+    const formatSection = isObject(raw) && isObject(raw.format) ? raw.format : {};
+    if (formatSection.keywordCasing !== undefined) {
+        if (KEYWORD_CASINGS.includes(formatSection.keywordCasing as KeywordCasing)) {
+            format.keywordCasing = formatSection.keywordCasing as KeywordCasing;
+        } else {
+            Logger.warn(`Settings: Invalid keyword casing '${formatSection.keywordCasing}'.`);
+        }
+    }
+
+    return {
+        diagnostics: { maxLineLength, allowedNumbers, rules, naming, unusedParameters },
+        format
+    };
+}
+
+/**
+ * Applies the configured rule levels to diagnostics: diagnostics of rules set to `off` are
+ * dropped and the others get the configured severity. Rules that are not configured keep the
+ * severity the validator chose.
+ * @param diagnostics The diagnostics (modified in place).
+ * @param settings The diagnostic settings.
+ * @returns The remaining diagnostics.
+ */
+export function applyRuleLevels(
+    diagnostics: Diagnostic[],
+    settings: DiagnosticSettings
+): Diagnostic[] {
+    return diagnostics.filter((diagnostic) => {
+        const level = settings.rules[String(diagnostic.code)];
+        if (level === undefined) return true;
+        if (level === 'off') return false;
+        diagnostic.severity = RULE_LEVELS[level];
+        return true;
+    });
+}
+
+/**
+ * Checks if a name follows a naming convention. Leading underscores are ignored.
+ * @param name The name.
+ * @param style The naming style.
+ * @returns True if the name matches (always for `any`).
+ */
+export function matchesNamingStyle(name: string, style: NamingStyle): boolean {
+    const bare = name.replace(/^_+/, '');
+    if (!bare) return true;
+    switch (style) {
+        case 'camelCase':
+            return !/^[A-Z]/.test(bare);
+        case 'PascalCase':
+            return !/^[a-z]/.test(bare);
+        case 'UPPER_CASE':
+            return !/[a-z]/.test(bare);
+        default:
+            return true;
+    }
+}
+
+/**
+ * Fetches the settings of each document through `workspace/configuration` and caches them until
+ * the configuration changes. Clients without the configuration capability push their settings
+ * with `workspace/didChangeConfiguration`; those global settings are used for all documents.
+ */
+export class SettingsManager {
+    private connection: Connection;
+    private hasConfigurationCapability = false;
+    private globalSettings: VbSettings = DEFAULT_SETTINGS;
+    private documentSettings: Map<string, Promise<VbSettings>> = new Map();
+
+    /**
+     * @param connection The connection used to request the configuration.
+     */
+    constructor(connection: Connection) {
+        this.connection = connection;
+    }
+
+    /**
+     * Sets whether the client supports the `workspace/configuration` request.
+     * @param supported True if the request is supported.
+     */
+    public setConfigurationCapability(supported: boolean): void {
+        this.hasConfigurationCapability = supported;
+    }
+
+    /**
+     * Gets the settings for a document.
+     * @param uri The document URI (the scope of the configuration request).
+     * @returns The settings.
+     */
+    public getSettings(uri: string): Promise<VbSettings> {
+        if (!this.hasConfigurationCapability) {
+            return Promise.resolve(this.globalSettings);
+        }
+        let result = this.documentSettings.get(uri);
+        if (!result) {
+            result = this.connection.workspace
+                .getConfiguration({ scopeUri: uri, section: SETTINGS_SECTION })
+                .then(normalizeSettings, (error) => {
+                    Logger.error(`Settings: Could not read the configuration: ${error}`);
+                    return DEFAULT_SETTINGS;
+                });
+            this.documentSettings.set(uri, result);
+        }
+        return result;
+    }
+
+    /**
+     * Handles a configuration change: drops the cached settings and, for clients without the
+     * configuration capability, takes over the pushed settings.
+     * @param settings The `settings` of the `workspace/didChangeConfiguration` notification.
+     */
+    public onConfigurationChanged(settings: unknown): void {
+        this.documentSettings.clear();
+        if (!this.hasConfigurationCapability) {
+            this.globalSettings = normalizeSettings(
+                isObject(settings) ? settings[SETTINGS_SECTION] : undefined
+            );
+        }
+    }
+
+    /**
+     * Drops the cached settings of a document (e.g. when it is closed).
+     * @param uri The document URI.
+     */
+    public clear(uri: string): void {
+        this.documentSettings.delete(uri);
+    }
+}
+
+/**
+ * Checks if a value is a plain object.
+ * @param value The value.
+ * @returns True for non-null, non-array objects.
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
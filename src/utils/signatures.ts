@@ -0,0 +1,564 @@
+import { DocumentSymbol, Position, SymbolKind } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { BUILTINS } from '../builtins';
+import { getDocumentModel } from './documentModel';
+import { Token, TokenKind } from './lexer';
+import { findSymbolAtPosition, findSymbolParent, parseDocumentSymbols } from './parser';
+import { ParameterSyntax, findDeclaration } from './syntaxTree';
+import {
+    ResolvedSymbol,
+    findInheritedMembers,
+    findTypeSymbol,
+    getExpressionBeforeDot,
+    getParameterType,
+    getTypeMembers,
+    inferExpressionType,
+    isWideningConversion
+} from './typeInference';
+
+/**
+ * A parameter of a procedure.
+ */
+export interface ParameterInfo {
+    name: string;
+    /** The declared type including an array suffix (e.g. `Integer()`); `Object` without `As`. */
+    type: string;
+    optional: boolean;
+    paramArray: boolean;
+    /** Whether the parameter is passed `ByRef`, so that the procedure may assign the argument. */
+    byRef: boolean;
+    /** Source text of the default value of an `Optional` parameter. */
+    defaultValue?: string;
+    /** The parameter as shown in signatures, e.g. `Optional age As Integer = 3`. */
+    label: string;
+    documentation: string;
+}
+
+/**
+ * The signature of one overload of a procedure.
+ */
+export interface Signature {
+    name: string;
+    parameters: ParameterInfo[];
+    /** The return type of a Function, undefined for Subs. */
+    returnType?: string;
+    /** The signature as shown in signature help, e.g. `Greet(other As Person)`. */
+    label: string;
+    documentation: string;
+    /** The declaration, or undefined for built-in functions. */
+    declaration?: ResolvedSymbol;
+}
+
+/**
+ * An argument of a call.
+ */
+export interface CallArgument {
+    /** The parameter name of a named argument (`name:=value`). */
+    name?: string;
+    /** The code tokens of the value (after `:=` for named arguments). */
+    tokens: Token[];
+    /** Offset of the first token of the argument, or of the separator before an empty one. */
+    offset: number;
+    /** Offset after the last token of the argument (equal to `offset` for an empty one). */
+    end: number;
+}
+
+/**
+ * A call with a parenthesized argument list, e.g. `Add(1, 2)` or `New Person("Ann")`.
+ */
+export interface CallSite {
+    /** The name of the called procedure (the type name for `New T(...)`). */
+    name: Token;
+    /** The arguments; empty for `()`. */
+    args: CallArgument[];
+    /** The closing parenthesis, or undefined if the argument list is not closed. */
+    close?: Token;
+    /** The overloads the call can resolve to (see `findSignatures`). */
+    signatures: Signature[];
+}
+
+/**
+ * A problem with the arguments of a call.
+ */
+export interface ArgumentProblem {
+    message: string;
+    /** The argument at fault, or undefined if the call as a whole is (missing arguments). */
+    argument?: CallArgument;
+}
+
+/** Details of procedures that have a parameter list. */
+const PROCEDURE_DETAIL = /^(?:Declare\s+)?(?:Sub|Function)\b/;
+
+/** Symbol kinds whose members are searched for globals (as in `findGlobalSymbol`). */
+const CONTAINER_KINDS = new Set<SymbolKind>([
+    SymbolKind.Class,
+    SymbolKind.Module,
+    SymbolKind.Namespace,
+    SymbolKind.Package,
+    SymbolKind.Struct,
+    SymbolKind.Interface,
+    SymbolKind.Enum
+]);
+
+/**
+ * Gets the signature of a declared procedure from its declaration in the syntax tree.
+ * @param declaration The procedure and its document.
+ * @returns The signature, or null if the symbol is not a Sub or Function.
+ */
+export function getSignature(declaration: ResolvedSymbol): Signature | null {
+    const { symbol, document } = declaration;
+    if (!symbol.detail || !PROCEDURE_DETAIL.test(symbol.detail)) return null;
+    const statement = findDeclaration(
+        getDocumentModel(document).declarations,
+        symbol.selectionRange
+    )?.statement;
+    const parameters = (statement?.parameters ?? []).map(toParameterInfo);
+    const isFunction = /^(?:Declare\s+)?Function\b/.test(symbol.detail);
+    return {
+        name: symbol.name,
+        parameters,
+        returnType: isFunction ? (statement?.asClause?.text ?? 'Object') : undefined,
+        label: `${symbol.name}(${parameters.map((p) => p.label).join(', ')})`,
+        documentation: `Signature for ${symbol.name}`,
+        declaration
+    };
+}
+
+/**
+ * Finds the overloads of a procedure called without qualifier: the declarations in scope (or
+ * inherited from a base class), else the global declarations of the workspace, followed by the
+ * built-in function of that name.
+ * @param name The procedure name.
+ * @param document The document containing the call.
+ * @param position The position of the call.
+ * @param allDocuments All documents of the workspace.
+ * @returns The signatures, in declaration order.
+ */
+export function findSignatures(
+    name: string,
+    document: TextDocument,
+    position: Position,
+    allDocuments: TextDocument[] = [document]
+): Signature[] {
+    const symbols = parseDocumentSymbols(document);
+    const local = findSymbolAtPosition(symbols, name, position);
+    let declarations: ResolvedSymbol[] = local
+        ? getOverloads(symbols, local).map((symbol) => ({ symbol, document }))
+        : findInheritedMembers(name, document, position, allDocuments);
+    if (!local && declarations.length === 0) {
+        // Members of the other modules of this document, then those of other documents
+        const others = allDocuments.filter((d) => d.uri !== document.uri);
+        for (const other of [document, ...others]) {
+            const found = collectGlobalSymbols(parseDocumentSymbols(other), name.toLowerCase());
+            declarations = declarations.concat(
+                found.map((symbol) => ({ symbol, document: other }))
+            );
+        }
+    }
+    const signatures = toSignatures(declarations);
+    const builtin = getBuiltinSignature(name);
+    if (builtin) signatures.push(builtin);
+    return signatures;
+}
+
+/**
+ * Finds the overloads of a method called on an expression, e.g. `Greet` in `p.Greet(`.
+ * @param expression The source text of the expression before the dot.
+ * @param name The method name.
+ * @param document The document containing the call.
+ * @param position The position of the call.
+ * @param allDocuments All documents of the workspace.
+ * @returns The signatures, or an empty array if the type of the expression is unknown.
+ */
+export function findMemberSignatures(
+    expression: string,
+    name: string,
+    document: TextDocument,
+    position: Position,
+    allDocuments: TextDocument[] = [document]
+): Signature[] {
+    const typeName = inferExpressionType(expression, document, position, allDocuments);
+    const type = typeName ? findTypeSymbol(typeName, document, position, allDocuments) : null;
+    if (!type) return [];
+    const lowerName = name.toLowerCase();
+    return toSignatures(
+        getTypeMembers(type, allDocuments).filter((m) => m.symbol.name.toLowerCase() === lowerName)
+    );
+}
+
+/**
+ * Finds the constructors (`Sub New`) of a type, for `New Person(`.
+ * @param typeName The type name.
+ * @param document The document containing the `New` expression.
+ * @param position The position of the expression.
+ * @param allDocuments All documents of the workspace.
+ * @returns The signatures of the constructors declared in the type.
+ */
+export function findConstructorSignatures(
+    typeName: string,
+    document: TextDocument,
+    position: Position,
+    allDocuments: TextDocument[] = [document]
+): Signature[] {
+    const type = findTypeSymbol(typeName, document, position, allDocuments);
+    if (!type) return [];
+    const constructors = (type.symbol.children ?? [])
+        .filter((c) => c.name.toLowerCase() === 'new')
+        .map((symbol) => ({ symbol, document: type.document }));
+    return toSignatures(constructors);
+}
+
+/**
+ * Splits the tokens of an argument list into arguments.
+ * @param tokens The code tokens after the opening parenthesis, up to the closing one (or the
+ *               cursor, for a call that is being typed).
+ * @param start The offset of the opening parenthesis, used for the offset of an empty first
+ *              argument.
+ * @returns The arguments; a single empty argument for `()`.
+ */
+export function parseArguments(tokens: Token[], start: number): CallArgument[] {
+    const args: CallArgument[] = [];
+    let current: Token[] = [];
+    let offset = start + 1;
+    let depth = 0;
+    const push = () => {
+        const named =
+            current.length >= 2 &&
+            (current[0].kind === TokenKind.Identifier || current[0].kind === TokenKind.Keyword) &&
+            current[1].text === ':=';
+        const last = current[current.length - 1];
+        args.push({
+            name: named ? current[0].text.replace(/^\[|\]$/g, '') : undefined,
+            tokens: named ? current.slice(2) : current,
+            offset: current.length > 0 ? current[0].offset : offset,
+            end: last ? last.offset + last.text.length : offset
+        });
+    };
+    for (const token of tokens) {
+        if (token.text === '(' || token.text === '{') depth++;
+        else if (token.text === ')' || token.text === '}') depth--;
+        if (token.text === ',' && depth === 0) {
+            push();
+            current = [];
+            offset = token.offset + 1;
+        } else {
+            current.push(token);
+        }
+    }
+    push();
+    return args;
+}
+
+/**
+ * Finds the calls with parenthesized arguments in a document and the procedures they can
+ * resolve to. Array indexes and calls of unknown procedures are returned without signatures.
+ * @param document The text document.
+ * @param allDocuments All documents of the workspace.
+ * @returns The calls, in document order (an outer call before the calls in its arguments).
+ */
+export function findCalls(
+    document: TextDocument,
+    allDocuments: TextDocument[] = [document]
+): CallSite[] {
+    const text = document.getText();
+    const calls: CallSite[] = [];
+    for (const statement of getDocumentModel(document).tree.statements) {
+        // Declarations with a parameter list only contain the parameters' default values
+        if (statement.parameterList) continue;
+        const declared = new Set(
+            (statement.declarators ?? []).map((d) => document.offsetAt(d.name.range.start))
+        );
+        const tokens = statement.tokens;
+        for (let i = 0; i + 1 < tokens.length; i++) {
+            const name = tokens[i];
+            if (name.kind !== TokenKind.Identifier || tokens[i + 1].text !== '(') continue;
+            if (declared.has(name.offset) || tokens[i + 2]?.value === 'of') continue;
+
+            const close = findClosingParenthesis(tokens, i + 1);
+            const inner = tokens.slice(i + 2, close < 0 ? tokens.length : close);
+            const position = document.positionAt(name.offset);
+            const previous = tokens[i - 1];
+            let signatures: Signature[];
+            if (previous?.text === '.') {
+                const expression = getExpressionBeforeDot(text, previous.offset);
+                signatures = findMemberSignatures(
+                    expression,
+                    name.text,
+                    document,
+                    position,
+                    allDocuments
+                );
+            } else if (previous?.value === 'new') {
+                signatures = findConstructorSignatures(name.text, document, position, allDocuments);
+            } else {
+                signatures = findSignatures(name.text, document, position, allDocuments);
+            }
+            calls.push({
+                name,
+                args: inner.length > 0 ? parseArguments(inner, tokens[i + 1].offset) : [],
+                close: close < 0 ? undefined : tokens[close],
+                signatures
+            });
+        }
+    }
+    return calls;
+}
+
+/**
+ * Checks whether a signature accepts the arguments of a call.
+ * @param signature The signature.
+ * @param args The arguments of the call.
+ * @returns The first problem, or null if the arguments match the parameters.
+ */
+export function checkArguments(signature: Signature, args: CallArgument[]): ArgumentProblem | null {
+    const parameters = signature.parameters;
+    // `GetItems(0)` indexes the result of a parameterless Function
+    if (parameters.length === 0 && signature.returnType) return null;
+
+    const assigned = new Set<number>();
+    for (let index = 0; index < args.length; index++) {
+        const argument = args[index];
+        const parameterIndex = getParameterIndex(signature, args, index);
+        if (parameterIndex < 0) {
+            const message = argument.name
+                ? `'${signature.name}' has no parameter named '${argument.name}'.`
+                : `Too many arguments to '${signature.name}'.`;
+            return { message, argument };
+        }
+        const parameter = parameters[parameterIndex];
+        if (parameter.paramArray && argument.name) {
+            return {
+                message: `ParamArray parameter '${parameter.name}' cannot be passed by name.`,
+                argument
+            };
+        }
+        if (parameter.paramArray && argument.tokens.length === 0) {
+            return {
+                message: `An argument cannot be omitted for ParamArray parameter '${parameter.name}'.`,
+                argument
+            };
+        }
+        if (assigned.has(parameterIndex) && !parameter.paramArray) {
+            return {
+                message: `Parameter '${parameter.name}' of '${signature.name}' already has an argument.`,
+                argument
+            };
+        }
+        // Omitted arguments (`Foo(1, , 3)`) leave the parameter unassigned
+        if (argument.tokens.length > 0) assigned.add(parameterIndex);
+    }
+
+    const missing = parameters.find((p, i) => !p.optional && !p.paramArray && !assigned.has(i));
+    if (missing) {
+        return {
+            message: `Argument not specified for parameter '${missing.name}' of '${signature.name}'.`
+        };
+    }
+    return null;
+}
+
+/**
+ * Finds the arguments that may be assigned by the called procedure: variables passed to a
+ * `ByRef` parameter of any overload of a procedure declared in the workspace.
+ * @param document The text document.
+ * @param allDocuments All documents of the workspace.
+ * @returns The offsets of the argument tokens.
+ */
+export function findByRefArguments(
+    document: TextDocument,
+    allDocuments: TextDocument[] = [document]
+): Set<number> {
+    const offsets = new Set<number>();
+    for (const call of findCalls(document, allDocuments)) {
+        call.args.forEach((argument, index) => {
+            if (argument.tokens.length !== 1) return;
+            const byRef = call.signatures.some(
+                (s) => s.parameters[getParameterIndex(s, call.args, index)]?.byRef
+            );
+            if (byRef) offsets.add(argument.tokens[0].offset);
+        });
+    }
+    return offsets;
+}
+
+/**
+ * Finds the parameter an argument is passed to.
+ * @param signature The signature.
+ * @param args The arguments of the call.
+ * @param index The index of the argument.
+ * @returns The parameter index, or -1 if the argument matches no parameter.
+ */
+export function getParameterIndex(
+    signature: Signature,
+    args: CallArgument[],
+    index: number
+): number {
+    const parameters = signature.parameters;
+    const name = args[index].name;
+    if (name) {
+        return parameters.findIndex((p) => p.name.toLowerCase() === name.toLowerCase());
+    }
+    const last = parameters.length - 1;
+    if (index > last && last >= 0 && parameters[last].paramArray) return last;
+    return index < parameters.length ? index : -1;
+}
+
+/**
+ * Chooses the overload that best matches the arguments of a call. Overloads that can take the
+ * arguments are preferred, then those whose parameter types match the argument types.
+ * @param signatures The overloads.
+ * @param args The arguments of the call.
+ * @param argumentTypes The inferred types of the arguments (undefined where unknown).
+ * @returns The index of the best overload (0 if none matches).
+ */
+export function selectSignature(
+    signatures: Signature[],
+    args: CallArgument[],
+    argumentTypes: (string | undefined)[]
+): number {
+    let best = 0;
+    let bestScore = -Infinity;
+    signatures.forEach((signature, i) => {
+        let score = 0;
+        args.forEach((arg, index) => {
+            const parameterIndex = getParameterIndex(signature, args, index);
+            if (parameterIndex < 0) {
+                score -= 100;
+                return;
+            }
+            const parameter = signature.parameters[parameterIndex];
+            const type = argumentTypes[index];
+            if (!type) return;
+            const parameterType =
+                parameter.paramArray && !type.endsWith(')')
+                    ? parameter.type.replace(/\(\)$/, '')
+                    : parameter.type;
+            if (type.toLowerCase() === parameterType.toLowerCase()) score += 2;
+            else if (isWideningConversion(type, parameterType)) score += 1;
+            else score -= 10;
+        });
+        // Prefer the overload with the fewest unused parameters
+        score -= Math.max(0, signature.parameters.length - args.length) / 100;
+        if (score > bestScore) {
+            best = i;
+            bestScore = score;
+        }
+    });
+    return best;
+}
+
+/**
+ * Finds the parenthesis closing an opening one.
+ * @param tokens The tokens.
+ * @param open The index of the opening parenthesis.
+ * @returns The index of the closing parenthesis, or -1 if it is missing.
+ */
+function findClosingParenthesis(tokens: Token[], open: number): number {
+    let depth = 0;
+    for (let i = open; i < tokens.length; i++) {
+        if (tokens[i].text === '(') depth++;
+        else if (tokens[i].text === ')' && --depth === 0) return i;
+    }
+    return -1;
+}
+
+/**
+ * Gets the signature of a built-in function.
+ * @param name The function name.
+ * @returns The signature, or null if there is no built-in function of that name.
+ */
+function getBuiltinSignature(name: string): Signature | null {
+    const builtin = BUILTINS[name.toLowerCase()];
+    if (!builtin) return null;
+    const parameters = (builtin.parameters ?? []).map((p) => {
+        const label = typeof p.label === 'string' ? p.label : '';
+        const documentation = typeof p.documentation === 'string' ? p.documentation : '';
+        return {
+            name: label,
+            type: 'Object',
+            optional: documentation.startsWith('Optional'),
+            paramArray: false,
+            byRef: false,
+            label,
+            documentation
+        };
+    });
+    return {
+        name: builtin.label,
+        parameters,
+        label: builtin.detail,
+        documentation: builtin.documentation
+    };
+}
+
+/**
+ * Converts declarations to signatures, skipping symbols that are not procedures.
+ * @param declarations The declarations.
+ * @returns The signatures.
+ */
+function toSignatures(declarations: ResolvedSymbol[]): Signature[] {
+    const signatures: Signature[] = [];
+    for (const declaration of declarations) {
+        const signature = getSignature(declaration);
+        if (signature) signatures.push(signature);
+    }
+    return signatures;
+}
+
+/**
+ * Gets the symbols declared next to a symbol with the same name, i.e. its overloads.
+ * @param symbols The root symbols of the document.
+ * @param symbol The symbol.
+ * @returns The overloads, including the symbol itself.
+ */
+function getOverloads(symbols: DocumentSymbol[], symbol: DocumentSymbol): DocumentSymbol[] {
+    const siblings = findSymbolParent(symbols, symbol)?.children ?? symbols;
+    const name = symbol.name.toLowerCase();
+    return siblings.filter((s) => s.name.toLowerCase() === name);
+}
+
+/**
+ * Collects the symbols of a name declared in the containers of a document (see
+ * `findGlobalSymbol`), including all overloads.
+ * @param symbols The symbols to search.
+ * @param name The lowercase name.
+ * @returns The matching symbols.
+ */
+function collectGlobalSymbols(symbols: DocumentSymbol[], name: string): DocumentSymbol[] {
+    const found: DocumentSymbol[] = [];
+    for (const symbol of symbols) {
+        if (symbol.name.toLowerCase() === name) found.push(symbol);
+        else if (symbol.children && CONTAINER_KINDS.has(symbol.kind)) {
+            found.push(...collectGlobalSymbols(symbol.children, name));
+        }
+    }
+    return found;
+}
+
+/**
+ * Describes a parameter declaration.
+ * @param parameter The parameter syntax.
+ * @returns The parameter information.
+ */
+function toParameterInfo(parameter: ParameterSyntax): ParameterInfo {
+    const modifiers = parameter.modifiers.map((m) => m.value);
+    const optional = modifiers.includes('optional');
+    const paramArray = modifiers.includes('paramarray');
+    const type = getParameterType(parameter);
+    const suffix = parameter.arraySuffix ?? '';
+    let label = `${parameter.name.text}${suffix} As ${type.substring(0, type.length - suffix.length)}`;
+    if (modifiers.includes('byref')) label = `ByRef ${label}`;
+    if (optional) label = `Optional ${label}`;
+    if (paramArray) label = `ParamArray ${label}`;
+    if (parameter.defaultValue !== undefined) label += ` = ${parameter.defaultValue}`;
+    return {
+        name: parameter.name.text,
+        type,
+        optional,
+        paramArray,
+        byRef: modifiers.includes('byref'),
+        defaultValue: parameter.defaultValue,
+        label,
+        documentation: `Argument ${parameter.name.text} As ${type}`
+    };
+}
@@ -0,0 +1,215 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostic, DiagnosticTag, Range } from 'vscode-languageserver/node';
+import { getDocumentModel } from './documentModel';
+import { TokenKind } from './lexer';
+import { Logger } from './logger';
+import { Rule, Rules, createDiagnostic, getRule } from '../rules';
+
+/**
+ * The kind of a suppression comment:
+ * - `disable-next-line`: suppresses diagnostics that start on the next line.
+ * - `disable-line`: suppresses diagnostics that start on the line of the comment.
+ * - `disable-file`: suppresses diagnostics in the whole file.
+ * - `disable` / `enable`: suppress diagnostics from the comment up to the matching `enable`
+ *   (or the end of the file).
+ */
+export type SuppressionKind =
+    | 'disable-next-line'
+    | 'disable-line'
+    | 'disable-file'
+    | 'disable'
+    | 'enable';
+
+/**
+ * A rule listed in a suppression comment.
+ */
+export interface SuppressedRule {
+    /** The rule ID or name as written. */
+    name: string;
+    /** The rule, or undefined if the name does not match a registered rule. */
+    rule?: Rule;
+    range: Range;
+}
+
+/**
+ * A suppression comment such as `' vblint-disable-next-line VB0402, line-too-long`.
+ */
+export interface Suppression {
+    kind: SuppressionKind;
+    line: number;
+    /** The range of the whole comment. */
+    range: Range;
+    /** The listed rules; empty if the comment applies to all rules. */
+    rules: SuppressedRule[];
+}
+
+/**
+ * The lines in which a suppression comment suppresses a rule (or all rules).
+ */
+interface SuppressionScope {
+    suppression: Suppression;
+    /** The suppressed rule; undefined for all rules. */
+    entry?: SuppressedRule;
+    startLine: number;
+    endLine: number;
+    used: boolean;
+}
+
+const SUPPRESSION_REGEX =
+    /^(?:'|‘|’|REM\b)\s*vblint-(disable-next-line|disable-line|disable-file|disable|enable)(?=\s|,|$)/i;
+
+/**
+ * Finds the suppression comments of a document.
+ * Rules are separated by commas or whitespace; text after `--` is a free-form reason.
+ * @param document The text document.
+ * @returns The suppression comments, in document order.
+ */
+export function parseSuppressions(document: TextDocument): Suppression[] {
+    const suppressions: Suppression[] = [];
+    for (const token of getDocumentModel(document).tokens) {
+        if (token.kind !== TokenKind.Comment) continue;
+        const match = SUPPRESSION_REGEX.exec(token.text);
+        if (!match) continue;
+
+        const rules: SuppressedRule[] = [];
+        const listStart = match[0].length;
+        const reasonIndex = token.text.indexOf('--', listStart);
+        const list = token.text.substring(listStart, reasonIndex >= 0 ? reasonIndex : undefined);
+        for (const name of list.matchAll(/[^\s,]+/g)) {
+            const character = token.character + listStart + name.index!;
+            rules.push({
+                name: name[0],
+                rule: getRule(name[0]),
+                range: Range.create(token.line, character, token.line, character + name[0].length)
+            });
+        }
+
+        suppressions.push({
+            kind: match[1].toLowerCase() as SuppressionKind,
+            line: token.line,
+            range: Range.create(
+                token.line,
+                token.character,
+                token.line,
+                token.character + token.text.length
+            ),
+            rules
+        });
+    }
+    return suppressions;
+}
+
+/**
+ * Removes the diagnostics suppressed by comments and reports the suppressions that did not
+ * suppress anything (and the unknown rules they list) through the `unused-suppression` rule.
+ * @param document The validated document.
+ * @param diagnostics The diagnostics of the document.
+ * @returns The diagnostics that are not suppressed, followed by the unused suppressions.
+ */
+export function applySuppressions(document: TextDocument, diagnostics: Diagnostic[]): Diagnostic[] {
+    const suppressions = parseSuppressions(document);
+    if (suppressions.length === 0) return diagnostics;
+
+    const scopes = getSuppressionScopes(suppressions);
+    const result = diagnostics.filter((diagnostic) => {
+        const line = diagnostic.range.start.line;
+        let suppressed = false;
+        for (const scope of scopes) {
+            if (line < scope.startLine || line > scope.endLine) continue;
+            if (scope.entry && scope.entry.rule!.id !== diagnostic.code) continue;
+            scope.used = true;
+            suppressed = true;
+        }
+        return !suppressed;
+    });
+    Logger.debug(
+        `Suppressions: ${diagnostics.length - result.length} diagnostics suppressed by ${suppressions.length} comments.`
+    );
+
+    for (const suppression of suppressions) {
+        for (const entry of suppression.rules) {
+            if (!entry.rule) {
+                result.push(
+                    createUnusedDiagnostic(
+                        entry.range,
+                        `Unknown rule '${entry.name}' in suppression comment.`,
+                        entry.name
+                    )
+                );
+            }
+        }
+    }
+    for (const scope of scopes) {
+        if (scope.used) continue;
+        result.push(
+            scope.entry
+                ? createUnusedDiagnostic(
+                      scope.entry.range,
+                      `Unused suppression of '${scope.entry.name}'.`,
+                      scope.entry.name
+                  )
+                : createUnusedDiagnostic(scope.suppression.range, 'Unused suppression comment.')
+        );
+    }
+    return result;
+}
+
+/**
+ * Determines the lines each suppression comment applies to.
+ * @param suppressions The suppression comments, in document order.
+ * @returns One scope per listed (known) rule, or one scope for comments without rules.
+ */
+function getSuppressionScopes(suppressions: Suppression[]): SuppressionScope[] {
+    const scopes: SuppressionScope[] = [];
+    suppressions.forEach((suppression, index) => {
+        if (suppression.kind === 'enable') return;
+
+        const getLines = (entry?: SuppressedRule): [number, number] => {
+            switch (suppression.kind) {
+                case 'disable-next-line':
+                    return [suppression.line + 1, suppression.line + 1];
+                case 'disable-line':
+                    return [suppression.line, suppression.line];
+                case 'disable-file':
+                    return [0, Infinity];
+                default: {
+                    // Up to the first `enable` without rules or listing this rule
+                    const enable = suppressions
+                        .slice(index + 1)
+                        .find(
+                            (s) =>
+                                s.kind === 'enable' &&
+                                (s.rules.length === 0 ||
+                                    (entry !== undefined &&
+                                        s.rules.some((r) => r.rule === entry.rule)))
+                        );
+                    return [suppression.line, enable ? enable.line : Infinity];
+                }
+            }
+        };
+
+        if (suppression.rules.length === 0) {
+            const [startLine, endLine] = getLines();
+            scopes.push({ suppression, startLine, endLine, used: false });
+        }
+        for (const entry of suppression.rules) {
+            if (!entry.rule) continue;
+            const [startLine, endLine] = getLines(entry);
+            scopes.push({ suppression, entry, startLine, endLine, used: false });
+        }
+    });
+    return scopes;
+}
+
+/**
+ * Creates an `unused-suppression` diagnostic.
+ * @param range The range of the rule name, or of the whole comment.
+ * @param message The message.
+ * @param name The listed rule name, if the diagnostic is about one rule of the comment.
+ * @returns The diagnostic, tagged as unnecessary code.
+ */
+function createUnusedDiagnostic(range: Range, message: string, name?: string): Diagnostic {
+    const diagnostic = createDiagnostic(Rules.UnusedSuppression, range, message, { name });
+    diagnostic.tags = [DiagnosticTag.Unnecessary];
+    return diagnostic;
+}
@@ -0,0 +1,1415 @@
+import { Position, Range } from 'vscode-languageserver/node';
+import { Logger } from './logger';
+import { Token, TokenKind, tokenize, isCodeToken, tokenRange, getContinuedLines } from './lexer';
+
+/**
+ * Classification of a single (logical) statement.
+ */
+export enum StatementKind {
+    Namespace = 'Namespace',
+    Module = 'Module',
+    Class = 'Class',
+    Structure = 'Structure',
+    Interface = 'Interface',
+    Enum = 'Enum',
+    Sub = 'Sub',
+    Function = 'Function',
+    Property = 'Property',
+    Operator = 'Operator',
+    Event = 'Event',
+    /** Property accessor (`Get`/`Set`) or custom event accessor (`AddHandler`/`RemoveHandler`/`RaiseEvent`). */
+    Accessor = 'Accessor',
+    Declare = 'Declare',
+    Delegate = 'Delegate',
+    /** `Dim` statement or a field declared with modifiers only (e.g. `Private x As Integer`). */
+    Variable = 'Variable',
+    Const = 'Const',
+    EnumMember = 'EnumMember',
+    Imports = 'Imports',
+    Implements = 'Implements',
+    Inherits = 'Inherits',
+    Option = 'Option',
+    Region = 'Region',
+    EndRegion = 'EndRegion',
+    /** Any other preprocessor directive (`#If`, `#Const`, ...). */
+    Directive = 'Directive',
+    If = 'If',
+    SingleLineIf = 'SingleLineIf',
+    ElseIf = 'ElseIf',
+    Else = 'Else',
+    Select = 'Select',
+    Case = 'Case',
+    For = 'For',
+    Next = 'Next',
+    Do = 'Do',
+    Loop = 'Loop',
+    While = 'While',
+    Wend = 'Wend',
+    Try = 'Try',
+    Catch = 'Catch',
+    Finally = 'Finally',
+    With = 'With',
+    Using = 'Using',
+    SyncLock = 'SyncLock',
+    /** `End X` (or a bare `End`). */
+    End = 'End',
+    Exit = 'Exit',
+    Return = 'Return',
+    Throw = 'Throw',
+    /** A label (`ErrHandler:` or a line number) at the start of a line. */
+    Label = 'Label',
+    /** Assignments, calls and everything else. */
+    Expression = 'Expression'
+}
+
+/**
+ * Classification of a block (a statement together with its body and closing statement).
+ */
+export enum BlockKind {
+    CompilationUnit = 'CompilationUnit',
+    Namespace = 'Namespace',
+    Module = 'Module',
+    Class = 'Class',
+    Structure = 'Structure',
+    Interface = 'Interface',
+    Enum = 'Enum',
+    Sub = 'Sub',
+    Function = 'Function',
+    Property = 'Property',
+    Operator = 'Operator',
+    Event = 'Event',
+    Accessor = 'Accessor',
+    Region = 'Region',
+    If = 'If',
+    Select = 'Select',
+    For = 'For',
+    Do = 'Do',
+    While = 'While',
+    Try = 'Try',
+    With = 'With',
+    Using = 'Using',
+    SyncLock = 'SyncLock',
+    /** Multi-line lambda (`Sub()` / `Function()` ... `End Sub` / `End Function`). */
+    Lambda = 'Lambda'
+}
+
+/**
+ * A (possibly qualified) name as written in the source.
+ */
+export interface NameSyntax {
+    /** The name without `[]` escapes. */
+    text: string;
+    range: Range;
+}
+
+/**
+ * A type reference such as `Integer`, `System.Text.StringBuilder` or `List(Of String)()`.
+ */
+export interface TypeSyntax {
+    text: string;
+    range: Range;
+    /** True for `As New T`. */
+    isNew?: boolean;
+}
+
+/**
+ * A parameter of a method, property, event or delegate signature.
+ */
+export interface ParameterSyntax {
+    /** `ByVal`, `ByRef`, `Optional` and `ParamArray` tokens. */
+    modifiers: Token[];
+    name: NameSyntax;
+    /** Array suffix written after the name, e.g. `()` or `(,)`. */
+    arraySuffix?: string;
+    type?: TypeSyntax;
+    /** Source text of the default value of an `Optional` parameter. */
+    defaultValue?: string;
+    range: Range;
+}
+
+/**
+ * A single declarator of a `Dim`, `Const` or field declaration.
+ */
+export interface DeclaratorSyntax {
+    name: NameSyntax;
+    /** Source text between the parentheses of an array declarator, e.g. `10` for `arr(10)`. */
+    arrayBounds?: string;
+    /** The declared type; names without their own `As` clause share the type of the next one. */
+    type?: TypeSyntax;
+    /** Source text of the initializer (after `=`). */
+    initializer?: string;
+    range: Range;
+}
+
+/**
+ * A parenthesized list as written in the source, e.g. a parameter list or `(Of T)`.
+ */
+export interface ListSyntax {
+    /** Source text between the parentheses. */
+    text: string;
+    range: Range;
+}
+
+/**
+ * A single statement. Colon-separated statements on one line produce separate nodes.
+ */
+export interface StatementSyntax {
+    nodeType: 'statement';
+    kind: StatementKind;
+    /** The code tokens of the statement (comments and terminators excluded). */
+    tokens: Token[];
+    range: Range;
+    modifiers: Token[];
+    /** The token that determines the statement kind (e.g. `Sub`, `Dim`, `If`). */
+    keyword?: Token;
+    name?: NameSyntax;
+    typeParameters?: ListSyntax;
+    parameterList?: ListSyntax;
+    parameters?: ParameterSyntax[];
+    /** Return type, property type, event type or underlying enum type. */
+    asClause?: TypeSyntax;
+    /** Declared variables (`Dim`, `Const`, fields) or the enum member with its value. */
+    declarators?: DeclaratorSyntax[];
+    /** The `Sub`/`Function` keyword of a `Declare` or `Delegate` statement. */
+    methodKeyword?: Token;
+    /** The `Lib "name" [Alias "alias"]` clause of a `Declare` statement. */
+    library?: string;
+    /** Targets of `Imports`, `Implements` and `Inherits`. */
+    types?: TypeSyntax[];
+    /** Lower-cased block keyword of `End X` / `Exit X` (e.g. `sub`). */
+    target?: string;
+    /** The `Sub`/`Function` keyword of a multi-line lambda opened by this statement. */
+    lambdaKeyword?: Token;
+    parent?: BlockSyntax;
+}
+
+/**
+ * A block: the statement that opens it, its members and the statement that closes it.
+ */
+export interface BlockSyntax {
+    nodeType: 'block';
+    kind: BlockKind;
+    /** The opening statement (undefined for the compilation unit). */
+    begin?: StatementSyntax;
+    /** The closing statement (undefined if the block is not closed). */
+    end?: StatementSyntax;
+    members: SyntaxNode[];
+    range: Range;
+    parent?: BlockSyntax;
+}
+
+export type SyntaxNode = StatementSyntax | BlockSyntax;
+
+/**
+ * The result of parsing a document.
+ */
+export interface SyntaxTree {
+    root: BlockSyntax;
+    /** All statements in source order. */
+    statements: StatementSyntax[];
+    tokens: Token[];
+    comments: Token[];
+    /** The physical lines of the source text. */
+    lines: string[];
+}
+
+/**
+ * The syntax declaring a name: a statement's own name, one of its parameters or one of its
+ * declarators.
+ */
+export interface DeclarationSyntax {
+    statement: StatementSyntax;
+    /** The parameter, for the names of parameters. */
+    parameter?: ParameterSyntax;
+    /** The declarator, for variables, fields, constants and enum members. */
+    declarator?: DeclaratorSyntax;
+}
+
+/**
+ * The declarations and `Option` statements of a syntax tree, for lookups that would otherwise
+ * scan all statements.
+ */
+export interface DeclarationIndex {
+    /** Declarations by the start position of their name (`line:character`). */
+    names: Map<string, DeclarationSyntax>;
+    /** The `Option` statements, in source order. */
+    options: StatementSyntax[];
+}
+
+/**
+ * The lines replaced by an edit: lines `startLine` to `oldEndLine` of the old text became lines
+ * `startLine` to `newEndLine` of the new text.
+ */
+export interface LineEdit {
+    startLine: number;
+    oldEndLine: number;
+    newEndLine: number;
+}
+
+/**
+ * A statement to nest into a syntax tree: its code tokens, and the statement of a previous tree
+ * with the same tokens if it can be reused instead of classifying the tokens again.
+ */
+interface StatementEntry {
+    tokens: Token[];
+    isLabel: boolean;
+    reused?: StatementSyntax;
+}
+
+/** The statements classified as possible labels (a name followed by `:` at the start of a line). */
+const labelStatements = new WeakSet<StatementSyntax>();
+
+const MODIFIERS = new Set([
+    'public',
+    'private',
+    'friend',
+    'protected',
+    'shared',
+    'static',
+    'overridable',
+    'overrides',
+    'mustoverride',
+    'notoverridable',
+    'mustinherit',
+    'notinheritable',
+    'partial',
+    'readonly',
+    'writeonly',
+    'shadows',
+    'widening',
+    'narrowing',
+    'overloads',
+    'default',
+    'withevents',
+    'custom',
+    'async',
+    'iterator'
+]);
+
+const PARAMETER_MODIFIERS = new Set(['byval', 'byref', 'optional', 'paramarray']);
+
+/** Types implied by the type character at the end of a declared name (`s$` is a String). */
+const TYPE_CHARACTER_TYPES: { [suffix: string]: string } = {
+    $: 'String',
+    '%': 'Integer',
+    '&': 'Long',
+    '!': 'Single',
+    '#': 'Double',
+    '@': 'Decimal'
+};
+
+/** Block keywords that may follow `End`. */
+const END_TARGETS = new Set([
+    'namespace',
+    'module',
+    'class',
+    'structure',
+    'interface',
+    'enum',
+    'sub',
+    'function',
+    'property',
+    'operator',
+    'event',
+    'get',
+    'set',
+    'addhandler',
+    'removehandler',
+    'raiseevent',
+    'if',
+    'select',
+    'while',
+    'try',
+    'with',
+    'using',
+    'synclock'
+]);
+
+const SIMPLE_STATEMENTS: { [keyword: string]: StatementKind } = {
+    elseif: StatementKind.ElseIf,
+    else: StatementKind.Else,
+    select: StatementKind.Select,
+    case: StatementKind.Case,
+    for: StatementKind.For,
+    next: StatementKind.Next,
+    do: StatementKind.Do,
+    loop: StatementKind.Loop,
+    while: StatementKind.While,
+    wend: StatementKind.Wend,
+    try: StatementKind.Try,
+    catch: StatementKind.Catch,
+    finally: StatementKind.Finally,
+    with: StatementKind.With,
+    using: StatementKind.Using,
+    synclock: StatementKind.SyncLock,
+    return: StatementKind.Return,
+    throw: StatementKind.Throw,
+    option: StatementKind.Option
+};
+
+const TYPE_DECLARATIONS: { [keyword: string]: StatementKind } = {
+    namespace: StatementKind.Namespace,
+    module: StatementKind.Module,
+    class: StatementKind.Class,
+    structure: StatementKind.Structure,
+    interface: StatementKind.Interface,
+    enum: StatementKind.Enum
+};
+
+const METHOD_DECLARATIONS: { [keyword: string]: StatementKind } = {
+    sub: StatementKind.Sub,
+    function: StatementKind.Function,
+    property: StatementKind.Property,
+    operator: StatementKind.Operator,
+    event: StatementKind.Event
+};
+
+const BLOCK_STATEMENTS: { [kind: string]: BlockKind } = {
+    [StatementKind.Namespace]: BlockKind.Namespace,
+    [StatementKind.Module]: BlockKind.Module,
+    [StatementKind.Class]: BlockKind.Class,
+    [StatementKind.Structure]: BlockKind.Structure,
+    [StatementKind.Interface]: BlockKind.Interface,
+    [StatementKind.Enum]: BlockKind.Enum,
+    [StatementKind.Sub]: BlockKind.Sub,
+    [StatementKind.Function]: BlockKind.Function,
+    [StatementKind.Property]: BlockKind.Property,
+    [StatementKind.Operator]: BlockKind.Operator,
+    [StatementKind.Event]: BlockKind.Event,
+    [StatementKind.Accessor]: BlockKind.Accessor,
+    [StatementKind.Region]: BlockKind.Region,
+    [StatementKind.If]: BlockKind.If,
+    [StatementKind.Select]: BlockKind.Select,
+    [StatementKind.For]: BlockKind.For,
+    [StatementKind.Do]: BlockKind.Do,
+    [StatementKind.While]: BlockKind.While,
+    [StatementKind.Try]: BlockKind.Try,
+    [StatementKind.With]: BlockKind.With,
+    [StatementKind.Using]: BlockKind.Using,
+    [StatementKind.SyncLock]: BlockKind.SyncLock
+};
+
+/**
+ * Parses Visual Basic source text into a concrete syntax tree.
+ *
+ * The text is tokenized, split into statements (on line terminators and `:`), and the
+ * statements are nested into blocks. The parser is error tolerant: unclosed blocks extend
+ * to the end of the document and unmatched closing statements are kept as plain members
+ * of the enclosing block so that validation can report them.
+ *
+ * @param text The source text.
+ * @param tokens The tokens of the text, if already available (e.g. from a document model).
+ * @returns The syntax tree.
+ */
+export function parseSyntaxTree(text: string, tokens: Token[] = tokenize(text)): SyntaxTree {
+    const { statements, labels } = splitStatements(tokens, getContinuedLines(tokens));
+    const entries = statements.map((raw) => ({ tokens: raw, isLabel: labels.has(raw) }));
+    return buildTree(text, tokens, entries);
+}
+
+/**
+ * Parses the text of a document again after an edit, reusing the statements of the previous
+ * syntax tree outside the edited lines. Only the statements on the edited lines, and the
+ * statements right before and after them (whose line continuation may depend on the edited
+ * lines), are split and classified again; the statements after the edit are moved to their new
+ * lines. The blocks are nested again from all statements.
+ *
+ * @param previous The syntax tree of the text before the edit.
+ * @param text The text after the edit.
+ * @param tokens The tokens of the text after the edit.
+ * @param edit The lines replaced by the edit.
+ * @returns The syntax tree, equal to `parseSyntaxTree(text, tokens)`.
+ */
+export function reparseSyntaxTree(
+    previous: SyntaxTree,
+    text: string,
+    tokens: Token[],
+    edit: LineEdit
+): SyntaxTree {
+    const old = previous.statements;
+    const lineDelta = edit.newEndLine - edit.oldEndLine;
+    let first = 0;
+    while (first < old.length && old[first].range.end.line < edit.startLine) first++;
+    let last = first;
+    while (last < old.length && old[last].range.start.line <= edit.oldEndLine) last++;
+    first = Math.max(first - 1, 0);
+    // Statements separated by `:` on the first line are reparsed together
+    while (first > 0 && old[first - 1].range.end.line >= old[first].range.start.line) first--;
+    const startLine = Math.min(old[first]?.range.start.line ?? edit.startLine, edit.startLine);
+    let start = 0;
+    while (start < tokens.length && tokens[start].line < startLine) start++;
+
+    // Extend the region until its last line ends a statement in the edited text as well
+    let region: Token[];
+    let continued: Set<number>;
+    let endLine: number;
+    let end: number;
+    do {
+        last = Math.min(last + 1, old.length);
+        while (last < old.length && old[last].range.start.line <= old[last - 1].range.end.line) {
+            last++;
+        }
+        endLine = Math.max(old[last - 1]?.range.end.line ?? 0, edit.oldEndLine) + lineDelta;
+        end = start;
+        while (end < tokens.length && tokens[end].line <= endLine) end++;
+        let lookahead = end;
+        while (lookahead < tokens.length && !isCodeToken(tokens[lookahead])) lookahead++;
+        continued = getContinuedLines(tokens.slice(start, lookahead + 2));
+        region = tokens.slice(start, end).filter((t) => t.kind !== TokenKind.EndOfFile);
+    } while (last < old.length && continued.has(endLine));
+    const { statements, labels } = splitStatements(region, continued);
+
+    // The tokens after the region are the tokens at the end of the previous text, moved
+    const shift = tokens.length - previous.tokens.length;
+    let k = end - shift;
+    const moveTokens = (moved: Token[]) =>
+        moved.map((token) => {
+            while (k < previous.tokens.length && previous.tokens[k] !== token) k++;
+            return tokens[k + shift];
+        });
+    const entries: StatementEntry[] = [
+        ...old.slice(0, first).map((statement) => toEntry(statement)),
+        ...statements.map((raw) => ({ tokens: raw, isLabel: labels.has(raw) })),
+        ...old
+            .slice(last)
+            .map((statement) => toEntry(moveStatement(statement, lineDelta, moveTokens)))
+    ];
+    Logger.debug(
+        `SyntaxTree: Reparsing lines ${startLine}-${endLine} (${statements.length} of ${entries.length} statements).`
+    );
+    return buildTree(text, tokens, entries);
+}
+
+/**
+ * Creates the entry of a statement that is reused from a previous syntax tree.
+ * @param statement The statement.
+ * @returns The entry.
+ */
+function toEntry(statement: StatementSyntax): StatementEntry {
+    const isLabel = labelStatements.has(statement);
+    return { tokens: statement.tokens, isLabel, reused: statement };
+}
+
+/**
+ * Copies a statement of a previous syntax tree to the lines it moved to after an edit.
+ * Statements after the edited lines keep their characters; only their lines and tokens change,
+ * and the nodes are shared if the lines did not change either.
+ * @param statement The statement.
+ * @param lineDelta The number of lines the statement moved down (negative for up).
+ * @param moveTokens Finds the tokens of the edited text for tokens of the previous text.
+ * @returns The moved statement (with the parent it had in the previous tree).
+ */
+function moveStatement(
+    statement: StatementSyntax,
+    lineDelta: number,
+    moveTokens: (tokens: Token[]) => Token[]
+): StatementSyntax {
+    // All other tokens of the statement are among its code tokens
+    const tokens = moveTokens(statement.tokens);
+    const token = (t: Token) => tokens[statement.tokens.indexOf(t)];
+    const range = (r: Range): Range =>
+        lineDelta === 0
+            ? r
+            : {
+                  start: { line: r.start.line + lineDelta, character: r.start.character },
+                  end: { line: r.end.line + lineDelta, character: r.end.character }
+              };
+    const node = <T extends { range: Range }>(n: T): T =>
+        lineDelta === 0 ? n : { ...n, range: range(n.range) };
+
+    const copy: StatementSyntax = {
+        ...statement,
+        tokens,
+        range: range(statement.range),
+        modifiers: statement.modifiers.map(token)
+    };
+    if (statement.keyword) copy.keyword = token(statement.keyword);
+    if (statement.methodKeyword) copy.methodKeyword = token(statement.methodKeyword);
+    if (statement.lambdaKeyword) copy.lambdaKeyword = token(statement.lambdaKeyword);
+    if (statement.name) copy.name = node(statement.name);
+    if (statement.typeParameters) copy.typeParameters = node(statement.typeParameters);
+    if (statement.parameterList) copy.parameterList = node(statement.parameterList);
+    if (statement.asClause) copy.asClause = node(statement.asClause);
+    if (statement.parameters) {
+        copy.parameters = statement.parameters.map((p) => ({
+            ...p,
+            modifiers: p.modifiers.map(token),
+            name: node(p.name),
+            type: p.type && node(p.type),
+            range: range(p.range)
+        }));
+    }
+    if (statement.declarators && lineDelta !== 0) {
+        copy.declarators = statement.declarators.map((d) => ({
+            ...d,
+            name: node(d.name),
+            type: d.type && node(d.type),
+            range: range(d.range)
+        }));
+    }
+    if (statement.types && lineDelta !== 0) copy.types = statement.types.map(node);
+    if (labelStatements.has(statement)) labelStatements.add(copy);
+    return copy;
+}
+
+/**
+ * Nests statements into blocks.
+ * @param text The source text.
+ * @param tokens The tokens of the text.
+ * @param entries The statements in source order.
+ * @returns The syntax tree.
+ */
+function buildTree(text: string, tokens: Token[], entries: StatementEntry[]): SyntaxTree {
+    const lines = text.split(/\r\n|\r|\n/);
+    const comments = tokens.filter((t) => t.kind === TokenKind.Comment);
+
+    const documentEnd = {
+        line: lines.length - 1,
+        character: lines[lines.length - 1].length
+    };
+    const root: BlockSyntax = {
+        nodeType: 'block',
+        kind: BlockKind.CompilationUnit,
+        members: [],
+        range: Range.create({ line: 0, character: 0 }, documentEnd)
+    };
+
+    const statements: StatementSyntax[] = [];
+    const stack: BlockSyntax[] = [root];
+    let previousEnd = root.range.start;
+
+    // Closes the innermost open block matching the predicate (and any unclosed blocks inside it)
+    const closeBlock = (closer: StatementSyntax, matches: (block: BlockSyntax) => boolean) => {
+        for (let k = stack.length - 1; k > 0; k--) {
+            if (!matches(stack[k])) continue;
+            while (stack.length - 1 > k) {
+                const unclosed = stack.pop() as BlockSyntax;
+                unclosed.range.end = previousEnd;
+            }
+            const block = stack.pop() as BlockSyntax;
+            block.end = closer;
+            block.range.end = closer.range.end;
+            closer.parent = block;
+            return true;
+        }
+        return false;
+    };
+
+    for (let index = 0; index < entries.length; index++) {
+        const parent = stack[stack.length - 1];
+        const { tokens: raw, isLabel, reused } = entries[index];
+        // Only statements in Enum, Property and Event blocks depend on the block kind; closing
+        // statements (whose parent is the block they close) are the same in any block. Reused
+        // statements are copied, so that the previous tree keeps its parents.
+        const statement =
+            reused && reused.parent?.kind === parent.kind
+                ? { ...reused }
+                : classifyStatement(raw, parent.kind, isLabel);
+        if (isLabel) labelStatements.add(statement);
+        statement.parent = parent;
+        statements.push(statement);
+
+        let closed = false;
+        if (statement.kind === StatementKind.End && statement.target) {
+            closed = closeBlock(statement, (b) => blockEndTarget(b) === statement.target);
+        } else if (statement.kind === StatementKind.Next) {
+            // `Next j, i` closes two loops
+            const count = statement.tokens.filter((t) => t.text === ',').length + 1;
+            for (let c = 0; c < count; c++) {
+                closed = closeBlock(statement, (b) => b.kind === BlockKind.For) || closed;
+            }
+        } else if (statement.kind === StatementKind.Loop) {
+            closed = closeBlock(statement, (b) => b.kind === BlockKind.Do);
+        } else if (statement.kind === StatementKind.Wend) {
+            closed = closeBlock(statement, (b) => b.kind === BlockKind.While);
+        } else if (statement.kind === StatementKind.EndRegion) {
+            closed = closeBlock(statement, (b) => b.kind === BlockKind.Region);
+        }
+
+        if (!closed) {
+            const blockKind = getOpenedBlockKind(
+                statement,
+                parent.kind,
+                entries[index + 1]?.tokens
+            );
+            if (blockKind) {
+                const block: BlockSyntax = {
+                    nodeType: 'block',
+                    kind: blockKind,
+                    begin: statement,
+                    members: [],
+                    range: Range.create(statement.range.start, documentEnd),
+                    parent
+                };
+                parent.members.push(block);
+                stack.push(block);
+            } else {
+                parent.members.push(statement);
+            }
+        }
+        previousEnd = statement.range.end;
+    }
+
+    Logger.debug(
+        `SyntaxTree: Parsed ${statements.length} statements, ${stack.length - 1} unclosed blocks.`
+    );
+    return { root, statements, tokens, comments, lines };
+}
+
+/**
+ * Indexes the declared names and the `Option` statements of a syntax tree.
+ * @param tree The syntax tree.
+ * @returns The index.
+ */
+export function indexDeclarations(tree: SyntaxTree): DeclarationIndex {
+    const names = new Map<string, DeclarationSyntax>();
+    const options: StatementSyntax[] = [];
+    const add = (name: NameSyntax, declaration: DeclarationSyntax) => {
+        const key = positionKey(name.range.start);
+        if (!names.has(key)) names.set(key, declaration);
+    };
+    for (const statement of tree.statements) {
+        if (statement.kind === StatementKind.Option) options.push(statement);
+        if (statement.name) add(statement.name, { statement });
+        for (const parameter of statement.parameters ?? []) {
+            add(parameter.name, { statement, parameter });
+        }
+        for (const declarator of statement.declarators ?? []) {
+            add(declarator.name, { statement, declarator });
+        }
+    }
+    return { names, options };
+}
+
+/**
+ * Finds the declaration of a name by the range of the name.
+ * @param index The declarations of the document.
+ * @param range The range of the declared name (e.g. a symbol's selection range).
+ * @returns The declaration, or undefined if no name is declared at the range.
+ */
+export function findDeclaration(
+    index: DeclarationIndex,
+    range: Range
+): DeclarationSyntax | undefined {
+    const declaration = index.names.get(positionKey(range.start));
+    if (!declaration) return undefined;
+    const { statement, parameter, declarator } = declaration;
+    const end = ((parameter ?? declarator)?.name ?? statement.name)?.range.end;
+    return end?.line === range.end.line && end.character === range.end.character
+        ? declaration
+        : undefined;
+}
+
+/**
+ * Gets the key of a position in a `DeclarationIndex`.
+ * @param position The position.
+ * @returns The key (`line:character`).
+ */
+function positionKey(position: Position): string {
+    return `${position.line}:${position.character}`;
+}
+
+/**
+ * Gets the lower-cased keyword that follows `End` when closing the given block.
+ * @param block The block.
+ * @returns The keyword, or undefined for blocks closed by other statements (Next, Loop, ...).
+ */
+export function blockEndTarget(block: BlockSyntax): string | undefined {
+    switch (block.kind) {
+        case BlockKind.For:
+        case BlockKind.Do:
+        case BlockKind.Region:
+        case BlockKind.CompilationUnit:
+            return undefined;
+        case BlockKind.Accessor:
+            return block.begin?.keyword?.value;
+        case BlockKind.Lambda:
+            return block.begin?.lambdaKeyword?.value;
+        default:
+            return block.kind.toLowerCase();
+    }
+}
+
+/**
+ * Splits the token stream into statements.
+ * Statements end at line terminators (unless the line is continued) and `:` separators,
+ * except that a single-line `If ... Then ...` keeps everything up to the end of the line.
+ * A name or number that starts a line and is followed by `:` is a label.
+ * @param tokens The tokens of the document.
+ * @param continued The lines that continue on the next line (see `getContinuedLines`).
+ * @returns The code tokens of each non-empty statement, and the statements that are labels.
+ */
+function splitStatements(
+    tokens: Token[],
+    continued: Set<number>
+): { statements: Token[][]; labels: Set<Token[]> } {
+    const result: Token[][] = [];
+    const labels = new Set<Token[]>();
+    let current: Token[] = [];
+    let atLineStart = true;
+
+    const flush = () => {
+        if (current.length > 0) result.push(current);
+        current = [];
+    };
+
+    for (const token of tokens) {
+        if (token.kind === TokenKind.LineTerminator) {
+            if (!continued.has(token.line)) {
+                flush();
+                atLineStart = true;
+            }
+        } else if (token.kind === TokenKind.EndOfFile) {
+            flush();
+        } else if (token.kind === TokenKind.StatementSeparator) {
+            if (!isSingleLineIf(current) && !isInsideAttribute(current)) {
+                if (atLineStart && isLabelName(current)) labels.add(current);
+                flush();
+                atLineStart = false;
+            }
+        } else if (isCodeToken(token)) {
+            current.push(token);
+        }
+    }
+    flush();
+    return { statements: result, labels };
+}
+
+/**
+ * Checks if the tokens before a `:` separator can be a label: a single name or line number.
+ * @param tokens The tokens of the statement.
+ * @returns True for label names.
+ */
+function isLabelName(tokens: Token[]): boolean {
+    return (
+        tokens.length === 1 &&
+        (tokens[0].kind === TokenKind.Identifier || tokens[0].kind === TokenKind.NumericLiteral)
+    );
+}
+
+/**
+ * Checks if the tokens seen so far form the head of a single-line If (code after `Then`).
+ * @param tokens The tokens of the statement so far.
+ * @returns True if more code follows `Then`.
+ */
+function isSingleLineIf(tokens: Token[]): boolean {
+    if (tokens.length === 0 || (tokens[0].value !== 'if' && tokens[0].value !== 'elseif')) {
+        return false;
+    }
+    const thenIndex = tokens.findIndex((t) => t.kind === TokenKind.Keyword && t.value === 'then');
+    return thenIndex !== -1 && thenIndex < tokens.length - 1;
+}
+
+/**
+ * Checks if the tokens seen so far end inside an attribute block (e.g. `<Assembly: ...>`).
+ * @param tokens The tokens of the statement so far.
+ * @returns True if the statement starts with `<` that is not closed yet.
+ */
+function isInsideAttribute(tokens: Token[]): boolean {
+    return tokens.length > 0 && tokens[0].text === '<' && !tokens.some((t) => /^>/.test(t.text));
+}
+
+/**
+ * Determines which block (if any) a statement opens.
+ * @param statement The classified statement.
+ * @param parentKind The kind of the enclosing block.
+ * @param next The raw tokens of the following statement (for auto-property detection).
+ * @returns The kind of the opened block, or undefined.
+ */
+function getOpenedBlockKind(
+    statement: StatementSyntax,
+    parentKind: BlockKind,
+    next: Token[] | undefined
+): BlockKind | undefined {
+    if (statement.lambdaKeyword) {
+        return BlockKind.Lambda;
+    }
+    const isAbstract = statement.modifiers.some((m) => m.value === 'mustoverride');
+
+    switch (statement.kind) {
+        case StatementKind.Sub:
+        case StatementKind.Function:
+        case StatementKind.Operator:
+            if (parentKind === BlockKind.Interface || isAbstract) return undefined;
+            break;
+        case StatementKind.Property: {
+            if (parentKind === BlockKind.Interface || isAbstract) return undefined;
+            // Auto-implemented properties have no accessors
+            if (!next) return undefined;
+            const following = classifyStatement(next, BlockKind.Property);
+            if (following.kind !== StatementKind.Accessor) return undefined;
+            break;
+        }
+        case StatementKind.Event:
+            if (!statement.modifiers.some((m) => m.value === 'custom')) return undefined;
+            break;
+    }
+    return BLOCK_STATEMENTS[statement.kind];
+}
+
+/**
+ * Classifies the tokens of a single statement and extracts its parts.
+ * @param tokens The code tokens of the statement.
+ * @param parentKind The kind of the enclosing block.
+ * @param isLabel Whether the statement is a name followed by `:` at the start of a line.
+ * @returns The statement node (without parent).
+ */
+function classifyStatement(
+    tokens: Token[],
+    parentKind: BlockKind,
+    isLabel = false
+): StatementSyntax {
+    const statement: StatementSyntax = {
+        nodeType: 'statement',
+        kind: StatementKind.Expression,
+        tokens,
+        range: Range.create(tokenRange(tokens[0]).start, tokenRange(tokens[tokens.length - 1]).end),
+        modifiers: []
+    };
+    if (isLabel && parentKind !== BlockKind.Enum) {
+        statement.kind = StatementKind.Label;
+        statement.name = toName(tokens[0]);
+        return statement;
+    }
+
+    let i = skipAttributes(tokens, 0);
+    const first = tokens[i];
+    if (!first) return statement;
+
+    if (first.kind === TokenKind.Directive) {
+        statement.keyword = first;
+        if (/^#\s*Region\b/i.test(first.text)) {
+            statement.kind = StatementKind.Region;
+        } else if (/^#\s*End\s+Region\b/i.test(first.text)) {
+            statement.kind = StatementKind.EndRegion;
+        } else {
+            statement.kind = StatementKind.Directive;
+        }
+        return statement;
+    }
+
+    while (i < tokens.length - 1 && MODIFIERS.has(tokens[i].value) && isNameToken(tokens[i + 1])) {
+        statement.modifiers.push(tokens[i]);
+        i++;
+    }
+
+    const keyword = tokens[i];
+    statement.keyword = keyword;
+    const value = keyword.kind === TokenKind.Keyword ? keyword.value : '';
+
+    if (TYPE_DECLARATIONS[value]) {
+        statement.kind = TYPE_DECLARATIONS[value];
+        parseTypeDeclaration(statement, tokens, i + 1);
+    } else if (METHOD_DECLARATIONS[value]) {
+        statement.kind = METHOD_DECLARATIONS[value];
+        parseMethodDeclaration(statement, tokens, i + 1);
+    } else if (value === 'declare' || value === 'delegate') {
+        statement.kind = value === 'declare' ? StatementKind.Declare : StatementKind.Delegate;
+        let j = i + 1;
+        // Declare [Ansi|Unicode|Auto] Sub|Function
+        while (j < tokens.length && tokens[j].value !== 'sub' && tokens[j].value !== 'function') {
+            j++;
+        }
+        statement.methodKeyword = tokens[j];
+        parseMethodDeclaration(statement, tokens, j + 1);
+    } else if (value === 'dim' || value === 'const') {
+        statement.kind = value === 'dim' ? StatementKind.Variable : StatementKind.Const;
+        statement.declarators = parseDeclarators(tokens, i + 1);
+    } else if (statement.modifiers.length > 0 && keyword.kind === TokenKind.Identifier) {
+        // Field declared with modifiers only (e.g. `Private x As Integer`)
+        statement.kind = StatementKind.Variable;
+        statement.keyword = undefined;
+        statement.declarators = parseDeclarators(tokens, i);
+    } else if (value === 'imports' || value === 'implements' || value === 'inherits') {
+        statement.kind =
+            value === 'imports'
+                ? StatementKind.Imports
+                : value === 'implements'
+                  ? StatementKind.Implements
+                  : StatementKind.Inherits;
+        statement.types = parseTypeList(tokens, i + 1);
+    } else if (value === 'end' || value === 'endif') {
+        statement.kind = StatementKind.End;
+        const target = value === 'endif' ? 'if' : tokens[i + 1]?.value;
+        if (target && END_TARGETS.has(target)) statement.target = target;
+    } else if (value === 'exit') {
+        statement.kind = StatementKind.Exit;
+        statement.target = tokens[i + 1]?.value;
+    } else if (value === 'if') {
+        statement.kind = isSingleLineIf(tokens.slice(i))
+            ? StatementKind.SingleLineIf
+            : StatementKind.If;
+    } else if (SIMPLE_STATEMENTS[value]) {
+        statement.kind = SIMPLE_STATEMENTS[value];
+    } else if (isAccessor(tokens, i, parentKind)) {
+        statement.kind = StatementKind.Accessor;
+        if (tokens[i + 1]?.text === '(') {
+            parseParameterList(statement, tokens, i + 1);
+        }
+    } else if (parentKind === BlockKind.Enum && keyword.kind === TokenKind.Identifier) {
+        statement.kind = StatementKind.EnumMember;
+        statement.name = toName(keyword);
+        statement.declarators = parseDeclarators(tokens, i);
+    }
+
+    if (
+        statement.kind === StatementKind.Expression ||
+        statement.kind === StatementKind.Variable ||
+        statement.kind === StatementKind.Return
+    ) {
+        statement.lambdaKeyword = findMultiLineLambda(tokens, i);
+    }
+
+    return statement;
+}
+
+/**
+ * Checks if the statement at the given index is a property or custom event accessor.
+ * @param tokens The statement tokens.
+ * @param i The index of the first token after modifiers.
+ * @param parentKind The kind of the enclosing block.
+ * @returns True for `Get`/`Set` in properties and `AddHandler(...)` etc. in custom events.
+ */
+function isAccessor(tokens: Token[], i: number, parentKind: BlockKind): boolean {
+    const value = tokens[i].value;
+    if (parentKind === BlockKind.Property) {
+        return value === 'get' || value === 'set';
+    }
+    if (parentKind === BlockKind.Event) {
+        return (
+            (value === 'addhandler' || value === 'removehandler' || value === 'raiseevent') &&
+            tokens[i + 1]?.text === '('
+        );
+    }
+    return false;
+}
+
+/**
+ * Looks for a multi-line lambda header (`Sub(...)` or `Function(...) [As T]` ending the statement).
+ * @param tokens The statement tokens.
+ * @param start The index to start searching from.
+ * @returns The `Sub`/`Function` keyword token, or undefined.
+ */
+function findMultiLineLambda(tokens: Token[], start: number): Token | undefined {
+    for (let k = start; k < tokens.length - 1; k++) {
+        const value = tokens[k].value;
+        if ((value !== 'sub' && value !== 'function') || tokens[k].kind !== TokenKind.Keyword) {
+            continue;
+        }
+        if (tokens[k + 1].text !== '(') continue;
+        const close = findClosingParen(tokens, k + 1);
+        if (close === -1) return undefined;
+        if (close === tokens.length - 1) return tokens[k];
+        if (tokens[close + 1].value === 'as') {
+            const type = parseType(tokens, close + 2);
+            if (type && type.next >= tokens.length) return tokens[k];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Parses the name, type parameters and underlying type of a type declaration.
+ * @param statement The statement to fill.
+ * @param tokens The statement tokens.
+ * @param i The index after the declaration keyword.
+ */
+function parseTypeDeclaration(statement: StatementSyntax, tokens: Token[], i: number): void {
+    if (!isNameToken(tokens[i])) return;
+    let end = i;
+    // Namespaces may be qualified (Namespace A.B)
+    while (tokens[end + 1]?.text === '.' && isNameToken(tokens[end + 2])) {
+        end += 2;
+    }
+    statement.name = toName(...tokens.slice(i, end + 1));
+    i = end + 1;
+    if (tokens[i]?.text === '(' && tokens[i + 1]?.value === 'of') {
+        const close = findClosingParen(tokens, i);
+        if (close !== -1) {
+            statement.typeParameters = toList(tokens, i, close);
+            i = close + 1;
+        }
+    }
+    if (tokens[i]?.value === 'as') {
+        statement.asClause = parseType(tokens, i + 1)?.type;
+    }
+}
+
+/**
+ * Parses the name, type parameters, parameters and `As` clause of a method-like declaration
+ * (Sub, Function, Property, Operator, Event, Declare, Delegate).
+ * @param statement The statement to fill.
+ * @param tokens The statement tokens.
+ * @param i The index after the declaration keyword.
+ */
+function parseMethodDeclaration(statement: StatementSyntax, tokens: Token[], i: number): void {
+    const nameToken = tokens[i];
+    if (!nameToken) return;
+    if (statement.kind === StatementKind.Operator) {
+        if (nameToken.text === '(') return;
+    } else if (!isNameToken(nameToken)) {
+        return;
+    }
+    const typed = toTypedName(nameToken);
+    statement.name = typed.name;
+    statement.asClause = typed.type;
+    i++;
+
+    if (statement.kind === StatementKind.Declare) {
+        // Lib "name" [Alias "alias"]
+        const start = i;
+        while (i < tokens.length && tokens[i].text !== '(' && tokens[i].value !== 'as') i++;
+        if (i > start) statement.library = joinTokens(tokens.slice(start, i));
+    }
+
+    if (tokens[i]?.text === '(' && tokens[i + 1]?.value === 'of') {
+        const close = findClosingParen(tokens, i);
+        if (close !== -1) {
+            statement.typeParameters = toList(tokens, i, close);
+            i = close + 1;
+        }
+    }
+    if (tokens[i]?.text === '(') {
+        i = parseParameterList(statement, tokens, i);
+    }
+    if (tokens[i]?.value === 'as') {
+        statement.asClause = parseType(tokens, i + 1)?.type;
+    }
+}
+
+/**
+ * Parses a parenthesized parameter list into the statement.
+ * @param statement The statement to fill.
+ * @param tokens The statement tokens.
+ * @param open The index of the opening parenthesis.
+ * @returns The index after the closing parenthesis.
+ */
+function parseParameterList(statement: StatementSyntax, tokens: Token[], open: number): number {
+    let close = findClosingParen(tokens, open);
+    if (close === -1) close = tokens.length;
+    statement.parameterList = toList(tokens, open, close);
+    statement.parameters = [];
+
+    for (const [start, end] of splitOnCommas(tokens, open + 1, close)) {
+        let j = start;
+        const modifiers: Token[] = [];
+        while (j < end && PARAMETER_MODIFIERS.has(tokens[j].value)) {
+            modifiers.push(tokens[j]);
+            j++;
+        }
+        if (j >= end || !isNameToken(tokens[j])) continue;
+
+        const typed = toTypedName(tokens[j]);
+        const parameter: ParameterSyntax = {
+            modifiers,
+            name: typed.name,
+            type: typed.type,
+            range: Range.create(tokenRange(tokens[start]).start, tokenRange(tokens[end - 1]).end)
+        };
+        j++;
+        if (tokens[j]?.text === '(' && j < end) {
+            const arrayClose = findClosingParen(tokens, j);
+            if (arrayClose !== -1 && arrayClose < end) {
+                parameter.arraySuffix = joinTokens(tokens.slice(j, arrayClose + 1));
+                j = arrayClose + 1;
+            }
+        }
+        if (tokens[j]?.text === '?' && j < end) j++;
+        if (tokens[j]?.value === 'as' && j < end) {
+            const parsed = parseType(tokens.slice(0, end), j + 1);
+            if (parsed) {
+                parameter.type = parsed.type;
+                j = parsed.next;
+            }
+        }
+        if (tokens[j]?.text === '=' && j + 1 < end) {
+            parameter.defaultValue = joinTokens(tokens.slice(j + 1, end));
+        }
+        statement.parameters.push(parameter);
+    }
+    return close + 1;
+}
+
+/**
+ * Parses the declarators of a `Dim`, `Const` or field declaration.
+ * @param tokens The statement tokens.
+ * @param start The index of the first declarator.
+ * @returns The declarators.
+ */
+function parseDeclarators(tokens: Token[], start: number): DeclaratorSyntax[] {
+    const declarators: DeclaratorSyntax[] = [];
+    const typeCharacters = new Map<DeclaratorSyntax, TypeSyntax>();
+    for (const [from, to] of splitOnCommas(tokens, start, tokens.length)) {
+        let j = from;
+        if (!isNameToken(tokens[j])) continue;
+        const typed = toTypedName(tokens[j]);
+        const declarator: DeclaratorSyntax = {
+            name: typed.name,
+            range: Range.create(tokenRange(tokens[from]).start, tokenRange(tokens[to - 1]).end)
+        };
+        j++;
+        if (j < to && tokens[j].text === '(') {
+            const close = findClosingParen(tokens, j);
+            if (close !== -1 && close < to) {
+                declarator.arrayBounds = joinTokens(tokens.slice(j + 1, close));
+                j = close + 1;
+            }
+        }
+        if (j < to && tokens[j].text === '?') j++;
+        if (j < to && tokens[j].value === 'as') {
+            const parsed = parseType(tokens.slice(0, to), j + 1);
+            if (parsed) {
+                declarator.type = parsed.type;
+                j = parsed.next;
+            }
+        }
+        // Skip constructor arguments and object/collection initializers of `As New`
+        let depth = 0;
+        while (j < to && (depth > 0 || tokens[j].text !== '=')) {
+            if (tokens[j].text === '(' || tokens[j].text === '{') depth++;
+            else if (tokens[j].text === ')' || tokens[j].text === '}') depth--;
+            j++;
+        }
+        if (j < to - 1) {
+            declarator.initializer = joinTokens(tokens.slice(j + 1, to));
+        }
+        if (typed.type) typeCharacters.set(declarator, typed.type);
+        declarators.push(declarator);
+    }
+
+    // In `Dim a, b As Integer` the names before an `As` clause share its type
+    let sharedType: TypeSyntax | undefined;
+    for (let k = declarators.length - 1; k >= 0; k--) {
+        const declarator = declarators[k];
+        if (declarator.type) {
+            sharedType = declarator.type;
+        } else if (declarator.initializer === undefined) {
+            declarator.type = sharedType;
+        } else {
+            sharedType = undefined;
+        }
+    }
+    // A type character types its own name only: in `Dim a, b%` the type of `a` is Object
+    for (const [declarator, type] of typeCharacters) {
+        declarator.type = type;
+    }
+    return declarators;
+}
+
+/**
+ * Parses a comma-separated list of type names (Imports, Implements, Inherits).
+ * For aliased imports (`Imports A = System.Text`) the imported namespace is returned.
+ * @param tokens The statement tokens.
+ * @param start The index after the keyword.
+ * @returns The type references.
+ */
+function parseTypeList(tokens: Token[], start: number): TypeSyntax[] {
+    const types: TypeSyntax[] = [];
+    for (const [from, to] of splitOnCommas(tokens, start, tokens.length)) {
+        let j = from;
+        if (tokens[j + 1]?.text === '=' && j + 2 < to) j += 2;
+        const parsed = parseType(tokens.slice(0, to), j);
+        if (parsed) types.push(parsed.type);
+    }
+    return types;
+}
+
+/**
+ * Parses a type reference: an optional `New`, a qualified name with `(Of ...)` arguments,
+ * and array/nullable suffixes.
+ * @param tokens The tokens to read from.
+ * @param start The index of the first token of the type.
+ * @returns The type and the index after it, or undefined if no type starts at `start`.
+ */
+function parseType(tokens: Token[], start: number): { type: TypeSyntax; next: number } | undefined {
+    let i = start;
+    let isNew = false;
+    if (tokens[i]?.value === 'new') {
+        isNew = true;
+        i++;
+    }
+    const typeStart = i;
+    if (!isNameToken(tokens[i])) return undefined;
+    i++;
+    for (;;) {
+        if (tokens[i]?.text === '.' && isNameToken(tokens[i + 1])) {
+            i += 2;
+        } else if (tokens[i]?.text === '(' && tokens[i + 1]?.value === 'of') {
+            const close = findClosingParen(tokens, i);
+            if (close === -1) break;
+            i = close + 1;
+        } else {
+            break;
+        }
+    }
+    // Array rank specifiers `()`, `(,)` and nullable `?`
+    for (;;) {
+        if (tokens[i]?.text === '?') {
+            i++;
+        } else if (tokens[i]?.text === '(' && !isNew) {
+            let j = i + 1;
+            while (tokens[j]?.text === ',') j++;
+            if (tokens[j]?.text !== ')') break;
+            i = j + 1;
+        } else {
+            break;
+        }
+    }
+    const typeTokens = tokens.slice(typeStart, i);
+    return {
+        type: {
+            text: joinTokens(typeTokens),
+            range: Range.create(
+                tokenRange(typeTokens[0]).start,
+                tokenRange(typeTokens[typeTokens.length - 1]).end
+            ),
+            isNew: isNew || undefined
+        },
+        next: i
+    };
+}
+
+/**
+ * Skips leading attribute blocks (`<Serializable()> Public Class ...`).
+ * @param tokens The statement tokens.
+ * @param i The start index.
+ * @returns The index of the first token after the attributes.
+ */
+function skipAttributes(tokens: Token[], i: number): number {
+    while (tokens[i]?.text === '<') {
+        let depth = 0;
+        let j = i + 1;
+        for (; j < tokens.length; j++) {
+            const t = tokens[j].text;
+            if (t === '(') depth++;
+            else if (t === ')') depth--;
+            else if (depth === 0 && t.startsWith('>')) break;
+        }
+        if (j >= tokens.length) return i;
+        i = j + 1;
+    }
+    return i;
+}
+
+/**
+ * Finds the parenthesis that closes the one at the given index.
+ * @param tokens The tokens.
+ * @param open The index of the opening parenthesis.
+ * @returns The index of the closing parenthesis, or -1.
+ */
+function findClosingParen(tokens: Token[], open: number): number {
+    let depth = 0;
+    for (let j = open; j < tokens.length; j++) {
+        const t = tokens[j].text;
+        if (t === '(' || t === '{') depth++;
+        else if (t === ')' || t === '}') {
+            depth--;
+            if (depth === 0) return j;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Splits a token range on commas that are not nested in parentheses or braces.
+ * @param tokens The tokens.
+ * @param start The start index (inclusive).
+ * @param end The end index (exclusive).
+ * @returns `[from, to)` index pairs of the non-empty parts.
+ */
+function splitOnCommas(tokens: Token[], start: number, end: number): [number, number][] {
+    const parts: [number, number][] = [];
+    let depth = 0;
+    let from = start;
+    for (let j = start; j < end; j++) {
+        const t = tokens[j].text;
+        if (t === '(' || t === '{') depth++;
+        else if (t === ')' || t === '}') depth--;
+        else if (t === ',' && depth === 0) {
+            if (j > from) parts.push([from, j]);
+            from = j + 1;
+        }
+    }
+    if (end > from) parts.push([from, end]);
+    return parts;
+}
+
+/**
+ * Checks if a token can be used as a name (identifiers, and keywords such as `New` or `Date`).
+ * @param token The token.
+ * @returns True for identifiers and keywords.
+ */
+function isNameToken(token: Token | undefined): boolean {
+    return (
+        token !== undefined &&
+        (token.kind === TokenKind.Identifier || token.kind === TokenKind.Keyword)
+    );
+}
+
+/**
+ * Creates a name node from a single token or a dotted sequence of tokens.
+ * @param tokens The tokens of the name.
+ * @returns The name.
+ */
+function toName(...tokens: Token[]): NameSyntax {
+    const text = tokens.map((t) => t.text.replace(/^\[(.*)\]$/, '$1')).join('');
+    return {
+        text,
+        range: Range.create(tokenRange(tokens[0]).start, tokenRange(tokens[tokens.length - 1]).end)
+    };
+}
+
+/**
+ * Creates the name node of a declared name, separating its type character (`s$`, `n%`).
+ * @param token The name token.
+ * @returns The name without the type character, and the type the character stands for.
+ */
+function toTypedName(token: Token): { name: NameSyntax; type?: TypeSyntax } {
+    const type = TYPE_CHARACTER_TYPES[token.text[token.text.length - 1]];
+    if (token.kind !== TokenKind.Identifier || !type) return { name: toName(token) };
+    const range = tokenRange(token);
+    const suffix = Position.create(range.end.line, range.end.character - 1);
+    return {
+        name: { text: token.text.slice(0, -1), range: Range.create(range.start, suffix) },
+        type: { text: type, range: Range.create(suffix, range.end) }
+    };
+}
+
+/**
+ * Creates a list node for the tokens between two parentheses.
+ * @param tokens The tokens.
+ * @param open The index of the opening parenthesis.
+ * @param close The index of the closing parenthesis.
+ * @returns The list.
+ */
+function toList(tokens: Token[], open: number, close: number): ListSyntax {
+    const last = tokens[Math.min(close, tokens.length - 1)];
+    return {
+        text: joinTokens(tokens.slice(open + 1, close)),
+        range: Range.create(tokenRange(tokens[open]).start, tokenRange(last).end)
+    };
+}
+
+/**
+ * Reconstructs source text from tokens, collapsing whitespace between tokens to one space.
+ * Tokens on different lines (joined by line continuations) are separated by one space,
+ * except directly inside parentheses and braces.
+ * @param tokens The tokens.
+ * @returns The text.
+ */
+export function joinTokens(tokens: Token[]): string {
+    let result = '';
+    for (let k = 0; k < tokens.length; k++) {
+        if (k > 0) {
+            const previous = tokens[k - 1];
+            const current = tokens[k];
+            if (previous.line !== current.line) {
+                if (!/^[({]$/.test(previous.text) && !/^[)},]$/.test(current.text)) result += ' ';
+            } else if (previous.offset + previous.text.length < current.offset) {
+                result += ' ';
+            }
+        }
+        result += tokens[k].text;
+    }
+    return result;
+}
@@ -1,23 +1,18 @@
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Position, Range } from 'vscode-languageserver/node';
 import { KEYWORDS } from '../keywords';
+import { tokenize, TokenKind } from './lexer';
+import { KeywordCasing } from './settings';
 
 /**
  * Strips comments from a line of Visual Basic code, respecting string literals.
+ * Both `'` comments and `REM` comments are recognized.
  * @param line The line of code to process.
  * @returns The line content before the comment starts.
  */
 export function stripComment(line: string): string {
-    let inString = false;
-    for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        if (char === '"') {
-            inString = !inString;
-        } else if (char === "'" && !inString) {
-            return line.substring(0, i);
-        }
-    }
-    return line;
+    const comment = tokenize(line).find((t) => t.kind === TokenKind.Comment);
+    return comment ? line.substring(0, comment.offset) : line;
 }
 
 /**
@@ -60,6 +55,27 @@ export function getWordRangeAtPosition(document: TextDocument, position: Positio
     return Range.create(document.positionAt(start), document.positionAt(end));
 }
 
+/**
+ * Gets the qualifier of the word at the specified position, e.g. `Color` for `Color.Red`.
+ * @param document The text document.
+ * @param position The position of the qualified word.
+ * @returns The word before the member access dot, or an empty string if the word is unqualified.
+ */
+export function getQualifierAtPosition(document: TextDocument, position: Position): string {
+    const range = getWordRangeAtPosition(document, position);
+    if (!range) return '';
+    const text = document.getText();
+    let index = document.offsetAt(range.start);
+    if (index === 0 || text.charAt(index - 1) !== '.') return '';
+    index--;
+
+    const end = index;
+    while (index > 0 && /\w/.test(text.charAt(index - 1))) {
+        index--;
+    }
+    return text.substring(index, end);
+}
+
 /**
  * Formats a line of code by normalizing spacing around operators, respecting string literals.
  * @param line The line of code to format.
@@ -89,12 +105,21 @@ export function formatLine(line: string): string {
     return parts.join('');
 }
 
+/** The words of the keywords (including each word of `End If` etc.) by lowercase word. */
+const KEYWORD_WORDS = new Map(
+    Object.values(KEYWORDS).flatMap((keyword) =>
+        keyword.label.split(' ').map((word) => [word.toLowerCase(), word] as const)
+    )
+);
+
 /**
  * Formats keywords in a line to their proper casing.
  * @param line The line of code to process.
+ * @param casing The keyword casing (`pascal` is the casing of the keyword list).
  * @returns The line with formatted keywords.
  */
-export function formatKeywordCasing(line: string): string {
+export function formatKeywordCasing(line: string, casing: KeywordCasing = 'pascal'): string {
+    if (casing === 'preserve') return line;
     // Split by string literals and comments to avoid modifying them
     const parts = line.split(/("(?:[^"]|"")*"|'.*)/g);
 
@@ -108,9 +133,11 @@ export function formatKeywordCasing(line: string): string {
 
         // Replace keywords
         parts[i] = part.replace(/\b\w+\b/g, (match) => {
-            const lower = match.toLowerCase();
-            if (KEYWORDS[lower]) {
-                return KEYWORDS[lower].label;
+            const word = KEYWORD_WORDS.get(match.toLowerCase());
+            if (word) {
+                if (casing === 'lower') return word.toLowerCase();
+                if (casing === 'upper') return word.toUpperCase();
+                return word;
             }
             return match;
         });
@@ -0,0 +1,1030 @@
+import { DocumentSymbol, Position, Range, SymbolKind } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { BUILTINS } from '../builtins';
+import { getDocumentModel } from './documentModel';
+import { Token, TokenKind, isCodeToken, tokenize } from './lexer';
+import { Logger } from './logger';
+import {
+    findGlobalSymbol,
+    findSymbolAtPosition,
+    findSymbolInScope,
+    findSymbolParent,
+    getSymbolContainingPosition,
+    parseDocumentSymbols
+} from './parser';
+import { getCompilerOptions } from './project';
+import { ParameterSyntax, StatementKind, findDeclaration, joinTokens } from './syntaxTree';
+import { getWordRangeAtPosition } from './textUtils';
+
+/**
+ * A symbol together with the document that declares it.
+ */
+export interface ResolvedSymbol {
+    symbol: DocumentSymbol;
+    document: TextDocument;
+}
+
+/**
+ * The state of one type lookup.
+ */
+interface InferenceContext {
+    /** The documents searched for types and globals. */
+    allDocuments: TextDocument[];
+    /** Declarations whose type is being determined, to stop at cycles (`Dim a = b`, `Dim b = a`). */
+    pending: Set<DocumentSymbol>;
+}
+
+/** Symbol kinds of types, which are their own type when used as a qualifier (`Color.Red`). */
+const TYPE_KINDS = new Set<SymbolKind>([
+    SymbolKind.Class,
+    SymbolKind.Module,
+    SymbolKind.Struct,
+    SymbolKind.Interface,
+    SymbolKind.Enum
+]);
+
+/** Symbol kinds whose parenthesized arguments are a call rather than an array index. */
+const CALLABLE_KINDS = new Set<SymbolKind>([
+    SymbolKind.Method,
+    SymbolKind.Function,
+    SymbolKind.Property,
+    SymbolKind.Operator
+]);
+
+/** The intrinsic types, by lowercase name. */
+const INTRINSIC_TYPES: { [name: string]: string } = {};
+for (const name of [
+    'Boolean',
+    'Byte',
+    'Char',
+    'Date',
+    'Decimal',
+    'Double',
+    'Integer',
+    'Long',
+    'Object',
+    'SByte',
+    'Short',
+    'Single',
+    'String',
+    'UInteger',
+    'ULong',
+    'UShort'
+]) {
+    INTRINSIC_TYPES[name.toLowerCase()] = name;
+}
+
+/** Result types of the conversion functions (`CInt(x)` is an Integer). */
+const CONVERSION_FUNCTIONS: { [name: string]: string } = {
+    cbool: 'Boolean',
+    cbyte: 'Byte',
+    cchar: 'Char',
+    cdate: 'Date',
+    cdbl: 'Double',
+    cdec: 'Decimal',
+    cint: 'Integer',
+    clng: 'Long',
+    cobj: 'Object',
+    csbyte: 'SByte',
+    cshort: 'Short',
+    csng: 'Single',
+    cstr: 'String',
+    cuint: 'UInteger',
+    culng: 'ULong',
+    cushort: 'UShort'
+};
+
+/** Casts whose second argument is the result type (`CType(x, Person)`). */
+const CAST_OPERATORS = new Set(['ctype', 'directcast', 'trycast']);
+
+/** Types of numeric literals by type character (`10L` is a Long). */
+const TYPE_CHARACTERS: { [suffix: string]: string } = {
+    s: 'Short',
+    us: 'UShort',
+    i: 'Integer',
+    ui: 'UInteger',
+    l: 'Long',
+    ul: 'ULong',
+    d: 'Decimal',
+    f: 'Single',
+    r: 'Double',
+    '%': 'Integer',
+    '&': 'Long',
+    '@': 'Decimal',
+    '!': 'Single',
+    '#': 'Double'
+};
+
+/** Binary operators whose result is Boolean whatever the operand types. */
+const BOOLEAN_OPERATORS = new Set([
+    '=',
+    '<>',
+    '<',
+    '>',
+    '<=',
+    '>=',
+    'andalso',
+    'orelse',
+    'is',
+    'isnot',
+    'like'
+]);
+
+/** Binary operators whose result depends on the operand types. */
+const ARITHMETIC_OPERATORS = new Set([
+    '+',
+    '-',
+    '*',
+    '/',
+    '\\',
+    'mod',
+    '^',
+    'and',
+    'or',
+    'xor',
+    '<<',
+    '>>'
+]);
+
+/** Numeric types from the narrowest to the widest, for the result of mixed arithmetic. */
+const NUMERIC_TYPES = ['Byte', 'Short', 'Integer', 'Long', 'Decimal', 'Single', 'Double'];
+
+/** Widening conversions of `SByte` and the unsigned types, which are not in `NUMERIC_TYPES`. */
+const UNSIGNED_WIDENING: { [type: string]: string[] } = {
+    sbyte: ['short', 'integer', 'long', 'decimal', 'single', 'double'],
+    byte: ['ushort', 'uinteger', 'ulong'],
+    ushort: ['integer', 'uinteger', 'long', 'ulong', 'decimal', 'single', 'double'],
+    uinteger: ['long', 'ulong', 'decimal', 'single', 'double'],
+    ulong: ['decimal', 'single', 'double']
+};
+
+/**
+ * Infers the type of an expression, e.g. `Person` for `New Person()`, `Integer` for `GetCount()`
+ * (if `GetCount` is declared `As Integer`) or `String` for `names(0)` (if `names` is a
+ * `String()`).
+ * @param expression The source text of the expression.
+ * @param document The document containing the expression.
+ * @param position The position of the expression (for scope lookup).
+ * @param allDocuments All documents of the workspace (for types and globals of other files).
+ * @returns The type as written in the source (e.g. `Person`, `Integer()`, `List(Of String)`),
+ *          or undefined if it cannot be determined.
+ */
+export function inferExpressionType(
+    expression: string,
+    document: TextDocument,
+    position: Position,
+    allDocuments: TextDocument[] = [document]
+): string | undefined {
+    const tokens = tokenize(expression).filter(isCodeToken);
+    const type = evaluate(tokens, document, position, { allDocuments, pending: new Set() });
+    Logger.debug(`TypeInference: '${expression}' is ${type ?? 'unknown'}`);
+    return type;
+}
+
+/**
+ * Gets the type of a declared symbol: the type of a variable, field, constant, parameter or
+ * property, the return type of a function, or the type itself for type declarations.
+ * Local variables and constants declared without `As` get the type of their initializer when
+ * `Option Infer` is on (unknown if it cannot be inferred), and `Object` otherwise.
+ * @param resolved The symbol and its document.
+ * @param allDocuments All documents of the workspace.
+ * @returns The type, or undefined for Subs and types that cannot be determined.
+ */
+export function getSymbolType(
+    resolved: ResolvedSymbol,
+    allDocuments: TextDocument[] = [resolved.document]
+): string | undefined {
+    return symbolType(resolved, { allDocuments, pending: new Set() });
+}
+
+/**
+ * Finds the declaration of a type by name, in scope of the position or in another document.
+ * Generic arguments and namespace qualifiers are ignored (`NS.List(Of T)` finds `List`);
+ * arrays have no declaration.
+ * @param typeName The type as written in the source.
+ * @param document The document where the type is used.
+ * @param position The position where the type is used.
+ * @param allDocuments All documents of the workspace.
+ * @returns The type declaration and its document, or null if it is not declared in the workspace.
+ */
+export function findTypeSymbol(
+    typeName: string,
+    document: TextDocument,
+    position: Position,
+    allDocuments: TextDocument[] = [document]
+): ResolvedSymbol | null {
+    const name = getDeclaredTypeName(typeName);
+    if (!name) return null;
+    const symbols = parseDocumentSymbols(document);
+    // A variable may have the name of its type (`Dim person As Person`)
+    const scoped = findSymbolInScope(symbols, name, position);
+    const local = scoped && TYPE_KINDS.has(scoped.kind) ? scoped : findGlobalSymbol(symbols, name);
+    if (local && TYPE_KINDS.has(local.kind)) return { symbol: local, document };
+    for (const other of allDocuments) {
+        if (other.uri === document.uri) continue;
+        const found = findGlobalSymbol(parseDocumentSymbols(other), name);
+        if (found && TYPE_KINDS.has(found.kind)) return { symbol: found, document: other };
+    }
+    return null;
+}
+
+/**
+ * Finds a member of the type of an expression, e.g. `Name` of `GetPerson()`.
+ * @param expression The source text of the expression before the dot.
+ * @param name The member name.
+ * @param document The document containing the expression.
+ * @param position The position of the member access.
+ * @param allDocuments All documents of the workspace.
+ * @returns The member and its document, or null if the type or member is unknown.
+ */
+export function findMemberOfExpression(
+    expression: string,
+    name: string,
+    document: TextDocument,
+    position: Position,
+    allDocuments: TextDocument[] = [document]
+): ResolvedSymbol | null {
+    if (!expression) return null;
+    const type = inferExpressionType(expression, document, position, allDocuments);
+    const container = type ? findTypeSymbol(type, document, position, allDocuments) : null;
+    return container ? findTypeMember(container, name, allDocuments) : null;
+}
+
+/**
+ * Gets the base types of a type: the class a class inherits, or the interfaces an interface
+ * inherits.
+ * @param type The type and its document.
+ * @param allDocuments All documents of the workspace.
+ * @returns The base types declared in the workspace, in the order of the `Inherits` statements.
+ */
+export function getBaseTypes(
+    type: ResolvedSymbol,
+    allDocuments: TextDocument[] = [type.document]
+): ResolvedSymbol[] {
+    const bases: ResolvedSymbol[] = [];
+    for (const child of type.symbol.children ?? []) {
+        const match = /^Inherits\s+(.+)$/.exec(child.name);
+        if (!match) continue;
+        const base = findTypeSymbol(match[1], type.document, child.range.start, allDocuments);
+        if (base && base.symbol !== type.symbol) bases.push(base);
+    }
+    return bases;
+}
+
+/**
+ * Gets the members of a type, including the members inherited from its base types. Members
+ * declared again in a derived type (`Overrides`, `Shadows`) hide the base members of the same
+ * name; constructors are not inherited.
+ * @param type The type and its document.
+ * @param allDocuments All documents of the workspace.
+ * @returns The members, the type's own members first.
+ */
+export function getTypeMembers(
+    type: ResolvedSymbol,
+    allDocuments: TextDocument[] = [type.document]
+): ResolvedSymbol[] {
+    const members: ResolvedSymbol[] = [];
+    const hidden = new Set<string>();
+    const visited = new Set<DocumentSymbol>();
+    const collect = (current: ResolvedSymbol, inherited: boolean) => {
+        if (visited.has(current.symbol)) return;
+        visited.add(current.symbol);
+        const declared: string[] = [];
+        for (const child of current.symbol.children ?? []) {
+            const name = child.name.toLowerCase();
+            if (/^(?:Inherits|Implements)\s/.test(child.name) || hidden.has(name)) continue;
+            if (inherited && name === 'new') continue;
+            members.push({ symbol: child, document: current.document });
+            declared.push(name);
+        }
+        declared.forEach((name) => hidden.add(name));
+        for (const base of getBaseTypes(current, allDocuments)) collect(base, true);
+    };
+    collect(type, false);
+    return members;
+}
+
+/**
+ * Finds a member of a type by name, including inherited members.
+ * @param type The type and its document.
+ * @param name The member name.
+ * @param allDocuments All documents of the workspace.
+ * @returns The member and its document, or null if the type has no such member.
+ */
+export function findTypeMember(
+    type: ResolvedSymbol,
+    name: string,
+    allDocuments: TextDocument[] = [type.document]
+): ResolvedSymbol | null {
+    const lowerName = name.toLowerCase();
+    return (
+        getTypeMembers(type, allDocuments).find((m) => m.symbol.name.toLowerCase() === lowerName) ??
+        null
+    );
+}
+
+/**
+ * Finds a member inherited by the type containing a position, i.e. a base member used without
+ * qualifier inside a derived class.
+ * @param name The member name.
+ * @param document The document.
+ * @param position The position where the name is used.
+ * @param allDocuments All documents of the workspace.
+ * @returns The inherited member and its document, or null if there is none.
+ */
+export function findInheritedMember(
+    name: string,
+    document: TextDocument,
+    position: Position,
+    allDocuments: TextDocument[] = [document]
+): ResolvedSymbol | null {
+    return findInheritedMembers(name, document, position, allDocuments)[0] ?? null;
+}
+
+/**
+ * Finds all inherited members of a name (the overloads of a base method) for the type
+ * containing a position.
+ * @param name The member name.
+ * @param document The document.
+ * @param position The position where the name is used.
+ * @param allDocuments All documents of the workspace.
+ * @returns The inherited members of the first base type that declares the name.
+ */
+export function findInheritedMembers(
+    name: string,
+    document: TextDocument,
+    position: Position,
+    allDocuments: TextDocument[] = [document]
+): ResolvedSymbol[] {
+    const type = findContainingType(document, position);
+    if (!type) return [];
+    const lowerName = name.toLowerCase();
+    for (const base of getBaseTypes({ symbol: type, document }, allDocuments)) {
+        const members = getTypeMembers(base, allDocuments).filter(
+            (m) => m.symbol.name.toLowerCase() === lowerName
+        );
+        if (members.length > 0) return members;
+    }
+    return [];
+}
+
+/**
+ * Checks whether the type containing a position inherits, directly or through its base types,
+ * a type that is not declared in the workspace (e.g. `Form`), whose members are unknown.
+ * @param document The document.
+ * @param position A position inside the type.
+ * @param allDocuments All documents of the workspace.
+ * @returns True if a base type cannot be found.
+ */
+export function inheritsExternalType(
+    document: TextDocument,
+    position: Position,
+    allDocuments: TextDocument[] = [document]
+): boolean {
+    const type = findContainingType(document, position);
+    if (!type) return false;
+    const visited = new Set<DocumentSymbol>();
+    const check = (current: ResolvedSymbol): boolean => {
+        if (visited.has(current.symbol)) return false;
+        visited.add(current.symbol);
+        const inherits = (current.symbol.children ?? []).filter((c) => /^Inherits\s/.test(c.name));
+        const bases = getBaseTypes(current, allDocuments);
+        return bases.length < inherits.length || bases.some(check);
+    };
+    return check({ symbol: type, document });
+}
+
+/**
+ * Gets the declared type of a parameter, e.g. `Integer()` for `ParamArray values() As Integer`.
+ * @param parameter The parameter syntax.
+ * @returns The type, `Object` if the parameter has no `As` clause.
+ */
+export function getParameterType(parameter: ParameterSyntax): string {
+    const type = parameter.type ? normalizeType(parameter.type.text) : 'Object';
+    return parameter.arraySuffix ? `${type}${parameter.arraySuffix}` : type;
+}
+
+/**
+ * Checks whether a value of one type converts to another without loss, e.g. `Integer` to
+ * `Long` or anything to `Object`.
+ * @param from The type of the value.
+ * @param to The target type.
+ * @returns True for identical types and widening conversions.
+ */
+export function isWideningConversion(from: string, to: string): boolean {
+    const source = normalizeType(from).toLowerCase();
+    const target = normalizeType(to).toLowerCase();
+    if (source === target || target === 'object') return true;
+    if (source === 'char' && target === 'string') return true;
+    if (UNSIGNED_WIDENING[source]?.includes(target)) return true;
+    const ranks = NUMERIC_TYPES.map((type) => type.toLowerCase());
+    return ranks.includes(source) && ranks.indexOf(source) < ranks.indexOf(target);
+}
+
+/**
+ * Checks whether a type derives from another, i.e. inherits it (directly or through its base
+ * types) or implements it.
+ * @param type The type and its document.
+ * @param base The possible base class or interface.
+ * @param allDocuments All documents of the workspace.
+ * @returns True if `base` is a supertype of `type`.
+ */
+export function isDerivedType(
+    type: ResolvedSymbol,
+    base: ResolvedSymbol,
+    allDocuments: TextDocument[] = [type.document]
+): boolean {
+    const visited = new Set<DocumentSymbol>();
+    const check = (current: ResolvedSymbol): boolean => {
+        if (visited.has(current.symbol)) return false;
+        visited.add(current.symbol);
+        for (const child of current.symbol.children ?? []) {
+            const match = /^(?:Inherits|Implements)\s+(.+)$/.exec(child.name);
+            if (!match) continue;
+            const supertype = findTypeSymbol(
+                match[1],
+                current.document,
+                child.range.start,
+                allDocuments
+            );
+            if (supertype && (supertype.symbol === base.symbol || check(supertype))) return true;
+        }
+        return false;
+    };
+    return check(type);
+}
+
+/**
+ * Finds the cycle of `Inherits` statements a type is part of (`Class C` inheriting `C`, or
+ * `Class A` inheriting `B` which inherits `A`). Types that repeat are not walked again.
+ * @param type The type and its document.
+ * @param allDocuments All documents of the workspace.
+ * @returns The `Inherits` statements of the cycle, from the type's own one to the one naming the
+ *          type again, or an empty array if the type does not inherit itself.
+ */
+export function findInheritanceCycle(
+    type: ResolvedSymbol,
+    allDocuments: TextDocument[] = [type.document]
+): ResolvedSymbol[] {
+    const visited = new Set<DocumentSymbol>();
+    const path: ResolvedSymbol[] = [];
+    const walk = (current: ResolvedSymbol): boolean => {
+        if (visited.has(current.symbol)) return false;
+        visited.add(current.symbol);
+        for (const child of current.symbol.children ?? []) {
+            const match = /^Inherits\s+(.+)$/.exec(child.name);
+            if (!match) continue;
+            const base = findTypeSymbol(
+                match[1],
+                current.document,
+                child.range.start,
+                allDocuments
+            );
+            if (!base) continue;
+            path.push({ symbol: child, document: current.document });
+            if (base.symbol === type.symbol || walk(base)) return true;
+            path.pop();
+        }
+        return false;
+    };
+    return walk(type) ? path : [];
+}
+
+/**
+ * Checks whether a type is known to be a reference type, whose variables are `Nothing` until
+ * assigned: `String`, `Object`, arrays and the classes and interfaces of the workspace.
+ * @param typeName The type as written in the source.
+ * @param document The document where the type is used.
+ * @param position The position where the type is used.
+ * @param allDocuments All documents of the workspace.
+ * @returns False for value types and for types declared outside the workspace.
+ */
+export function isReferenceType(
+    typeName: string,
+    document: TextDocument,
+    position: Position,
+    allDocuments: TextDocument[] = [document]
+): boolean {
+    const type = normalizeType(typeName).toLowerCase();
+    if (type === 'string' || type === 'object' || /\([\s,]*\)$/.test(type)) return true;
+    const resolved = findTypeSymbol(typeName, document, position, allDocuments);
+    return (
+        resolved?.symbol.kind === SymbolKind.Class || resolved?.symbol.kind === SymbolKind.Interface
+    );
+}
+
+/**
+ * Resolves the member accessed at a position, e.g. `Name` in `people(0).Name`.
+ * @param document The text document.
+ * @param position The position of the member name.
+ * @param allDocuments All documents of the workspace.
+ * @returns The member and its document, or null if the word is not a member access or the
+ *          member is unknown.
+ */
+export function resolveMemberAtPosition(
+    document: TextDocument,
+    position: Position,
+    allDocuments: TextDocument[] = [document]
+): ResolvedSymbol | null {
+    const range = getWordRangeAtPosition(document, position);
+    if (!range) return null;
+    const text = document.getText();
+    const start = document.offsetAt(range.start);
+    let dot = start;
+    while (dot > 0 && /[ \t]/.test(text[dot - 1])) dot--;
+    if (dot === 0 || text[dot - 1] !== '.') return null;
+    const name = text.substring(start, document.offsetAt(range.end));
+    const expression = getExpressionBeforeDot(text, dot - 1);
+    return findMemberOfExpression(expression, name, document, position, allDocuments);
+}
+
+/**
+ * Gets the expression a member access dot applies to, scanning backwards over names, dots and
+ * parenthesized arguments on the same line, e.g. `New Person().Home` for the last dot in
+ * `x = New Person().Home.`.
+ * @param text The document text.
+ * @param dotOffset The offset of the dot.
+ * @returns The expression, or an empty string if there is none (e.g. inside `With` blocks).
+ */
+export function getExpressionBeforeDot(text: string, dotOffset: number): string {
+    let index = dotOffset;
+    while (true) {
+        while (index > 0 && /[ \t]/.test(text[index - 1])) index--;
+        const segmentEnd = index;
+        // Arguments or indexes, e.g. `GetItems()` or `items(0)`
+        while (index > 0 && text[index - 1] === ')') {
+            const open = findOpeningParenthesis(text, index - 1);
+            if (open < 0) return '';
+            index = open;
+        }
+        while (index > 0 && /\w/.test(text[index - 1])) index--;
+        if (index === segmentEnd) break;
+
+        let before = index;
+        while (before > 0 && /[ \t]/.test(text[before - 1])) before--;
+        if (before > 0 && text[before - 1] === '.') {
+            index = before - 1;
+            continue;
+        }
+        const lineStart = text.lastIndexOf('\n', index - 1) + 1;
+        const newKeyword = /\bNew\s+$/i.exec(text.substring(lineStart, index));
+        if (newKeyword) index -= newKeyword[0].length;
+        break;
+    }
+    return text.substring(index, dotOffset).trim();
+}
+
+/**
+ * Finds the opening parenthesis matching a closing one on the same line.
+ * @param text The document text.
+ * @param close The offset of the closing parenthesis.
+ * @returns The offset of the opening parenthesis, or -1 if there is none on the line.
+ */
+function findOpeningParenthesis(text: string, close: number): number {
+    let depth = 0;
+    for (let i = close; i >= 0 && text[i] !== '\n'; i--) {
+        if (text[i] === ')') depth++;
+        else if (text[i] === '(' && --depth === 0) return i;
+    }
+    return -1;
+}
+
+/**
+ * Evaluates the type of an expression.
+ * @param tokens The code tokens of the expression.
+ * @param document The document containing the expression.
+ * @param position The position of the expression (for scope lookup).
+ * @param context The inference context.
+ * @returns The type, or undefined if it cannot be determined.
+ */
+function evaluate(
+    tokens: Token[],
+    document: TextDocument,
+    position: Position,
+    context: InferenceContext
+): string | undefined {
+    tokens = unwrapParentheses(tokens);
+    if (tokens.length === 0) return undefined;
+
+    // Split at the binary operators outside of parentheses and braces
+    const operands: Token[][] = [[]];
+    const operators: string[] = [];
+    let depth = 0;
+    for (const token of tokens) {
+        if (token.text === '(' || token.text === '{') {
+            depth++;
+        } else if (token.text === ')' || token.text === '}') {
+            depth--;
+        } else if (
+            depth === 0 &&
+            operands[operands.length - 1].length > 0 &&
+            isBinaryOperator(token)
+        ) {
+            operators.push(token.value);
+            operands.push([]);
+            continue;
+        }
+        operands[operands.length - 1].push(token);
+    }
+
+    if (operators.length === 0) return evaluatePrimary(tokens, document, position, context);
+    if (operators.some((op) => BOOLEAN_OPERATORS.has(op))) return 'Boolean';
+    if (operators.includes('&')) return 'String';
+
+    const types = operands.map((operand) => evaluate(operand, document, position, context));
+    if (types.some((type) => type === undefined)) return undefined;
+    if (operators.includes('+') && types.includes('String')) return 'String';
+    const ranks = types.map((type) => NUMERIC_TYPES.indexOf(type as string));
+    if (ranks.some((rank) => rank < 0)) {
+        return types.every((type) => type === types[0]) ? types[0] : undefined;
+    }
+    const widest = NUMERIC_TYPES[Math.max(...ranks)];
+    if (operators.includes('^')) return 'Double';
+    if (operators.includes('/') && widest !== 'Decimal' && widest !== 'Single') return 'Double';
+    return widest;
+}
+
+/**
+ * Evaluates the type of an operand: a literal, `New`, a cast, `Me` or a name, followed by
+ * member accesses, calls and indexes.
+ * @param tokens The code tokens of the operand.
+ * @param document The document containing the operand.
+ * @param position The position of the operand (for scope lookup).
+ * @param context The inference context.
+ * @returns The type, or undefined if it cannot be determined.
+ */
+function evaluatePrimary(
+    tokens: Token[],
+    document: TextDocument,
+    position: Position,
+    context: InferenceContext
+): string | undefined {
+    const first = tokens[0];
+    const next = tokens[1];
+    if (first.value === 'not' || first.value === '-' || first.value === '+') {
+        return evaluate(tokens.slice(1), document, position, context);
+    }
+
+    let type: string | undefined;
+    let index = 1;
+    if (first.value === 'new') {
+        ({ type, index } = evaluateNew(tokens));
+    } else if (first.text === '{') {
+        // Array literal: an array of the type of its first element
+        const close = findClosing(tokens, 0);
+        const element = splitArguments(tokens.slice(1, close))[0] ?? [];
+        const elementType = evaluate(element, document, position, context);
+        return elementType && close === tokens.length - 1 ? `${elementType}()` : undefined;
+    } else if (next?.text === '(' && CAST_OPERATORS.has(first.value)) {
+        index = findClosing(tokens, 1) + 1;
+        const target = splitArguments(tokens.slice(2, index - 1))[1];
+        type = target ? normalizeType(joinTokens(target)) : undefined;
+    } else if (next?.text === '(' && CONVERSION_FUNCTIONS[first.value]) {
+        index = findClosing(tokens, 1) + 1;
+        type = CONVERSION_FUNCTIONS[first.value];
+    } else if (next?.text === '(' && first.value === 'if') {
+        // If(condition, whenTrue, whenFalse) or If(value, fallback)
+        index = findClosing(tokens, 1) + 1;
+        const args = splitArguments(tokens.slice(2, index - 1));
+        type = evaluate(args[args.length - 2] ?? [], document, position, context);
+    } else if (first.value === 'me' || first.value === 'myclass') {
+        type = findContainingType(document, position)?.name;
+    } else if (first.value === 'mybase') {
+        const derived = findContainingType(document, position);
+        type = derived
+            ? getBaseTypes({ symbol: derived, document }, context.allDocuments)[0]?.symbol.name
+            : undefined;
+    } else if (first.kind === TokenKind.Identifier) {
+        const resolved = resolveName(first.value, document, position, context.allDocuments);
+        if (resolved) {
+            type = symbolType(resolved, context);
+            if (next?.text === '(') {
+                index = findClosing(tokens, 1) + 1;
+                if (!CALLABLE_KINDS.has(resolved.symbol.kind)) type = getElementType(type);
+            }
+        } else if (BUILTINS[first.value]) {
+            const returnType = /\)\s*As\s+(\S+)$/i.exec(BUILTINS[first.value].detail);
+            type = returnType ? normalizeType(returnType[1]) : undefined;
+            if (next?.text === '(') index = findClosing(tokens, 1) + 1;
+        }
+    } else if (tokens.length === 1) {
+        return getLiteralType(first);
+    }
+
+    // Member accesses, calls and indexes
+    while (type && index < tokens.length) {
+        if (tokens[index].text === '(') {
+            // Index into the result of a call, e.g. `GetItems()(0)`
+            index = findClosing(tokens, index) + 1;
+            type = getElementType(type);
+            continue;
+        }
+        const name = tokens[index + 1];
+        if (tokens[index].text !== '.' || !name) return undefined;
+        const container = findTypeSymbol(type, document, position, context.allDocuments);
+        const member = container && findTypeMember(container, name.value, context.allDocuments);
+        if (!member) return undefined;
+        type = symbolType(member, context);
+        index += 2;
+        if (tokens[index]?.text === '(') {
+            index = findClosing(tokens, index) + 1;
+            if (!CALLABLE_KINDS.has(member.symbol.kind)) type = getElementType(type);
+        }
+    }
+    return type;
+}
+
+/**
+ * Evaluates the type of a `New` expression: the created type, or an array of it if the
+ * arguments are followed by an array initializer (`New Integer() {1, 2}`).
+ * @param tokens The code tokens of the expression, starting with `New`.
+ * @returns The type (undefined if none is named) and the index of the token after the
+ *          expression, where member accesses may follow (`New Person().Home`).
+ */
+function evaluateNew(tokens: Token[]): { type: string | undefined; index: number } {
+    let index = 1;
+    const typeTokens: Token[] = [];
+    while (index < tokens.length) {
+        const token = tokens[index];
+        if (token.text === '(' && tokens[index + 1]?.value === 'of') {
+            const close = findClosing(tokens, index);
+            typeTokens.push(...tokens.slice(index, close + 1));
+            index = close + 1;
+        } else if (
+            token.kind === TokenKind.Identifier ||
+            (token.kind === TokenKind.Keyword && token.value !== 'with') ||
+            token.text === '.'
+        ) {
+            typeTokens.push(token);
+            index++;
+        } else {
+            break;
+        }
+    }
+    if (typeTokens.length === 0) return { type: undefined, index };
+    const type = normalizeType(joinTokens(typeTokens));
+    if (tokens[index]?.text === '(') index = findClosing(tokens, index) + 1;
+    if (tokens[index]?.text === '{') {
+        return { type: `${type}()`, index: findClosing(tokens, index) + 1 };
+    }
+    // Object initializer: `New Person() With {.Name = "Ann"}`
+    if (tokens[index]?.value === 'with' && tokens[index + 1]?.text === '{') {
+        index = findClosing(tokens, index + 1) + 1;
+    }
+    return { type, index };
+}
+
+/**
+ * Gets the type of a declared symbol (see `getSymbolType`).
+ * @param resolved The symbol and its document.
+ * @param context The inference context.
+ * @returns The type, or undefined if it cannot be determined.
+ */
+function symbolType(resolved: ResolvedSymbol, context: InferenceContext): string | undefined {
+    const { symbol, document } = resolved;
+    if (TYPE_KINDS.has(symbol.kind)) return symbol.name;
+    if (symbol.kind === SymbolKind.EnumMember) {
+        // The type of an enum member is the Enum block declaring it
+        const declaration = findDeclaration(
+            getDocumentModel(document).declarations,
+            symbol.selectionRange
+        );
+        return declaration?.statement.parent?.begin?.name?.text;
+    }
+    if (symbol.kind === SymbolKind.Method || context.pending.has(symbol)) return undefined;
+
+    context.pending.add(symbol);
+    try {
+        return declaredType(resolved, context);
+    } finally {
+        context.pending.delete(symbol);
+    }
+}
+
+/**
+ * Gets the type of a symbol from its declaration in the syntax tree.
+ * @param resolved The symbol and its document.
+ * @param context The inference context.
+ * @returns The declared or inferred type, or undefined if the declaration is not found or the
+ *          type of its initializer cannot be inferred.
+ */
+function declaredType(resolved: ResolvedSymbol, context: InferenceContext): string | undefined {
+    const { symbol, document } = resolved;
+    const declaration = findDeclaration(
+        getDocumentModel(document).declarations,
+        symbol.selectionRange
+    );
+    if (!declaration) {
+        Logger.debug(`TypeInference: Declaration of '${symbol.name}' not found.`);
+        return undefined;
+    }
+    const { statement, parameter, declarator } = declaration;
+    if (parameter) return getParameterType(parameter);
+    if (!declarator) {
+        return statement.asClause ? normalizeType(statement.asClause.text) : 'Object';
+    }
+    if (declarator.type) {
+        return toArrayType(normalizeType(declarator.type.text), declarator.arrayBounds);
+    }
+    // Option Infer applies to local variables and constants; fields stay Object
+    const inferable = statement.kind === StatementKind.Const || symbol.kind === SymbolKind.Variable;
+    if (declarator.initializer && inferable && getCompilerOptions(document).infer) {
+        // The type of an initializer that cannot be evaluated is unknown, not Object
+        const initializer = tokenize(declarator.initializer).filter(isCodeToken);
+        return evaluate(initializer, document, declarator.range.start, context);
+    }
+    return toArrayType('Object', declarator.arrayBounds);
+}
+
+/**
+ * Resolves a name in scope of a position, or as a global of the workspace.
+ * @param name The lowercase name.
+ * @param document The document where the name is used.
+ * @param position The position where the name is used.
+ * @param allDocuments All documents of the workspace.
+ * @returns The symbol and its document, or null if it is not declared in the workspace.
+ */
+function resolveName(
+    name: string,
+    document: TextDocument,
+    position: Position,
+    allDocuments: TextDocument[]
+): ResolvedSymbol | null {
+    const symbol = findSymbolAtPosition(parseDocumentSymbols(document), name, position);
+    if (symbol) return { symbol, document };
+    const inherited = findInheritedMember(name, document, position, allDocuments);
+    if (inherited) return inherited;
+    for (const other of [document, ...allDocuments.filter((d) => d.uri !== document.uri)]) {
+        const found = findGlobalSymbol(parseDocumentSymbols(other), name);
+        if (found) return { symbol: found, document: other };
+    }
+    return null;
+}
+
+/**
+ * Finds the type (Class, Structure, Module) containing a position, i.e. the type of `Me`.
+ * @param document The text document.
+ * @param position The position.
+ * @returns The type symbol, or null outside of types.
+ */
+function findContainingType(document: TextDocument, position: Position): DocumentSymbol | null {
+    const symbols = parseDocumentSymbols(document);
+    let symbol = getSymbolContainingPosition(symbols, position);
+    while (symbol && !TYPE_KINDS.has(symbol.kind)) {
+        symbol = findSymbolParent(symbols, symbol);
+    }
+    return symbol;
+}
+
+/**
+ * Gets the type of a literal token.
+ * @param token The token.
+ * @returns The type, or undefined if the token is not a typed literal (e.g. `Nothing`).
+ */
+function getLiteralType(token: Token): string | undefined {
+    switch (token.kind) {
+        case TokenKind.StringLiteral:
+            return /c$/i.test(token.text) ? 'Char' : 'String';
+        case TokenKind.DateLiteral:
+            return 'Date';
+        case TokenKind.NumericLiteral: {
+            const value = token.value;
+            // Hexadecimal digits include `d` and `f`, which are type characters of decimals
+            const based = /^&[hob]/.test(value);
+            const suffix = based
+                ? /(us|ui|ul|s|i|l|%|&)$/.exec(value.substring(2))
+                : /(us|ui|ul|s|i|l|d|f|r|%|&|@|!|#)$/.exec(value);
+            if (suffix) return TYPE_CHARACTERS[suffix[1]];
+            return !based && /[.e]/.test(value) ? 'Double' : 'Integer';
+        }
+        case TokenKind.Keyword:
+            return token.value === 'true' || token.value === 'false' ? 'Boolean' : undefined;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Gets the name to look up the declaration of a type by.
+ * @param type The type as written in the source.
+ * @returns The simple name without generic arguments and qualifiers, or undefined for arrays.
+ */
+function getDeclaredTypeName(type: string): string | undefined {
+    if (getElementType(type) !== undefined) return undefined;
+    const name = type
+        .replace(/\(\s*Of\b.*\)$/i, '')
+        .replace(/\?$/, '')
+        .trim();
+    return name.substring(name.lastIndexOf('.') + 1) || undefined;
+}
+
+/**
+ * Gets the element type of an array type.
+ * @param type The type, e.g. `Integer()` or `String(,)`.
+ * @returns The element type, or undefined if the type is not an array.
+ */
+function getElementType(type: string | undefined): string | undefined {
+    const match = type ? /^(.*)\(\s*(?:,\s*)*\)$/.exec(type) : null;
+    return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Makes a declared type an array type if the declarator has bounds (`Dim a(10) As Integer`).
+ * @param type The declared type.
+ * @param bounds The source text of the bounds, if any.
+ * @returns The type, or the array type with the rank of the bounds.
+ */
+function toArrayType(type: string, bounds: string | undefined): string {
+    if (bounds === undefined) return type;
+    return `${type}(${','.repeat(bounds.split(',').length - 1)})`;
+}
+
+/**
+ * Writes intrinsic type names in their usual casing (`integer` becomes `Integer`).
+ * @param type The type as written in the source.
+ * @returns The normalized type.
+ */
+function normalizeType(type: string): string {
+    return type.trim().replace(/^\w+/, (name) => INTRINSIC_TYPES[name.toLowerCase()] ?? name);
+}
+
+/**
+ * Removes the parentheses around a whole expression.
+ * @param tokens The tokens of the expression.
+ * @returns The tokens inside the parentheses.
+ */
+function unwrapParentheses(tokens: Token[]): Token[] {
+    while (
+        tokens.length > 1 &&
+        tokens[0].text === '(' &&
+        findClosing(tokens, 0) === tokens.length - 1
+    ) {
+        tokens = tokens.slice(1, -1);
+    }
+    return tokens;
+}
+
+/**
+ * Finds the parenthesis or brace closing the one at an index.
+ * @param tokens The tokens.
+ * @param open The index of the opening parenthesis or brace.
+ * @returns The index of the closing one, or the last index if it is not closed.
+ */
+function findClosing(tokens: Token[], open: number): number {
+    let depth = 0;
+    for (let i = open; i < tokens.length; i++) {
+        const text = tokens[i].text;
+        if (text === '(' || text === '{') depth++;
+        else if ((text === ')' || text === '}') && --depth === 0) return i;
+    }
+    return tokens.length - 1;
+}
+
+/**
+ * Splits an argument list at the commas outside of nested parentheses and braces.
+ * @param tokens The tokens between the parentheses.
+ * @returns The tokens of each argument.
+ */
+function splitArguments(tokens: Token[]): Token[][] {
+    const args: Token[][] = [[]];
+    let depth = 0;
+    for (const token of tokens) {
+        if (token.text === '(' || token.text === '{') depth++;
+        else if (token.text === ')' || token.text === '}') depth--;
+        if (token.text === ',' && depth === 0) {
+            args.push([]);
+        } else {
+            args[args.length - 1].push(token);
+        }
+    }
+    return args;
+}
+
+/**
+ * Checks if a token is a binary operator.
+ * @param token The token.
+ * @returns True for arithmetic, concatenation, comparison and logical operators.
+ */
+function isBinaryOperator(token: Token): boolean {
+    if (token.kind !== TokenKind.Operator && token.kind !== TokenKind.Keyword) return false;
+    return (
+        token.value === '&' ||
+        BOOLEAN_OPERATORS.has(token.value) ||
+        ARITHMETIC_OPERATORS.has(token.value)
+    );
+}
+
+/**
+ * Checks if two ranges are equal.
+ * @param a The first range.
+ * @param b The second range.
+ * @returns True if both ranges start and end at the same positions.
+ */
+export function isSameRange(a: Range, b: Range): boolean {
+    return (
+        a.start.line === b.start.line &&
+        a.start.character === b.start.character &&
+        a.end.line === b.end.line &&
+        a.end.character === b.end.character
+    );
+}
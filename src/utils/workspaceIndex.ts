@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Logger } from './logger';
+import { parseDocumentSymbols } from './parser';
+import { ProgressTracker, RequestContext } from './progress';
+import { removeDocumentModel } from './documentModel';
+import { uriToPath, pathKey, findFiles } from './paths';
+import {
+    isProjectFile,
+    isSolutionFile,
+    loadProjectFile,
+    loadSolutionFile,
+    removeProject,
+    getProjects
+} from './project';
+
+/**
+ * Keeps an in-memory index of the `.vb` files in the workspace folders, including files that are
+ * not open in the editor. Cross-file features resolve against `getDocuments`, which combines
+ * the indexed files with the open documents (open documents take precedence).
+ * `.vbproj` and `.sln` files found in the folders are loaded into the project registry.
+ */
+export class WorkspaceIndex {
+    private files: Map<string, TextDocument> = new Map();
+    private isOpen: (uri: string) => boolean;
+
+    /**
+     * @param isOpen Checks if a file is open in the editor. The cached models of open files
+     *               belong to the editor's version and are left alone.
+     */
+    constructor(isOpen: (uri: string) => boolean = () => false) {
+        this.isOpen = isOpen;
+    }
+
+    /** The number of indexed files. */
+    public get size(): number {
+        return this.files.size;
+    }
+
+    /**
+     * Walks a workspace folder, loads its project and solution files and indexes every `.vb`
+     * file in it.
+     * @param folderUri The URI of the workspace folder.
+     * @param context Reports the progress per file; indexing stops early if it is cancelled.
+     * @returns The number of source files indexed.
+     */
+    public async indexFolder(folderUri: string, context: RequestContext = {}): Promise<number> {
+        const folder = uriToPath(folderUri);
+        if (!folder) return 0;
+        Logger.log(`WorkspaceIndex: Indexing ${folder}`);
+        const paths = await findFiles(folder, isWorkspaceFile);
+        // Projects first, so that the files are parsed knowing their project
+        const sources = paths.filter(isSourceFile);
+        const ordered = paths.filter((p) => !isSourceFile(p)).concat(sources);
+        const progress = new ProgressTracker(
+            context,
+            `Indexing ${path.basename(folder)}`,
+            ordered.length
+        );
+        try {
+            for (const filePath of ordered) {
+                await progress.next(path.relative(folder, filePath));
+                await this.updateFile(pathToFileURL(filePath).href);
+            }
+        } finally {
+            progress.done();
+        }
+        Logger.log(`WorkspaceIndex: Indexed ${sources.length} files in ${folder}`);
+        return sources.length;
+    }
+
+    /**
+     * Removes all files of a workspace folder from the index.
+     * @param folderUri The URI of the workspace folder.
+     */
+    public removeFolder(folderUri: string): void {
+        const folder = uriToPath(folderUri);
+        if (!folder) return;
+        const prefix = folder.endsWith(path.sep) ? folder : folder + path.sep;
+        for (const project of getProjects()) {
+            if (pathKey(project.path).startsWith(pathKey(prefix))) {
+                removeProject(project.path);
+            }
+        }
+        for (const [key, document] of this.files) {
+            if (key.startsWith(pathKey(prefix))) {
+                this.files.delete(key);
+                this.dropModel(document.uri);
+            }
+        }
+    }
+
+    /**
+     * Reads a file from disk and (re-)indexes it. Project and solution files are (re-)loaded
+     * into the project registry.
+     * Files that cannot be read (e.g. deleted in the meantime) are removed from the index.
+     * @param uri The file URI.
+     */
+    public async updateFile(uri: string): Promise<void> {
+        const filePath = uriToPath(uri);
+        if (!filePath) return;
+        if (isProjectFile(filePath)) {
+            await loadProjectFile(filePath);
+            return;
+        }
+        if (isSolutionFile(filePath)) {
+            await loadSolutionFile(filePath);
+            return;
+        }
+        const key = pathKey(filePath);
+        let text: string;
+        try {
+            text = await fs.promises.readFile(filePath, 'utf8');
+        } catch (error) {
+            Logger.debug(`WorkspaceIndex: Could not read ${filePath}: ${error}`);
+            this.removeFile(uri);
+            return;
+        }
+
+        const previous = this.files.get(key);
+        if (previous && previous.getText() === text) return;
+        const document = TextDocument.create(
+            previous ? previous.uri : uri,
+            'vb',
+            previous ? previous.version + 1 : 0,
+            text
+        );
+        this.files.set(key, document);
+        if (!this.isOpen(document.uri)) {
+            // Parse eagerly so that cross-file lookups hit the cached symbols
+            parseDocumentSymbols(document);
+        }
+    }
+
+    /**
+     * Removes a file from the index.
+     * @param uri The file URI.
+     */
+    public removeFile(uri: string): void {
+        const filePath = uriToPath(uri);
+        if (!filePath) return;
+        if (isProjectFile(filePath)) {
+            removeProject(filePath);
+            return;
+        }
+        const key = pathKey(filePath);
+        const document = this.files.get(key);
+        if (document) {
+            this.files.delete(key);
+            this.dropModel(document.uri);
+        }
+    }
+
+    /**
+     * Checks if a file is part of the index.
+     * @param uri The file URI.
+     * @returns True if the file is indexed.
+     */
+    public has(uri: string): boolean {
+        const filePath = uriToPath(uri);
+        return !!filePath && this.files.has(pathKey(filePath));
+    }
+
+    /**
+     * Drops the cached model of an indexed file unless the file is open.
+     * @param uri The file URI.
+     */
+    private dropModel(uri: string): void {
+        if (!this.isOpen(uri)) {
+            removeDocumentModel(uri);
+        }
+    }
+
+    /**
+     * Gets all documents of the project: the open documents plus the indexed files that are not
+     * open. The open version of a file replaces its indexed (on-disk) version.
+     * @param openDocuments The documents open in the editor.
+     * @returns The documents to resolve cross-file features against.
+     */
+    public getDocuments(openDocuments: TextDocument[]): TextDocument[] {
+        if (this.files.size === 0) return openDocuments;
+        const open = new Set<string>();
+        for (const document of openDocuments) {
+            const filePath = uriToPath(document.uri);
+            open.add(filePath ? pathKey(filePath) : document.uri);
+        }
+        const result = [...openDocuments];
+        for (const [key, document] of this.files) {
+            if (!open.has(key)) result.push(document);
+        }
+        return result;
+    }
+}
+
+/**
+ * Checks if a file name or URI refers to a Visual Basic source file.
+ * @param name The file name, path or URI.
+ * @returns True for `.vb` files.
+ */
+export function isSourceFile(name: string): boolean {
+    return name.toLowerCase().endsWith('.vb');
+}
+
+/**
+ * Checks if a file takes part in indexing: a source, project or solution file.
+ * @param name The file name, path or URI.
+ * @returns True for `.vb`, `.vbproj` and `.sln` files.
+ */
+export function isWorkspaceFile(name: string): boolean {
+    return isSourceFile(name) || isProjectFile(name) || isSolutionFile(name);
+}
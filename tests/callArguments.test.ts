@@ -0,0 +1,91 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { validateTextDocument } from '../src/features/validation';
+import { Rules } from '../src/rules';
+
+describe('Call Argument Validation', () => {
+    const declarations = [
+        'Module Lib',
+        '    Sub Move(x As Integer, y As Integer, Optional speed As Integer = 5)',
+        '    End Sub',
+        '    Function Sum(ParamArray values() As Integer) As Integer',
+        '    End Function',
+        '    Function GetItems() As String()',
+        '    End Function',
+        '    Sub Show(text As String)',
+        '    End Sub',
+        '    Sub Show(value As Integer, count As Integer)',
+        '    End Sub',
+        'End Module'
+    ];
+    const validate = (...calls: string[]) => {
+        const document = TextDocument.create(
+            'file:///test.vb',
+            'vb',
+            1,
+            [
+                ...declarations,
+                'Module Main',
+                '    Sub Run()',
+                ...calls,
+                '    End Sub',
+                'End Module'
+            ].join('\n')
+        );
+        return validateTextDocument(document).filter((d) => d.code === Rules.ArgumentMismatch.id);
+    };
+
+    it('should accept matching calls', () => {
+        const diagnostics = validate(
+            '        Move(1, 2)',
+            '        Move(1, 2, 3)',
+            '        Move(y:=2, x:=1)',
+            '        Move(1, 2, speed:=3)',
+            '        Dim total = Sum() + Sum(1, 2, 3)',
+            '        Dim first = GetItems(0)',
+            '        Show("a")',
+            '        Show(1, 2)',
+            '        Len("text")'
+        );
+        expect(diagnostics).to.be.empty;
+    });
+
+    it('should report too many and too few arguments', () => {
+        const diagnostics = validate(
+            '        Move(1, 2, 3, 4)',
+            '        Move(1)',
+            '        Move(1, , 3)'
+        );
+        expect(diagnostics.map((d) => d.message)).to.deep.equal([
+            "Too many arguments to 'Move'.",
+            "Argument not specified for parameter 'y' of 'Move'.",
+            "Argument not specified for parameter 'y' of 'Move'."
+        ]);
+        // The extra argument is highlighted
+        expect(diagnostics[0].range.start).to.deep.equal({ line: 14, character: 22 });
+        expect(diagnostics[0].range.end).to.deep.equal({ line: 14, character: 23 });
+    });
+
+    it('should report unknown and duplicate named arguments', () => {
+        const diagnostics = validate('        Move(1, 2, z:=3)', '        Move(1, 2, x:=3)');
+        expect(diagnostics.map((d) => d.message)).to.deep.equal([
+            "'Move' has no parameter named 'z'.",
+            "Parameter 'x' of 'Move' already has an argument."
+        ]);
+        expect(diagnostics[0].range.start.character).to.equal(19);
+    });
+
+    it('should report ParamArray misuse', () => {
+        const diagnostics = validate('        Sum(values:=1)', '        Sum(1, , 2)');
+        expect(diagnostics.map((d) => d.message)).to.deep.equal([
+            "ParamArray parameter 'values' cannot be passed by name.",
+            "An argument cannot be omitted for ParamArray parameter 'values'."
+        ]);
+    });
+
+    it('should report calls that match no overload', () => {
+        const diagnostics = validate('        Show(1, 2, 3)');
+        expect(diagnostics).to.have.lengthOf(1);
+        expect(diagnostics[0].message).to.equal("No overload of 'Show' accepts these arguments.");
+    });
+});
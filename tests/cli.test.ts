@@ -0,0 +1,142 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DiagnosticSeverity } from 'vscode-languageserver/node';
+import { UsageError, findSourceFiles } from '../src/cli/common';
+import { main, parseArguments, runLint } from '../src/cli/lint';
+import { FileResult, formatJUnit, formatSarif, formatText } from '../src/cli/reporters';
+import { LogLevel, Logger } from '../src/utils/logger';
+import { clearProjects } from '../src/utils/project';
+import { Rules } from '../src/rules';
+
+describe('Command-line linter', () => {
+    let root: string;
+    const write = (relative: string, text: string) => {
+        const filePath = path.join(root, relative);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, text);
+    };
+    const lint = (...args: string[]) => runLint(parseArguments(args), root);
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'vb-lint-'));
+        write(path.join('src', 'Shapes.vb'), 'Public Class Shape\nEnd Class');
+        write(
+            path.join('src', 'Program.vb'),
+            'Module Program\n    Sub Main(x As Integer)\n        Dim s As Shape\n        s = Nothing\n        x = 42\n    End Sub\nEnd Module'
+        );
+        write(
+            path.join('tests', 'Broken.vb'),
+            'Sub Test(x As Integer, y As Integer)\n    If x = 1\n        y = x\n    End If'
+        );
+        write(path.join('bin', 'Generated.vb'), 'Sub Generated(');
+    });
+
+    afterEach(() => {
+        clearProjects();
+        Logger.setLevel(LogLevel.Debug);
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should parse arguments', () => {
+        const options = parseArguments(['-f', 'sarif', '--fail-on', 'warning', 'src', '**/*.vb']);
+        expect(options.format).to.equal('sarif');
+        expect(options.failOn).to.equal(DiagnosticSeverity.Warning);
+        expect(options.patterns).to.deep.equal(['src', '**/*.vb']);
+        expect(parseArguments([]).patterns).to.deep.equal(['.']);
+        expect(parseArguments(['--fail-on', 'none']).failOn).to.be.null;
+        expect(() => parseArguments(['--format', 'xml'])).to.throw(UsageError);
+        expect(() => parseArguments(['--output'])).to.throw(UsageError);
+        expect(() => parseArguments(['--fix'])).to.throw(UsageError);
+    });
+
+    it('should resolve folders, globs and files', async () => {
+        const relative = async (...patterns: string[]) =>
+            (await findSourceFiles(patterns, root)).files.map((f) =>
+                path.relative(root, f).replace(/\\/g, '/')
+            );
+        expect(await relative('.')).to.deep.equal([
+            'src/Program.vb',
+            'src/Shapes.vb',
+            'tests/Broken.vb'
+        ]);
+        expect(await relative('**/P*.vb', 'tests/Broken.vb')).to.deep.equal([
+            'src/Program.vb',
+            'tests/Broken.vb'
+        ]);
+        expect(await relative('src/*.vb', 'src')).to.have.lengthOf(2);
+        try {
+            await relative('missing');
+            expect.fail('expected a usage error');
+        } catch (error) {
+            expect(error).to.be.instanceOf(UsageError);
+        }
+    });
+
+    it('should validate with cross-file context and apply the fail threshold', async () => {
+        const result = await lint('src/Program.vb', '--fail-on', 'warning');
+        expect(result.results).to.have.lengthOf(1);
+        const codes = result.results[0].diagnostics.map((d) => d.code);
+        expect(codes).to.deep.equal([Rules.MagicNumber.id]);
+        expect(result.exitCode).to.equal(0);
+
+        expect((await lint('src', '--fail-on', 'info')).exitCode).to.equal(1);
+        expect((await lint('.')).exitCode).to.equal(1);
+        expect((await lint('.', '--fail-on', 'none')).exitCode).to.equal(0);
+    });
+
+    it('should read the configuration file', async () => {
+        write(
+            '.vblintrc.json',
+            JSON.stringify({ diagnostics: { rules: { 'magic-number': 'error' } } })
+        );
+        const result = await lint('src');
+        expect(result.exitCode).to.equal(1);
+
+        write('custom.json', JSON.stringify({ diagnostics: { allowedNumbers: [42] } }));
+        const custom = await lint('src', '--config', 'custom.json');
+        expect(custom.results.every((r) => r.diagnostics.length === 0)).to.be.true;
+    });
+
+    it('should format text, SARIF and JUnit reports', async () => {
+        const results: FileResult[] = (await lint('tests')).results;
+        expect(formatText(results, root).split('\n')).to.include.members([
+            "tests/Broken.vb(2,1): error VB0001: Missing 'Then' in If statement. [missing-then]",
+            '2 problems (2 errors) in 1 file.'
+        ]);
+        expect(formatText([], root)).to.equal('No problems found in 0 files.\n');
+
+        const sarif = JSON.parse(formatSarif(results, root));
+        expect(sarif.version).to.equal('2.1.0');
+        const run = sarif.runs[0];
+        expect(run.tool.driver.rules.map((r: { id: string }) => r.id)).to.include('VB0001');
+        const missingThen = run.results.find((r: { ruleId: string }) => r.ruleId === 'VB0001');
+        expect(missingThen.level).to.equal('error');
+        expect(run.tool.driver.rules[missingThen.ruleIndex].id).to.equal('VB0001');
+        expect(missingThen.locations[0].physicalLocation).to.deep.include({
+            artifactLocation: { uri: 'tests/Broken.vb', uriBaseId: '%SRCROOT%' }
+        });
+        expect(missingThen.locations[0].physicalLocation.region.startLine).to.equal(2);
+
+        const junit = formatJUnit(results, root);
+        expect(junit).to.contain('<testsuite name="tests/Broken.vb" tests="2" failures="2"');
+        expect(junit).to.contain('message="Missing &apos;Then&apos; in If statement."');
+    });
+
+    it('should write reports and return exit codes', async () => {
+        const output = path.join(root, 'report.json');
+        expect(await main(['src', '-f', 'json', '-o', output, '--fail-on', 'none'], root)).to.equal(
+            0
+        );
+        const report = JSON.parse(fs.readFileSync(output, 'utf8'));
+        expect(report.map((f: { file: string }) => f.file)).to.deep.equal([
+            'src/Program.vb',
+            'src/Shapes.vb'
+        ]);
+        expect(report[0].diagnostics[0]).to.include({ code: 'VB0402', line: 5, column: 1 });
+
+        expect(await main(['tests', '-o', output], root)).to.equal(1);
+        expect(await main(['--format', 'xml'], root)).to.equal(2);
+    });
+});
@@ -0,0 +1,113 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UsageError } from '../src/cli/common';
+import { createUnifiedDiff, main, parseArguments, runFormat } from '../src/cli/format';
+import { LogLevel, Logger } from '../src/utils/logger';
+
+describe('Command-line formatter', () => {
+    let root: string;
+    const unformatted =
+        'Module Program\nprivate x as integer\nSub Main()\ndim y AS STRING\nEnd Sub\nEnd Module\n';
+    const formatted =
+        'Module Program\n    Private x As Integer\n    Sub Main()\n        Dim y As String\n    End Sub\nEnd Module\n';
+    const read = (relative: string) => fs.readFileSync(path.join(root, relative), 'utf8');
+    const format = (...args: string[]) => runFormat(parseArguments(args), root);
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'vb-format-'));
+        fs.mkdirSync(path.join(root, 'src'));
+        fs.writeFileSync(path.join(root, 'src', 'Program.vb'), unformatted);
+        fs.writeFileSync(path.join(root, 'src', 'Clean.vb'), formatted);
+    });
+
+    afterEach(() => {
+        Logger.setLevel(LogLevel.Debug);
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should parse arguments', () => {
+        const options = parseArguments(['--check', '--tab-size', '2', '--use-tabs', 'src']);
+        expect(options).to.include({ check: true, diff: false, tabSize: 2, useTabs: true });
+        expect(options.patterns).to.deep.equal(['src']);
+        expect(parseArguments(['--keyword-casing', 'lower']).keywordCasing).to.equal('lower');
+        expect(() => parseArguments(['--tab-size', 'two'])).to.throw(UsageError);
+        expect(() => parseArguments(['--keyword-casing', 'camel'])).to.throw(UsageError);
+        expect(() => parseArguments(['--write'])).to.throw(UsageError);
+    });
+
+    it('should format files in place', async () => {
+        const result = await format('src');
+        expect(result.exitCode).to.equal(0);
+        expect(read('src/Program.vb')).to.equal(formatted);
+        expect(read('src/Clean.vb')).to.equal(formatted);
+    });
+
+    it('should check files without writing them', async () => {
+        const result = await format('--check', 'src');
+        expect(result.exitCode).to.equal(1);
+        expect(read('src/Program.vb')).to.equal(unformatted);
+        expect((await format('--check', 'src/Clean.vb')).exitCode).to.equal(0);
+
+        expect(await main(['--check', 'src'], root)).to.equal(1);
+        expect(await main(['src'], root)).to.equal(0);
+        expect(await main(['--check', 'src'], root)).to.equal(0);
+        expect(await main(['--tab-size'], root)).to.equal(2);
+    });
+
+    it('should create unified diffs', () => {
+        const lines = ['If x Then', 'y = 1', 'End If', 'a', 'b', 'c', 'd', 'e', 'f', 'g', 'z=1'];
+        const diff = createUnifiedDiff(
+            {
+                path: path.join(root, 'src', 'Test.vb'),
+                original: lines.join('\n'),
+                formatted: [...lines.slice(0, 1), '    y = 1', ...lines.slice(2, 10), 'z = 1'].join(
+                    '\n'
+                )
+            },
+            root
+        );
+        expect(diff).to.equal(
+            [
+                '--- a/src/Test.vb',
+                '+++ b/src/Test.vb',
+                '@@ -1,5 +1,5 @@',
+                ' If x Then',
+                '-y = 1',
+                '+    y = 1',
+                ' End If',
+                ' a',
+                ' b',
+                '@@ -8,4 +8,4 @@',
+                ' e',
+                ' f',
+                ' g',
+                '-z=1',
+                '+z = 1',
+                ''
+            ].join('\n')
+        );
+        expect(
+            createUnifiedDiff({ path: root, original: formatted, formatted: formatted }, root)
+        ).to.equal('');
+    });
+
+    it('should honor indentation and keyword casing options', async () => {
+        const tabs = await format('--diff', '--use-tabs', '--keyword-casing', 'lower', 'src');
+        const program = tabs.results.find((r) => r.path.endsWith('Program.vb'))!;
+        expect(program.formatted).to.equal(
+            'Module Program\n\tprivate x as integer\n\tsub Main()\n\t\tdim y as string\n\tend sub\nend Module\n'
+        );
+        expect(read('src/Program.vb')).to.equal(unformatted);
+
+        fs.writeFileSync(
+            path.join(root, '.vblintrc.json'),
+            JSON.stringify({ format: { keywordCasing: 'preserve' } })
+        );
+        const preserved = await format('--diff', '--tab-size', '2', 'src/Program.vb');
+        expect(preserved.results[0].formatted).to.equal(
+            'Module Program\n  private x as integer\n  Sub Main()\n    dim y AS STRING\n  End Sub\nEnd Module\n'
+        );
+    });
+});
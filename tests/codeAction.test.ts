@@ -4,12 +4,14 @@ import { CodeAction, CodeActionKind, Diagnostic, DiagnosticSeverity, Range, Text
 import { onCodeAction } from '../src/features/codeAction';
 
 describe('Code Action Feature', () => {
-    function createDiagnostic(message: string, range: Range): Diagnostic {
+    function createDiagnostic(code: string, message: string, range: Range, data?: unknown): Diagnostic {
         return {
             message,
             range,
             severity: DiagnosticSeverity.Error,
-            source: 'SimpleVB'
+            source: 'SimpleVB',
+            code,
+            data
         };
     }
 
@@ -17,7 +19,7 @@ describe('Code Action Feature', () => {
         const content = 'If x = 1';
         const document = TextDocument.create('file:///test.vb', 'vb', 1, content);
         const range = Range.create(0, 0, 0, content.length);
-        const diagnostic = createDiagnostic("Missing 'Then' in If statement.", range);
+        const diagnostic = createDiagnostic('VB0001', "Missing 'Then' in If statement.", range);
 
         const actions = onCodeAction({
             textDocument: { uri: document.uri },
@@ -38,7 +40,7 @@ describe('Code Action Feature', () => {
         const content = "If x = 1 ' comment";
         const document = TextDocument.create('file:///test.vb', 'vb', 1, content);
         const range = Range.create(0, 0, 0, content.length);
-        const diagnostic = createDiagnostic("Missing 'Then' in If statement.", range);
+        const diagnostic = createDiagnostic('VB0001', "Missing 'Then' in If statement.", range);
 
         const actions = onCodeAction({
             textDocument: { uri: document.uri },
@@ -61,7 +63,7 @@ describe('Code Action Feature', () => {
         const content = 'Dim x';
         const document = TextDocument.create('file:///test.vb', 'vb', 1, content);
         const range = Range.create(0, 0, 0, content.length);
-        const diagnostic = createDiagnostic("Variable declaration without type (As ...).", range);
+        const diagnostic = createDiagnostic('VB0002', "Variable declaration without type (As ...).", range);
 
         const actions = onCodeAction({
             textDocument: { uri: document.uri },
@@ -80,7 +82,7 @@ describe('Code Action Feature', () => {
         const content = 'Const x';
         const document = TextDocument.create('file:///test.vb', 'vb', 1, content);
         const range = Range.create(0, 0, 0, content.length);
-        const diagnostic = createDiagnostic("Const declaration requires a value (e.g. Const x = 1).", range);
+        const diagnostic = createDiagnostic('VB0004', "Const declaration requires a value (e.g. Const x = 1).", range);
 
         const actions = onCodeAction({
             textDocument: { uri: document.uri },
@@ -108,6 +110,7 @@ End Sub
         // Mock diagnostic
         const diagnostic: Diagnostic = {
             message: "Variable 'unused' is declared but never used.",
+            code: 'VB0305',
             range: Range.create(4, 8, 4, 14), // "unused"
             severity: DiagnosticSeverity.Information,
             source: 'SimpleVB'
@@ -144,6 +147,7 @@ End Sub
 
         const diagnostic: Diagnostic = {
             message: "Variable 'x' is declared but never used.",
+            code: 'VB0305',
             range: Range.create(2, 8, 2, 9),
             severity: DiagnosticSeverity.Information,
             source: 'SimpleVB'
@@ -171,6 +175,7 @@ End Sub
 
         const diagnostic: Diagnostic = {
             message: "Variable 'x' is declared but never used.",
+            code: 'VB0305',
             range: Range.create(2, 8, 2, 9),
             severity: DiagnosticSeverity.Information,
             source: 'SimpleVB'
@@ -203,6 +208,7 @@ End Sub
 
         const diagnostic: Diagnostic = {
             message: "Variable 'y' is declared but never used.",
+            code: 'VB0305',
             range: Range.create(2, 11, 2, 12),
             severity: DiagnosticSeverity.Information,
             source: 'SimpleVB'
@@ -240,6 +246,8 @@ End Sub
             severity: DiagnosticSeverity.Information,
             range: range,
             message: 'Avoid magic numbers (100). Use a Constant instead.',
+            code: 'VB0402',
+            data: { value: '100' },
             source: 'SimpleVB'
         };
 
@@ -18,7 +18,7 @@ End Class
         expect(lenses).to.have.lengthOf(2); // Class + Sub
     });
 
-    it('should resolve reference count', () => {
+    it('should resolve reference count', async () => {
         const content = `
 Sub MyMethod()
 End Sub
@@ -50,7 +50,7 @@ End Sub
         const lens = lenses[0];
 
         // Resolve
-        const resolved = onCodeLensResolve(lens, document);
+        const resolved = await onCodeLensResolve(lens, document);
 
         // 2 usages (lines 5 and 6)
         // onReferences should find 2 usages (Caller calls MyMethod twice)
@@ -71,4 +71,34 @@ describe('Completion Member Access', () => {
         const items = onCompletion({ textDocument: { uri: document.uri }, position }, document);
         expect(items.find(i => i.label === 'MyField')).to.exist;
     });
+
+    it('should list the overloads of a method once', () => {
+        const content = [
+            'Class Calculator',
+            '    Public Sub Add(a As Integer)',
+            '    End Sub',
+            '    Public Sub Add(a As String)',
+            '    End Sub',
+            '    Public Function Add(a As Integer, b As Integer) As Integer',
+            '    End Function',
+            '    Public Sub Clear()',
+            '    End Sub',
+            '    Sub Run()',
+            '        Me.',
+            '        ',
+            '    End Sub',
+            'End Class'
+        ].join('\n');
+        const document = TextDocument.create('file:///test.vb', 'vb', 1, content);
+        const complete = (position: Position) =>
+            onCompletion({ textDocument: { uri: document.uri }, position }, document);
+
+        const members = complete(Position.create(10, 11));
+        const adds = members.filter(i => i.label === 'Add');
+        expect(adds).to.have.lengthOf(1);
+        expect(adds[0].detail).to.equal('Sub Add(a As Integer) (+2 overloads)');
+        expect(members.find(i => i.label === 'Clear')?.detail).to.equal('Sub Clear()');
+        // Visible symbols are listed once per name as well
+        expect(complete(Position.create(11, 8)).filter(i => i.label === 'Add')).to.have.lengthOf(1);
+    });
 });
@@ -0,0 +1,188 @@
+import { expect } from 'chai';
+import { Diagnostic } from 'vscode-languageserver/node';
+import { Rules } from '../src/rules';
+import { checkRule, createDocument, messages } from './helpers';
+
+describe('Control Flow', () => {
+    const create = (lines: string[]) =>
+        createDocument(['Class Person', 'End Class', 'Module Main', ...lines, 'End Module']);
+    const lines = (diagnostics: Diagnostic[]) =>
+        diagnostics.map((d) => [d.range.start.line, d.range.end.line]);
+
+    it('should report unreachable code after jumps as one range', () => {
+        const document = create([
+            '    Sub Run(flag As Boolean)',
+            '        If flag Then',
+            '            Return',
+            '        Else',
+            '            Throw New ArgumentException()',
+            '        End If',
+            '        Console.WriteLine(1)',
+            '        If flag Then',
+            '            Console.WriteLine(2)',
+            '        End If',
+            '    End Sub',
+            '    Sub Jump(flag As Boolean)',
+            '        GoTo Done',
+            '        Console.WriteLine(flag)',
+            'Done:',
+            '        If flag Then Exit Sub Else Return',
+            '        Console.WriteLine(flag)',
+            '    End Sub',
+            '    Sub Handle()',
+            '        On Error GoTo Failed',
+            '        Exit Sub',
+            'Failed:',
+            '        Console.WriteLine("failed")',
+            '    End Sub'
+        ]);
+        const diagnostics = checkRule(document, Rules.UnreachableCode);
+        expect(lines(diagnostics)).to.deep.equal([
+            [9, 12],
+            [16, 16],
+            [19, 19]
+        ]);
+        expect(diagnostics[0].message).to.equal('Unreachable code detected.');
+        expect(diagnostics[0].range.start.character).to.equal(8);
+        expect(diagnostics[0].range.end.character).to.equal(14);
+    });
+
+    it('should treat loops without a condition as endless', () => {
+        const document = create([
+            '    Sub Run(flag As Boolean)',
+            '        Do',
+            '            Console.WriteLine(flag)',
+            '        Loop',
+            '        Console.WriteLine(1)',
+            '    End Sub',
+            '    Sub Poll(flag As Boolean)',
+            '        Do While True',
+            '            If flag Then Exit Do',
+            '        Loop',
+            '        While flag',
+            '            Continue While',
+            '        End While',
+            '        Do',
+            '            Console.WriteLine(flag)',
+            '        Loop Until flag',
+            '        Console.WriteLine(2)',
+            '    End Sub'
+        ]);
+        expect(lines(checkRule(document, Rules.UnreachableCode))).to.deep.equal([[7, 7]]);
+    });
+
+    it('should report Functions that do not return on all paths', () => {
+        const document = create([
+            '    Function Sign(n As Integer) As Integer',
+            '        If n > 0 Then',
+            '            Return 1',
+            '        ElseIf n < 0 Then',
+            '            Return -1',
+            '        End If',
+            '    End Function',
+            '    Function Describe(n As Integer) As String',
+            '        Select Case n',
+            '            Case 0',
+            '                Return "zero"',
+            '            Case Else',
+            '                Throw New ArgumentException()',
+            '        End Select',
+            '    End Function',
+            '    Function Legacy(n As Integer) As String',
+            '        Legacy = "n"',
+            '        If n > 0 Then Exit Function',
+            '        Legacy = "p"',
+            '    End Function',
+            '    Function Early(n As Integer) As String',
+            '        If n > 0 Then Exit Function',
+            '        Return "p"',
+            '    End Function',
+            '    ReadOnly Property Name As String',
+            '        Get',
+            '        End Get',
+            '    End Property',
+            '    Iterator Function Items() As IEnumerable(Of Integer)',
+            '        Yield 1',
+            '    End Function',
+            '    Function Forever() As Integer',
+            '        Do',
+            '        Loop',
+            '    End Function'
+        ]);
+        const diagnostics = checkRule(document, Rules.MissingReturn);
+        expect(messages(diagnostics)).to.deep.equal([
+            "Function 'Sign' doesn't return a value on all code paths.",
+            "Function 'Early' doesn't return a value on all code paths.",
+            "Property 'Name' doesn't return a value on all code paths."
+        ]);
+        expect(diagnostics[0].range).to.deep.equal({
+            start: { line: 9, character: 4 },
+            end: { line: 9, character: 16 }
+        });
+    });
+
+    it('should report reference variables read before being assigned', () => {
+        const document = create([
+            '    Sub Run(flag As Boolean)',
+            '        Dim person As Person',
+            '        Dim name As String',
+            '        Dim other As String',
+            '        Dim values() As Integer',
+            '        Dim count As Integer',
+            '        Dim ready As New Person()',
+            '        If flag Then person = New Person()',
+            '        Console.WriteLine(person)',
+            '        If flag Then',
+            '            name = "a"',
+            '        Else',
+            '            name = "b"',
+            '        End If',
+            '        Console.WriteLine(name & count & ready.ToString())',
+            '        Console.WriteLine(values.Length)',
+            '        Console.WriteLine(values.Length & person.ToString())',
+            '        Load(other)',
+            '        Console.WriteLine(other)',
+            '    End Sub',
+            '    Sub Load(ByRef text As String)',
+            '    End Sub'
+        ]);
+        const diagnostics = checkRule(document, Rules.UnassignedVariable);
+        expect(messages(diagnostics)).to.deep.equal([
+            "Variable 'person' is used before it has been assigned a value.",
+            "Variable 'values' is used before it has been assigned a value."
+        ]);
+        expect(diagnostics[0].range).to.deep.equal({
+            start: { line: 11, character: 26 },
+            end: { line: 11, character: 32 }
+        });
+    });
+
+    it('should follow assignments through Try and loops', () => {
+        const document = create([
+            '    Sub Run(items As List(Of String))',
+            '        Dim first As String',
+            '        Dim last As String',
+            '        Dim result As String',
+            '        For Each item In items',
+            '            last = item',
+            '        Next',
+            '        Console.WriteLine(last)',
+            '        Try',
+            '            first = items(0)',
+            '            result = first',
+            '        Catch ex As Exception',
+            '            Console.WriteLine(first)',
+            '        End Try',
+            '        Do',
+            '            result = "done"',
+            '        Loop Until result.Length > 0',
+            '        Console.WriteLine(result)',
+            '    End Sub'
+        ]);
+        const diagnostics = checkRule(document, Rules.UnassignedVariable);
+        expect(diagnostics.map((d) => [d.range.start.line, d.message])).to.deep.equal([
+            [10, "Variable 'last' is used before it has been assigned a value."],
+            [15, "Variable 'first' is used before it has been assigned a value."]
+        ]);
+    });
+});
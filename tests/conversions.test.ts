@@ -0,0 +1,173 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostic } from 'vscode-languageserver/node';
+import { validateTextDocument } from '../src/features/validation';
+import { Rules } from '../src/rules';
+import { applyCodeAction, createDocument, getCodeActions, messages } from './helpers';
+
+describe('Option Strict Conversions', () => {
+    const declarations = [
+        'Class Animal',
+        'End Class',
+        'Class Dog',
+        '    Inherits Animal',
+        'End Class',
+        'Module Lib',
+        '    Sub Take(count As Integer)',
+        '    End Sub',
+        '    Sub Feed(animal As Animal)',
+        '    End Sub',
+        'End Module'
+    ];
+    const create = (lines: string[], strict = true) =>
+        createDocument([
+            strict ? 'Option Strict On' : 'Option Strict Off',
+            ...declarations,
+            'Module Main',
+            ...lines,
+            'End Module'
+        ]);
+    const check = (document: TextDocument) =>
+        validateTextDocument(document).filter(
+            (d) => d.code === Rules.NarrowingConversion.id || d.code === Rules.LateBinding.id
+        );
+    const titles = (document: TextDocument, diagnostic: Diagnostic) =>
+        getCodeActions(document, diagnostic)
+            .filter((a) => a.diagnostics?.[0] === diagnostic)
+            .map((a) => a.title)
+            .filter((t) => !t.startsWith('Suppress'));
+    const conversion = (from: string, to: string) =>
+        `Option Strict On disallows implicit conversions from '${from}' to '${to}'.`;
+
+    it('should report narrowing assignments and initializers', () => {
+        const document = create([
+            '    Sub Run(d As Double, l As Long, o As Object)',
+            '        Dim count As Integer = d',
+            '        Dim total As Long = count',
+            '        Dim small As Byte = 1',
+            '        Dim text As String = count',
+            '        count = l',
+            '        count = CInt(o)',
+            '        Dim pet As Animal = New Dog()',
+            '        Dim puppy As Dog = pet',
+            '        Console.WriteLine(count = 1)',
+            '    End Sub'
+        ]);
+        const diagnostics = check(document);
+        expect(messages(diagnostics)).to.deep.equal([
+            conversion('Double', 'Integer'),
+            conversion('Integer', 'String'),
+            conversion('Long', 'Integer'),
+            conversion('Animal', 'Dog')
+        ]);
+        expect(diagnostics[0].range).to.deep.equal({
+            start: { line: 14, character: 31 },
+            end: { line: 14, character: 32 }
+        });
+    });
+
+    it('should report narrowing returns and arguments', () => {
+        const document = create([
+            '    Function Name(o As Object) As String',
+            '        Return o',
+            '    End Function',
+            '    ReadOnly Property Size As Integer',
+            '        Get',
+            '            Return 2.5',
+            '        End Get',
+            '    End Property',
+            '    Sub Run(l As Long, pet As Animal)',
+            '        Take(l)',
+            '        Take(1)',
+            '        Feed(New Dog())',
+            '        Feed(pet)',
+            '    End Sub'
+        ]);
+        expect(messages(check(document))).to.deep.equal([
+            conversion('Object', 'String'),
+            conversion('Double', 'Integer'),
+            conversion('Long', 'Integer')
+        ]);
+    });
+
+    it('should report late binding', () => {
+        const document = create([
+            '    Sub Run(o As Object, pet As Animal)',
+            '        o.Bark()',
+            '        Dim text = o.ToString()',
+            '        Dim same = pet.Equals(o)',
+            '    End Sub'
+        ]);
+        const diagnostics = check(document);
+        expect(diagnostics.map((d) => d.code)).to.deep.equal([Rules.LateBinding.id]);
+        expect(diagnostics[0].range.start).to.deep.equal({ line: 14, character: 10 });
+    });
+
+    it('should not check files with Option Strict Off', () => {
+        const document = create(
+            [
+                '    Sub Run(d As Double, o As Object)',
+                '        Dim count As Integer = d',
+                '        o.Bark()',
+                '    End Sub'
+            ],
+            false
+        );
+        expect(check(document)).to.be.empty;
+    });
+
+    it('should not treat values of unknown inferred types as Object', () => {
+        const body = [
+            'Module Main',
+            '    Sub Run()',
+            '        Dim name = Environment.MachineName',
+            '        Console.WriteLine(name.ToUpper())',
+            '        Dim total = Math.Max(1, 2)',
+            '        Dim sum As Integer = total',
+            '        Dim year As Integer = DateTime.Now.Year',
+            '        Dim pair = Tuple.Create(1, "a")',
+            '        Console.WriteLine(pair.Item1)',
+            '        Dim person = New With {.Name = "Ann"}',
+            '        Console.WriteLine(person.Name)',
+            '        Dim items = New List(Of Integer)()',
+            '        Dim count As Integer = items.Count',
+            '    End Sub',
+            'End Module'
+        ];
+        expect(check(createDocument(['Option Strict On', ...body]))).to.be.empty;
+
+        // Without Option Infer, variables declared without `As` are Object
+        const document = createDocument(['Option Strict On', 'Option Infer Off', ...body]);
+        expect(messages(check(document))).to.deep.equal([
+            conversion('Object', 'Integer'),
+            "Option Strict On disallows late binding ('ToUpper' on a value of type 'Object').",
+            "Option Strict On disallows late binding ('Item1' on a value of type 'Object').",
+            "Option Strict On disallows late binding ('Name' on a value of type 'Object').",
+            "Option Strict On disallows late binding ('Count' on a value of type 'Object')."
+        ]);
+    });
+
+    it('should insert conversions', () => {
+        const document = create([
+            '    Sub Run(d As Double, pet As Animal)',
+            '        Dim count As Integer = d * 2',
+            '        Dim puppy As Dog = pet',
+            '    End Sub'
+        ]);
+        const [count, puppy] = check(document);
+        expect(titles(document, count)).to.deep.equal(['Convert with CInt', 'Convert with CType']);
+        expect(applyCodeAction(document, count, 'Convert with CInt').split('\n')[14]).to.equal(
+            '        Dim count As Integer = CInt(d * 2)'
+        );
+        expect(titles(document, puppy)).to.deep.equal([
+            'Cast with DirectCast',
+            'Convert with CType'
+        ]);
+        expect(applyCodeAction(document, puppy, 'Cast with DirectCast').split('\n')[15]).to.equal(
+            '        Dim puppy As Dog = DirectCast(pet, Dog)'
+        );
+        expect(applyCodeAction(document, puppy, 'Convert with CType').split('\n')[15]).to.equal(
+            '        Dim puppy As Dog = CType(pet, Dog)'
+        );
+    });
+});
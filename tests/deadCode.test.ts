@@ -0,0 +1,217 @@
+import { expect } from 'chai';
+import { DiagnosticTag } from 'vscode-languageserver/node';
+import { Rules } from '../src/rules';
+import { DEFAULT_SETTINGS } from '../src/utils/settings';
+import { applyCodeAction, checkRule, createDocument, getCodeActions, messages } from './helpers';
+
+describe('Dead Code', () => {
+    it('should report Private members that are never used in their type', () => {
+        const document = createDocument([
+            'Class Worker',
+            '    Private _count As Integer',
+            '    Private _name As String, _unused As String',
+            '    Private Const Limit As Integer = 3',
+            '    Public Shared Total As Integer',
+            '    Private Sub New()',
+            '    End Sub',
+            '    Private Sub Helper()',
+            '        Console.WriteLine(_count)',
+            '    End Sub',
+            '    Private Function Twice(x As Integer) As Integer',
+            '        Return x * 2',
+            '    End Function',
+            '    Public Sub Run()',
+            '        Helper()',
+            '        Console.WriteLine(_name)',
+            '    End Sub',
+            '    Private ReadOnly Property Size As Integer',
+            '        Get',
+            '            Return 1',
+            '        End Get',
+            '    End Property',
+            '    Private Sub OnTick() Handles Timer.Tick',
+            '    End Sub',
+            'End Class',
+            'Partial Class Form',
+            '    Private Sub Unused()',
+            '    End Sub',
+            'End Class'
+        ]);
+        const diagnostics = checkRule(document, Rules.UnusedMember);
+        expect(messages(diagnostics)).to.deep.equal([
+            "Private field '_unused' is never used.",
+            "Private constant 'Limit' is never used.",
+            "Private method 'Twice' is never used.",
+            "Private property 'Size' is never used."
+        ]);
+        expect(diagnostics[0].range).to.deep.equal({
+            start: { line: 2, character: 29 },
+            end: { line: 2, character: 36 }
+        });
+        expect(diagnostics.every((d) => d.tags?.includes(DiagnosticTag.Unnecessary))).to.be.true;
+    });
+
+    it('should remove unused members with their documentation', () => {
+        const document = createDocument([
+            'Class Worker',
+            '    Private _name As String, _unused As String',
+            "    ''' <summary>Doubles a value.</summary>",
+            '    Private Function Twice(x As Integer) As Integer',
+            '        Return x * 2',
+            '    End Function',
+            '    Private _a, _b As String',
+            '    Public Sub Run()',
+            '        Console.WriteLine(_name & _a)',
+            '    End Sub',
+            'End Class'
+        ]);
+        const [field, method, shared] = checkRule(document, Rules.UnusedMember);
+        expect(applyCodeAction(document, field, "Remove unused field '_unused'")).to.include(
+            '    Private _name As String\n'
+        );
+        expect(applyCodeAction(document, method, "Remove unused method 'Twice'")).to.equal(
+            [
+                'Class Worker',
+                '    Private _name As String, _unused As String',
+                '    Private _a, _b As String',
+                '    Public Sub Run()',
+                '        Console.WriteLine(_name & _a)',
+                '    End Sub',
+                'End Class'
+            ].join('\n')
+        );
+        // `_a` takes its type from `_b`
+        const titles = getCodeActions(document, shared).map((a) => a.title);
+        expect(titles).to.not.include("Remove unused field '_b'");
+    });
+
+    it('should report unused parameters except in handlers and stubs', () => {
+        const document = createDocument([
+            'Class Worker',
+            '    Public Sub Add(a As Integer, b As Integer)',
+            '        Console.WriteLine(a)',
+            '    End Sub',
+            '    Private Sub Log(message As String, level As Integer)',
+            '        Write(message:=level)',
+            '    End Sub',
+            '    Private Sub OnClick(sender As Object, e As EventArgs) Handles Button.Click',
+            '    End Sub',
+            '    Private Sub OnLoad(sender As Object, e As EventArgs)',
+            '        Console.WriteLine(1)',
+            '    End Sub',
+            '    Public Overrides Function ToText(format As String) As String',
+            '        Return ""',
+            '    End Function',
+            '    Public Sub NotDone(value As Integer)',
+            '        Throw New NotImplementedException()',
+            '    End Sub',
+            'End Class'
+        ]);
+        const diagnostics = checkRule(document, Rules.UnusedParameter);
+        expect(messages(diagnostics)).to.deep.equal([
+            "Parameter 'b' is never used.",
+            "Parameter 'message' is never used."
+        ]);
+        expect(diagnostics[0].tags).to.deep.equal([DiagnosticTag.Unnecessary]);
+        // Parameters are no longer reported as unused variables
+        expect(checkRule(document, Rules.UnusedVariable)).to.be.empty;
+
+        const settings = {
+            ...DEFAULT_SETTINGS,
+            diagnostics: { ...DEFAULT_SETTINGS.diagnostics, unusedParameters: 'nonPublic' as const }
+        };
+        const nonPublic = checkRule(document, Rules.UnusedParameter, [document], settings);
+        expect(messages(nonPublic)).to.deep.equal(["Parameter 'message' is never used."]);
+    });
+
+    it('should remove an unused parameter and its arguments', () => {
+        const document = createDocument([
+            'Module Main',
+            '    Sub Add(a As Integer, b As Integer, c As Integer)',
+            '        Console.WriteLine(a + c)',
+            '    End Sub',
+            '    Sub Run()',
+            '        Add(1, 2, 3)',
+            '        Add(c:=3, b:=2, a:=1)',
+            '    End Sub',
+            'End Module'
+        ]);
+        const [diagnostic] = checkRule(document, Rules.UnusedParameter);
+        expect(applyCodeAction(document, diagnostic, "Remove unused parameter 'b'")).to.equal(
+            [
+                'Module Main',
+                '    Sub Add(a As Integer, c As Integer)',
+                '        Console.WriteLine(a + c)',
+                '    End Sub',
+                '    Sub Run()',
+                '        Add(1, 3)',
+                '        Add(c:=3, a:=1)',
+                '    End Sub',
+                'End Module'
+            ].join('\n')
+        );
+    });
+
+    it('should report Imports whose namespace is not used', () => {
+        const models = createDocument(
+            [
+                'Namespace App.Models',
+                '    Class Customer',
+                '    End Class',
+                'End Namespace',
+                'Namespace App.Services',
+                '    Module Helpers',
+                '        Sub Save()',
+                '        End Sub',
+                '    End Module',
+                'End Namespace'
+            ],
+            'file:///models.vb'
+        );
+        const document = createDocument([
+            'Imports System.IO',
+            'Imports System.Text, System.Collections.Generic',
+            'Imports Txt = System.Text',
+            'Imports App.Models',
+            'Imports App.Services',
+            'Module Main',
+            '    Sub Run()',
+            '        Dim items As New List(Of String)()',
+            '        Save()',
+            '        Console.WriteLine(items.Count)',
+            '    End Sub',
+            'End Module'
+        ]);
+        const diagnostics = checkRule(document, Rules.UnusedImport, [document, models]);
+        expect(messages(diagnostics)).to.deep.equal([
+            "Imports 'System.IO' is not used in this file.",
+            "Imports 'System.Text' is not used in this file.",
+            "Imports 'Txt' is not used in this file.",
+            "Imports 'App.Models' is not used in this file."
+        ]);
+        expect(diagnostics[1].range).to.deep.equal({
+            start: { line: 1, character: 8 },
+            end: { line: 1, character: 19 }
+        });
+
+        expect(
+            applyCodeAction(document, diagnostics[0], "Remove unused Imports 'System.IO'")
+        ).to.match(/^Imports System\.Text, /);
+        expect(
+            applyCodeAction(document, diagnostics[1], "Remove unused Imports 'System.Text'")
+        ).to.include('Imports System.Collections.Generic\n');
+    });
+
+    it('should keep Imports when the file uses unknown types', () => {
+        const document = createDocument([
+            'Imports System.IO',
+            'Imports Contoso.Widgets',
+            'Module Main',
+            '    Sub Run(widget As Widget)',
+            '        Console.WriteLine(widget)',
+            '    End Sub',
+            'End Module'
+        ]);
+        expect(checkRule(document, Rules.UnusedImport)).to.be.empty;
+    });
+});
@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Connection, PublishDiagnosticsParams } from 'vscode-languageserver/node';
+import { DependencyGraph, getDocumentDependencies } from '../src/utils/dependencies';
+import { ValidationScheduler } from '../src/utils/scheduler';
+import { DEFAULT_SETTINGS } from '../src/utils/settings';
+import { Rules } from '../src/rules';
+
+describe('Dependencies', () => {
+    const shapeText = 'Interface IShape\n    Sub Draw()\nEnd Interface';
+    const circleText =
+        'Class Circle\n    Implements IShape\n    Sub Draw()\n    End Sub\nEnd Class';
+    const create = (uri: string, text: string, version = 1) =>
+        TextDocument.create(uri, 'vb', version, text);
+
+    it('should collect declared and consumed names', () => {
+        const dependencies = getDocumentDependencies(create('file:///Circle.vb', circleText));
+        expect([...dependencies.declared]).to.include.members(['circle', 'draw']);
+        expect([...dependencies.consumed]).to.include.members(['circle', 'ishape', 'draw']);
+        expect([...dependencies.consumed]).to.not.include('class');
+    });
+
+    it('should find the documents affected by changed declarations', () => {
+        const graph = new DependencyGraph();
+        const shape = create('file:///IShape.vb', shapeText);
+        const circle = create('file:///Circle.vb', circleText);
+        const other = create('file:///Other.vb', 'Module Other\nEnd Module');
+        const all = (changed: TextDocument) => [changed, circle, other];
+        expect(graph.update(shape, all(shape))).to.deep.equal([circle.uri]);
+
+        // Edits that keep the declarations (e.g. comments) affect no other document
+        const body = create(shape.uri, shapeText.replace('Sub Draw()', "Sub Draw() ' comment"), 2);
+        expect(graph.update(body, all(body))).to.be.empty;
+
+        const added = create(
+            shape.uri,
+            'Interface IShape\n    Sub Draw()\n    Function Area() As Double\nEnd Interface',
+            3
+        );
+        expect(graph.update(added, all(added))).to.deep.equal([circle.uri]);
+
+        // Removed declarations still reach the documents that used them
+        const renamed = create(shape.uri, 'Interface IFigure\nEnd Interface', 4);
+        expect(graph.update(renamed, all(renamed))).to.deep.equal([circle.uri]);
+        expect(graph.remove(shape.uri, [circle, other])).to.be.empty;
+        expect(graph.remove(circle.uri, [other])).to.be.empty;
+    });
+
+    it('should revalidate open dependents after a change', async () => {
+        const published: PublishDiagnosticsParams[] = [];
+        const connection = {
+            sendDiagnostics: (params: PublishDiagnosticsParams) => published.push(params)
+        } as unknown as Connection;
+        let shape = create('file:///IShape.vb', shapeText);
+        const circle = create('file:///Circle.vb', circleText);
+        const scheduler = new ValidationScheduler(
+            connection,
+            () => [shape, circle],
+            () => Promise.resolve(DEFAULT_SETTINGS),
+            (uri) => [shape, circle].find((d) => d.uri === uri)
+        );
+        const wait = () => new Promise((resolve) => setTimeout(resolve, 500));
+
+        scheduler.scheduleValidation(circle);
+        await wait();
+        scheduler.scheduleValidation(shape);
+        await wait();
+        published.length = 0;
+
+        shape = create(
+            shape.uri,
+            shapeText.replace('End Interface', '    Sub Fill()\nEnd Interface')
+        );
+        scheduler.scheduleValidation(shape);
+        await wait();
+        expect(published.map((p) => p.uri)).to.deep.equal([shape.uri, circle.uri]);
+        expect(published[1].diagnostics.map((d) => d.code)).to.deep.equal([
+            Rules.MissingInterfaceMember.id
+        ]);
+    }).timeout(3000);
+});
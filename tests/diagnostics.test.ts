@@ -0,0 +1,131 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+    DocumentDiagnosticReportKind,
+    FullDocumentDiagnosticReport,
+    UnchangedDocumentDiagnosticReport
+} from 'vscode-languageserver/node';
+import { onDocumentDiagnostic, onWorkspaceDiagnostic } from '../src/features/diagnostics';
+import { DiagnosticCache } from '../src/utils/diagnosticCache';
+import { DEFAULT_SETTINGS, VbSettings, normalizeSettings } from '../src/utils/settings';
+import { Rules } from '../src/rules';
+
+describe('Pull Diagnostics', () => {
+    const create = (uri: string, text: string, version = 1) =>
+        TextDocument.create(uri, 'vb', version, text);
+    const pull = (
+        cache: DiagnosticCache,
+        document: TextDocument,
+        allDocuments: TextDocument[],
+        previousResultId?: string,
+        settings: VbSettings = DEFAULT_SETTINGS
+    ) =>
+        onDocumentDiagnostic(
+            { textDocument: { uri: document.uri }, previousResultId },
+            document,
+            allDocuments,
+            settings,
+            cache
+        );
+
+    it('should report unchanged results by result ID', () => {
+        const cache = new DiagnosticCache();
+        const document = create('file:///a.vb', 'Sub Main(x As Integer)\n    x = 42\nEnd Sub');
+        const first = pull(cache, document, [document]) as FullDocumentDiagnosticReport;
+        expect(first.kind).to.equal(DocumentDiagnosticReportKind.Full);
+        expect(first.items.map((d) => d.code)).to.deep.equal([Rules.MagicNumber.id]);
+        expect(first.resultId).to.be.a('string');
+
+        const second = pull(cache, document, [document], first.resultId);
+        expect(second).to.deep.equal({
+            kind: DocumentDiagnosticReportKind.Unchanged,
+            resultId: first.resultId
+        });
+        // An unknown (e.g. outdated) result ID gets the full report
+        expect(pull(cache, document, [document], 'other').kind).to.equal('full');
+    });
+
+    it('should validate again only after a change', () => {
+        const cache = new DiagnosticCache();
+        let validations = 0;
+        const document = create('file:///a.vb', 'Sub Main(x As Integer)\n    x = 42\nEnd Sub');
+        const validate = () => {
+            validations++;
+            return [];
+        };
+        const first = cache.getReport(document, undefined, validate);
+        cache.getReport(document, first.resultId, validate);
+        expect(validations).to.equal(1);
+
+        // Same diagnostics after the change: the result ID is kept
+        cache.invalidate();
+        const second = cache.getReport(document, first.resultId, validate);
+        expect(validations).to.equal(2);
+        expect(second.kind).to.equal(DocumentDiagnosticReportKind.Unchanged);
+
+        const changed = create(document.uri, 'Sub Main(x As Integer)\n    x = 43\nEnd Sub', 2);
+        const third = pull(cache, changed, [changed], first.resultId);
+        expect(third.kind).to.equal(DocumentDiagnosticReportKind.Full);
+        expect(third.resultId).to.not.equal(first.resultId);
+    });
+
+    it('should report diagnostics that depend on other documents and the settings', () => {
+        const cache = new DiagnosticCache();
+        const shape = create('file:///IShape.vb', 'Interface IShape\nEnd Interface');
+        const circle = create(
+            'file:///Circle.vb',
+            'Class Circle\n    Implements IShape\n    Sub Draw()\n    End Sub\nEnd Class'
+        );
+        const first = pull(cache, circle, [shape, circle]);
+        expect((first as FullDocumentDiagnosticReport).items).to.be.empty;
+
+        const changedShape = create(
+            shape.uri,
+            'Interface IShape\n    Sub Draw()\n    Function Area() As Double\nEnd Interface',
+            2
+        );
+        cache.invalidate();
+        const second = pull(cache, circle, [changedShape, circle], first.resultId);
+        expect(second.kind).to.equal(DocumentDiagnosticReportKind.Full);
+        expect((second as FullDocumentDiagnosticReport).items[0].message).to.contain('Area');
+
+        cache.invalidate();
+        const settings = normalizeSettings({
+            diagnostics: { rules: { [Rules.MissingInterfaceMember.id]: 'off' } }
+        });
+        const third = pull(cache, circle, [changedShape, circle], second.resultId, settings);
+        expect((third as FullDocumentDiagnosticReport).items).to.be.empty;
+    });
+
+    it('should report all workspace documents', async () => {
+        const cache = new DiagnosticCache();
+        const open = create('file:///Open.vb', 'Sub Main(x As Integer)\n    x = 42\nEnd Sub', 3);
+        const closed = create('file:///Closed.vb', 'Class Closed\nEnd Class');
+        const getSettings = () => Promise.resolve(DEFAULT_SETTINGS);
+        const isOpen = (uri: string) => uri === open.uri;
+
+        const first = await onWorkspaceDiagnostic(
+            { previousResultIds: [] },
+            [open, closed],
+            getSettings,
+            cache,
+            isOpen
+        );
+        expect(first.items.map((i) => [i.uri, i.version, i.kind])).to.deep.equal([
+            [open.uri, 3, 'full'],
+            [closed.uri, null, 'full']
+        ]);
+
+        const second = await onWorkspaceDiagnostic(
+            { previousResultIds: [{ uri: closed.uri, value: first.items[1].resultId! }] },
+            [open, closed],
+            getSettings,
+            cache,
+            isOpen
+        );
+        expect(second.items.map((i) => i.kind)).to.deep.equal(['full', 'unchanged']);
+        expect((second.items[1] as UnchangedDocumentDiagnosticReport).resultId).to.equal(
+            first.items[1].resultId
+        );
+    });
+});
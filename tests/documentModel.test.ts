@@ -0,0 +1,175 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Range } from 'vscode-languageserver/node';
+import { tokenize, retokenize } from '../src/utils/lexer';
+import { getDocumentModel, updateDocument, removeDocumentModel } from '../src/utils/documentModel';
+import { parseDocumentSymbols } from '../src/utils/parser';
+import { findDeclaration, parseSyntaxTree } from '../src/utils/syntaxTree';
+
+describe('Document Model', () => {
+    const uri = 'file:///model.vb';
+    const source =
+        'Module M\r\n    Sub A()\r\n        Dim x As Integer\r\n    End Sub\r\nEnd Module';
+
+    afterEach(() => removeDocumentModel(uri));
+
+    /** Applies one edit incrementally and checks the tokens against a full tokenization. */
+    const applyEdit = (text: string, range: Range, newText: string) => {
+        const document = TextDocument.create(uri, 'vb', 1, text);
+        getDocumentModel(document);
+        updateDocument(document, [{ range, text: newText }], 2);
+        const model = getDocumentModel(document);
+        expect(model.version).to.equal(2);
+        expect(model.tokens).to.deep.equal(tokenize(document.getText()));
+        return { document, model };
+    };
+
+    it('should re-tokenize an edit within a line', () => {
+        applyEdit(source, Range.create(2, 12, 2, 13), 'count');
+    });
+
+    it('should re-tokenize edits inserting and removing lines', () => {
+        applyEdit(source, Range.create(2, 24, 2, 24), '\r\n        Dim y As String = "a\'b"');
+        applyEdit(source, Range.create(1, 11, 3, 11), '');
+        applyEdit(source, Range.create(0, 0, 0, 0), "' header\n");
+    });
+
+    it('should re-tokenize edits at the end of the document', () => {
+        applyEdit(source, Range.create(4, 10, 4, 10), '\r\n');
+        applyEdit('Dim a', Range.create(0, 5, 0, 5), ' As Integer : Dim b _\n    As String');
+    });
+
+    it('should reuse the tokens of lines before the edit', () => {
+        const document = TextDocument.create(uri, 'vb', 1, source);
+        const before = getDocumentModel(document).tokens;
+        updateDocument(document, [{ range: Range.create(3, 4, 3, 11), text: 'End Sub' }], 2);
+        const after = getDocumentModel(document).tokens;
+        expect(after[0]).to.equal(before[0]);
+        expect(after.indexOf(before[before.length - 2])).to.equal(-1);
+    });
+
+    it('should apply several changes in order', () => {
+        const document = TextDocument.create(uri, 'vb', 1, source);
+        getDocumentModel(document);
+        updateDocument(
+            document,
+            [
+                { range: Range.create(2, 12, 2, 13), text: 'total' },
+                { range: Range.create(1, 8, 1, 9), text: 'Run' },
+                { text: 'Class C\nEnd Class' },
+                { range: Range.create(0, 6, 0, 7), text: 'Customer' }
+            ],
+            2
+        );
+        expect(document.getText()).to.equal('Class Customer\nEnd Class');
+        expect(getDocumentModel(document).tokens).to.deep.equal(tokenize(document.getText()));
+    });
+
+    it('should match a full tokenization when retokenizing directly', () => {
+        const oldText = 'a = 1\nb = 2\nc = 3';
+        const newText = 'a = 1\nb = "x" : d = 4\ne = 5\nc = 3';
+        expect(retokenize(tokenize(oldText), newText, 1, 1, 2)).to.deep.equal(tokenize(newText));
+    });
+
+    /** Applies edits as separate versions and checks the reparsed tree against a full parse. */
+    const reparse = (text: string, ...edits: [Range, string][]) => {
+        const document = TextDocument.create(uri, 'vb', 1, text);
+        const before = getDocumentModel(document).tree;
+        edits.forEach(([range, newText], index) =>
+            updateDocument(document, [{ range, text: newText }], index + 2)
+        );
+        const after = getDocumentModel(document).tree;
+        expect(after.root).to.deep.equal(parseSyntaxTree(document.getText()).root);
+        return { before, after };
+    };
+
+    it('should reparse only the statements around an edit', () => {
+        const text = [
+            'Module M',
+            '    Sub A()',
+            '        Dim x As Integer',
+            '        x = 1',
+            '    End Sub',
+            '    Sub B(ByVal y As Integer)',
+            '    End Sub',
+            'End Module'
+        ].join('\n');
+        const { before, after } = reparse(text, [Range.create(3, 13, 3, 13), '\n        x += 2']);
+        // Sub A is reused, Sub B is moved down a line
+        expect(after.statements[1].name).to.equal(before.statements[1].name);
+        expect(after.statements[6].name).to.not.equal(before.statements[5].name);
+        expect(after.statements[6].range.start.line).to.equal(6);
+        expect(after.statements[6].parameters![0].modifiers[0].line).to.equal(6);
+        // The previous tree is left as it was
+        expect(before.statements[5].range.start.line).to.equal(5);
+        expect(before.statements[5].parent).to.equal(before.root.members[0]);
+    });
+
+    it('should reparse statements whose line continuation or block changes', () => {
+        const text = [
+            'Enum Color',
+            '    Red',
+            'End Enum',
+            'Class C',
+            '    Property Name As String',
+            '    Sub A()',
+            '        x = Foo(1,',
+            '                2)',
+            '        y = 3',
+            '    End Sub',
+            'End Class'
+        ].join('\r\n');
+        reparse(text, [Range.create(7, 17, 7, 18), ', _']);
+        reparse(text, [Range.create(6, 18, 6, 19), ')']);
+        reparse('x = 1\ny\n)\nz = 2', [Range.create(0, 4, 0, 5), '(1 +']);
+        reparse('Enum E\n    A\nEnd Enum\nGo\nGo\nRetry:', [Range.create(2, 0, 2, 8), '']);
+        reparse('Enum E\n    A\nGo\nGo\nRetry:', [Range.create(1, 5, 1, 5), '\nEnd Enum']);
+        reparse(text, [Range.create(2, 0, 2, 8), '']);
+        reparse(text, [Range.create(4, 33, 4, 33), '\r\n        Get\r\n        End Get']);
+        reparse(
+            text,
+            [Range.create(8, 13, 8, 13), '\r\n    End Property'],
+            [Range.create(0, 0, 0, 0), "' header\r\n"],
+            [Range.create(10, 4, 11, 4), '']
+        );
+    });
+
+    it('should share symbols between calls for the same version', () => {
+        const document = TextDocument.create(uri, 'vb', 1, source);
+        const symbols = parseDocumentSymbols(document);
+        expect(parseDocumentSymbols(document)).to.equal(symbols);
+
+        updateDocument(document, [{ range: Range.create(1, 8, 1, 9), text: 'B' }], 2);
+        const updated = parseDocumentSymbols(document);
+        expect(updated).to.not.equal(symbols);
+        expect(updated[0].children![0].name).to.equal('B');
+    });
+
+    it('should index declarations once per version', () => {
+        const document = TextDocument.create(uri, 'vb', 1, `Option Strict On\r\n${source}`);
+        const declarations = getDocumentModel(document).declarations;
+        expect(getDocumentModel(document).declarations).to.equal(declarations);
+        expect(declarations.options.map((o) => o.tokens[1].text)).to.deep.equal(['Strict']);
+
+        const x = findDeclaration(declarations, Range.create(3, 12, 3, 13));
+        expect(x?.declarator?.type?.text).to.equal('Integer');
+        expect(
+            findDeclaration(declarations, Range.create(2, 8, 2, 9))?.statement.name?.text
+        ).to.equal('A');
+        // The range must cover the whole name
+        expect(findDeclaration(declarations, Range.create(2, 8, 2, 10))).to.be.undefined;
+
+        updateDocument(document, [{ range: Range.create(0, 0, 1, 0), text: '' }], 2);
+        const updated = getDocumentModel(document).declarations;
+        expect(updated).to.not.equal(declarations);
+        expect(updated.options).to.be.empty;
+        expect(findDeclaration(updated, Range.create(2, 12, 2, 13))?.declarator).to.exist;
+    });
+
+    it('should not reuse a model for different content with the same version', () => {
+        const first = parseDocumentSymbols(TextDocument.create(uri, 'vb', 1, 'Sub A()\nEnd Sub'));
+        const second = parseDocumentSymbols(TextDocument.create(uri, 'vb', 1, 'Sub B()\nEnd Sub'));
+        expect(first[0].name).to.equal('A');
+        expect(second[0].name).to.equal('B');
+    });
+});
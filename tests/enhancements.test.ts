@@ -61,6 +61,8 @@ If x = 1 Then
 
             const diagnostic: Diagnostic = {
                 message: "Missing closing statement for 'If' block started at line 2.",
+                code: 'VB0203',
+                data: { blockType: 'If' },
                 range: Range.create(1, 0, 1, 10),
                 severity: DiagnosticSeverity.Error,
                 source: 'SimpleVB'
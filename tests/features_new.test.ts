@@ -136,17 +136,30 @@ End Property
             const text = `
 Function MyFunc( _
     args _
-)
+) As Integer
 End Function
             `;
             const document = TextDocument.create('file:///test.vb', 'vb', 1, text);
             const diagnostics = validateTextDocument(document);
 
-            // The validator currently skips validation for lines ending with _
-            // So it shouldn't warn "missing return type" on the first line "Function MyFunc( _"
-
+            // The continued lines form one logical line, so the 'As' clause on the last line is seen
             const warning = diagnostics.find(d => d.message.includes("missing a return type"));
             expect(warning).to.not.exist;
         });
+
+        it('should warn on multiline Function definition without return type', () => {
+            const text = `
+Function MyFunc( _
+    args _
+)
+End Function
+            `;
+            const document = TextDocument.create('file:///test.vb', 'vb', 1, text);
+            const diagnostics = validateTextDocument(document);
+
+            const warning = diagnostics.find(d => d.message.includes("missing a return type"));
+            expect(warning).to.exist;
+            expect(warning!.range.start.line).to.equal(1);
+        });
     });
 });
@@ -4,7 +4,7 @@ import { Position } from 'vscode-languageserver/node';
 import { onRenameRequest } from '../src/features/rename';
 
 describe('Rename Feature Enhancements', () => {
-    it('should rename class and its usages', () => {
+    it('should rename class and its usages', async () => {
         const text = `
 Class Person
 End Class
@@ -17,7 +17,7 @@ End Sub
         // Rename "Person" at definition
         const position = Position.create(1, 6); // "Class Person"
 
-        const edit = onRenameRequest({
+        const edit = await onRenameRequest({
             textDocument: { uri: document.uri },
             position: position,
             newName: 'Employee'
@@ -38,7 +38,7 @@ End Sub
         expect(usageChange!.newText).to.equal('Employee');
     });
 
-    it('should NOT rename if new name is invalid', () => {
+    it('should NOT rename if new name is invalid', async () => {
         const text = `
 Class Person
 End Class
@@ -47,7 +47,7 @@ End Class
         const position = Position.create(1, 6);
 
         // Invalid name with space
-        const edit = onRenameRequest({
+        const edit = await onRenameRequest({
             textDocument: { uri: document.uri },
             position: position,
             newName: 'Invalid Name'
@@ -0,0 +1,77 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CodeAction, Diagnostic } from 'vscode-languageserver/node';
+import { onCodeAction } from '../src/features/codeAction';
+import { validateTextDocument } from '../src/features/validation';
+import { Rule } from '../src/rules';
+import { VbSettings } from '../src/utils/settings';
+
+/**
+ * Creates a document from lines of source text.
+ * @param lines The lines.
+ * @param uri The document URI.
+ * @returns The document.
+ */
+export function createDocument(lines: string[], uri = 'file:///test.vb'): TextDocument {
+    return TextDocument.create(uri, 'vb', 1, lines.join('\n'));
+}
+
+/**
+ * Validates a document and keeps the diagnostics of one rule.
+ * @param document The document.
+ * @param rule The rule.
+ * @param allDocuments The documents of the workspace.
+ * @param settings The settings, if not the defaults.
+ * @returns The diagnostics of the rule.
+ */
+export function checkRule(
+    document: TextDocument,
+    rule: Rule,
+    allDocuments = [document],
+    settings?: VbSettings
+): Diagnostic[] {
+    return validateTextDocument(document, allDocuments, settings).filter((d) => d.code === rule.id);
+}
+
+/**
+ * Gets the messages of diagnostics.
+ * @param diagnostics The diagnostics.
+ * @returns The messages, in order.
+ */
+export function messages(diagnostics: Diagnostic[]): string[] {
+    return diagnostics.map((d) => d.message);
+}
+
+/**
+ * Gets the code actions offered for a diagnostic.
+ * @param document The document.
+ * @param diagnostic The diagnostic.
+ * @returns The code actions.
+ */
+export function getCodeActions(document: TextDocument, diagnostic: Diagnostic): CodeAction[] {
+    return onCodeAction(
+        {
+            textDocument: { uri: document.uri },
+            range: diagnostic.range,
+            context: { diagnostics: [diagnostic] }
+        },
+        document
+    ) as CodeAction[];
+}
+
+/**
+ * Applies the code action with the given title, which must be offered for the diagnostic.
+ * @param document The document.
+ * @param diagnostic The diagnostic.
+ * @param title The title of the code action.
+ * @returns The text of the document after the edit.
+ */
+export function applyCodeAction(
+    document: TextDocument,
+    diagnostic: Diagnostic,
+    title: string
+): string {
+    const action = getCodeActions(document, diagnostic).find((a) => a.title === title);
+    expect(action, title).to.exist;
+    return TextDocument.applyEdits(document, action!.edit!.changes![document.uri]);
+}
@@ -0,0 +1,187 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Location, Position, SymbolKind } from 'vscode-languageserver/node';
+import { onCompletion } from '../src/features/completion';
+import { onDefinition } from '../src/features/definition';
+import { validateTextDocument } from '../src/features/validation';
+import { Rules } from '../src/rules';
+import { parseDocumentSymbols } from '../src/utils/parser';
+import { inferExpressionType } from '../src/utils/typeInference';
+
+describe('Inheritance', () => {
+    const baseText = [
+        'Class Animal',
+        '    Public Name As String',
+        '    Public Overridable Function Speak() As String',
+        '    End Function',
+        'End Class'
+    ].join('\n');
+    const base = TextDocument.create('file:///Animal.vb', 'vb', 1, baseText);
+
+    const dogText = [
+        'Class Dog',
+        '    Inherits Animal',
+        '    Public Overrides Function Speak() As String',
+        '        Me.',
+        '        MyBase.',
+        '        Name = "Rex"',
+        '    End Function',
+        '    Public Sub Fetch()',
+        '    End Sub',
+        'End Class',
+        'Module Main',
+        '    Sub Run()',
+        '        Dim d As New Dog()',
+        '        d.',
+        '        d.Name = "Rex"',
+        '    End Sub',
+        'End Module'
+    ].join('\n');
+    const dog = TextDocument.create('file:///Dog.vb', 'vb', 1, dogText);
+    const all = [base, dog];
+
+    const end = (document: TextDocument, line: number) =>
+        Position.create(line, document.getText().split('\n')[line].length);
+    const complete = (line: number) =>
+        onCompletion({ textDocument: { uri: dog.uri }, position: end(dog, line) }, dog, all).map(
+            (i) => i.label
+        );
+
+    it('should record base types as symbols', () => {
+        const [dogClass] = parseDocumentSymbols(dog);
+        const inherits = dogClass.children?.find((c) => c.name === 'Inherits Animal');
+        expect(inherits?.kind).to.equal(SymbolKind.Class);
+        expect(inherits?.selectionRange.start).to.deep.equal({ line: 1, character: 13 });
+
+        const document = TextDocument.create(
+            'file:///IShape.vb',
+            'vb',
+            1,
+            'Interface IShape\n    Inherits IDisposable, IComparable\nEnd Interface'
+        );
+        const names = parseDocumentSymbols(document)[0].children?.map((c) => [c.name, c.kind]);
+        expect(names).to.deep.equal([
+            ['Inherits IDisposable', SymbolKind.Interface],
+            ['Inherits IComparable', SymbolKind.Interface]
+        ]);
+    });
+
+    it('should complete inherited members', () => {
+        const members = complete(13);
+        expect(members).to.include.members(['Name', 'Speak', 'Fetch']);
+        // The override hides the base declaration
+        expect(members.filter((m) => m === 'Speak')).to.have.length(1);
+        expect(complete(3)).to.include.members(['Name', 'Speak', 'Fetch']);
+        expect(complete(4)).to.have.members(['Name', 'Speak']);
+    });
+
+    it('should infer the types of inherited members and MyBase', () => {
+        const at = Position.create(5, 8);
+        expect(inferExpressionType('Name', dog, at, all)).to.equal('String');
+        expect(inferExpressionType('MyBase.Speak()', dog, at, all)).to.equal('String');
+        expect(inferExpressionType('MyClass', dog, at, all)).to.equal('Dog');
+    });
+
+    it('should go to the definition of inherited members', () => {
+        const qualified = onDefinition(
+            { textDocument: { uri: dog.uri }, position: Position.create(14, 11) },
+            dog,
+            all
+        ) as Location;
+        expect(qualified.uri).to.equal(base.uri);
+        expect(qualified.range.start.line).to.equal(1);
+
+        const unqualified = onDefinition(
+            { textDocument: { uri: dog.uri }, position: Position.create(5, 9) },
+            dog,
+            all
+        ) as Location;
+        expect(unqualified.uri).to.equal(base.uri);
+        expect(unqualified.range.start.line).to.equal(1);
+    });
+
+    it('should accept interface members implemented by a base class', () => {
+        const document = TextDocument.create(
+            'file:///Shapes.vb',
+            'vb',
+            1,
+            [
+                'Interface INamed',
+                '    Function GetName() As String',
+                'End Interface',
+                'Interface IShape',
+                '    Inherits INamed',
+                '    Sub Draw()',
+                'End Interface',
+                'Class ShapeBase',
+                '    Public Function GetName() As String',
+                '        Return "shape"',
+                '    End Function',
+                'End Class',
+                'Class Circle',
+                '    Inherits ShapeBase',
+                '    Implements IShape',
+                'End Class'
+            ].join('\n')
+        );
+        const messages = validateTextDocument(document)
+            .filter((d) => d.code === 'VB0304')
+            .map((d) => d.message);
+        expect(messages).to.have.length(1);
+        expect(messages[0]).to.include("'Draw'");
+    });
+
+    it('should report types that inherit from themselves', () => {
+        const document = TextDocument.create(
+            'file:///Cycles.vb',
+            'vb',
+            1,
+            [
+                'Class Self',
+                '    Inherits Self',
+                'End Class',
+                'Class A',
+                '    Inherits B',
+                '    Public Sub Run()',
+                '    End Sub',
+                'End Class',
+                'Class B',
+                '    Inherits A',
+                'End Class',
+                'Class Derived',
+                '    Inherits A',
+                '    Sub Test()',
+                '        Me.',
+                '    End Sub',
+                'End Class',
+                'Interface I1',
+                '    Inherits I2',
+                'End Interface',
+                'Interface I2',
+                '    Inherits I1',
+                'End Interface'
+            ].join('\n')
+        );
+        const diagnostics = validateTextDocument(document).filter(
+            (d) => d.code === Rules.InheritanceCycle.id
+        );
+        expect(diagnostics.map((d) => d.message)).to.deep.equal([
+            "Class 'Self' cannot inherit from itself.",
+            "Class 'A' cannot inherit from itself: 'A' inherits from 'B', 'B' inherits from 'A'.",
+            "Class 'B' cannot inherit from itself: 'B' inherits from 'A', 'A' inherits from 'B'.",
+            "Interface 'I1' cannot inherit from itself: 'I1' inherits from 'I2', 'I2' inherits from 'I1'.",
+            "Interface 'I2' cannot inherit from itself: 'I2' inherits from 'I1', 'I1' inherits from 'I2'."
+        ]);
+        expect(diagnostics[1].range).to.deep.equal({
+            start: { line: 4, character: 13 },
+            end: { line: 4, character: 14 }
+        });
+
+        // Walking the base types stops when a type repeats
+        const members = onCompletion(
+            { textDocument: { uri: document.uri }, position: end(document, 14) },
+            document
+        ).map((i) => i.label);
+        expect(members).to.include.members(['Test', 'Run']);
+    });
+});
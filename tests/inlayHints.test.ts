@@ -126,4 +126,63 @@ End Sub
         expect(hints[0].label).to.equal('x:');
         expect(hints[1].label).to.equal('y:');
     });
+
+    it('should skip named arguments and show the defaults of omitted Optional parameters', () => {
+        const content = `
+Sub Move(x As Integer, y As Integer, Optional speed As Integer = 5, Optional smooth As Boolean = True)
+End Sub
+
+Sub Main()
+    Move(y:=2, x:=1)
+    Move(1, 2, , False)
+End Sub
+`;
+        const document = TextDocument.create('file:///test.vb', 'vb', 1, content);
+        const params: any = { textDocument: { uri: document.uri }, range: {} };
+
+        const hints = onInlayHints(params, document);
+
+        const named = hints.filter((h) => h.position.line === 5);
+        expect(named.map((h) => h.label)).to.deep.equal(['speed: 5', 'smooth: True']);
+        expect(named[0].position.character).to.equal(19); // Before ')'
+
+        const omitted = hints.filter((h) => h.position.line === 6);
+        expect(omitted.map((h) => h.label)).to.deep.equal(['x:', 'y:', 'speed: 5', 'smooth:']);
+    });
+
+    it('should hint overloads, constructors and procedures of other files', () => {
+        const library = TextDocument.create(
+            'file:///lib.vb',
+            'vb',
+            1,
+            [
+                'Module Lib',
+                '    Sub Show(text As String)',
+                '    End Sub',
+                '    Sub Show(value As Integer, ParamArray extra() As Integer)',
+                '    End Sub',
+                'End Module',
+                'Class Point',
+                '    Public Sub New(left As Integer, top As Integer)',
+                '    End Sub',
+                'End Class'
+            ].join('\n')
+        );
+        const document = TextDocument.create(
+            'file:///main.vb',
+            'vb',
+            1,
+            ['Sub Main()', '    Show("a")', '    Show(1, 2, 3)', '    Dim p = New Point(1, 2)', 'End Sub'].join(
+                '\n'
+            )
+        );
+        const params: any = { textDocument: { uri: document.uri }, range: {} };
+
+        const hints = onInlayHints(params, document, [document, library]);
+        const labels = (line: number) =>
+            hints.filter((h) => h.position.line === line).map((h) => h.label);
+        expect(labels(1)).to.deep.equal(['text:']);
+        expect(labels(2)).to.deep.equal(['value:', 'extra:']);
+        expect(labels(3)).to.deep.equal(['left:', 'top:']);
+    });
 });
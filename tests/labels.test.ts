@@ -0,0 +1,192 @@
+import { expect } from 'chai';
+import { Location, SymbolKind } from 'vscode-languageserver/node';
+import { onDefinition } from '../src/features/definition';
+import { onReferences } from '../src/features/references';
+import { Rules } from '../src/rules';
+import { parseDocumentSymbols } from '../src/utils/parser';
+import { checkRule, createDocument, messages } from './helpers';
+
+describe('Labels', () => {
+    const create = (lines: string[]) => createDocument(['Module Main', ...lines, 'End Module']);
+    const lines = (locations: Location[]) => locations.map((l) => l.range.start.line);
+
+    it('should parse labels as symbols of their procedure', () => {
+        const document = create([
+            '    Sub Run()',
+            '        On Error GoTo ErrHandler',
+            '10:     Console.WriteLine(1)',
+            '        Exit Sub',
+            'ErrHandler:',
+            '        Resume Next',
+            '    End Sub',
+            'End Module',
+            'Enum Color',
+            '    Red',
+            'End Enum',
+            'Module Other'
+        ]);
+        const [main, color] = parseDocumentSymbols(document);
+        const labels = main.children![0].children!.filter((s) => s.kind === SymbolKind.Key);
+        expect(labels.map((s) => [s.name, s.selectionRange.start.line])).to.deep.equal([
+            ['10', 3],
+            ['ErrHandler', 5]
+        ]);
+        // A lone name in an Enum is a member, not a label
+        expect(color.children!.map((s) => s.kind)).to.deep.equal([SymbolKind.EnumMember]);
+    });
+
+    it('should report jumps to labels that are not defined', () => {
+        const document = create([
+            '    Sub Run()',
+            '        On Error GoTo Handler',
+            '        GoTo 20',
+            '        Resume Retry',
+            '        On Error GoTo 0',
+            '        On Error Resume Next',
+            '        Resume Next',
+            '10:     Console.WriteLine(1)',
+            '        GoTo errhandler',
+            'ErrHandler:',
+            '    End Sub',
+            '    Sub Other()',
+            '        GoTo ErrHandler',
+            '    End Sub'
+        ]);
+        const diagnostics = checkRule(document, Rules.UndefinedLabel);
+        expect(messages(diagnostics)).to.deep.equal([
+            "Label 'Handler' is not defined.",
+            "Label '20' is not defined.",
+            "Label 'Retry' is not defined.",
+            "Label 'ErrHandler' is not defined."
+        ]);
+        expect(diagnostics[0].range).to.deep.equal({
+            start: { line: 2, character: 22 },
+            end: { line: 2, character: 29 }
+        });
+    });
+
+    it('should report duplicate labels in the same procedure', () => {
+        const document = create([
+            '    Sub Run()',
+            '        Dim retry As Integer',
+            'Retry:',
+            '        retry += 1',
+            '        If retry < 3 Then',
+            'retry:',
+            '        End If',
+            '    End Sub',
+            '    Sub Other()',
+            'Retry:',
+            '    End Sub'
+        ]);
+        const diagnostics = checkRule(document, Rules.DuplicateLabel);
+        expect(messages(diagnostics)).to.deep.equal([
+            "Label 'retry' is already defined in this procedure."
+        ]);
+        expect(diagnostics[0].range.start.line).to.equal(6);
+        // Labels do not clash with variables
+        expect(checkRule(document, Rules.DuplicateDeclaration)).to.be.empty;
+    });
+
+    it('should report jumps into blocks from outside', () => {
+        const document = create([
+            '    Sub Run(items As Integer())',
+            '        GoTo InLoop',
+            '        For Each item In items',
+            'InLoop:',
+            '            GoTo InLoop',
+            '        Next',
+            '        Try',
+            'InTry:',
+            '            Console.WriteLine(1)',
+            '        Catch ex As Exception',
+            '            GoTo InTry',
+            '        End Try',
+            '        If items Is Nothing Then',
+            'InIf:',
+            '        End If',
+            '        GoTo InIf',
+            '    End Sub'
+        ]);
+        expect(messages(checkRule(document, Rules.JumpIntoBlock))).to.deep.equal([
+            "'GoTo InLoop' is not valid because 'InLoop' is inside a 'For' block that does not contain this statement.",
+            "'GoTo InTry' is not valid because 'InTry' is inside a 'Try' block that does not contain this statement."
+        ]);
+    });
+
+    it('should report On Error and Resume in procedures with Try', () => {
+        const document = create([
+            '    Sub Run()',
+            '        On Error GoTo ErrHandler',
+            '        Try',
+            '            Console.WriteLine(1)',
+            '        Catch ex As Exception',
+            '        End Try',
+            '        Exit Sub',
+            'ErrHandler:',
+            '        Resume Next',
+            '    End Sub',
+            '    Sub Other()',
+            '        On Error Resume Next',
+            '    End Sub'
+        ]);
+        const diagnostics = checkRule(document, Rules.OnErrorWithTry);
+        expect(diagnostics.map((d) => d.range.start.line)).to.deep.equal([2, 9]);
+        expect(diagnostics[0].message).to.equal(
+            "Method cannot contain both a 'Try' statement and an 'On Error' or 'Resume' statement."
+        );
+    });
+
+    it('should not report line numbers as magic numbers', () => {
+        const document = create([
+            '    Sub Run()',
+            '        On Error GoTo 100',
+            '10:     Console.WriteLine(42)',
+            '        GoTo 10',
+            '100:    Resume 10',
+            '    End Sub'
+        ]);
+        expect(messages(checkRule(document, Rules.MagicNumber))).to.deep.equal([
+            'Avoid magic numbers (42). Use a Constant instead.'
+        ]);
+        expect(checkRule(document, Rules.UndefinedLabel)).to.be.empty;
+    });
+
+    it('should find the definition and references of a label', async () => {
+        const document = create([
+            '    Sub Run()',
+            '        Dim retry As Integer',
+            '        On Error GoTo Retry',
+            'Retry:',
+            '        retry += 1',
+            '        If retry < 3 Then GoTo retry',
+            '    End Sub',
+            '    Sub Other()',
+            'Retry:',
+            '        GoTo Retry',
+            '    End Sub'
+        ]);
+        const position = { line: 3, character: 24 };
+        const definition = onDefinition({ textDocument: document, position }, document);
+        expect(definition).to.deep.equal({
+            uri: document.uri,
+            range: { start: { line: 4, character: 0 }, end: { line: 4, character: 5 } }
+        });
+
+        const references = await onReferences(
+            { textDocument: document, position, context: { includeDeclaration: true } },
+            document
+        );
+        expect(lines(references)).to.deep.equal([3, 4, 6]);
+        expect(references[2].range.start.character).to.equal(31);
+        const usages = await onReferences(
+            {
+                textDocument: document,
+                position: { line: 4, character: 1 },
+                context: { includeDeclaration: false }
+            },
+            document
+        );
+        expect(lines(usages)).to.deep.equal([3, 6]);
+    });
+});
@@ -0,0 +1,95 @@
+import { expect } from 'chai';
+import { tokenize, TokenKind } from '../src/utils/lexer';
+import { stripComment } from '../src/utils/textUtils';
+
+describe('Lexer', () => {
+    const kinds = (text: string) => tokenize(text).map((t) => t.kind);
+
+    it('should classify keywords, identifiers and operators', () => {
+        const tokens = tokenize('Dim count As Integer = a <> b');
+        expect(tokens.map((t) => t.kind)).to.deep.equal([
+            TokenKind.Keyword,
+            TokenKind.Identifier,
+            TokenKind.Keyword,
+            TokenKind.Keyword,
+            TokenKind.Operator,
+            TokenKind.Identifier,
+            TokenKind.Operator,
+            TokenKind.Identifier,
+            TokenKind.EndOfFile
+        ]);
+        expect(tokens[6].text).to.equal('<>');
+        expect(tokens[1].character).to.equal(4);
+    });
+
+    it('should keep apostrophes and keywords inside strings', () => {
+        const tokens = tokenize('x = "It\'s End Sub" \' real comment');
+        expect(tokens[2].kind).to.equal(TokenKind.StringLiteral);
+        expect(tokens[2].text).to.equal('"It\'s End Sub"');
+        expect(tokens[3].kind).to.equal(TokenKind.Comment);
+        expect(tokens[3].text).to.equal("' real comment");
+    });
+
+    it('should handle doubled quotes in strings', () => {
+        const tokens = tokenize('s = "say ""hi""" & c');
+        expect(tokens[2].text).to.equal('"say ""hi"""');
+        expect(tokens[3].text).to.equal('&');
+    });
+
+    it('should lex numeric, date and char literals', () => {
+        const tokens = tokenize('x = &HFF + 1.5E3 + 10L + #1/1/2000# + "a"c');
+        const literals = tokens.filter(
+            (t) =>
+                t.kind === TokenKind.NumericLiteral ||
+                t.kind === TokenKind.DateLiteral ||
+                t.kind === TokenKind.StringLiteral
+        );
+        expect(literals.map((t) => t.text)).to.deep.equal([
+            '&HFF',
+            '1.5E3',
+            '10L',
+            '#1/1/2000#',
+            '"a"c'
+        ]);
+    });
+
+    it('should recognize REM comments and directives', () => {
+        expect(kinds('REM a comment')).to.deep.equal([TokenKind.Comment, TokenKind.EndOfFile]);
+        const tokens = tokenize('#Region "Helpers" \' note');
+        expect(tokens[0].kind).to.equal(TokenKind.Directive);
+        expect(tokens[0].text).to.equal('#Region "Helpers"');
+        expect(tokens[1].kind).to.equal(TokenKind.Comment);
+    });
+
+    it('should emit statement separators, continuations and line terminators', () => {
+        expect(kinds('a = 1 : b = 2')).to.include(TokenKind.StatementSeparator);
+        expect(kinds('x = 1 + _\r\n    2')).to.include.members([
+            TokenKind.LineContinuation,
+            TokenKind.LineTerminator
+        ]);
+        const tokens = tokenize('a\nb');
+        expect(tokens[2].line).to.equal(1);
+        expect(tokens[2].character).to.equal(0);
+    });
+
+    it('should treat keywords after a dot and escaped names as identifiers', () => {
+        const tokens = tokenize('d.Date = [Class]');
+        expect(tokens[2].kind).to.equal(TokenKind.Identifier);
+        expect(tokens[4].kind).to.equal(TokenKind.Identifier);
+        expect(tokens[4].value).to.equal('class');
+    });
+
+    it('should attach type characters to identifiers', () => {
+        const tokens = tokenize('Dim n%(10), s$ = Left$(a&(b), 1) & c');
+        expect(
+            tokens.filter((t) => t.kind === TokenKind.Identifier).map((t) => t.text)
+        ).to.deep.equal(['n%', 's$', 'Left$', 'a', 'b', 'c']);
+        expect(tokens[1].value).to.equal('n');
+    });
+
+    it('should strip comments using the lexer', () => {
+        expect(stripComment('x = "a\'b" \' comment')).to.equal('x = "a\'b" ');
+        expect(stripComment('Dim x As Integer REM note')).to.equal('Dim x As Integer ');
+        expect(stripComment('Dim remaining As Integer')).to.equal('Dim remaining As Integer');
+    });
+});
@@ -0,0 +1,149 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { FoldingRangeParams } from 'vscode-languageserver/node';
+import { getLogicalLines, getLogicalLinePosition } from '../src/utils/lexer';
+import { parseDocumentSymbols } from '../src/utils/parser';
+import { validateTextDocument } from '../src/features/validation';
+import { formatDocument } from '../src/features/formatting';
+import { onFoldingRanges } from '../src/features/folding';
+
+describe('Line Continuations', () => {
+    const createDoc = (text: string) => TextDocument.create('file:///test.vb', 'vb', 1, text);
+
+    describe('Logical lines', () => {
+        it('should join explicit continuations and keep original positions', () => {
+            const text = 'x = 1 + _ \' one\n    2\ny = 3';
+            const logical = getLogicalLines(text);
+            expect(logical).to.have.lengthOf(2);
+            expect(logical[0].text).to.equal('x = 1 + 2');
+            expect(logical[0].endLine).to.equal(1);
+            expect(getLogicalLinePosition(logical[0], 8)).to.deep.equal({
+                line: 1,
+                character: 4
+            });
+        });
+
+        it('should join implicit continuations after commas, parentheses and operators', () => {
+            const text = 'Foo(a,\n    b,\n    c\n)\nz = a AndAlso\n    b';
+            const logical = getLogicalLines(text);
+            expect(logical.map((l) => l.text)).to.deep.equal([
+                'Foo(a, b, c )',
+                'z = a AndAlso b'
+            ]);
+        });
+
+        it('should not continue into a new statement while typing', () => {
+            const logical = getLogicalLines('Sub M()\n    x =\nEnd Sub');
+            expect(logical).to.have.lengthOf(3);
+        });
+
+        it('should attach attributes on their own line to the declaration', () => {
+            const logical = getLogicalLines('<Serializable>\nPublic Class C\nEnd Class');
+            expect(logical[0].text).to.equal('<Serializable> Public Class C');
+        });
+
+        it('should join the clauses of a multi-line query', () => {
+            const text = [
+                'Dim q = From x In items',
+                '        Where x Mod 2 = 0',
+                '        Select x',
+                'Dim list As New List(Of Integer) From {1, 2}',
+                'Select Case q.Count()',
+                'End Select'
+            ].join('\n');
+            expect(getLogicalLines(text).map((l) => l.text)).to.deep.equal([
+                'Dim q = From x In items Where x Mod 2 = 0 Select x',
+                'Dim list As New List(Of Integer) From {1, 2}',
+                'Select Case q.Count()',
+                'End Select'
+            ]);
+        });
+    });
+
+    describe('Parser', () => {
+        it('should read parameters from all lines of a signature', () => {
+            const text =
+                'Function Calc(a As Integer, _\n              b As String,\n              c As Double) As Integer\nEnd Function';
+            const symbols = parseDocumentSymbols(createDoc(text));
+            expect(symbols).to.have.lengthOf(1);
+            const func = symbols[0];
+            expect(func.detail).to.equal('Function Calc(a As Integer, b As String, c As Double)');
+            expect(func.children!.map((c) => c.detail)).to.deep.equal([
+                'Argument a As Integer',
+                'Argument b As String',
+                'Argument c As Double'
+            ]);
+            expect(func.children![2].selectionRange.start).to.deep.equal({
+                line: 2,
+                character: 14
+            });
+            expect(func.range.end.line).to.equal(3);
+        });
+
+        it('should parse Dim initializers spanning lines', () => {
+            const text = 'Sub M()\n    Dim total As Integer = 1 +\n        2\n    Dim other As String\nEnd Sub';
+            const symbols = parseDocumentSymbols(createDoc(text));
+            expect(symbols[0].children!.map((c) => c.name)).to.deep.equal(['total', 'other']);
+        });
+    });
+
+    describe('Validation', () => {
+        it("should not report missing 'Then' on a multi-line If", () => {
+            const text =
+                'Sub M(a As Boolean, b As Boolean)\n    If a AndAlso _\n       b Then\n        Return\n    End If\nEnd Sub';
+            const diagnostics = validateTextDocument(createDoc(text));
+            expect(diagnostics.map((d) => d.message)).to.not.include(
+                "Missing 'Then' in If statement."
+            );
+            expect(diagnostics.filter((d) => d.message.startsWith('Missing closing'))).to.be
+                .empty;
+        });
+
+        it('should treat an implicitly continued If condition as one statement', () => {
+            const text =
+                'Sub M(a As Boolean, b As Boolean)\n    If a OrElse\n       b Then\n        Return\n    End If\nEnd Sub';
+            const diagnostics = validateTextDocument(createDoc(text));
+            expect(diagnostics.filter((d) => d.severity === 1)).to.be.empty;
+        });
+
+        it('should not read the clauses of a multi-line query as statements', () => {
+            const text = [
+                'Function Evens(items As Integer()) As Integer()',
+                '    Dim q = From x In items',
+                '            Where x Mod 2 = 0',
+                '            Select x',
+                '    Return q.ToArray()',
+                'End Function'
+            ].join('\n');
+            expect(validateTextDocument(createDoc(text))).to.be.empty;
+        });
+    });
+
+    describe('Formatting and folding', () => {
+        it('should indent continuation lines one level deeper', () => {
+            const text =
+                'Sub M()\nIf a AndAlso _\nb Then\nx = Foo(1,\n2)\nEnd If\nEnd Sub';
+            const edits = formatDocument(createDoc(text), { tabSize: 4, insertSpaces: true });
+            const lines = text.split('\n');
+            for (const edit of edits) {
+                lines[edit.range.start.line] = edit.newText;
+            }
+            expect(lines).to.deep.equal([
+                'Sub M()',
+                '    If a AndAlso _',
+                '        b Then',
+                '        x = Foo(1,',
+                '            2)',
+                '    End If',
+                'End Sub'
+            ]);
+        });
+
+        it('should fold a multi-line If from its first line', () => {
+            const text = 'Sub M()\n    If a AndAlso _\n       b Then\n        x = 1\n    End If\nEnd Sub';
+            const ranges = onFoldingRanges({} as FoldingRangeParams, createDoc(text));
+            expect(ranges).to.deep.include({ startLine: 1, endLine: 3 });
+            expect(ranges).to.deep.include({ startLine: 0, endLine: 4 });
+        });
+    });
+});
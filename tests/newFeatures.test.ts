@@ -4,12 +4,14 @@ import { CodeAction, CodeActionKind, Diagnostic, DiagnosticSeverity, Range } fro
 import { onCodeAction } from '../src/features/codeAction';
 
 describe('New Features: Encapsulate Field and Add Imports', () => {
-    function createDiagnostic(message: string, range: Range): Diagnostic {
+    function createDiagnostic(code: string, message: string, range: Range, data?: unknown): Diagnostic {
         return {
             message,
             range,
             severity: DiagnosticSeverity.Error,
-            source: 'SimpleVB'
+            source: 'SimpleVB',
+            code,
+            data
         };
     }
 
@@ -17,7 +19,9 @@ describe('New Features: Encapsulate Field and Add Imports', () => {
         const content = 'Dim x As List(Of String)';
         const document = TextDocument.create('file:///test.vb', 'vb', 1, content);
         const range = Range.create(0, 9, 0, 13); // "List"
-        const diagnostic = createDiagnostic("Type 'List(Of String)' is not defined.", range);
+        const diagnostic = createDiagnostic('VB0006', "Type 'List(Of String)' is not defined.", range, {
+            typeName: 'List(Of String)'
+        });
 
         const actions = onCodeAction({
             textDocument: { uri: document.uri },
@@ -0,0 +1,138 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Position, SymbolKind } from 'vscode-languageserver/node';
+import { parseDocumentSymbols } from '../src/utils/parser';
+import { validateTextDocument } from '../src/features/validation';
+import { onCompletion } from '../src/features/completion';
+
+describe('Parser - Multi-Variable Declarations', () => {
+    const createDoc = (text: string) => TextDocument.create('file:///test.vb', 'vb', 1, text);
+
+    it('should create a symbol per declarator with shared and own types', () => {
+        const symbols = parseDocumentSymbols(createDoc('Dim a, b As Integer, c As String'));
+        expect(symbols.map((s) => s.detail)).to.deep.equal([
+            'Dim a As Integer',
+            'Dim b As Integer',
+            'Dim c As String'
+        ]);
+        expect(symbols[1].selectionRange).to.deep.equal({
+            start: { line: 0, character: 7 },
+            end: { line: 0, character: 8 }
+        });
+    });
+
+    it('should default declarators without a type to Object', () => {
+        const symbols = parseDocumentSymbols(createDoc('Dim x As Integer = 1, y'));
+        expect(symbols.map((s) => s.detail)).to.deep.equal(['Dim x As Integer', 'Dim y As Object']);
+    });
+
+    it('should use the type of As New declarations', () => {
+        const symbols = parseDocumentSymbols(
+            createDoc('Dim sb As New System.Text.StringBuilder(16), items As New List(Of String)')
+        );
+        expect(symbols.map((s) => s.detail)).to.deep.equal([
+            'Dim sb As System.Text.StringBuilder',
+            'Dim items As List(Of String)'
+        ]);
+    });
+
+    it('should include array bounds', () => {
+        const symbols = parseDocumentSymbols(createDoc('Dim arr(10) As Integer, grid(,) As Double'));
+        expect(symbols.map((s) => s.name)).to.deep.equal(['arr', 'grid']);
+        expect(symbols[0].detail).to.equal('Dim arr(10) As Integer');
+        expect(symbols[1].detail).to.equal('Dim grid(,) As Double');
+    });
+
+    it('should strip type characters from names and use their types', () => {
+        const symbols = parseDocumentSymbols(createDoc('Dim s$ = "x", p, q%(3), big&, r!, d#, m@'));
+        expect(symbols.map((s) => s.detail)).to.deep.equal([
+            'Dim s As String',
+            'Dim p As Object',
+            'Dim q(3) As Integer',
+            'Dim big As Long',
+            'Dim r As Single',
+            'Dim d As Double',
+            'Dim m As Decimal'
+        ]);
+        expect(symbols[0].selectionRange).to.deep.equal({
+            start: { line: 0, character: 4 },
+            end: { line: 0, character: 5 }
+        });
+    });
+
+    it('should not report variables declared with a type character as unused', () => {
+        const text = ['Sub Run()', '    Dim s$ = "x"', '    Console.WriteLine(s)', 'End Sub'].join(
+            '\n'
+        );
+        const diagnostics = validateTextDocument(createDoc(text));
+        expect(diagnostics.map((d) => d.message)).to.not.include(
+            "Variable 's$' is declared but never used"
+        );
+        expect(diagnostics.filter((d) => /never used/.test(d.message))).to.be.empty;
+    });
+
+    it('should split field, ReadOnly and Const declarator lists', () => {
+        const text = `Class C
+    Private x, y As Integer
+    Public ReadOnly Name As String = "n", Age As Integer
+    Const A = 1, B = 2
+End Class`;
+        const children = parseDocumentSymbols(createDoc(text))[0].children!;
+        expect(children.map((c) => `${c.name}:${c.kind}`)).to.deep.equal([
+            `x:${SymbolKind.Field}`,
+            `y:${SymbolKind.Field}`,
+            `Name:${SymbolKind.Field}`,
+            `Age:${SymbolKind.Field}`,
+            `A:${SymbolKind.Constant}`,
+            `B:${SymbolKind.Constant}`
+        ]);
+        expect(children[3].detail).to.equal('ReadOnly Age As Integer');
+    });
+
+    it('should treat Static declarations in methods as locals', () => {
+        const text = 'Sub M()\n    Static count, total As Integer\nEnd Sub';
+        const children = parseDocumentSymbols(createDoc(text))[0].children!;
+        expect(children.map((c) => c.kind)).to.deep.equal([
+            SymbolKind.Variable,
+            SymbolKind.Variable
+        ]);
+        expect(children[1].detail).to.equal('Static total As Integer');
+    });
+
+    it('should report each unused declarator', () => {
+        const text = 'Sub M()\n    Dim used, unused As Integer\n    used = 1\nEnd Sub';
+        const diagnostics = validateTextDocument(createDoc(text));
+        const unused = diagnostics.filter((d) => d.message.includes('never used'));
+        expect(unused).to.have.lengthOf(1);
+        expect(unused[0].message).to.include("'unused'");
+        expect(unused[0].range.start.character).to.equal(14);
+    });
+
+    it('should not report As New types as undefined', () => {
+        const text = 'Class Person\nEnd Class\nSub M()\n    Dim p As New Person()\n    p = Nothing\nEnd Sub';
+        const diagnostics = validateTextDocument(createDoc(text));
+        expect(diagnostics.map((d) => d.message)).to.not.include("Type 'New' is not defined.");
+    });
+
+    it('should warn about untyped declarator lists', () => {
+        const diagnostics = validateTextDocument(createDoc('Dim a, b'));
+        expect(diagnostics.map((d) => d.message)).to.include(
+            'Variable declaration without type (As ...).'
+        );
+    });
+
+    it('should complete members of a variable declared with As New', () => {
+        const text = `Class Person
+    Public Name As String
+End Class
+Sub Main()
+    Dim first, second As New Person
+    second.
+End Sub`;
+        const items = onCompletion(
+            { textDocument: { uri: 'file:///test.vb' }, position: Position.create(5, 11) },
+            createDoc(text)
+        );
+        expect(items.map((i) => i.label)).to.include('Name');
+    });
+});
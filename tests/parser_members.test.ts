@@ -0,0 +1,130 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Position, SymbolKind } from 'vscode-languageserver/node';
+import { parseDocumentSymbols } from '../src/utils/parser';
+import { onCompletion } from '../src/features/completion';
+import { onHover } from '../src/features/hover';
+import { onDefinition } from '../src/features/definition';
+import { onSemanticTokens, tokenTypes } from '../src/features/semanticTokens';
+
+describe('Parser - Enum Members, Events, Delegates and Declare', () => {
+    const createDoc = (text: string) => TextDocument.create('file:///test.vb', 'vb', 1, text);
+
+    const enumText = `Enum Color
+    Red
+    Green = 5
+    Blue
+    Mask = &HFF
+    Other
+End Enum
+Sub Paint()
+    Dim c As Color = Color.Green
+    Color.
+End Sub`;
+
+    it('should emit enum members with explicit and implied values', () => {
+        const symbols = parseDocumentSymbols(createDoc(enumText));
+        const members = symbols[0].children!;
+        expect(members.map((m) => m.kind)).to.deep.equal(Array(5).fill(SymbolKind.EnumMember));
+        expect(members.map((m) => m.detail)).to.deep.equal([
+            'Red = 0',
+            'Green = 5',
+            'Blue = 6',
+            'Mask = &HFF',
+            'Other'
+        ]);
+        expect(members[1].selectionRange).to.deep.equal({
+            start: { line: 2, character: 4 },
+            end: { line: 2, character: 9 }
+        });
+    });
+
+    it('should emit events, delegates and Declare statements with signatures', () => {
+        const text = `Class Button
+    Public Event Clicked(sender As Object, count As Integer)
+    Public Event Changed As EventHandler
+    Public Delegate Function Compare(a As Integer, b As Integer) As Integer
+    Private Declare Auto Function GetTickCount Lib "kernel32" () As Integer
+    Declare Sub Sleep Lib "kernel32" Alias "Sleep" (ms As Integer)
+End Class`;
+        const children = parseDocumentSymbols(createDoc(text))[0].children!;
+        expect(children.map((c) => `${c.name}:${c.kind}`)).to.deep.equal([
+            `Clicked:${SymbolKind.Event}`,
+            `Changed:${SymbolKind.Event}`,
+            `Compare:${SymbolKind.Function}`,
+            `GetTickCount:${SymbolKind.Function}`,
+            `Sleep:${SymbolKind.Method}`
+        ]);
+        expect(children.map((c) => c.detail)).to.deep.equal([
+            'Event Clicked(sender As Object, count As Integer)',
+            'Event Changed As EventHandler',
+            'Delegate Function Compare(a As Integer, b As Integer) As Integer',
+            'Declare Function GetTickCount Lib "kernel32" () As Integer',
+            'Declare Sub Sleep Lib "kernel32" Alias "Sleep" (ms As Integer)'
+        ]);
+        expect(children[0].children!.map((c) => c.name)).to.deep.equal(['sender', 'count']);
+    });
+
+    it('should emit operators and custom events as containers', () => {
+        const text = `Structure Vector
+    Public Shared Operator +(a As Vector, b As Vector) As Vector
+        Dim result As Vector
+        Return result
+    End Operator
+    Public Custom Event Moved As EventHandler
+        AddHandler(value As EventHandler)
+        End AddHandler
+        RemoveHandler(value As EventHandler)
+        End RemoveHandler
+        RaiseEvent(sender As Object, e As EventArgs)
+        End RaiseEvent
+    End Event
+    Public X As Integer
+End Structure`;
+        const children = parseDocumentSymbols(createDoc(text))[0].children!;
+        expect(children.map((c) => `${c.name}:${c.kind}`)).to.deep.equal([
+            `+:${SymbolKind.Operator}`,
+            `Moved:${SymbolKind.Event}`,
+            `X:${SymbolKind.Field}`
+        ]);
+        expect(children[0].detail).to.equal('Operator +(a As Vector, b As Vector)');
+        expect(children[0].children!.map((c) => c.name)).to.deep.equal(['a', 'b', 'result']);
+        expect(children[1].range.end.line).to.equal(12);
+    });
+
+    it('should complete enum members after the enum name', () => {
+        const items = onCompletion(
+            { textDocument: { uri: 'file:///test.vb' }, position: Position.create(9, 10) },
+            createDoc(enumText)
+        );
+        expect(items.map((i) => i.label)).to.deep.equal(['Red', 'Green', 'Blue', 'Mask', 'Other']);
+    });
+
+    it('should provide hover and definition for qualified enum members', () => {
+        const document = createDoc(enumText);
+        const position = Position.create(8, 28);
+        const hover = onHover({ textDocument: { uri: document.uri }, position }, document);
+        expect((hover!.contents as { value: string }).value).to.equal(
+            '**Green** (EnumMember)\n\nGreen = 5'
+        );
+        const definition = onDefinition(
+            { textDocument: { uri: document.uri }, position },
+            document
+        );
+        expect(definition).to.deep.equal({
+            uri: document.uri,
+            range: { start: { line: 2, character: 4 }, end: { line: 2, character: 9 } }
+        });
+    });
+
+    it('should emit enumMember and event semantic tokens', () => {
+        const text = 'Enum E\n    A\nEnd Enum\nClass C\n    Event Done()\nEnd Class';
+        const document = createDoc(text);
+        const data = onSemanticTokens({ textDocument: { uri: document.uri } }, document).data;
+        const types: string[] = [];
+        for (let k = 3; k < data.length; k += 5) {
+            types.push(tokenTypes[data[k]]);
+        }
+        expect(types).to.deep.equal(['enum', 'enumMember', 'class', 'event']);
+    });
+});
@@ -0,0 +1,133 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CancellationTokenSource, WorkDoneProgressReporter } from 'vscode-languageserver/node';
+import { onReferences } from '../src/features/references';
+import { onWorkspaceSymbol } from '../src/features/workspaceSymbol';
+import { OperationCancelledError, RequestContext } from '../src/utils/progress';
+import { safeHandler } from '../src/utils/safeHandler';
+import { WorkspaceIndex } from '../src/utils/workspaceIndex';
+
+describe('Cancellation and Progress', () => {
+    const documents = ['A', 'B', 'C', 'D'].map((name) =>
+        TextDocument.create(
+            `file:///${name}.vb`,
+            'vb',
+            1,
+            `Module ${name}\n    Sub Run${name}()\n        Shared()\n    End Sub\nEnd Module`
+        )
+    );
+
+    const createReporter = (
+        events: string[],
+        onReport?: (message?: string) => void
+    ): WorkDoneProgressReporter => ({
+        begin: (title: string) => events.push(`begin ${title}`),
+        report: (percentage: number | string, message?: string) => {
+            events.push(`report ${percentage} ${message}`);
+            onReport?.(message);
+        },
+        done: () => events.push('done')
+    });
+    const findShared = (context: RequestContext) =>
+        onReferences(
+            {
+                textDocument: { uri: documents[0].uri },
+                position: { line: 2, character: 10 },
+                context: { includeDeclaration: true }
+            },
+            documents[0],
+            documents,
+            context
+        );
+    const expectCancelled = async (operation: Promise<unknown>) => {
+        try {
+            await operation;
+            expect.fail('expected the operation to be cancelled');
+        } catch (error) {
+            expect(error).to.be.instanceOf(OperationCancelledError);
+        }
+    };
+
+    it('should report the progress of references per document', async () => {
+        const events: string[] = [];
+        const locations = await findShared({ progress: createReporter(events) });
+        expect(locations).to.have.length(4);
+        expect(events).to.deep.equal([
+            "begin Finding references to 'Shared'",
+            'report 25 B.vb',
+            'report 50 C.vb',
+            'report 75 D.vb',
+            'done'
+        ]);
+    });
+
+    it('should abort cancelled operations', async () => {
+        const source = new CancellationTokenSource();
+        source.cancel();
+        const events: string[] = [];
+        await expectCancelled(
+            onWorkspaceSymbol({ query: 'Run' }, documents, { token: source.token })
+        );
+        await expectCancelled(
+            findShared({ token: source.token, progress: createReporter(events) })
+        );
+        expect(events).to.deep.equal(["begin Finding references to 'Shared'", 'done']);
+    });
+
+    it('should notice cancellations that arrive while other documents are searched', async () => {
+        const source = new CancellationTokenSource();
+        const events: string[] = [];
+        // Like a `$/cancelRequest`, which the connection reads in a later event loop turn
+        const progress = createReporter(events, (message) => {
+            if (message === 'C.vb') setImmediate(() => source.cancel());
+        });
+        await expectCancelled(findShared({ token: source.token, progress }));
+        expect(events).to.deep.equal([
+            "begin Finding references to 'Shared'",
+            'report 25 B.vb',
+            'report 50 C.vb',
+            'done'
+        ]);
+    });
+
+    it('should answer cancelled requests with the default value', async () => {
+        const source = new CancellationTokenSource();
+        let calls = 0;
+        const handler = safeHandler(
+            (_params: number, token): Promise<number> => {
+                calls++;
+                source.cancel();
+                return onWorkspaceSymbol({ query: '' }, documents, { token }).then((s) => s.length);
+            },
+            Promise.resolve(-1),
+            'Test'
+        );
+        expect(await handler(0, source.token)).to.equal(-1);
+        expect(await handler(0, source.token)).to.equal(-1);
+        expect(calls).to.equal(1);
+    });
+
+    it('should report the progress of workspace indexing', async () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'vb-progress-'));
+        try {
+            fs.writeFileSync(path.join(root, 'One.vb'), 'Module One\nEnd Module');
+            fs.writeFileSync(path.join(root, 'Two.vb'), 'Module Two\nEnd Module');
+            const events: string[] = [];
+            const index = new WorkspaceIndex();
+            await index.indexFolder(pathToFileURL(root).href, {
+                progress: createReporter(events)
+            });
+            expect(events).to.deep.equal([
+                `begin Indexing ${path.basename(root)}`,
+                'report 50 Two.vb',
+                'done'
+            ]);
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,247 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+    CodeActionKind,
+    CodeActionParams,
+    DiagnosticSeverity,
+    Range
+} from 'vscode-languageserver/node';
+import {
+    parseProjectFile,
+    parseSolutionFile,
+    clearProjects,
+    getProjects,
+    getProjectForDocument,
+    getCompilerOptions
+} from '../src/utils/project';
+import { WorkspaceIndex } from '../src/utils/workspaceIndex';
+import { validateTextDocument } from '../src/features/validation';
+import { onCodeAction } from '../src/features/codeAction';
+
+const SDK_PROJECT = `<Project Sdk="Microsoft.NET.Sdk">
+  <PropertyGroup>
+    <RootNamespace>Contoso.App</RootNamespace>
+    <OptionStrict>On</OptionStrict>
+    <OptionInfer>Off</OptionInfer>
+  </PropertyGroup>
+  <ItemGroup>
+    <Import Include="System.Text.RegularExpressions" />
+    <Import Remove="System.Diagnostics" />
+    <Compile Remove="Legacy\\**" />
+    <ProjectReference Include="..\\Lib\\Lib.vbproj" />
+  </ItemGroup>
+</Project>`;
+
+const LEGACY_PROJECT = `<?xml version="1.0" encoding="utf-8"?>
+<Project ToolsVersion="15.0" xmlns="http://schemas.microsoft.com/developer/msbuild/2003">
+  <PropertyGroup>
+    <RootNamespace>Contoso.Data</RootNamespace>
+    <OptionExplicit>Off</OptionExplicit>
+    <OptionCompare>Text</OptionCompare>
+  </PropertyGroup>
+  <ItemGroup>
+    <Import Include="System.IO" />
+    <!-- <Import Include="System.Text" /> -->
+  </ItemGroup>
+  <ItemGroup>
+    <Compile Include="Helpers.vb" />
+    <Compile Include="Models\\*.vb" />
+  </ItemGroup>
+</Project>`;
+
+describe('Project Files', () => {
+    describe('parsing', () => {
+        it('should read SDK-style projects', () => {
+            const project = parseProjectFile(SDK_PROJECT, path.resolve('/src/App/App.vbproj'));
+            expect(project.name).to.equal('App');
+            expect(project.rootNamespace).to.equal('Contoso.App');
+            expect(project.imports).to.include('System.Collections.Generic');
+            expect(project.imports).to.include('System.Text.RegularExpressions');
+            expect(project.imports).to.not.include('System.Diagnostics');
+            expect(project.defaultCompileItems).to.be.true;
+            expect(project.removedItems).to.deep.equal(['Legacy/**']);
+            expect(project.references).to.deep.equal([path.resolve('/src/Lib/Lib.vbproj')]);
+            expect(project.options).to.deep.equal({
+                explicit: undefined,
+                strict: true,
+                infer: false,
+                compareText: undefined
+            });
+        });
+
+        it('should read legacy projects with explicit compile items', () => {
+            const project = parseProjectFile(LEGACY_PROJECT, path.resolve('/src/Lib/Lib.vbproj'));
+            expect(project.imports).to.deep.equal(['System.IO']);
+            expect(project.compileItems).to.deep.equal(['Helpers.vb', 'Models/*.vb']);
+            expect(project.defaultCompileItems).to.be.false;
+            expect(project.options.explicit).to.be.false;
+            expect(project.options.compareText).to.be.true;
+        });
+
+        it('should list the Visual Basic projects of a solution', () => {
+            const solution = [
+                'Microsoft Visual Studio Solution File, Format Version 12.00',
+                'Project("{778DAE3C-4631-46EA-AA77-85C1314464D9}") = "App", "App\\App.vbproj", "{1}"',
+                'EndProject',
+                'Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "Tools", "Tools\\Tools.csproj", "{2}"',
+                'EndProject',
+                'Project("{2150E333-8FDC-42A3-9474-1A3956D46DE8}") = "Docs", "Docs", "{3}"',
+                'EndProject'
+            ].join('\r\n');
+            const solutionPath = path.resolve('/src/All.sln');
+            expect(parseSolutionFile(solution, solutionPath)).to.deep.equal([
+                path.resolve('/src/App/App.vbproj')
+            ]);
+        });
+    });
+
+    describe('workspace', () => {
+        let root: string;
+        const uriOf = (...parts: string[]) => pathToFileURL(path.join(root, ...parts)).href;
+        const write = (relative: string, text: string) => {
+            const filePath = path.join(root, relative);
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, text);
+        };
+        const open = (relative: string, text: string) =>
+            TextDocument.create(uriOf(relative), 'vb', 1, text);
+
+        beforeEach(async () => {
+            root = fs.mkdtempSync(path.join(os.tmpdir(), 'vb-project-'));
+            write(path.join('App', 'App.vbproj'), SDK_PROJECT);
+            write(path.join('App', 'Program.vb'), 'Module Program\nEnd Module');
+            write(path.join('App', 'Legacy', 'Old.vb'), 'Module Old\nEnd Module');
+            write(path.join('Lib', 'Lib.vbproj'), LEGACY_PROJECT);
+            write(path.join('Lib', 'Helpers.vb'), 'Public Class Helper\nEnd Class');
+            write(path.join('Lib', 'Models', 'Customer.vb'), 'Public Class Customer\nEnd Class');
+            write(path.join('Lib', 'Scratch.vb'), 'Public Class Scratch\nEnd Class');
+            await new WorkspaceIndex().indexFolder(pathToFileURL(root).href);
+        });
+
+        afterEach(() => {
+            clearProjects();
+            fs.rmSync(root, { recursive: true, force: true });
+        });
+
+        it('should assign files to the projects that compile them', () => {
+            expect(getProjects().map((p) => p.name)).to.have.members(['App', 'Lib']);
+            expect(getProjectForDocument(uriOf('App', 'Program.vb'))!.name).to.equal('App');
+            expect(getProjectForDocument(uriOf('App', 'Legacy', 'Old.vb'))).to.be.undefined;
+            expect(getProjectForDocument(uriOf('Lib', 'Models', 'Customer.vb'))!.name).to.equal(
+                'Lib'
+            );
+            expect(getProjectForDocument(uriOf('Lib', 'Scratch.vb'))).to.be.undefined;
+        });
+
+        it('should combine project and file options', () => {
+            const program = open(
+                path.join('App', 'Program.vb'),
+                'Option Infer On\nModule M\nEnd Module'
+            );
+            expect(getCompilerOptions(program)).to.deep.equal({
+                explicit: true,
+                strict: true,
+                infer: true,
+                compareText: false
+            });
+            const helper = open(path.join('Lib', 'Helpers.vb'), 'Option Compare Binary');
+            expect(getCompilerOptions(helper)).to.deep.equal({
+                explicit: false,
+                strict: false,
+                infer: true,
+                compareText: false
+            });
+        });
+
+        it('should resolve types through project imports and the root namespace', () => {
+            const text = [
+                'Module Program',
+                '    Sub Main()',
+                '        Dim items As List(Of String)',
+                '        Dim pattern As Regex',
+                '        Dim reader As StreamReader',
+                '        Dim client As Contoso.Data.Customer',
+                '        Dim self As Contoso.App.Program',
+                '    End Sub',
+                'End Module'
+            ].join('\n');
+            const program = open(path.join('App', 'Program.vb'), text);
+            const customer = open(
+                path.join('Lib', 'Models', 'Customer.vb'),
+                'Public Class Customer\nEnd Class'
+            );
+            const messages = validateTextDocument(program, [program, customer])
+                .map((d) => d.message)
+                .filter((m) => m.startsWith('Type '));
+            expect(messages).to.deep.equal(["Type 'StreamReader' is not defined."]);
+        });
+
+        it('should only see declarations of the own and referenced projects', () => {
+            const scratch = open(path.join('Lib', 'Scratch.vb'), 'Public Class Helper\nEnd Class');
+            const helpers = open(path.join('Lib', 'Helpers.vb'), 'Public Class Helper\nEnd Class');
+            const messages = validateTextDocument(helpers, [helpers, scratch]).map(
+                (d) => d.message
+            );
+            expect(messages).to.be.empty;
+
+            const program = open(
+                path.join('App', 'Program.vb'),
+                'Class Scratch\n    Dim s As Scratch\nEnd Class'
+            );
+            const diagnostics = validateTextDocument(program, [program, scratch]);
+            expect(diagnostics.map((d) => d.message)).to.be.empty;
+        });
+
+        it('should apply Option Strict from the project', () => {
+            const text =
+                'Module Program\n    Sub Main()\n        Dim a\n        Dim b = 1\n    End Sub\nEnd Module';
+            const program = open(path.join('App', 'Program.vb'), text);
+            const diagnostics = validateTextDocument(program).filter(
+                (d) => !d.message.includes('never used')
+            );
+            expect(diagnostics.map((d) => [d.range.start.line, d.severity])).to.deep.equal([
+                [2, DiagnosticSeverity.Error],
+                [3, DiagnosticSeverity.Error]
+            ]);
+
+            const inferred = open(path.join('App', 'Program.vb'), 'Option Infer On\n' + text);
+            const messages = validateTextDocument(inferred).map((d) => d.message);
+            expect(messages).to.not.include(
+                "Option Strict On requires all variable declarations to have an 'As' clause."
+            );
+        });
+
+        it('should not offer to import namespaces the project imports', () => {
+            const document = open(path.join('App', 'Program.vb'), 'Dim x As Regex');
+            const diagnostic = {
+                range: Range.create(0, 0, 0, 14),
+                message: "Type 'Regex' is not defined.",
+                code: 'VB0006',
+                data: { typeName: 'Regex' },
+                severity: DiagnosticSeverity.Warning
+            };
+            const params: CodeActionParams = {
+                textDocument: { uri: document.uri },
+                range: diagnostic.range,
+                context: { diagnostics: [diagnostic] }
+            };
+            const fixes = onCodeAction(params, document).filter(
+                (a) =>
+                    'kind' in a &&
+                    a.kind === CodeActionKind.QuickFix &&
+                    !a.title.startsWith('Suppress ')
+            );
+            expect(fixes).to.be.empty;
+
+            const other = open(path.join('Lib', 'Helpers.vb'), 'Dim x As Regex');
+            const titles = onCodeAction({ ...params, textDocument: { uri: other.uri } }, other).map(
+                (a) => a.title
+            );
+            expect(titles).to.include("Import 'System.Text.RegularExpressions'");
+        });
+    });
+});
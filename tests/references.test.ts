@@ -4,7 +4,7 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 import { ReferenceParams, Position } from 'vscode-languageserver/node';
 
 describe('References Feature', () => {
-    it('should find all references of a variable', () => {
+    it('should find all references of a variable', async () => {
         const text = `
 Sub Main()
     Dim x As Integer
@@ -21,7 +21,7 @@ End Sub
             context: { includeDeclaration: true }
         };
 
-        const references = onReferences(params, document);
+        const references = await onReferences(params, document);
 
         // Should find 3 occurrences of 'x': Dim x, x = 10, Print(x)
         expect(references).to.have.lengthOf(3);
@@ -38,7 +38,7 @@ End Sub
         expect(references[2].range.start.line).to.equal(4);
     });
 
-    it('should be case insensitive', () => {
+    it('should be case insensitive', async () => {
          const text = `
 Dim myVar As Integer
 MYVAR = 5
@@ -52,11 +52,11 @@ MYVAR = 5
             context: { includeDeclaration: true }
         };
 
-        const references = onReferences(params, document);
+        const references = await onReferences(params, document);
         expect(references).to.have.lengthOf(2);
     });
 
-    it('should ignore substrings in other words (word boundary check)', () => {
+    it('should ignore substrings in other words (word boundary check)', async () => {
         const text = `
 Dim x As Integer
 Dim xy As Integer
@@ -72,12 +72,12 @@ xy = 2
             context: { includeDeclaration: true }
         };
 
-        const references = onReferences(params, document);
+        const references = await onReferences(params, document);
         // Should find "Dim x" and "x = 1". Should NOT find "xy"
         expect(references).to.have.lengthOf(2);
     });
 
-    it('should ignore comments if possible', () => {
+    it('should ignore comments if possible', async () => {
          const text = `
 Dim x As Integer
 ' This is x in a comment
@@ -92,13 +92,13 @@ x = 1
             context: { includeDeclaration: true }
         };
 
-        const references = onReferences(params, document);
+        const references = await onReferences(params, document);
         // Should find "Dim x" and "x = 1".
         // The implementation tries to ignore comments.
         expect(references).to.have.lengthOf(2);
     });
 
-    it('should respect scope (local variables)', () => {
+    it('should respect scope (local variables)', async () => {
         const text = `
 Sub A()
     Dim x As Integer
@@ -124,7 +124,7 @@ End Sub
             context: { includeDeclaration: true }
         };
 
-        const references = onReferences(params, document);
+        const references = await onReferences(params, document);
 
         // Should find 'Dim x' (line 2) and 'x = 1' (line 3) in Sub A.
         // Should NOT find 'Dim x' (line 7) or 'x = 2' (line 8) in Sub B.
@@ -133,7 +133,7 @@ End Sub
         expect(references[1].range.start.line).to.equal(3);
     });
 
-    it('should find references across multiple documents', () => {
+    it('should find references across multiple documents', async () => {
         const text1 = `
 Public Class SharedData
 End Class
@@ -155,7 +155,7 @@ End Sub
             context: { includeDeclaration: true }
         };
 
-        const references = onReferences(params, doc2, [doc1, doc2]);
+        const references = await onReferences(params, doc2, [doc1, doc2]);
 
         // Should find:
         // 1. Definition in file1 (Public Class SharedData)
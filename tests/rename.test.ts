@@ -5,7 +5,7 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 import { RenameParams, Position } from 'vscode-languageserver/node';
 
 describe('Rename Feature', () => {
-    it('should rename all occurrences', () => {
+    it('should rename all occurrences', async () => {
         const text = `
 Sub Main()
     Dim oldName As Integer
@@ -21,7 +21,7 @@ End Sub
             newName: 'newName'
         };
 
-        const workspaceEdit = onRenameRequest(params, document);
+        const workspaceEdit = await onRenameRequest(params, document);
 
         expect(workspaceEdit).to.not.be.null;
         expect(workspaceEdit!.changes).to.have.property('file:///test.vb');
@@ -32,7 +32,7 @@ End Sub
         expect(edits[1].newText).to.equal('newName');
     });
 
-    it('should return null if symbol not found', () => {
+    it('should return null if symbol not found', async () => {
          const text = `
 Sub Main()
 End Sub
@@ -46,7 +46,7 @@ End Sub
             newName: 'newName'
         };
 
-        const workspaceEdit = onRenameRequest(params, document);
+        const workspaceEdit = await onRenameRequest(params, document);
         expect(workspaceEdit).to.be.null; // Logic returns null if no references found
     });
 });
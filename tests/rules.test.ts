@@ -0,0 +1,119 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CodeActionParams, Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { pathToFileURL } from 'url';
+import { ALL_RULES, Rules, getRule, getRuleDocumentationUri } from '../src/rules';
+import { validateTextDocument } from '../src/features/validation';
+import { onCodeAction } from '../src/features/codeAction';
+
+describe('Rules', () => {
+    const validate = (text: string) =>
+        validateTextDocument(TextDocument.create('file:///rules.vb', 'vb', 1, text));
+    const fixesFor = (document: TextDocument, diagnostic: Diagnostic) => {
+        const params: CodeActionParams = {
+            textDocument: { uri: document.uri },
+            range: diagnostic.range,
+            context: { diagnostics: [diagnostic] }
+        };
+        return onCodeAction(params, document).map((a) => a.title);
+    };
+
+    it('should have unique IDs and names', () => {
+        const ids = ALL_RULES.map((r) => r.id);
+        const names = ALL_RULES.map((r) => r.name);
+        expect(new Set(ids).size).to.equal(ids.length);
+        expect(new Set(names).size).to.equal(names.length);
+        for (const rule of ALL_RULES) {
+            expect(rule.id).to.match(/^VB\d{4}$/);
+            expect(rule.name).to.match(/^[a-z]+(?:-[a-z]+)*$/);
+        }
+    });
+
+    it('should link to the rules guide of the package', () => {
+        const guide = pathToFileURL(path.join(__dirname, '..', 'guides', 'rules.md')).href;
+        expect(getRuleDocumentationUri(Rules.MissingThen)).to.equal(`${guide}#vb0001`);
+    });
+
+    it('should document every rule in the rules guide', () => {
+        const guide = fs.readFileSync(path.join(__dirname, '..', 'guides', 'rules.md'), 'utf8');
+        for (const rule of ALL_RULES) {
+            expect(guide).to.contain(`### ${rule.id}\n`);
+            expect(guide).to.contain(`\`${rule.name}\``);
+        }
+    });
+
+    it('should find rules by ID or name', () => {
+        expect(getRule('vb0001')).to.equal(Rules.MissingThen);
+        expect(getRule('magic-number')).to.equal(Rules.MagicNumber);
+        expect(getRule('VB9999')).to.be.undefined;
+    });
+
+    it('should report every diagnostic with a registered code and a documentation link', () => {
+        const text = [
+            'Module M',
+            '    Sub Main()',
+            '        Dim x',
+            '        If x = 2',
+            '        End If',
+            '        Return 1',
+            '    End Sub',
+            '    Function F()',
+            '    End Function',
+            '    Sub Main()',
+            '    End Sub',
+            "    ' TODO: clean up",
+            '    Const C As Integer',
+            'End Class'
+        ].join('\n');
+        const diagnostics = validate(text);
+        expect(diagnostics.length).to.be.greaterThan(5);
+        for (const diagnostic of diagnostics) {
+            const rule = getRule(diagnostic.code as string);
+            expect(rule, diagnostic.message).to.exist;
+            expect(diagnostic.source).to.equal('SimpleVB');
+            expect(diagnostic.codeDescription!.href).to.match(
+                new RegExp(`^file:.*rules\\.md#${rule!.id.toLowerCase()}$`)
+            );
+        }
+        const codes = diagnostics.map((d) => d.code);
+        expect(codes).to.include.members([
+            Rules.UntypedVariable.id,
+            Rules.MissingThen.id,
+            Rules.ReturnValueInSub.id,
+            Rules.MissingReturnType.id,
+            Rules.DuplicateDeclaration.id,
+            Rules.TaskComment.id,
+            Rules.ConstWithoutValue.id,
+            Rules.MismatchedBlock.id
+        ]);
+    });
+
+    it('should keep the Option Strict severity override on the rule', () => {
+        const diagnostic = validate('Option Strict On\nDim x').find(
+            (d) => d.code === Rules.UntypedVariable.id
+        )!;
+        expect(diagnostic.severity).to.equal(DiagnosticSeverity.Error);
+        expect(Rules.UntypedVariable.severity).to.equal(DiagnosticSeverity.Warning);
+    });
+
+    it('should match quick fixes by code, not by message', () => {
+        const document = TextDocument.create('file:///rules.vb', 'vb', 1, 'If x = 1');
+        const diagnostic = validate(document.getText()).find(
+            (d) => d.code === Rules.MissingThen.id
+        )!;
+        expect(fixesFor(document, { ...diagnostic, message: 'Reworded message' })).to.include(
+            "Add 'Then'"
+        );
+        expect(fixesFor(document, { ...diagnostic, code: undefined })).to.not.include("Add 'Then'");
+    });
+
+    it('should offer to close the open block of a mismatched closing statement', () => {
+        const text = 'Sub Main()\n    For i = 1 To 2\n        x = i\nEnd Sub';
+        const document = TextDocument.create('file:///rules.vb', 'vb', 1, text);
+        const diagnostic = validate(text).find((d) => d.code === Rules.MismatchedBlock.id)!;
+        expect(diagnostic.data).to.deep.equal({ blockType: 'For' });
+        expect(fixesFor(document, diagnostic)).to.include("Add 'Next'");
+    });
+});
@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Connection, PublishDiagnosticsParams } from 'vscode-languageserver/node';
+import { ValidationScheduler } from '../src/utils/scheduler';
+import { DEFAULT_SETTINGS } from '../src/utils/settings';
+
+describe('Validation Scheduler', () => {
+    const uri = 'file:///test.vb';
+    const text = 'Module Main\nEnd Module';
+    const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    let published: PublishDiagnosticsParams[];
+    let openDocument: TextDocument | undefined;
+    let releaseSettings: () => void;
+    let scheduler: ValidationScheduler;
+
+    beforeEach(() => {
+        published = [];
+        openDocument = undefined;
+        // Settings are held back until released, as if the client were slow to answer
+        const settings = new Promise<void>((resolve) => (releaseSettings = resolve));
+        scheduler = new ValidationScheduler(
+            {
+                sendDiagnostics: (params: PublishDiagnosticsParams) => published.push(params)
+            } as unknown as Connection,
+            () => (openDocument ? [openDocument] : []),
+            () => settings.then(() => DEFAULT_SETTINGS),
+            (documentUri) => (openDocument?.uri === documentUri ? openDocument : undefined)
+        );
+    });
+
+    it('should publish the diagnostics of the open version', async () => {
+        openDocument = TextDocument.create(uri, 'vb', 1, text);
+        scheduler.scheduleValidation(openDocument);
+        await wait(250);
+        releaseSettings();
+        await wait(50);
+        expect(published.map((p) => p.uri)).to.deep.equal([uri]);
+    });
+
+    it('should not publish diagnostics of documents edited or closed during validation', async () => {
+        const first = TextDocument.create(uri, 'vb', 1, text);
+        openDocument = first;
+        scheduler.scheduleValidation(first);
+        await wait(250);
+        openDocument = TextDocument.create(uri, 'vb', 2, `${text}\n`);
+        releaseSettings();
+        await wait(50);
+        expect(published).to.be.empty;
+
+        openDocument = undefined;
+        scheduler.scheduleValidation(first);
+        await wait(250);
+        expect(published).to.be.empty;
+    });
+
+    it('should keep the timer of a newer validation when an older one finishes', async () => {
+        openDocument = TextDocument.create(uri, 'vb', 1, text);
+        scheduler.scheduleValidation(openDocument);
+        await wait(250);
+        // The first validation waits for the settings while the document changes
+        openDocument = TextDocument.create(uri, 'vb', 2, `${text}\n`);
+        scheduler.scheduleValidation(openDocument);
+        releaseSettings();
+        await wait(50);
+        // Closing the document still cancels the pending validation of the new version
+        scheduler.clear(openDocument);
+        await wait(250);
+        expect(published).to.be.empty;
+    });
+});
@@ -0,0 +1,173 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Connection, DiagnosticSeverity } from 'vscode-languageserver/node';
+import {
+    DEFAULT_SETTINGS,
+    SettingsManager,
+    VbSettings,
+    matchesNamingStyle,
+    normalizeSettings
+} from '../src/utils/settings';
+import { validateTextDocument } from '../src/features/validation';
+import { Rules } from '../src/rules';
+
+describe('Settings', () => {
+    const validate = (text: string, raw: unknown) =>
+        validateTextDocument(
+            TextDocument.create('file:///settings.vb', 'vb', 1, text),
+            undefined,
+            normalizeSettings(raw)
+        );
+
+    it('should fill in defaults and ignore invalid values', () => {
+        expect(normalizeSettings(undefined)).to.deep.equal(DEFAULT_SETTINGS);
+        const settings = normalizeSettings({
+            diagnostics: {
+                maxLineLength: -5,
+                allowedNumbers: [0, 1, 100],
+                rules: {
+                    'magic-number': 'off',
+                    vb0001: 'warning',
+                    VB9999: 'error',
+                    VB0002: 'loud'
+                },
+                naming: { method: 'PascalCase', field: 'snake_case' },
+                unusedParameters: 'public'
+            }
+        });
+        expect(settings.diagnostics.maxLineLength).to.equal(120);
+        expect(settings.diagnostics.allowedNumbers).to.deep.equal([0, 1, 100]);
+        expect(settings.diagnostics.rules).to.deep.equal({ VB0402: 'off', VB0001: 'warning' });
+        expect(settings.diagnostics.naming.method).to.equal('PascalCase');
+        expect(settings.diagnostics.naming.field).to.equal('any');
+        expect(settings.diagnostics.unusedParameters).to.equal('all');
+        expect(
+            normalizeSettings({ diagnostics: { unusedParameters: 'nonPublic' } }).diagnostics
+                .unusedParameters
+        ).to.equal('nonPublic');
+        expect(normalizeSettings({ format: { keywordCasing: 'upper' } }).format).to.deep.equal({
+            keywordCasing: 'upper'
+        });
+        expect(settings.format.keywordCasing).to.equal('pascal');
+        expect(
+            normalizeSettings({ format: { keywordCasing: 'camel' } }).format.keywordCasing
+        ).to.equal('pascal');
+    });
+
+    it('should apply rule levels', () => {
+        const text = 'If x = 1\nEnd If\nx = 42';
+        const defaults = validate(text, undefined);
+        expect(defaults.map((d) => d.code)).to.include(Rules.MagicNumber.id);
+
+        const diagnostics = validate(text, {
+            diagnostics: { rules: { 'magic-number': 'off', 'missing-then': 'hint' } }
+        });
+        expect(diagnostics.map((d) => d.code)).to.not.include(Rules.MagicNumber.id);
+        const missingThen = diagnostics.find((d) => d.code === Rules.MissingThen.id)!;
+        expect(missingThen.severity).to.equal(DiagnosticSeverity.Hint);
+    });
+
+    it('should use the configured line length and allowed numbers', () => {
+        const text = `x = 42 ' ${'-'.repeat(60)}`;
+        const messages = (raw: unknown) => validate(text, raw).map((d) => d.message);
+        expect(messages(undefined).some((m) => m.startsWith('Line is too long'))).to.be.false;
+        expect(messages({ diagnostics: { maxLineLength: 40 } })).to.include(
+            'Line is too long (69 > 40 characters).'
+        );
+        expect(
+            messages({ diagnostics: { maxLineLength: 0, allowedNumbers: [42] } }).filter(
+                (m) => m.startsWith('Line is too long') || m.startsWith('Avoid magic numbers')
+            )
+        ).to.be.empty;
+    });
+
+    it('should check naming conventions per symbol kind', () => {
+        const text = [
+            'Class customer',
+            '    Private Count As Integer',
+            '    Const maxSize As Integer = 10',
+            '    Sub doWork(Value As Integer)',
+            '        Dim Total As Integer = Value',
+            '        Count = Total',
+            '    End Sub',
+            'End Class'
+        ].join('\n');
+        const naming = (raw: unknown) =>
+            validate(text, raw)
+                .filter((d) => d.code === Rules.NamingConvention.id)
+                .map((d) => d.message);
+        expect(naming(undefined)).to.deep.equal([
+            'Parameters should be camelCase (start with lowercase).',
+            'Local variables should be camelCase (start with lowercase).'
+        ]);
+        expect(
+            naming({
+                diagnostics: {
+                    naming: {
+                        localVariable: 'any',
+                        parameter: 'any',
+                        field: 'camelCase',
+                        constant: 'UPPER_CASE',
+                        method: 'PascalCase',
+                        type: 'PascalCase'
+                    }
+                }
+            })
+        ).to.have.members([
+            'Types should be PascalCase (start with uppercase).',
+            'Fields should be camelCase (start with lowercase).',
+            'Constants should be UPPER_CASE (use uppercase letters).',
+            'Methods should be PascalCase (start with uppercase).'
+        ]);
+    });
+
+    it('should ignore leading underscores in names', () => {
+        expect(matchesNamingStyle('_count', 'camelCase')).to.be.true;
+        expect(matchesNamingStyle('_Count', 'camelCase')).to.be.false;
+        expect(matchesNamingStyle('MAX_SIZE', 'UPPER_CASE')).to.be.true;
+        expect(matchesNamingStyle('anything', 'any')).to.be.true;
+    });
+
+    describe('SettingsManager', () => {
+        let requests: string[];
+        let configuration: unknown;
+        const connection = {
+            workspace: {
+                getConfiguration: (item: { scopeUri: string; section: string }) => {
+                    requests.push(`${item.section}@${item.scopeUri}`);
+                    return Promise.resolve(configuration);
+                }
+            }
+        } as unknown as Connection;
+
+        beforeEach(() => {
+            requests = [];
+            configuration = { diagnostics: { maxLineLength: 80 } };
+        });
+
+        it('should request and cache the settings of each document', async () => {
+            const manager = new SettingsManager(connection);
+            manager.setConfigurationCapability(true);
+            const settings: VbSettings = await manager.getSettings('file:///a.vb');
+            expect(settings.diagnostics.maxLineLength).to.equal(80);
+            await manager.getSettings('file:///a.vb');
+            expect(requests).to.deep.equal(['simpleVB@file:///a.vb']);
+
+            configuration = { diagnostics: { maxLineLength: 100 } };
+            manager.onConfigurationChanged(null);
+            expect((await manager.getSettings('file:///a.vb')).diagnostics.maxLineLength).to.equal(
+                100
+            );
+            expect(requests).to.have.lengthOf(2);
+        });
+
+        it('should use pushed settings without the configuration capability', async () => {
+            const manager = new SettingsManager(connection);
+            expect(await manager.getSettings('file:///a.vb')).to.equal(DEFAULT_SETTINGS);
+            manager.onConfigurationChanged({ simpleVB: { diagnostics: { maxLineLength: 90 } } });
+            const settings = await manager.getSettings('file:///a.vb');
+            expect(settings.diagnostics.maxLineLength).to.equal(90);
+            expect(requests).to.be.empty;
+        });
+    });
+});
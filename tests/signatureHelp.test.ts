@@ -54,6 +54,21 @@ describe('Signature Help Feature', () => {
         expect(help!.activeParameter).to.equal(1); // Second parameter
     });
 
+    it('should not set an active parameter for arguments without a parameter', () => {
+        const content = ['Sub MySub(x As Integer, y As String)', 'End Sub', ''].join('\n');
+        for (const call of ['MySub(1, "a", ', 'MySub(z:=']) {
+            const document = TextDocument.create('file:///test.vb', 'vb', 1, content + call);
+            const help = onSignatureHelp({
+                textDocument: { uri: document.uri },
+                position: Position.create(2, call.length)
+            }, document);
+
+            expect(help).to.not.be.null;
+            expect(help!.activeParameter, call).to.be.undefined;
+            expect(help!.signatures[0]).to.not.have.property('activeParameter');
+        }
+    });
+
     it('should return null if not in a function call', () => {
         const content = `
         Sub MySub(x As Integer)
@@ -90,4 +105,74 @@ describe('Signature Help Feature', () => {
         expect(help).to.not.be.null;
         expect(help!.signatures[0].label).to.contain('GlobalSub');
     });
+
+    describe('Overloads', () => {
+        const text = [
+            'Class Person',
+            '    Public Sub New()',
+            '    End Sub',
+            '    Public Sub New(name As String, Optional age As Integer = 0)',
+            '    End Sub',
+            '    Public Overloads Function Add(a As Integer, b As Integer) As Integer',
+            '    End Function',
+            '    Public Overloads Function Add(a As String, b As String) As String',
+            '    End Function',
+            '    Public Function Sum(ParamArray values() As Integer) As Integer',
+            '    End Function',
+            'End Class',
+            'Module Main',
+            '    Sub Run()',
+            '        Dim p As New Person()',
+            '        Dim x = New Person(',
+            '        p.Add(1, ',
+            '        p.Add("a", ',
+            '        p.Add(b:=',
+            '        p.Sum(1, 2, ',
+            '        Mid(',
+            '    End Sub',
+            'End Module'
+        ].join('\n');
+        const document = TextDocument.create('file:///overloads.vb', 'vb', 1, text);
+        const help = (line: number) => {
+            const position = Position.create(line, document.getText().split('\n')[line].length);
+            const result = onSignatureHelp(
+                { textDocument: { uri: document.uri }, position },
+                document
+            );
+            expect(result).to.not.be.null;
+            return result!;
+        };
+
+        it('should list all overloads of a constructor', () => {
+            const result = help(15);
+            expect(result.signatures.map((s) => s.label)).to.deep.equal([
+                'New()',
+                'New(name As String, Optional age As Integer = 0)'
+            ]);
+        });
+
+        it('should select the overload matching the argument types', () => {
+            const numbers = help(16);
+            expect(numbers.signatures).to.have.lengthOf(2);
+            expect(numbers.activeSignature).to.equal(0);
+            expect(numbers.activeParameter).to.equal(1);
+
+            const strings = help(17);
+            expect(strings.activeSignature).to.equal(1);
+            expect(strings.signatures[1].label).to.equal('Add(a As String, b As String)');
+        });
+
+        it('should map named arguments and ParamArray to their parameter', () => {
+            expect(help(18).activeParameter).to.equal(1);
+            const sum = help(19);
+            expect(sum.signatures[0].label).to.equal('Sum(ParamArray values() As Integer)');
+            expect(sum.activeParameter).to.equal(0);
+        });
+
+        it('should describe built-in functions', () => {
+            const result = help(20);
+            expect(result.signatures[0].label).to.equal('Mid(str, start, [length]) As String');
+            expect(result.signatures[0].parameters).to.have.lengthOf(3);
+        });
+    });
 });
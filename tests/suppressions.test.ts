@@ -0,0 +1,147 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DiagnosticTag } from 'vscode-languageserver/node';
+import { parseSuppressions } from '../src/utils/suppressions';
+import { validateTextDocument } from '../src/features/validation';
+import { normalizeSettings } from '../src/utils/settings';
+import { Rules } from '../src/rules';
+import { applyCodeAction, createDocument } from './helpers';
+
+describe('Suppressions', () => {
+    const create = (lines: string[]) => createDocument(lines, 'file:///suppressions.vb');
+    const codesByLine = (document: TextDocument, settings?: unknown) =>
+        validateTextDocument(document, undefined, normalizeSettings(settings)).map(
+            (d) => `${d.range.start.line}:${d.code}`
+        );
+
+    it('should parse suppression comments', () => {
+        const document = create([
+            "' vblint-disable-next-line VB0402, line-too-long -- reason, VB0001",
+            'x = 1 REM vblint-disable-line',
+            "' vblint-disabled VB0402",
+            "' a comment about vblint-disable"
+        ]);
+        const suppressions = parseSuppressions(document);
+        expect(suppressions.map((s) => s.kind)).to.deep.equal([
+            'disable-next-line',
+            'disable-line'
+        ]);
+        expect(suppressions[0].rules.map((r) => [r.name, r.rule])).to.deep.equal([
+            ['VB0402', Rules.MagicNumber],
+            ['line-too-long', Rules.LineTooLong]
+        ]);
+        expect(suppressions[0].rules[1].range).to.deep.equal({
+            start: { line: 0, character: 35 },
+            end: { line: 0, character: 48 }
+        });
+        expect(suppressions[1].rules).to.be.empty;
+        expect(suppressions[1].range.start.character).to.equal(6);
+    });
+
+    it('should suppress diagnostics on the next line and the same line', () => {
+        const lines = [
+            'Sub Main(x As Integer, y As Integer)',
+            '    x = 42',
+            '    y = 43',
+            'End Sub'
+        ];
+        expect(codesByLine(create(lines))).to.deep.equal(['1:VB0402', '2:VB0402']);
+
+        const suppressed = [
+            'Sub Main(x As Integer, y As Integer)',
+            "    ' vblint-disable-next-line magic-number",
+            '    x = 42',
+            "    y = 43 ' vblint-disable-line VB0402",
+            'End Sub'
+        ];
+        expect(codesByLine(create(suppressed))).to.be.empty;
+    });
+
+    it('should suppress diagnostics between disable and enable comments', () => {
+        const document = create([
+            "' vblint-disable VB0402",
+            'x = 42',
+            "' vblint-disable",
+            'If x = 2',
+            "' vblint-enable",
+            'End If',
+            'x = 43'
+        ]);
+        expect(codesByLine(document)).to.deep.equal(['6:VB0402']);
+    });
+
+    it('should suppress diagnostics in the whole file', () => {
+        const document = create([
+            "' vblint-disable-file VB0402",
+            'x = 42',
+            'If x = 2',
+            '    x = 3',
+            'End If'
+        ]);
+        expect(codesByLine(document)).to.deep.equal([`2:${Rules.MissingThen.id}`]);
+    });
+
+    it('should report unused suppressions and unknown rules', () => {
+        const document = create([
+            "' vblint-disable-next-line VB0402, VB0403, VB9999",
+            'x = 42',
+            "' vblint-disable-line",
+            'x = 1'
+        ]);
+        const diagnostics = validateTextDocument(document).filter(
+            (d) => d.code === Rules.UnusedSuppression.id
+        );
+        expect(diagnostics.map((d) => d.message)).to.have.members([
+            "Unknown rule 'VB9999' in suppression comment.",
+            "Unused suppression of 'VB0403'.",
+            'Unused suppression comment.'
+        ]);
+        expect(diagnostics[0].tags).to.deep.equal([DiagnosticTag.Unnecessary]);
+
+        // Suppressions of rules turned off in the settings still count as used
+        expect(
+            codesByLine(create(["' vblint-disable-next-line VB0402", 'x = 42']), {
+                diagnostics: { rules: { VB0402: 'off' } }
+            })
+        ).to.be.empty;
+    });
+
+    it('should insert suppression comments', () => {
+        const document = create(['Sub Main(x As Integer)', '    x = 42', 'End Sub']);
+        const diagnostic = validateTextDocument(document)[0];
+        expect(applyCodeAction(document, diagnostic, 'Suppress VB0402 on this line')).to.equal(
+            "Sub Main(x As Integer)\n    ' vblint-disable-next-line VB0402\n    x = 42\nEnd Sub"
+        );
+        expect(applyCodeAction(document, diagnostic, 'Suppress VB0402 in this file')).to.equal(
+            "' vblint-disable-file VB0402\nSub Main(x As Integer)\n    x = 42\nEnd Sub"
+        );
+
+        const existing = create(["' vblint-disable-next-line VB0403", 'x = 42']);
+        const magic = validateTextDocument(existing).find((d) => d.code === Rules.MagicNumber.id)!;
+        expect(applyCodeAction(existing, magic, 'Suppress VB0402 on this line')).to.equal(
+            "' vblint-disable-next-line VB0403, VB0402\nx = 42"
+        );
+    });
+
+    it('should remove unused suppressions', () => {
+        const document = create([
+            "' vblint-disable-next-line VB0402, VB0403",
+            'x = 42',
+            "y = 1 ' vblint-disable-line VB0402"
+        ]);
+        const unused = validateTextDocument(document).filter(
+            (d) => d.code === Rules.UnusedSuppression.id
+        );
+        expect(unused).to.have.lengthOf(2);
+        expect(applyCodeAction(document, unused[0], 'Remove unused suppression')).to.equal(
+            "' vblint-disable-next-line VB0402\nx = 42\ny = 1 ' vblint-disable-line VB0402"
+        );
+        expect(applyCodeAction(document, unused[1], 'Remove unused suppression')).to.equal(
+            "' vblint-disable-next-line VB0402, VB0403\nx = 42\ny = 1"
+        );
+
+        const whole = create(["' vblint-disable-next-line", 'x = 1']);
+        const diagnostic = validateTextDocument(whole)[0];
+        expect(applyCodeAction(whole, diagnostic, 'Remove unused suppression')).to.equal('x = 1');
+    });
+});
@@ -0,0 +1,144 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SymbolKind } from 'vscode-languageserver/node';
+import {
+    parseSyntaxTree,
+    BlockKind,
+    BlockSyntax,
+    StatementKind,
+    StatementSyntax
+} from '../src/utils/syntaxTree';
+import { parseDocumentSymbols } from '../src/utils/parser';
+import { validateTextDocument } from '../src/features/validation';
+
+describe('Syntax Tree', () => {
+    it('should nest blocks and record their closing statements', () => {
+        const tree = parseSyntaxTree(
+            'Class C\n    Sub M(x As Integer)\n        If x > 0 Then\n        End If\n    End Sub\nEnd Class'
+        );
+        const cls = tree.root.members[0] as BlockSyntax;
+        expect(cls.kind).to.equal(BlockKind.Class);
+        expect(cls.end?.range.start.line).to.equal(5);
+
+        const sub = cls.members[0] as BlockSyntax;
+        expect(sub.kind).to.equal(BlockKind.Sub);
+        expect(sub.begin?.name?.text).to.equal('M');
+        expect(sub.begin?.parameters?.[0].type?.text).to.equal('Integer');
+        expect((sub.members[0] as BlockSyntax).kind).to.equal(BlockKind.If);
+    });
+
+    it('should split colon-separated statements', () => {
+        const tree = parseSyntaxTree('Dim a As Integer : Dim b As String');
+        expect(tree.statements).to.have.lengthOf(2);
+        expect(tree.statements[1].declarators?.[0].name.text).to.equal('b');
+        expect(tree.statements[1].range.start.character).to.equal(19);
+    });
+
+    it('should keep single-line If statements together', () => {
+        const tree = parseSyntaxTree('If x Then a = 1 : b = 2 Else c = 3');
+        expect(tree.statements).to.have.lengthOf(1);
+        expect(tree.statements[0].kind).to.equal(StatementKind.SingleLineIf);
+    });
+
+    it('should close the matching block for End Try and End While', () => {
+        const tree = parseSyntaxTree(
+            'Sub M()\n    Try\n        While True\n        End While\n    End Try\n    Dim x As Integer\nEnd Sub'
+        );
+        const sub = tree.root.members[0] as BlockSyntax;
+        expect(sub.end?.range.start.line).to.equal(6);
+        const tryBlock = sub.members[0] as BlockSyntax;
+        expect(tryBlock.kind).to.equal(BlockKind.Try);
+        expect(tryBlock.end?.range.start.line).to.equal(4);
+        expect((sub.members[1] as StatementSyntax).kind).to.equal(StatementKind.Variable);
+    });
+
+    it('should not open blocks for auto-properties and MustOverride members', () => {
+        const tree = parseSyntaxTree(
+            'MustInherit Class C\n    Public Property Name As String\n    MustOverride Sub Run()\n    Sub Other()\n    End Sub\nEnd Class'
+        );
+        const cls = tree.root.members[0] as BlockSyntax;
+        expect(cls.end).to.exist;
+        expect(cls.members.map((m) => m.nodeType)).to.deep.equal([
+            'statement',
+            'statement',
+            'block'
+        ]);
+    });
+
+    it('should keep unmatched closing statements as members', () => {
+        const tree = parseSyntaxTree('Sub M()\n    End If\nEnd Sub');
+        const sub = tree.root.members[0] as BlockSyntax;
+        expect(sub.end).to.exist;
+        expect((sub.members[0] as StatementSyntax).kind).to.equal(StatementKind.End);
+    });
+});
+
+describe('Parser - Syntax Tree Based', () => {
+    const parse = (text: string) =>
+        parseDocumentSymbols(TextDocument.create('file:///test.vb', 'vb', 1, text));
+
+    it('should ignore keywords and apostrophes inside strings', () => {
+        const symbols = parse(
+            'Sub Main()\n    Dim s As String = "Don\'t End Sub here"\n    Dim t As Integer\nEnd Sub'
+        );
+        expect(symbols).to.have.lengthOf(1);
+        expect(symbols[0].children!.map((c) => c.name)).to.deep.equal(['s', 't']);
+    });
+
+    it('should parse statements separated by colons', () => {
+        const symbols = parse('Dim a As Integer : Dim b As String');
+        expect(symbols.map((s) => s.name)).to.deep.equal(['a', 'b']);
+        expect(symbols[1].detail).to.equal('Dim b As String');
+        expect(symbols[1].selectionRange.start.character).to.equal(23);
+    });
+
+    it('should keep qualified and generic types in details', () => {
+        const symbols = parse('Dim sb As System.Text.StringBuilder\nDim items As List(Of Integer)');
+        expect(symbols[0].detail).to.equal('Dim sb As System.Text.StringBuilder');
+        expect(symbols[1].detail).to.equal('Dim items As List(Of Integer)');
+    });
+
+    it('should not treat type parameters as arguments', () => {
+        const symbols = parse(
+            'Class Box(Of T)\n    Sub Put(Of U)(item As U)\n    End Sub\nEnd Class'
+        );
+        expect(symbols[0].detail).to.equal('Class Box(Of T)');
+        expect(symbols[0].children).to.have.lengthOf(1);
+        const put = symbols[0].children![0];
+        expect(put.detail).to.equal('Sub Put(Of U)(item As U)');
+        expect(put.children!.map((c) => c.name)).to.deep.equal(['item']);
+    });
+
+    it('should keep later members inside a class after an auto-property', () => {
+        const symbols = parse(
+            'Class C\n    Public Property Name As String\n    Sub Run()\n    End Sub\nEnd Class\nModule M\nEnd Module'
+        );
+        expect(symbols.map((s) => s.name)).to.deep.equal(['C', 'M']);
+        expect(symbols[0].children!.map((c) => c.kind)).to.deep.equal([
+            SymbolKind.Property,
+            SymbolKind.Method
+        ]);
+    });
+
+    it('should count a lone carriage return as a line break', () => {
+        const lines = [
+            'Class C',
+            '    Sub Run()',
+            '        Dim x As Integer',
+            '    End Sub',
+            'End Class'
+        ];
+        for (const text of [
+            lines.join('\r'),
+            lines.slice(0, 2).join('\r\n') + '\r' + lines.slice(2).join('\r\n')
+        ]) {
+            const [cls] = parse(text);
+            expect(cls.range.end).to.deep.equal({ line: 4, character: 9 });
+            const [run] = cls.children!;
+            expect(run.range.start.line).to.equal(1);
+            expect(run.children![0].selectionRange.start).to.deep.equal({ line: 2, character: 12 });
+            const document = TextDocument.create('file:///test.vb', 'vb', 1, text);
+            expect(() => validateTextDocument(document)).to.not.throw();
+        }
+    });
+});
@@ -0,0 +1,112 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CancellationTokenSource, Position, SymbolKind } from 'vscode-languageserver/node';
+import { onPrepareTypeHierarchy, onSubtypes, onSupertypes } from '../src/features/typeHierarchy';
+import { OperationCancelledError } from '../src/utils/progress';
+
+describe('Type Hierarchy', () => {
+    const shapes = TextDocument.create(
+        'file:///Shapes.vb',
+        'vb',
+        1,
+        [
+            'Interface INamed',
+            'End Interface',
+            'Interface IShape',
+            '    Inherits INamed',
+            'End Interface',
+            'Class ShapeBase',
+            '    Implements IShape, IDisposable',
+            'End Class'
+        ].join('\n')
+    );
+    const circles = TextDocument.create(
+        'file:///Circles.vb',
+        'vb',
+        1,
+        [
+            'Namespace Geometry',
+            '    Class Circle',
+            '        Inherits ShapeBase',
+            '    End Class',
+            '    Class Ring',
+            '        Inherits Circle',
+            '    End Class',
+            'End Namespace',
+            'Module Main',
+            '    Dim c As Circle',
+            'End Module'
+        ].join('\n')
+    );
+    const all = [shapes, circles];
+
+    const prepare = (document: TextDocument, line: number, character: number) => {
+        const items = onPrepareTypeHierarchy(
+            { textDocument: { uri: document.uri }, position: Position.create(line, character) },
+            document,
+            all
+        );
+        expect(items).to.have.length(1);
+        return items![0];
+    };
+    const names = (items: { name: string }[]) => items.map((i) => i.name);
+
+    it('should prepare the hierarchy at declarations and type references', () => {
+        const declaration = prepare(shapes, 5, 8);
+        expect(declaration.name).to.equal('ShapeBase');
+        expect(declaration.kind).to.equal(SymbolKind.Class);
+        expect(declaration.uri).to.equal(shapes.uri);
+
+        const reference = prepare(circles, 9, 15);
+        expect(reference.name).to.equal('Circle');
+        expect(reference.uri).to.equal(circles.uri);
+        expect(reference.selectionRange.start).to.deep.equal({ line: 1, character: 10 });
+
+        const noType = onPrepareTypeHierarchy(
+            { textDocument: { uri: circles.uri }, position: Position.create(9, 8) },
+            circles,
+            all
+        );
+        expect(noType).to.be.null;
+    });
+
+    it('should list supertypes across files', () => {
+        const ring = prepare(circles, 4, 12);
+        expect(names(onSupertypes({ item: ring }, all))).to.deep.equal(['Circle']);
+
+        const circle = prepare(circles, 1, 12);
+        const [base] = onSupertypes({ item: circle }, all);
+        expect(base.name).to.equal('ShapeBase');
+        expect(base.uri).to.equal(shapes.uri);
+
+        // IDisposable is not declared in the workspace
+        expect(names(onSupertypes({ item: base }, all))).to.deep.equal(['IShape']);
+        const shape = prepare(shapes, 2, 12);
+        expect(names(onSupertypes({ item: shape }, all))).to.deep.equal(['INamed']);
+    });
+
+    it('should list subtypes across files', async () => {
+        const named = prepare(shapes, 0, 12);
+        const [shape] = await onSubtypes({ item: named }, all);
+        expect(shape.name).to.equal('IShape');
+        expect(names(await onSubtypes({ item: shape }, all))).to.deep.equal(['ShapeBase']);
+
+        const base = prepare(shapes, 5, 8);
+        const [circle] = await onSubtypes({ item: base }, all);
+        expect(circle.uri).to.equal(circles.uri);
+        expect(names(await onSubtypes({ item: circle }, all))).to.deep.equal(['Ring']);
+        expect(await onSubtypes({ item: prepare(circles, 4, 12) }, all)).to.be.empty;
+    });
+
+    it('should stop searching for subtypes when cancelled', async () => {
+        const source = new CancellationTokenSource();
+        source.cancel();
+        const item = prepare(shapes, 0, 12);
+        try {
+            await onSubtypes({ item }, all, { token: source.token });
+            expect.fail('expected the search to be cancelled');
+        } catch (error) {
+            expect(error).to.be.instanceOf(OperationCancelledError);
+        }
+    });
+});
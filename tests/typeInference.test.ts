@@ -0,0 +1,164 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Location, MarkupContent, Position } from 'vscode-languageserver/node';
+import { onCompletion } from '../src/features/completion';
+import { onHover } from '../src/features/hover';
+import { onSignatureHelp } from '../src/features/signatureHelp';
+import { onTypeDefinition } from '../src/features/typeDefinition';
+import { getExpressionBeforeDot, inferExpressionType } from '../src/utils/typeInference';
+
+describe('Type Inference', () => {
+    const personText = [
+        'Class Person',
+        '    Public Name As String',
+        '    Public Home As Address',
+        '    Public Function Greet(other As Person) As String',
+        '    End Function',
+        'End Class',
+        'Class Address',
+        '    Public City As String',
+        'End Class'
+    ].join('\n');
+    const person = TextDocument.create('file:///Person.vb', 'vb', 1, personText);
+
+    const create = (body: string[], header: string[] = []) =>
+        TextDocument.create(
+            'file:///Main.vb',
+            'vb',
+            1,
+            [
+                ...header,
+                'Module Main',
+                '    Function GetCount() As Integer',
+                '    End Function',
+                '    Function GetPeople() As Person()',
+                '    End Function',
+                '    Sub Run(values() As Double)',
+                ...body.map((line) => `        ${line}`),
+                '    End Sub',
+                'End Module'
+            ].join('\n')
+        );
+    const end = (document: TextDocument, line: number) =>
+        Position.create(line, document.getText().split('\n')[line].length);
+
+    it('should infer the types of expressions', () => {
+        const document = create([
+            'Dim p = New Person()',
+            'Dim n = GetCount()',
+            'Dim s = CType(p, Person).Home.City',
+            'Dim c = "a"c',
+            'x = 1'
+        ]);
+        const at = Position.create(10, 8);
+        const types = [
+            ['"text"', 'String'],
+            ['1.5', 'Double'],
+            ['10L', 'Long'],
+            ['&HFF', 'Integer'],
+            ['True', 'Boolean'],
+            ['#1/1/2020#', 'Date'],
+            ['n * 2', 'Integer'],
+            ['n / 2', 'Double'],
+            ['n + 1.5', 'Double'],
+            ['"a" & n', 'String'],
+            ['n > 2 AndAlso True', 'Boolean'],
+            ['p', 'Person'],
+            ['p.Home', 'Address'],
+            ['p.Home.City', 'String'],
+            ['p.Greet(p)', 'String'],
+            ['GetPeople()(0)', 'Person'],
+            ['GetPeople()(0).Name', 'String'],
+            ['values(0)', 'Double'],
+            ['DirectCast(o, Address)', 'Address'],
+            ['CInt("1")', 'Integer'],
+            ['New Integer() {1, 2}', 'Integer()'],
+            ['New Address().City', 'String'],
+            ['New Person().Home.City', 'String'],
+            ['New Person() With {.Name = "Ann"}', 'Person'],
+            ['{1, 2}', 'Integer()'],
+            ['If(True, p, Nothing)', 'Person'],
+            ['(n)', 'Integer'],
+            ['s', 'String'],
+            ['c', 'Char'],
+            ['Len("x")', 'Integer']
+        ];
+        for (const [expression, type] of types) {
+            expect(
+                inferExpressionType(expression, document, at, [document, person]),
+                expression
+            ).to.equal(type);
+        }
+        expect(inferExpressionType('Nothing', document, at)).to.be.undefined;
+        expect(inferExpressionType('unknown.Member', document, at)).to.be.undefined;
+    });
+
+    it('should find the expression before a member access dot', () => {
+        const text = 'x = New Person().Home.';
+        expect(getExpressionBeforeDot(text, text.length - 1)).to.equal('New Person().Home');
+        const call = 'Print(items(i).';
+        expect(getExpressionBeforeDot(call, call.length - 1)).to.equal('items(i)');
+    });
+
+    it('should complete members of inferred types', () => {
+        const document = create(['Dim p = New Person()', 'p.Home.']);
+        const items = onCompletion(
+            { textDocument: { uri: document.uri }, position: end(document, 7) },
+            document,
+            [document, person]
+        );
+        expect(items.map((i) => i.label)).to.deep.equal(['City']);
+
+        const people = create(['GetPeople()(0).']);
+        const members = onCompletion(
+            { textDocument: { uri: people.uri }, position: end(people, 6) },
+            people,
+            [people, person]
+        );
+        expect(members.map((i) => i.label)).to.include.members(['Name', 'Home', 'Greet']);
+
+        const created = create(['x = New Person().Home.']);
+        const home = onCompletion(
+            { textDocument: { uri: created.uri }, position: end(created, 6) },
+            created,
+            [created, person]
+        );
+        expect(home.map((i) => i.label)).to.deep.equal(['City']);
+    });
+
+    it('should not infer types without Option Infer', () => {
+        const document = create(['Dim p = New Person()', 'p.'], ['Option Infer Off']);
+        const items = onCompletion(
+            { textDocument: { uri: document.uri }, position: end(document, 8) },
+            document,
+            [document, person]
+        );
+        expect(items).to.be.empty;
+    });
+
+    it('should show inferred types in hover and navigate to them', () => {
+        const document = create(['Dim p = New Person()', 'Dim total = GetCount() + 1', 'p.Greet(']);
+        const all = [document, person];
+        const hover = onHover(
+            { textDocument: { uri: document.uri }, position: Position.create(7, 13) },
+            document,
+            all
+        );
+        expect((hover?.contents as MarkupContent).value).to.include('Dim total As Integer');
+
+        const location = onTypeDefinition(
+            { textDocument: { uri: document.uri }, position: Position.create(6, 12) },
+            document,
+            all
+        ) as Location;
+        expect(location.uri).to.equal(person.uri);
+        expect(location.range.start.line).to.equal(0);
+
+        const help = onSignatureHelp(
+            { textDocument: { uri: document.uri }, position: end(document, 8) },
+            document,
+            all
+        );
+        expect(help?.signatures[0].label).to.equal('Greet(other As Person)');
+    });
+});
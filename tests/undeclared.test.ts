@@ -0,0 +1,189 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostic } from 'vscode-languageserver/node';
+import { Rules } from '../src/rules';
+import { applyCodeAction, checkRule, createDocument } from './helpers';
+
+describe('Undeclared Identifiers', () => {
+    const undeclared = (document: TextDocument, allDocuments = [document]) =>
+        checkRule(document, Rules.UndeclaredIdentifier, allDocuments);
+    const names = (diagnostics: Diagnostic[]) => diagnostics.map((d) => d.data.name);
+
+    it('should report names that are not declared', () => {
+        const document = createDocument([
+            'Module Main',
+            '    Private count As Integer',
+            '    Sub Run(items() As String)',
+            '        Dim total As Integer',
+            '        total = count + Len(items(0)) + missing',
+            '        Helper(items, flag:=True)',
+            '        Unknown()',
+            '    End Sub',
+            '    Sub Helper(values() As String, flag As Boolean)',
+            '    End Sub',
+            'End Module'
+        ]);
+        const diagnostics = undeclared(document);
+        expect(names(diagnostics)).to.deep.equal(['missing', 'Unknown']);
+        expect(diagnostics[0].message).to.equal("'missing' is not declared.");
+        expect(diagnostics[0].range).to.deep.equal({
+            start: { line: 4, character: 40 },
+            end: { line: 4, character: 47 }
+        });
+    });
+
+    it('should resolve members of base types and globals of other files', () => {
+        const shapes = createDocument(
+            [
+                'Public Class Shape',
+                '    Protected name As String',
+                'End Class',
+                'Public Module Settings',
+                '    Public Scale As Double',
+                'End Module'
+            ],
+            'file:///Shapes.vb'
+        );
+        const document = createDocument([
+            'Class Circle',
+            '    Inherits Shape',
+            '    Sub Draw()',
+            '        name = "circle" & Scale',
+            '        Console.WriteLine(name)',
+            '    End Sub',
+            'End Class',
+            'Class MainForm',
+            '    Inherits Form',
+            '    Sub Init()',
+            '        Text = "Main"',
+            '    End Sub',
+            'End Class',
+            'Module Program',
+            '    Sub Main()',
+            '        Scale = 2',
+            '    End Sub',
+            'End Module'
+        ]);
+        expect(undeclared(document, [document, shapes])).to.be.empty;
+        // Without the other file, `Shape` is a base type outside the workspace too
+        const diagnostics = undeclared(document);
+        expect(names(diagnostics)).to.deep.equal(['Scale']);
+        expect(diagnostics[0].range.start.line).to.equal(15);
+    });
+
+    it('should know the variables declared by statements', () => {
+        const document = createDocument([
+            'Class Person',
+            '    Private name As String',
+            '    Property Title As String',
+            '        Get',
+            '            Return name',
+            '        End Get',
+            '        Set',
+            '            name = value',
+            '        End Set',
+            '    End Property',
+            '    Sub Run(items As List(Of Integer))',
+            '        For i = 0 To 10',
+            '        Next',
+            '        For Each item As Integer In items',
+            '        Next',
+            '        Try',
+            '        Catch ex As Exception',
+            '            Console.WriteLine(ex.Message)',
+            '        End Try',
+            '        Using reader As New StreamReader("a"), writer = New StreamWriter("b")',
+            '            writer.Write(reader.ReadToEnd())',
+            '        End Using',
+            '        Dim add = Function(a, b) a + b',
+            '        Dim large = From n In items Where n > 5 Select doubled = n * 2',
+            '        Dim t = GetType(Person)',
+            '        Dim o = CType(items, IEnumerable)',
+            '        If TypeOf o Is Person Then Exit Sub',
+            '        On Error GoTo Handler',
+            'Handler:',
+            '        Dim s$ = "a"',
+            '        s = Left$(s, 1)',
+            '    End Sub',
+            'End Class'
+        ]);
+        expect(undeclared(document)).to.be.empty;
+    });
+
+    it('should check only the embedded expressions of XML literals and axis properties', () => {
+        const document = createDocument([
+            'Module Main',
+            '    Sub Run(name As String, count As Integer)',
+            '        Dim x = <root><item>1</item></root>',
+            '        Dim y = <person id=<%= count %>><name><%= name & missing %></name><br/></person>',
+            '        Console.WriteLine(<empty/>)',
+            '        Dim z = <item id=<%= count %>><name>x</name></item>',
+            '        Dim child = z.<name>.Value & z...<name>.Value & z.<name>.@lang & z.@id',
+            '        Console.WriteLine(z.@<id> & z.<name>(0).@<lang>)',
+            '        If count < total Then Return',
+            '    End Sub',
+            'End Module'
+        ]);
+        expect(names(undeclared(document))).to.deep.equal(['missing', 'total']);
+    });
+
+    it('should honor Option Explicit and Option Infer', () => {
+        const lines = [
+            'Module Main',
+            '    Sub Run()',
+            '        x = 1',
+            '    End Sub',
+            'End Module'
+        ];
+        expect(undeclared(createDocument(['Option Explicit Off', ...lines]))).to.be.empty;
+        expect(names(undeclared(createDocument(lines)))).to.deep.equal(['x']);
+
+        const loop = ['Module Main', '    Sub Run()', '        For i = 0 To 10', '        Next'];
+        expect(undeclared(createDocument([...loop, '    End Sub', 'End Module']))).to.be.empty;
+        const noInfer = createDocument(['Option Infer Off', ...loop, '    End Sub', 'End Module']);
+        expect(names(undeclared(noInfer))).to.deep.equal(['i']);
+    });
+
+    it('should declare the variable locally or as a field', () => {
+        const document = createDocument([
+            'Class Counter',
+            '    Implements IDisposable',
+            '    Shared Sub Run()',
+            '        If True Then',
+            '            total = 5',
+            '        End If',
+            '        Console.WriteLine(label)',
+            '    End Sub',
+            'End Class'
+        ]);
+        const [total, label] = undeclared(document);
+        expect(applyCodeAction(document, total, "Declare 'total' as a local variable")).to.equal(
+            [
+                'Class Counter',
+                '    Implements IDisposable',
+                '    Shared Sub Run()',
+                '        If True Then',
+                '            Dim total As Integer',
+                '            total = 5',
+                '        End If',
+                '        Console.WriteLine(label)',
+                '    End Sub',
+                'End Class'
+            ].join('\n')
+        );
+        expect(applyCodeAction(document, label, "Declare 'label' as a field")).to.equal(
+            [
+                'Class Counter',
+                '    Implements IDisposable',
+                '    Private Shared label As Object',
+                '    Shared Sub Run()',
+                '        If True Then',
+                '            total = 5',
+                '        End If',
+                '        Console.WriteLine(label)',
+                '    End Sub',
+                'End Class'
+            ].join('\n')
+        );
+    });
+});
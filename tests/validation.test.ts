@@ -2,6 +2,7 @@ import { expect } from 'chai';
 import { validateTextDocument } from '../src/features/validation';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { DiagnosticSeverity } from 'vscode-languageserver/node';
+import { Rules } from '../src/rules';
 
 function createDoc(content: string): TextDocument {
     return TextDocument.create('test://test.vb', 'vb', 1, content);
@@ -51,6 +52,7 @@ End Sub
     it('should not report error for valid If...Then', () => {
         const doc = createDoc(`
 Sub Test()
+    Dim x As Integer
     If x = 1 Then
         x = 2
     End If
@@ -63,6 +65,7 @@ End Sub
     it('should not report error for valid Single Line If', () => {
         const doc = createDoc(`
 Sub Test()
+    Dim x As Integer
     If x = 1 Then x = 2
 End Sub
 `);
@@ -73,6 +76,7 @@ End Sub
     it('should detect mismatched blocks', () => {
         const doc = createDoc(`
 Sub Test()
+    Dim x As Integer
     If x = 1 Then
     End Sub
 `);
@@ -84,6 +88,7 @@ Sub Test()
     it('should handle nested blocks correctly', () => {
         const doc = createDoc(`
 Sub Test()
+    Dim x As Integer
     If x = 1 Then
         For i = 1 To 10
             x = x + 1
@@ -98,6 +103,7 @@ End Sub
     it('should handle Select Case blocks', () => {
         const doc = createDoc(`
 Sub Test()
+    Dim x As Integer
     Select Case x
         Case 1
             x = 2
@@ -113,6 +119,7 @@ End Sub
     it('should handle Do Loop blocks', () => {
         const doc = createDoc(`
 Sub Test()
+    Dim x As Integer
     Do
         x = x + 1
     Loop
@@ -125,6 +132,7 @@ End Sub
     it('should ignore comments in validation', () => {
         const doc = createDoc(`
 Sub Test() ' Start of Sub
+    Dim x As Integer
     If x = 1 Then ' check condition
         x = 2
     End If ' end if
@@ -137,6 +145,7 @@ End Sub ' End of Sub
     it('should handle While Wend blocks', () => {
         const doc = createDoc(`
 Sub Test()
+    Dim x As Integer
     While x < 10
         x = x + 1
     Wend
@@ -149,6 +158,7 @@ End Sub
     it('should detect unclosed nested block', () => {
         const doc = createDoc(`
 Sub Test()
+    Dim x As Integer
     If x = 1 Then
         For i = 1 To 10
             x = x + 1
@@ -166,6 +176,7 @@ End Sub
         const doc = createDoc(`
 Sub Test()
     Dim s As String
+    Dim x As Integer
     s = "Don't"
     If s = "Don't" Then
         x = 2
@@ -236,4 +247,32 @@ End Sub
         const warning = diagnostics.find(d => d.message.includes('Unreachable code detected'));
         expect(warning).to.exist;
     });
+
+    it('should report overloads only when their parameter types are the same', () => {
+        const doc = createDoc(`
+Class Calculator
+    Public Sub New()
+    End Sub
+    Public Sub New(seed As Integer)
+    End Sub
+    Public Overloads Function Add(a As Integer, b As Integer) As Integer
+    End Function
+    Public Overloads Function Add(a As String, b As String) As String
+    End Function
+    Public Overloads Function Add(x As Integer, y As Integer) As Long
+    End Function
+    Private Sub New(value As Integer)
+    End Sub
+    Private Total As Integer
+    Sub Total()
+    End Sub
+End Class
+`);
+        const duplicates = validateTextDocument(doc).filter(d => d.code === Rules.DuplicateDeclaration.id);
+        expect(duplicates.map(d => [d.message, d.range.start.line])).to.deep.equal([
+            ["Symbol 'Add' is already declared in this scope.", 10],
+            ["Symbol 'New' is already declared in this scope.", 12],
+            ["Symbol 'Total' is already declared in this scope.", 15]
+        ]);
+    });
 });
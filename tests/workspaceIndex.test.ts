@@ -0,0 +1,116 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Position } from 'vscode-languageserver/node';
+import { WorkspaceIndex, isSourceFile } from '../src/utils/workspaceIndex';
+import { onRenameRequest } from '../src/features/rename';
+import { validateTextDocument } from '../src/features/validation';
+
+describe('Workspace Index', () => {
+    let root: string;
+    let rootUri: string;
+    const uriOf = (...parts: string[]) => pathToFileURL(path.join(root, ...parts)).href;
+    const write = (relative: string, text: string) => {
+        const filePath = path.join(root, relative);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, text);
+    };
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'vb-index-'));
+        rootUri = pathToFileURL(root).href;
+        write(
+            'Module1.vb',
+            'Module Module1\n    Sub Main()\n        Helper()\n    End Sub\nEnd Module'
+        );
+        write(
+            path.join('Lib', 'Helpers.vb'),
+            'Module Helpers\n    Sub Helper()\n    End Sub\nEnd Module'
+        );
+        write(path.join('bin', 'Generated.vb'), 'Module Generated\nEnd Module');
+        write('readme.txt', 'not code');
+    });
+
+    afterEach(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should index .vb files and skip build output', async () => {
+        const index = new WorkspaceIndex();
+        expect(await index.indexFolder(rootUri)).to.equal(2);
+        const uris = index.getDocuments([]).map((d) => d.uri);
+        expect(uris).to.have.members([uriOf('Module1.vb'), uriOf('Lib', 'Helpers.vb')]);
+        expect(isSourceFile('file:///a/Form1.VB')).to.be.true;
+    });
+
+    it('should prefer open documents over their on-disk version', async () => {
+        const index = new WorkspaceIndex();
+        await index.indexFolder(rootUri);
+        const open = TextDocument.create(uriOf('Module1.vb'), 'vb', 5, 'Module Edited\nEnd Module');
+        const documents = index.getDocuments([open]);
+        expect(documents).to.have.lengthOf(2);
+        expect(documents[0]).to.equal(open);
+    });
+
+    it('should update and remove files', async () => {
+        const index = new WorkspaceIndex();
+        await index.indexFolder(rootUri);
+
+        write(
+            path.join('Lib', 'Helpers.vb'),
+            'Module Helpers\n    Sub Renamed()\n    End Sub\nEnd Module'
+        );
+        await index.updateFile(uriOf('Lib', 'Helpers.vb'));
+        const helpers = index.getDocuments([]).find((d) => d.uri === uriOf('Lib', 'Helpers.vb'));
+        expect(helpers!.getText()).to.contain('Renamed');
+        expect(helpers!.version).to.equal(1);
+
+        index.removeFile(uriOf('Module1.vb'));
+        expect(index.has(uriOf('Module1.vb'))).to.be.false;
+
+        fs.unlinkSync(path.join(root, 'Lib', 'Helpers.vb'));
+        await index.updateFile(uriOf('Lib', 'Helpers.vb'));
+        expect(index.size).to.equal(0);
+    });
+
+    it('should remove the files of a workspace folder', async () => {
+        const index = new WorkspaceIndex();
+        await index.indexFolder(rootUri);
+        index.removeFolder(pathToFileURL(path.join(root, 'Lib')).href);
+        expect(index.getDocuments([]).map((d) => d.uri)).to.deep.equal([uriOf('Module1.vb')]);
+    });
+
+    it('should let rename and validation see files that are not open', async () => {
+        const index = new WorkspaceIndex();
+        await index.indexFolder(rootUri);
+        const open = index.getDocuments([]).find((d) => d.uri === uriOf('Module1.vb'))!;
+        const allDocuments = index.getDocuments([open]);
+
+        const edit = await onRenameRequest(
+            {
+                textDocument: { uri: open.uri },
+                position: Position.create(2, 10),
+                newName: 'Assist'
+            },
+            open,
+            allDocuments
+        );
+        expect(Object.keys(edit!.changes!)).to.have.members([
+            uriOf('Module1.vb'),
+            uriOf('Lib', 'Helpers.vb')
+        ]);
+
+        write('Duplicate.vb', 'Module Helpers\nEnd Module');
+        await index.updateFile(uriOf('Duplicate.vb'));
+        const diagnostics = validateTextDocument(open, index.getDocuments([open]));
+        expect(diagnostics.map((d) => d.message)).to.be.empty;
+        const duplicate = index.getDocuments([]).find((d) => d.uri === uriOf('Duplicate.vb'))!;
+        const duplicateDiagnostics = validateTextDocument(duplicate, index.getDocuments([]));
+        expect(duplicateDiagnostics.map((d) => d.message).join('\n')).to.contain(
+            'is already declared'
+        );
+    });
+});